@@ -15,6 +15,9 @@ const nextConfig = {
     return config
   },
   
+  // PDFサムネイル生成に使うネイティブ・ワーカー依存のパッケージはバンドルしない
+  serverExternalPackages: ['pdfjs-dist', '@napi-rs/canvas'],
+
   // 開発時のパフォーマンス最適化
   experimental: {
     optimizePackageImports: ['react', 'react-dom'],
@@ -12,7 +12,6 @@ async function main() {
       name: 'テストユーザー',
       subscriptionTier: 'free',
       aiUsageCount: 0,
-      aiUsageLimit: 20,
     },
   })
 
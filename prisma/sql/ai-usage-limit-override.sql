@@ -0,0 +1,11 @@
+-- aiUsageLimit を「プランの上限より大きい場合のみ適用」から「設定されていればプランの上限の代わりに使う」に変えたときの一度きりの移行
+-- 以前のデフォルト値（20）などプランの上限以下の値は効果がなかったため、未設定（NULL）に戻してプランの上限を使わせる
+-- 上限の値は src/lib/plans.ts の aiMonthlyQuota と一致させること
+-- 適用: npx prisma db execute --file prisma/sql/ai-usage-limit-override.sql --schema prisma/schema.prisma
+UPDATE users
+SET "aiUsageLimit" = NULL
+WHERE "aiUsageLimit" <= CASE "subscriptionTier"
+  WHEN 'team' THEN 1000
+  WHEN 'pro' THEN 300
+  ELSE 20
+END;
@@ -0,0 +1,16 @@
+-- アイテム全文検索用のtsvector式インデックス
+-- Prismaのスキーマでは式インデックスを定義できないため、db push 後にこのファイルを適用する
+-- 式は src/lib/search-utils.ts の itemSearchDocument と一致させること（一致しない場合インデックスが使われない）
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS items_search_vector_idx ON items USING GIN (
+  to_tsvector(
+    'simple'::regconfig,
+    coalesce(name, '') || ' ' ||
+    coalesce(description, '') || ' ' ||
+    coalesce(manufacturer, '') || ' ' ||
+    coalesce(category, '') || ' ' ||
+    coalesce(notes, '') || ' ' ||
+    coalesce("purchaseLocation", '')
+  )
+);
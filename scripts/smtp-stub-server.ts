@@ -0,0 +1,152 @@
+/**
+ * ローカル開発用のSMTPスタブサーバー
+ * 受信したメールを実際には送信せず、デコードしてコンソールに出力する
+ *
+ * 使い方:
+ *   npm run smtp:stub
+ *   .env に SMTP_HOST="localhost" SMTP_PORT="1025" を設定してアプリを起動する
+ */
+import net from 'net'
+
+const PORT = Number(process.env.SMTP_STUB_PORT) || 1025
+
+// quoted-printable形式の文字列をデコードする
+function decodeQuotedPrintable(value: string): string {
+  const text = value.replace(/=\r?\n/g, '')
+  const bytes: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.slice(i + 1, i + 3)
+    if (text[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16))
+      i += 2
+    } else {
+      bytes.push(...Buffer.from(text[i]))
+    }
+  }
+  return Buffer.from(bytes).toString('utf8')
+}
+
+// 「=?UTF-8?B?...?=」「=?UTF-8?Q?...?=」形式のヘッダーをデコードする
+function decodeHeader(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?UTF-8\?([BQ])\?([^?]*)\?=/gi, (_, encoding: string, encoded: string) =>
+      encoding.toUpperCase() === 'B'
+        ? Buffer.from(encoded, 'base64').toString('utf8')
+        : decodeQuotedPrintable(encoded.replace(/_/g, ' '))
+    )
+}
+
+// 受信したメール（ヘッダーと本文）を読みやすい形で出力する
+function printMessage(envelope: { from: string; to: string[] }, data: string) {
+  const separator = data.indexOf('\r\n\r\n')
+  const headerText = separator >= 0 ? data.slice(0, separator) : data
+  const rawBody = separator >= 0 ? data.slice(separator + 4) : ''
+
+  const headers = new Map<string, string>()
+  // 折り返されたヘッダー行をつなげてから読む
+  for (const line of headerText.replace(/\r\n[ \t]+/g, ' ').split('\r\n')) {
+    const index = line.indexOf(':')
+    if (index > 0) {
+      headers.set(line.slice(0, index).toLowerCase(), line.slice(index + 1).trim())
+    }
+  }
+
+  const encoding = headers.get('content-transfer-encoding')?.toLowerCase()
+  const body = encoding === 'base64'
+    ? Buffer.from(rawBody.replace(/\s+/g, ''), 'base64').toString('utf8')
+    : encoding === 'quoted-printable'
+      ? decodeQuotedPrintable(rawBody)
+      : rawBody
+
+  console.log('='.repeat(60))
+  console.log(`MAIL FROM: ${envelope.from}`)
+  console.log(`RCPT TO:   ${envelope.to.join(', ')}`)
+  console.log(`Subject:   ${decodeHeader(headers.get('subject') ?? '')}`)
+  console.log('-'.repeat(60))
+  console.log(body.replace(/\r\n/g, '\n'))
+  console.log('='.repeat(60))
+}
+
+const server = net.createServer(socket => {
+  let buffer = ''
+  let inData = false
+  let dataLines: string[] = []
+  let envelope = { from: '', to: [] as string[] }
+
+  const reply = (line: string) => socket.write(`${line}\r\n`)
+
+  const handleLine = (line: string) => {
+    if (inData) {
+      if (line === '.') {
+        inData = false
+        printMessage(envelope, dataLines.join('\r\n'))
+        dataLines = []
+        envelope = { from: '', to: [] }
+        reply('250 OK: message accepted')
+      } else {
+        // ドットスタッフィングを戻す
+        dataLines.push(line.startsWith('..') ? line.slice(1) : line)
+      }
+      return
+    }
+
+    const command = line.split(' ')[0].toUpperCase()
+    switch (command) {
+      case 'EHLO':
+        reply('250-localhost')
+        reply('250-AUTH PLAIN LOGIN')
+        reply('250 8BITMIME')
+        break
+      case 'HELO':
+        reply('250 localhost')
+        break
+      case 'AUTH':
+        // 認証情報は検証しない
+        reply('235 Authentication successful')
+        break
+      case 'MAIL':
+        envelope.from = line.match(/<([^>]*)>/)?.[1] ?? ''
+        reply('250 OK')
+        break
+      case 'RCPT':
+        envelope.to.push(line.match(/<([^>]*)>/)?.[1] ?? '')
+        reply('250 OK')
+        break
+      case 'DATA':
+        inData = true
+        reply('354 End data with <CR><LF>.<CR><LF>')
+        break
+      case 'RSET':
+        envelope = { from: '', to: [] }
+        reply('250 OK')
+        break
+      case 'NOOP':
+        reply('250 OK')
+        break
+      case 'QUIT':
+        reply('221 Bye')
+        socket.end()
+        break
+      default:
+        reply('502 Command not implemented')
+    }
+  }
+
+  reply('220 localhost SMTP stub ready')
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString('utf8')
+    let index: number
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index)
+      buffer = buffer.slice(index + 2)
+      handleLine(line)
+    }
+  })
+  socket.on('error', error => console.error('SMTP stub connection error:', error))
+})
+
+server.listen(PORT, () => {
+  console.log(`SMTP stub server listening on port ${PORT}`)
+})
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createHash } from 'crypto'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  deleteAccountSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { deleteImageBlobs } from '@/lib/image-utils'
+import { toDocumentBlobSource } from '@/lib/document-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * DELETE /api/account - アカウントと全データを削除
+ * ユーザーをカスケード削除して削除記録を残した後、Blob上の画像・書類とサムネイルを削除する
+ * （DBの削除に失敗した場合にファイルだけが消えないよう、Blobの削除は最後にベストエフォートで行う）
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = deleteAccountSchema.parse(body)
+
+    // 本人確認（ログイン中のメールアドレスと一致すること）
+    if (data.email.trim().toLowerCase() !== session.user.email.toLowerCase()) {
+      return ErrorResponses.badRequest('メールアドレスがログイン中のアカウントと一致しません', 'email')
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: {
+        id: true,
+        email: true,
+        _count: {
+          select: {
+            folders: true,
+            items: true,
+          },
+        },
+      },
+    })
+
+    if (!user) {
+      return ErrorResponses.notFound('アカウント')
+    }
+
+    const requestedAt = new Date()
+
+    // 削除対象の画像・書類を取得
+    const [images, documents] = await Promise.all([
+      prisma.itemImage.findMany({
+        where: { item: { userId: user.id } },
+        select: {
+          url: true,
+          thumbnailSmall: true,
+          thumbnailMedium: true,
+          thumbnailLarge: true,
+        },
+      }),
+      prisma.itemDocument.findMany({
+        where: { item: { userId: user.id } },
+        select: { url: true, thumbnailUrl: true },
+      }),
+    ])
+
+    // 削除記録の作成とユーザーの削除（フォルダ・アイテム等はカスケード削除）
+    // Blobの削除結果は削除後に記録する
+    const [pendingLog] = await prisma.$transaction([
+      prisma.accountDeletionLog.create({
+        data: {
+          userId: user.id,
+          emailHash: createHash('sha256').update(user.email.toLowerCase()).digest('hex'),
+          status: 'pending',
+          folderCount: user._count.folders,
+          itemCount: user._count.items,
+          imageCount: images.length,
+          failedBlobUrls: [],
+          requestedAt,
+        },
+      }),
+      prisma.user.delete({
+        where: { id: user.id },
+      }),
+    ])
+
+    // Vercel Blobから画像・書類とサムネイルを削除
+    // 個別のBlob削除に失敗しても続行し、失敗したURLを記録する
+    const blobResult = await deleteImageBlobs([...images, ...documents.map(toDocumentBlobSource)])
+    const status = blobResult.failed.length > 0 ? 'partial' : 'completed'
+
+    let deletionLog = pendingLog
+    try {
+      deletionLog = await prisma.accountDeletionLog.update({
+        where: { id: pendingLog.id },
+        data: {
+          status,
+          blobDeletedCount: blobResult.deleted.length,
+          blobFailedCount: blobResult.failed.length,
+          failedBlobUrls: blobResult.failed.map(failure => failure.url),
+          completedAt: new Date(),
+        },
+      })
+    } catch (error) {
+      // アカウントは削除済みのため、記録の更新失敗はログのみ
+      console.error('Failed to update account deletion log:', error)
+    }
+
+    return NextResponse.json({
+      message: status === 'completed'
+        ? 'アカウントと全てのデータを削除しました'
+        : 'アカウントを削除しましたが、一部の画像ファイルを削除できませんでした',
+      status,
+      deletionId: deletionLog.id,
+      summary: {
+        folders: deletionLog.folderCount,
+        items: deletionLog.itemCount,
+        images: deletionLog.imageCount,
+        blobsDeleted: blobResult.deleted.length,
+        blobsFailed: blobResult.failed.length,
+      },
+      failedBlobs: blobResult.failed,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'アカウント削除の確認内容に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('DELETE /api/account error:', error)
+    return ErrorResponses.internalError('アカウントの削除に失敗しました')
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  updateUserPlanSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { isAdminEmail, getAdminUserSummary } from '@/lib/admin-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * PUT /api/admin/users/[id]/plan - ユーザーのプラン（と個別のAI利用回数の上限）を変更（管理者のみ）
+ * 変更したユーザーのセッションには次回のセッション更新時に反映される
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+    if (!isAdminEmail(session.user.email)) {
+      return ErrorResponses.forbidden()
+    }
+
+    const { id } = await params
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = updateUserPlanSchema.parse(body)
+
+    const existing = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+    if (!existing) {
+      return ErrorResponses.notFound('ユーザー')
+    }
+
+    await prisma.user.update({
+      where: { id },
+      data,
+    })
+
+    const summary = await getAdminUserSummary({ id })
+    return NextResponse.json(summary)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'プラン変更のデータに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('PUT /api/admin/users/[id]/plan error:', error)
+    return ErrorResponses.internalError('プランの変更に失敗しました')
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  adminUserLookupSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { isAdminEmail, getAdminUserSummary } from '@/lib/admin-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/admin/users?email= - ユーザーのプランと利用状況を取得（管理者のみ）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+    if (!isAdminEmail(session.user.email)) {
+      return ErrorResponses.forbidden()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { email } = adminUserLookupSchema.parse({
+      email: searchParams.get('email') ?? '',
+    })
+
+    const summary = await getAdminUserSummary({ email })
+    if (!summary) {
+      return ErrorResponses.notFound('ユーザー')
+    }
+
+    return NextResponse.json(summary)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'ユーザー検索の条件に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/admin/users error:', error)
+    return ErrorResponses.internalError('ユーザー情報の取得に失敗しました')
+  }
+}
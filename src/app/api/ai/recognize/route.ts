@@ -1,10 +1,12 @@
 import { NextRequest } from 'next/server'
 import { auth } from '@/lib/auth'
-import { recognizeItemFromImage, checkRateLimit } from '@/lib/ai/gemini'
+import { recognizeItemFromImages, checkRateLimit } from '@/lib/ai/service'
 import { aiRecognizeRequestSchema } from '@/lib/validations/ai'
 import { categorizeAIError, formatErrorResponse, AIErrorCode } from '@/lib/ai/errors'
 import { prisma } from '@/lib/db'
-import { logAIUsage, normalizeUserId } from '@/lib/ai/usage'
+import { normalizeUserId } from '@/lib/ai/usage'
+import { withAIQuota } from '@/lib/ai/quota'
+import { assertFeature } from '@/lib/entitlements'
 
 export async function POST(req: NextRequest) {
   try {
@@ -37,13 +39,15 @@ export async function POST(req: NextRequest) {
       }, { status: 400 })
     }
 
-    const { imageBase64, mimeType } = validationResult.data
+    const images = validationResult.data
 
-    // AI画像認識実行
-    const result = await recognizeItemFromImage(imageBase64)
-    
-    // 使用履歴を記録（非同期で実行、エラーがあっても処理は継続）
-    logAIUsage(normalizedUserId, 'image_recognition')
+    // プランで画像認識が利用できるか確認
+    await assertFeature(normalizedUserId, 'aiRecognition')
+
+    // 月間の利用枠を消費してAI画像認識実行（複数の画像も1回として数える。失敗時は利用枠を返却）
+    const result = await withAIQuota(normalizedUserId, 'image_recognition', () =>
+      recognizeItemFromImages(images)
+    )
     
     return Response.json({
       success: true,
@@ -51,7 +55,9 @@ export async function POST(req: NextRequest) {
         suggestions: result.suggestions,
         category: result.category,
         manufacturer: result.manufacturer,
-        description: result.description
+        description: result.description,
+        confidence: result.confidence,
+        imageCount: images.length
       }
     })
 
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
-import { searchItemPrices, savePriceHistory, checkRateLimit } from '@/lib/ai/gemini'
+import { searchItemPrices, savePriceHistory, checkRateLimit } from '@/lib/ai/service'
 import { prisma } from '@/lib/prisma'
+import { withAIQuota } from '@/lib/ai/quota'
+import { AIError, categorizeAIError, formatErrorResponse } from '@/lib/ai/errors'
+import { EntitlementError, assertFeature } from '@/lib/entitlements'
 
 interface SearchPricesRequest {
   itemId: string
@@ -33,6 +36,7 @@ export async function POST(req: NextRequest) {
     const item = await prisma.item.findFirst({
       where: {
         id: itemId,
+        deletedAt: null,
         user: {
           email: session.user.email
         }
@@ -54,8 +58,14 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // AI価格調査を実行
-    const searchResult = await searchItemPrices(itemName, manufacturer)
+    // プランで価格調査が利用できるか確認
+    await assertFeature(item.userId, 'priceSearch')
+
+    // 月間の利用枠を消費してAI価格調査を実行（失敗時は利用枠を返却）
+    const searchResult = await withAIQuota(item.userId, 'price_search', () =>
+      searchItemPrices(itemName, manufacturer),
+      itemId
+    )
 
     // 価格履歴として保存
     await savePriceHistory(itemId, searchResult, session.user.email)
@@ -72,6 +82,15 @@ export async function POST(req: NextRequest) {
 
   } catch (error) {
     console.error('AI価格調査エラー:', error)
+
+    // 利用上限・プランの制限など分類済みのエラー
+    if (error instanceof AIError || error instanceof EntitlementError) {
+      const aiError = categorizeAIError(error)
+      return NextResponse.json(
+        { success: false, ...formatErrorResponse(aiError) },
+        { status: aiError.statusCode }
+      )
+    }
     
     return NextResponse.json(
       { 
@@ -1,6 +1,9 @@
 import { NextRequest } from 'next/server'
 import { auth } from '@/lib/auth'
-import { GoogleGenAI } from '@google/genai'
+import { getAIProvider, getAIProviderName } from '@/lib/ai/provider'
+import { withAIQuota } from '@/lib/ai/quota'
+import { normalizeUserId } from '@/lib/ai/usage'
+import { AIError, formatErrorResponse } from '@/lib/ai/errors'
 
 export async function GET(req: NextRequest) {
   try {
@@ -10,8 +13,9 @@ export async function GET(req: NextRequest) {
       return Response.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // 環境変数チェック
-    if (!process.env.GEMINI_API_KEY) {
+    // 環境変数チェック（モックプロバイダーはAPIキー不要）
+    const providerName = getAIProviderName()
+    if (providerName === 'gemini' && !process.env.GEMINI_API_KEY) {
       return Response.json({ 
         status: 'error',
         message: 'GEMINI_API_KEY is not configured',
@@ -19,30 +23,29 @@ export async function GET(req: NextRequest) {
       }, { status: 500 })
     }
 
-    // API接続テスト  
-    const ai = new GoogleGenAI({ 
-      apiKey: process.env.GEMINI_API_KEY
-    })
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents: [
-        'テスト用のシンプルな挨拶を日本語で返してください。20文字以内で。'
-      ]
-    })
-
-    const text = response.text?.trim() || 'レスポンステキストが取得できませんでした'
+    // API接続テスト（月間の利用枠を1回分消費する）
+    const normalizedUserId = await normalizeUserId(session.user.id || '', session.user.email || '')
+    const provider = getAIProvider()
+    const text = await withAIQuota(normalizedUserId, 'connection_test', () =>
+      provider.describe('テスト用のシンプルな挨拶を日本語で返してください。20文字以内で。')
+    )
     
     return Response.json({
       status: 'success',
-      message: 'Gemini API connection successful',
+      message: `${provider.name} provider connection successful`,
       testResponse: text || 'No response text',
-      apiKeyStatus: 'configured',
-      model: 'gemini-2.5-flash-lite'
+      apiKeyStatus: process.env.GEMINI_API_KEY ? 'configured' : 'missing',
+      provider: provider.name,
+      model: provider.models.describe
     })
 
   } catch (error) {
     console.error('AI test API error:', error)
+
+    // 利用上限など分類済みのエラー
+    if (error instanceof AIError) {
+      return Response.json(formatErrorResponse(error), { status: error.statusCode })
+    }
     
     let errorDetails = 'Unknown error'
     let statusCode = 500
@@ -62,7 +65,7 @@ export async function GET(req: NextRequest) {
     
     return Response.json({
       status: 'error',
-      message: 'Gemini API connection failed',
+      message: 'AI provider connection failed',
       error: errorDetails,
       apiKeyStatus: process.env.GEMINI_API_KEY ? 'configured' : 'missing'
     }, { status: statusCode })
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { getAIUsageStats, normalizeUserId } from '@/lib/ai/usage'
+import { getAIQuotaStatus } from '@/lib/ai/quota'
 
 export async function GET(req: NextRequest) {
   try {
@@ -75,19 +76,21 @@ export async function GET(req: NextRequest) {
     const normalizedUserId = await normalizeUserId(session.user.id || '', session.user.email || '')
     console.log('Normalized user ID:', normalizedUserId)
     
-    // AI使用状況を取得
-    const usageStats = await getAIUsageStats(normalizedUserId, 'month')
+    // AI使用状況と今月の利用枠を取得
+    const [usageStats, quota] = await Promise.all([
+      getAIUsageStats(normalizedUserId, 'month'),
+      getAIQuotaStatus(user.id),
+    ])
     
-    const now = new Date()
     return Response.json({
-      currentUsage: usageStats.totalUsage,
-      monthlyUsage: usageStats.totalUsage,
+      currentUsage: quota.used,
+      monthlyUsage: quota.used,
       imageRecognitionUsage: usageStats.imageRecognitionUsage,
       priceSearchUsage: usageStats.priceSearchUsage,
-      usageLimit: user.aiUsageLimit,
-      subscriptionTier: user.subscriptionTier,
-      remainingQuota: Math.max(0, user.aiUsageLimit - usageStats.totalUsage),
-      resetDate: new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString(),
+      usageLimit: quota.limit,
+      subscriptionTier: quota.subscriptionTier,
+      remainingQuota: quota.remaining,
+      resetDate: quota.resetAt.toISOString(),
       recentLogs: usageStats.recentLogs
     })
 
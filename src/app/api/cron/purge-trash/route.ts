@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ErrorResponses } from '@/lib/validations'
+import { purgeExpiredTrash, TRASH_RETENTION_DAYS } from '@/lib/trash-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/cron/purge-trash - 保持期間を過ぎたゴミ箱の中身を完全に削除（定期実行用）
+ * Authorization: Bearer <CRON_SECRET> が必要
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return ErrorResponses.unauthorized()
+    }
+
+    const result = await purgeExpiredTrash()
+
+    if (result.failedBlobs.length > 0) {
+      console.warn('Failed to delete some blobs during trash purge:', result.failedBlobs)
+    }
+
+    return NextResponse.json({
+      retentionDays: TRASH_RETENTION_DAYS,
+      deletedFoldersCount: result.folders,
+      deletedItemsCount: result.items,
+      failedBlobsCount: result.failedBlobs.length,
+    })
+  } catch (error) {
+    console.error('GET /api/cron/purge-trash error:', error)
+    return ErrorResponses.internalError('ゴミ箱の定期削除に失敗しました')
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ErrorResponses } from '@/lib/validations'
+import { processDueReminders } from '@/lib/reminder-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/cron/reminders - 通知日時を過ぎたリマインダーの通知を配信（定期実行用）
+ * Authorization: Bearer <CRON_SECRET> が必要
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return ErrorResponses.unauthorized()
+    }
+
+    const result = await processDueReminders()
+
+    if (result.failedDeliveries > 0) {
+      console.warn(`Failed to deliver ${result.failedDeliveries} reminder notification(s)`)
+    }
+
+    return NextResponse.json({
+      processedCount: result.processed,
+      notifiedCount: result.notified,
+      skippedCount: result.skipped,
+      failedDeliveriesCount: result.failedDeliveries,
+    })
+  } catch (error) {
+    console.error('GET /api/cron/reminders error:', error)
+    return ErrorResponses.internalError('リマインダーの定期実行に失敗しました')
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  updateCustomFieldSchema,
+  customFieldIdSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { customFieldDefinitionSelect, findConflictingCustomField } from '@/lib/custom-field-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * PUT /api/custom-fields/[id] - カスタムフィールド定義更新（型は変更不可）
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = customFieldIdSchema.parse(resolvedParams)
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = updateCustomFieldSchema.parse(body)
+
+    // 定義の存在確認
+    const existingField = await prisma.customFieldDefinition.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+      },
+    })
+
+    if (!existingField) {
+      return ErrorResponses.notFound('カスタムフィールド')
+    }
+
+    if (existingField.type === 'select' && data.options && data.options.length === 0) {
+      return ErrorResponses.badRequest('選択式のフィールドには選択肢を1つ以上設定してください', 'options')
+    }
+
+    // 名前または対象カテゴリ変更時の重複チェック
+    const name = data.name ?? existingField.name
+    const category = data.category !== undefined ? data.category : existingField.category
+    if (name !== existingField.name || category !== existingField.category) {
+      const conflictingField = await findConflictingCustomField(dbUser.id, name, category, id)
+      if (conflictingField) {
+        return ErrorResponses.conflict('同名のカスタムフィールドが既に存在します')
+      }
+    }
+
+    const customField = await prisma.customFieldDefinition.update({
+      where: { id },
+      data: {
+        ...data,
+        // select以外は選択肢を持たない
+        options: existingField.type === 'select' ? data.options : undefined,
+      },
+      select: customFieldDefinitionSelect,
+    })
+
+    return NextResponse.json(customField)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'カスタムフィールドの更新データに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('PUT /api/custom-fields/[id] error:', error)
+    return ErrorResponses.internalError('カスタムフィールドの更新に失敗しました')
+  }
+}
+
+/**
+ * DELETE /api/custom-fields/[id] - カスタムフィールド定義削除（入力済みの値も削除される）
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = customFieldIdSchema.parse(resolvedParams)
+
+    // 定義の存在確認
+    const customField = await prisma.customFieldDefinition.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+      },
+    })
+
+    if (!customField) {
+      return ErrorResponses.notFound('カスタムフィールド')
+    }
+
+    await prisma.customFieldDefinition.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'カスタムフィールドを削除しました' })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'カスタムフィールドIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('DELETE /api/custom-fields/[id] error:', error)
+    return ErrorResponses.internalError('カスタムフィールドの削除に失敗しました')
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  createCustomFieldSchema,
+  getCustomFieldsSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import {
+  customFieldDefinitionSelect,
+  customFieldDefinitionOrderBy,
+  findApplicableCustomFields,
+  findConflictingCustomField,
+} from '@/lib/custom-field-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/custom-fields - カスタムフィールド定義一覧取得（category指定時はそのカテゴリに適用される定義のみ）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // クエリパラメータのバリデーション
+    const { category } = getCustomFieldsSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const customFields = category !== undefined
+      ? await findApplicableCustomFields(prisma, dbUser.id, category)
+      : await prisma.customFieldDefinition.findMany({
+        where: { userId: dbUser.id },
+        select: customFieldDefinitionSelect,
+        orderBy: customFieldDefinitionOrderBy,
+      })
+
+    return NextResponse.json({ customFields })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'カスタムフィールド取得のパラメータに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/custom-fields error:', error)
+    return ErrorResponses.internalError('カスタムフィールドの取得に失敗しました')
+  }
+}
+
+/**
+ * POST /api/custom-fields - カスタムフィールド定義作成
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = createCustomFieldSchema.parse(body)
+
+    // 重複名チェック
+    const conflictingField = await findConflictingCustomField(dbUser.id, data.name, data.category)
+    if (conflictingField) {
+      return ErrorResponses.conflict('同名のカスタムフィールドが既に存在します')
+    }
+
+    const customField = await prisma.customFieldDefinition.create({
+      data: {
+        ...data,
+        // select以外は選択肢を持たない
+        options: data.type === 'select' ? data.options : [],
+        userId: dbUser.id,
+      },
+      select: customFieldDefinitionSelect,
+    })
+
+    return NextResponse.json(customField, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'カスタムフィールドの作成データに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/custom-fields error:', error)
+    return ErrorResponses.internalError('カスタムフィールドの作成に失敗しました')
+  }
+}
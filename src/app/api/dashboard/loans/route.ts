@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { ErrorResponses, handleDatabaseError } from '@/lib/validations'
+import { ensureUserExists } from '@/lib/user-helper'
+import { overdueLoanWhere } from '@/lib/item-loan-utils'
+
+export const runtime = 'nodejs'
+
+// ダッシュボードに表示する返却期限切れの貸出の件数
+const OVERDUE_LOANS_LIMIT = 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * GET /api/dashboard/loans - 貸出状況（貸出中・返却期限切れの件数と、期限切れの古い順の貸出）
+ */
+export async function GET() {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    const now = new Date()
+    const activeWhere = {
+      userId: dbUser.id,
+      returnedAt: null,
+      item: { deletedAt: null },
+    }
+    const overdueWhere = { ...activeWhere, ...overdueLoanWhere(now) }
+
+    const [activeCount, overdueCount, overdueLoans] = await Promise.all([
+      prisma.itemLoan.count({ where: activeWhere }),
+      prisma.itemLoan.count({ where: overdueWhere }),
+      prisma.itemLoan.findMany({
+        where: overdueWhere,
+        select: {
+          id: true,
+          borrower: true,
+          lentAt: true,
+          dueDate: true,
+          item: {
+            select: {
+              id: true,
+              name: true,
+              images: {
+                select: { url: true, thumbnailSmall: true },
+                orderBy: { order: 'asc' },
+                take: 1,
+              },
+            },
+          },
+        },
+        orderBy: { dueDate: 'asc' },
+        take: OVERDUE_LOANS_LIMIT,
+      }),
+    ])
+
+    return NextResponse.json({
+      activeCount,
+      overdueCount,
+      overdueLoans: overdueLoans.map(loan => ({
+        id: loan.id,
+        borrower: loan.borrower,
+        lentAt: loan.lentAt,
+        dueDate: loan.dueDate,
+        overdueDays: loan.dueDate ? Math.floor((now.getTime() - loan.dueDate.getTime()) / DAY_MS) : 0,
+        item: {
+          id: loan.item.id,
+          name: loan.item.name,
+          thumbnail: loan.item.images[0]?.thumbnailSmall || loan.item.images[0]?.url || null,
+        },
+      })),
+    })
+  } catch (error) {
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/dashboard/loans error:', error)
+    return ErrorResponses.internalError('貸出状況の取得に失敗しました')
+  }
+}
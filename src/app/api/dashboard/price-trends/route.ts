@@ -30,7 +30,8 @@ export async function GET(request: NextRequest) {
     const priceHistories = await prisma.priceHistory.findMany({
       where: {
         item: {
-          userId: dbUser.id
+          userId: dbUser.id,
+          deletedAt: null
         },
         searchDate: {
           gte: sixMonthsAgo
@@ -80,6 +81,7 @@ export async function GET(request: NextRequest) {
     const categoryStats = await prisma.item.findMany({
       where: {
         userId: dbUser.id,
+        deletedAt: null,
         priceHistory: {
           some: {
             isActive: true
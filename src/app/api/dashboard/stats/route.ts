@@ -35,7 +35,7 @@ export async function GET(request: NextRequest) {
     const [itemCount, categoryStats, folderCount, recentItems, recentUpdatedItems, folderStats] = await Promise.all([
       // 総アイテム数
       prisma.item.count({
-        where: { userId: dbUser.id }
+        where: { userId: dbUser.id, deletedAt: null }
       }),
       
       // カテゴリ別統計
@@ -43,6 +43,7 @@ export async function GET(request: NextRequest) {
         by: ['category'],
         where: { 
           userId: dbUser.id,
+          deletedAt: null,
           category: { not: null }
         },
         _count: { category: true },
@@ -51,12 +52,12 @@ export async function GET(request: NextRequest) {
       
       // フォルダ数
       prisma.folder.count({
-        where: { userId: dbUser.id }
+        where: { userId: dbUser.id, deletedAt: null }
       }),
       
       // 最近追加したアイテム（5件）
       prisma.item.findMany({
-        where: { userId: dbUser.id },
+        where: { userId: dbUser.id, deletedAt: null },
         orderBy: { createdAt: 'desc' },
         take: 5,
         include: {
@@ -79,7 +80,8 @@ export async function GET(request: NextRequest) {
       // 最近更新したアイテム（5件）
       prisma.item.findMany({
         where: { 
-          userId: dbUser.id
+          userId: dbUser.id,
+          deletedAt: null
         },
         orderBy: { updatedAt: 'desc' },
         take: 5,
@@ -105,14 +107,14 @@ export async function GET(request: NextRequest) {
         WITH RECURSIVE folder_depth AS (
           SELECT id, name, "parentId", 1 as depth, "userId"
           FROM folders
-          WHERE "parentId" IS NULL AND "userId" = ${dbUser.id}
+          WHERE "parentId" IS NULL AND "userId" = ${dbUser.id} AND "deletedAt" IS NULL
           
           UNION ALL
           
           SELECT f.id, f.name, f."parentId", fd.depth + 1, f."userId"
           FROM folders f
           INNER JOIN folder_depth fd ON f."parentId" = fd.id
-          WHERE f."userId" = ${dbUser.id}
+          WHERE f."userId" = ${dbUser.id} AND f."deletedAt" IS NULL
         )
         SELECT depth, COUNT(*) as count
         FROM folder_depth
@@ -127,6 +129,7 @@ export async function GET(request: NextRequest) {
     const uncategorizedCount = await prisma.item.count({
       where: { 
         userId: dbUser.id,
+        deletedAt: null,
         folderId: null
       }
     })
@@ -26,6 +26,7 @@ export async function GET(request: NextRequest) {
     const purchaseTotalResult = await prisma.item.aggregate({
       where: {
         userId: dbUser.id,
+        deletedAt: null,
         purchasePrice: {
           not: null
         }
@@ -38,7 +39,8 @@ export async function GET(request: NextRequest) {
     // 最新の価格履歴データを取得
     const itemsWithLatestPrices = await prisma.item.findMany({
       where: {
-        userId: dbUser.id
+        userId: dbUser.id,
+        deletedAt: null
       },
       include: {
         priceHistory: {
@@ -115,7 +117,8 @@ export async function GET(request: NextRequest) {
     const recentPriceUpdates = await prisma.priceHistory.findMany({
       where: {
         item: {
-          userId: dbUser.id
+          userId: dbUser.id,
+          deletedAt: null
         },
         isActive: true
       },
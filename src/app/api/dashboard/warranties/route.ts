@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { ErrorResponses, handleDatabaseError } from '@/lib/validations'
+import { ensureUserExists } from '@/lib/user-helper'
+import { expiringWarrantyWhere, WARRANTY_EXPIRING_DAYS } from '@/lib/document-utils'
+
+export const runtime = 'nodejs'
+
+// ダッシュボードに表示する保証期限が近いアイテムの件数
+const EXPIRING_WARRANTIES_LIMIT = 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * GET /api/dashboard/warranties - 30日以内に保証期限が切れるアイテム（期限の近い順）
+ */
+export async function GET() {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    const now = new Date()
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    const where = {
+      userId: dbUser.id,
+      deletedAt: null,
+      ...expiringWarrantyWhere(WARRANTY_EXPIRING_DAYS, now),
+    }
+
+    const [expiringCount, items] = await Promise.all([
+      prisma.item.count({ where }),
+      prisma.item.findMany({
+        where,
+        select: {
+          id: true,
+          name: true,
+          warrantyExpiresAt: true,
+          images: {
+            select: { url: true, thumbnailSmall: true },
+            orderBy: { order: 'asc' },
+            take: 1,
+          },
+        },
+        orderBy: { warrantyExpiresAt: 'asc' },
+        take: EXPIRING_WARRANTIES_LIMIT,
+      }),
+    ])
+
+    return NextResponse.json({
+      days: WARRANTY_EXPIRING_DAYS,
+      expiringCount,
+      items: items.map(item => ({
+        id: item.id,
+        name: item.name,
+        warrantyExpiresAt: item.warrantyExpiresAt,
+        daysLeft: item.warrantyExpiresAt
+          ? Math.max(0, Math.ceil((item.warrantyExpiresAt.getTime() - today.getTime()) / DAY_MS))
+          : 0,
+        thumbnail: item.images[0]?.thumbnailSmall || item.images[0]?.url || null,
+      })),
+    })
+  } catch (error) {
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/dashboard/warranties error:', error)
+    return ErrorResponses.internalError('保証期限の取得に失敗しました')
+  }
+}
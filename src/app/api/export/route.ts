@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  smartFolderScopeSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { buildAccountExport } from '@/lib/export-utils'
+import { findSmartFolderItemIds, SmartFolderQueryError } from '@/lib/smart-folder-utils'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+/**
+ * GET /api/export - アカウントの全データをZIPでエクスポート
+ * アイテム・フォルダ・画像・価格履歴・AI使用履歴と画像ファイルを含む
+ * smartFolderId を指定するとスマートフォルダに一致するアイテムのみをエクスポートする
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // スマートフォルダ指定時は一致するアイテムに絞り込む
+    const { smartFolderId } = smartFolderScopeSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const scope = smartFolderId ? await findSmartFolderItemIds(dbUser.id, smartFolderId) : undefined
+    if (scope === null) {
+      return ErrorResponses.notFound('スマートフォルダ')
+    }
+
+    const { zip, manifest } = await buildAccountExport(dbUser.id, scope)
+    const buffer = await zip.generateAsync({
+      type: 'nodebuffer',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 },
+    })
+
+    const date = manifest.exportedAt.slice(0, 10).replace(/-/g, '')
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="plat-dot-export-${scope ? 'smart-folder-' : ''}${date}.zip"`,
+        'Content-Length': buffer.length.toString(),
+        'Cache-Control': 'no-store',
+        'X-Export-Missing-Files': manifest.missingFiles.length.toString(),
+      },
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'エクスポートのパラメータに誤りがあります')
+    }
+
+    if (error instanceof SmartFolderQueryError) {
+      return ErrorResponses.badRequest(error.message)
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/export error:', error)
+    return ErrorResponses.internalError('データのエクスポートに失敗しました')
+  }
+}
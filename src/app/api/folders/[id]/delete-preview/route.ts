@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  folderIdSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { buildFolderDeletionPreview } from '@/lib/folder-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/folders/[id]/delete-preview - フォルダ削除時の影響範囲を取得
+ * 削除モードごとに移動・削除されるフォルダ/アイテム/画像の数を返す
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = folderIdSchema.parse(resolvedParams)
+
+    const preview = await buildFolderDeletionPreview(dbUser.id, id)
+    if (!preview) {
+      return ErrorResponses.notFound('フォルダ')
+    }
+
+    // 内部用のID一覧は返さない
+    const { subtreeFolderIds: _subtreeFolderIds, ...response } = preview
+
+    return NextResponse.json(response)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'フォルダIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/folders/[id]/delete-preview error:', error)
+    return ErrorResponses.internalError('フォルダ削除のプレビュー取得に失敗しました')
+  }
+}
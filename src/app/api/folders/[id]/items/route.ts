@@ -106,6 +106,7 @@ export async function GET(
       where: {
         id: folderId,
         userId: dbUser.id,
+        deletedAt: null,
       },
       select: {
         id: true,
@@ -129,6 +130,7 @@ export async function GET(
     const where: any = {
       userId: dbUser.id,
       folderId: folderId,
+      deletedAt: null,
     }
 
     // 検索条件の追加（SQLite対応 - 大文字小文字区別なし）
@@ -4,12 +4,15 @@ import { prisma } from '@/lib/prisma'
 import { 
   updateFolderSchema, 
   folderIdSchema, 
+  deleteFolderSchema,
   validationErrorResponse, 
   ErrorResponses, 
   handleDatabaseError 
 } from '@/lib/validations'
 import { ZodError } from 'zod'
 import { ensureUserExists } from '@/lib/user-helper'
+import { buildFolderDeletionPreview } from '@/lib/folder-utils'
+import { recordItemRevisions, revisionFieldSelect } from '@/lib/revision-utils'
 
 export const runtime = 'nodejs'
 
@@ -44,6 +47,7 @@ export async function GET(
       where: {
         id,
         userId: dbUser.id,
+        deletedAt: null,
       },
       include: {
         parent: {
@@ -54,6 +58,9 @@ export async function GET(
           },
         },
         children: {
+          where: {
+            deletedAt: null,
+          },
           select: {
             id: true,
             name: true,
@@ -62,8 +69,8 @@ export async function GET(
             updatedAt: true,
             _count: {
               select: {
-                items: true,
-                children: true,
+                items: { where: { deletedAt: null } },
+                children: { where: { deletedAt: null } },
               },
             },
           },
@@ -72,6 +79,9 @@ export async function GET(
           },
         },
         items: {
+          where: {
+            deletedAt: null,
+          },
           select: {
             id: true,
             name: true,
@@ -86,8 +96,8 @@ export async function GET(
         },
         _count: {
           select: {
-            items: true,
-            children: true,
+            items: { where: { deletedAt: null } },
+            children: { where: { deletedAt: null } },
           },
         },
       },
@@ -148,6 +158,7 @@ export async function PUT(
       where: {
         id,
         userId: dbUser.id,
+        deletedAt: null,
       },
     })
 
@@ -168,6 +179,7 @@ export async function PUT(
           where: {
             id: data.parentId,
             userId: dbUser.id,
+            deletedAt: null,
           },
           include: {
             parent: {
@@ -207,6 +219,7 @@ export async function PUT(
       const duplicateFolder = await prisma.folder.findFirst({
         where: {
           userId: dbUser.id,
+          deletedAt: null,
           name: data.name,
           parentId: data.parentId !== undefined ? data.parentId : existingFolder.parentId,
           id: {
@@ -238,8 +251,8 @@ export async function PUT(
         },
         _count: {
           select: {
-            items: true,
-            children: true,
+            items: { where: { deletedAt: null } },
+            children: { where: { deletedAt: null } },
           },
         },
       },
@@ -262,7 +275,8 @@ export async function PUT(
 }
 
 /**
- * DELETE /api/folders/[id] - フォルダ削除
+ * DELETE /api/folders/[id]?mode= - フォルダをゴミ箱へ移動
+ * modeでサブフォルダとアイテムの扱いを指定する（デフォルトはサブフォルダがある場合に削除せず、アイテムは未分類へ移動する）
  */
 export async function DELETE(
   request: NextRequest,
@@ -283,71 +297,118 @@ export async function DELETE(
       image: session.user.image,
     })
 
-    // IDのバリデーション
+    // IDと削除モードのバリデーション
     const resolvedParams = await params
     const { id } = folderIdSchema.parse(resolvedParams)
+    const { mode } = deleteFolderSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
 
-    // フォルダの存在確認
-    const folder = await prisma.folder.findFirst({
-      where: {
-        id,
+    // ゴミ箱へ移動（同時に移動したフォルダ・アイテムは同じ日時で記録し、まとめて復元できるようにする）
+    const effect = await prisma.$transaction(async (tx) => {
+      // 集計から移動までの間にフォルダ・アイテムが追加・移動されないよう、ユーザーのフォルダをロックしてから集計する
+      await tx.$queryRaw`SELECT id FROM folders WHERE "userId" = ${dbUser.id} AND "deletedAt" IS NULL FOR UPDATE`
+
+      const preview = await buildFolderDeletionPreview(dbUser.id, id, tx)
+      if (!preview) {
+        return null
+      }
+
+      const modeEffect = preview.modes[mode]
+      if (!modeEffect.allowed) {
+        return modeEffect
+      }
+
+      const { subtreeFolderIds } = preview
+      const parentId = preview.folder.parentId
+      const now = new Date()
+
+      // 移動・ゴミ箱へ移動するアイテム（履歴の記録用）
+      const affectedItems = await tx.item.findMany({
+        where: {
+          folderId: mode === 'move_to_parent' ? id : { in: subtreeFolderIds },
+          userId: dbUser.id,
+          deletedAt: null,
+        },
+        select: { ...revisionFieldSelect, id: true },
+      })
+
+      switch (mode) {
+        case 'move_to_parent':
+          // サブフォルダとアイテムを親フォルダ（ルートの場合は最上位・未分類）へ移動
+          await tx.folder.updateMany({
+            where: { parentId: id, userId: dbUser.id, deletedAt: null },
+            data: { parentId, updatedAt: now },
+          })
+          await tx.item.updateMany({
+            where: { folderId: id, userId: dbUser.id, deletedAt: null },
+            data: { folderId: parentId, updatedAt: now },
+          })
+          break
+
+        case 'reject':
+        case 'move_to_uncategorized':
+          // サブフォルダを含む全アイテムを未分類（folderId = null）に移動（rejectではサブフォルダはない）
+          await tx.item.updateMany({
+            where: { folderId: { in: subtreeFolderIds }, userId: dbUser.id, deletedAt: null },
+            data: { folderId: null, updatedAt: now },
+          })
+          break
+
+        case 'delete_all':
+          // サブフォルダを含む全アイテムをゴミ箱へ移動（画像は保持期間経過後に削除）
+          await tx.item.updateMany({
+            where: { folderId: { in: subtreeFolderIds }, userId: dbUser.id, deletedAt: null },
+            data: { deletedAt: now },
+          })
+          break
+      }
+
+      await recordItemRevisions(tx, affectedItems.map(item => ({
+        itemId: item.id,
         userId: dbUser.id,
-      },
-      include: {
-        children: {
-          select: {
-            id: true,
-            name: true,
-          },
+        action: mode === 'delete_all' ? 'delete' : 'move',
+        before: item,
+        after: mode === 'delete_all'
+          ? item
+          : { ...item, folderId: mode === 'move_to_parent' ? parentId : null },
+      })))
+
+      // フォルダをゴミ箱へ移動（move_to_parentとrejectでは対象フォルダのみ）
+      await tx.folder.updateMany({
+        where: {
+          id: { in: mode === 'move_to_uncategorized' || mode === 'delete_all' ? subtreeFolderIds : [id] },
+          userId: dbUser.id,
+          deletedAt: null,
         },
-        items: true,
-      },
+        data: { deletedAt: now },
+      })
+
+      return modeEffect
+    }, {
+      timeout: 30000,
     })
 
-    if (!folder) {
+    if (!effect) {
       return ErrorResponses.notFound('フォルダ')
     }
 
-    // 子フォルダが存在する場合はエラー
-    if (folder.children.length > 0) {
-      const childNames = folder.children.map(child => child.name).slice(0, 3).join('、')
-      const moreCount = folder.children.length > 3 ? `他${folder.children.length - 3}個` : ''
-      const childrenInfo = moreCount ? `${childNames}、${moreCount}` : childNames
-      
-      return ErrorResponses.badRequest(
-        `このフォルダには${folder.children.length}個のサブフォルダ（${childrenInfo}）が存在するため削除できません。先にサブフォルダを削除してください。`
-      )
+    if (!effect.allowed) {
+      return mode === 'move_to_parent'
+        ? ErrorResponses.conflict(effect.reason)
+        : ErrorResponses.badRequest(effect.reason, 'mode')
     }
 
-    // トランザクションでフォルダ削除とアイテム移動を実行
-    await prisma.$transaction(async (tx) => {
-      // フォルダ内のアイテムを未分類（folderId = null）に移動
-      if (folder.items.length > 0) {
-        await tx.item.updateMany({
-          where: {
-            folderId: id,
-            userId: dbUser.id,
-          },
-          data: {
-            folderId: null,
-            updatedAt: new Date(),
-          },
-        })
-      }
-
-      // フォルダを削除
-      await tx.folder.delete({
-        where: { id },
-      })
-    })
-
-    return NextResponse.json({ 
-      message: 'フォルダが削除されました',
-      movedItemsCount: folder.items.length,
+    return NextResponse.json({
+      message: 'フォルダをゴミ箱に移動しました',
+      mode,
+      movedItemsCount: effect.movedItems,
+      movedFoldersCount: effect.movedFolders,
+      deletedFoldersCount: effect.deletedFolders,
+      deletedItemsCount: effect.deletedItems,
+      deletedImagesCount: effect.deletedImages,
     })
   } catch (error) {
     if (error instanceof ZodError) {
-      return validationErrorResponse(error, 'フォルダIDの形式に誤りがあります')
+      return validationErrorResponse(error, 'フォルダ削除の指定に誤りがあります')
     }
     
     // データベースエラーの場合
@@ -66,6 +66,7 @@ export async function POST(request: NextRequest) {
       where: {
         id: data.folderId,
         userId: dbUser.id,
+        deletedAt: null,
       },
       select: {
         id: true,
@@ -95,6 +96,7 @@ export async function POST(request: NextRequest) {
         where: {
           id: data.targetParentId,
           userId: dbUser.id,
+          deletedAt: null,
         },
         select: {
           id: true,
@@ -126,6 +128,7 @@ export async function POST(request: NextRequest) {
     const duplicateFolder = await prisma.folder.findFirst({
       where: {
         userId: dbUser.id,
+        deletedAt: null,
         name: folderToMove.name,
         parentId: data.targetParentId,
         id: {
@@ -156,8 +159,8 @@ export async function POST(request: NextRequest) {
         },
         _count: {
           select: {
-            items: true,
-            children: true,
+            items: { where: { deletedAt: null } },
+            children: { where: { deletedAt: null } },
           },
         },
       },
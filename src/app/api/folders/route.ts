@@ -39,6 +39,7 @@ export async function GET(request: NextRequest) {
     // Prismaクエリの構築
     const where: any = {
       userId: dbUser.id,
+      deletedAt: null,
     }
 
     // 親フォルダでフィルタリング
@@ -61,6 +62,9 @@ export async function GET(request: NextRequest) {
 
     if (params.includeChildren) {
       include.children = {
+        where: {
+          deletedAt: null,
+        },
         select: {
           id: true,
           name: true,
@@ -69,7 +73,7 @@ export async function GET(request: NextRequest) {
           updatedAt: true,
           _count: params.includeItemCount ? {
             select: {
-              items: true,
+              items: { where: { deletedAt: null } },
             },
           } : undefined,
         },
@@ -82,8 +86,8 @@ export async function GET(request: NextRequest) {
     if (params.includeItemCount) {
       include._count = {
         select: {
-          items: true,
-          children: true,
+          items: { where: { deletedAt: null } },
+          children: { where: { deletedAt: null } },
         },
       }
     }
@@ -142,6 +146,7 @@ export async function POST(request: NextRequest) {
         where: {
           id: data.parentId,
           userId: dbUser.id,
+          deletedAt: null,
         },
         include: {
           parent: {
@@ -175,6 +180,7 @@ export async function POST(request: NextRequest) {
         userId: dbUser.id,
         name: data.name,
         parentId: data.parentId || null,
+        deletedAt: null,
       },
     })
 
@@ -199,8 +205,8 @@ export async function POST(request: NextRequest) {
         },
         _count: {
           select: {
-            items: true,
-            children: true,
+            items: { where: { deletedAt: null } },
+            children: { where: { deletedAt: null } },
           },
         },
       },
@@ -65,6 +65,7 @@ export async function GET(request: NextRequest) {
         where: {
           userId: dbUser.id,
           parentId: parentId,
+          deletedAt: null,
         },
         select: {
           id: true,
@@ -75,8 +76,8 @@ export async function GET(request: NextRequest) {
           updatedAt: true,
           _count: params.includeItemCount ? {
             select: {
-              items: true,
-              children: true,
+              items: { where: { deletedAt: null } },
+              children: { where: { deletedAt: null } },
             },
           } : undefined,
         },
@@ -109,6 +110,7 @@ export async function GET(request: NextRequest) {
         where: {
           id: folderId,
           userId: dbUser.id,
+          deletedAt: null,
         },
         select: {
           id: true,
@@ -131,7 +133,7 @@ export async function GET(request: NextRequest) {
 
     // 統計情報を計算
     const totalFolders = await prisma.folder.count({
-      where: { userId: dbUser.id },
+      where: { userId: dbUser.id, deletedAt: null },
     })
 
     const depthStats = await prisma.$queryRaw<Array<{depth: bigint, count: bigint}>>`
@@ -139,7 +141,7 @@ export async function GET(request: NextRequest) {
         -- Base case: root folders (depth 1)
         SELECT "id", "name", "parentId", 1 as depth, "userId"
         FROM "folders"
-        WHERE "parentId" IS NULL AND "userId" = ${dbUser.id}
+        WHERE "parentId" IS NULL AND "userId" = ${dbUser.id} AND "deletedAt" IS NULL
         
         UNION ALL
         
@@ -147,7 +149,7 @@ export async function GET(request: NextRequest) {
         SELECT f."id", f."name", f."parentId", fd.depth + 1, f."userId"
         FROM "folders" f
         INNER JOIN folder_depths fd ON f."parentId" = fd."id"
-        WHERE fd.depth < 3 AND f."userId" = ${dbUser.id}
+        WHERE fd.depth < 3 AND f."userId" = ${dbUser.id} AND f."deletedAt" IS NULL
       )
       SELECT depth, COUNT(*) as count
       FROM folder_depths
@@ -9,7 +9,7 @@ import {
 import { deleteImageSchema } from '@/lib/validations/upload'
 import { ZodError } from 'zod'
 import { ensureUserExists } from '@/lib/user-helper'
-import { del } from '@vercel/blob'
+import { deleteImageBlobs } from '@/lib/image-utils'
 
 export const runtime = 'nodejs'
 
@@ -65,25 +65,8 @@ export async function DELETE(
     }
 
     // Vercel Blobから画像とサムネイルを削除
-    const urlsToDelete = [image.url]
-    
-    // サムネイルURLも削除対象に追加
-    if (image.thumbnailSmall) urlsToDelete.push(image.thumbnailSmall)
-    if (image.thumbnailMedium) urlsToDelete.push(image.thumbnailMedium)
-    if (image.thumbnailLarge) urlsToDelete.push(image.thumbnailLarge)
-    
-    // 全てのURLを並列で削除
-    await Promise.allSettled(
-      urlsToDelete.map(async (url) => {
-        try {
-          await del(url)
-          console.log(`Deleted blob: ${url}`)
-        } catch (error) {
-          console.warn(`Failed to delete blob: ${url}`, error)
-          // 個別のBlob削除に失敗してもデータベース削除は続行
-        }
-      })
-    )
+    // 個別のBlob削除に失敗してもデータベース削除は続行
+    await deleteImageBlobs([image])
 
     // データベースから画像情報を削除
     await prisma.itemImage.delete({
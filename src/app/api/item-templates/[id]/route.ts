@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  updateItemTemplateSchema,
+  itemTemplateIdSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import {
+  itemTemplateSelect,
+  formatItemTemplate,
+  isTemplateFolderAvailable,
+} from '@/lib/item-template-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * PUT /api/item-templates/[id] - アイテムテンプレート更新（名前・保存する項目・表示順）
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemTemplateIdSchema.parse(resolvedParams)
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const { name, sortOrder, ...fields } = updateItemTemplateSchema.parse(body)
+
+    // テンプレートの存在確認
+    const existingTemplate = await prisma.itemTemplate.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+      },
+    })
+
+    if (!existingTemplate) {
+      return ErrorResponses.notFound('テンプレート')
+    }
+
+    // 名前変更時の重複チェック
+    if (name && name !== existingTemplate.name) {
+      const conflictingTemplate = await prisma.itemTemplate.findFirst({
+        where: {
+          userId: dbUser.id,
+          name,
+          id: { not: id },
+        },
+      })
+
+      if (conflictingTemplate) {
+        return ErrorResponses.conflict('同名のテンプレートが既に存在します')
+      }
+    }
+
+    // 表示順のみの更新でなければ、保存する項目をまとめて置き換える
+    const replacesFields = name !== undefined || Object.values(fields).some(value => value !== undefined)
+    if (replacesFields && !(await isTemplateFolderAvailable(dbUser.id, fields.folderId))) {
+      return ErrorResponses.notFound('フォルダ')
+    }
+
+    const template = await prisma.itemTemplate.update({
+      where: { id },
+      data: {
+        name,
+        sortOrder,
+        ...(replacesFields && {
+          category: fields.category ?? null,
+          manufacturer: fields.manufacturer ?? null,
+          condition: fields.condition ?? null,
+          purchaseLocation: fields.purchaseLocation ?? null,
+          notes: fields.notes ?? null,
+          folderId: fields.folderId ?? null,
+        }),
+      },
+      select: itemTemplateSelect,
+    })
+
+    return NextResponse.json(formatItemTemplate(template))
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'テンプレートの更新データに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('PUT /api/item-templates/[id] error:', error)
+    return ErrorResponses.internalError('テンプレートの更新に失敗しました')
+  }
+}
+
+/**
+ * DELETE /api/item-templates/[id] - アイテムテンプレート削除
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemTemplateIdSchema.parse(resolvedParams)
+
+    // テンプレートの存在確認
+    const template = await prisma.itemTemplate.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+      },
+    })
+
+    if (!template) {
+      return ErrorResponses.notFound('テンプレート')
+    }
+
+    await prisma.itemTemplate.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'テンプレートを削除しました' })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'テンプレートIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('DELETE /api/item-templates/[id] error:', error)
+    return ErrorResponses.internalError('テンプレートの削除に失敗しました')
+  }
+}
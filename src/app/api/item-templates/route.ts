@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  createItemTemplateSchema,
+  MAX_ITEM_TEMPLATES,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import {
+  itemTemplateSelect,
+  itemTemplateOrderBy,
+  formatItemTemplate,
+  isTemplateFolderAvailable,
+} from '@/lib/item-template-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/item-templates - アイテムテンプレート一覧取得
+ */
+export async function GET() {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    const templates = await prisma.itemTemplate.findMany({
+      where: { userId: dbUser.id },
+      select: itemTemplateSelect,
+      orderBy: itemTemplateOrderBy,
+    })
+
+    return NextResponse.json({
+      templates: templates.map(formatItemTemplate),
+    })
+  } catch (error) {
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/item-templates error:', error)
+    return ErrorResponses.internalError('テンプレートの取得に失敗しました')
+  }
+}
+
+/**
+ * POST /api/item-templates - アイテムテンプレート作成（新規登録フォームに入力する値を名前を付けて保存）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = createItemTemplateSchema.parse(body)
+
+    const [existingTemplate, templateCount, folderAvailable] = await Promise.all([
+      prisma.itemTemplate.findFirst({
+        where: {
+          userId: dbUser.id,
+          name: data.name,
+        },
+      }),
+      prisma.itemTemplate.count({
+        where: { userId: dbUser.id },
+      }),
+      isTemplateFolderAvailable(dbUser.id, data.folderId),
+    ])
+
+    // 重複名チェック
+    if (existingTemplate) {
+      return ErrorResponses.conflict('同名のテンプレートが既に存在します')
+    }
+
+    if (templateCount >= MAX_ITEM_TEMPLATES) {
+      return ErrorResponses.badRequest(`テンプレートは${MAX_ITEM_TEMPLATES}個まで作成できます`)
+    }
+
+    if (!folderAvailable) {
+      return ErrorResponses.notFound('フォルダ')
+    }
+
+    // 新しいテンプレートは末尾に追加する
+    const template = await prisma.itemTemplate.create({
+      data: {
+        ...data,
+        sortOrder: templateCount,
+        userId: dbUser.id,
+      },
+      select: itemTemplateSelect,
+    })
+
+    return NextResponse.json(formatItemTemplate(template), { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'テンプレートの作成データに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/item-templates error:', error)
+    return ErrorResponses.internalError('テンプレートの作成に失敗しました')
+  }
+}
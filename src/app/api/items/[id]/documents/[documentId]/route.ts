@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  itemDocumentParamsSchema,
+  updateItemDocumentSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { deleteImageBlobs } from '@/lib/image-utils'
+import { itemDocumentSelect, toDocumentBlobSource } from '@/lib/document-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * PUT /api/items/[id]/documents/[documentId] - 書類の種類・書類名の更新
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; documentId: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id, documentId } = itemDocumentParamsSchema.parse(resolvedParams)
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = updateItemDocumentSchema.parse(body)
+
+    // 書類の存在と所有権をチェック（ゴミ箱内のアイテムは対象外）
+    const existingDocument = await prisma.itemDocument.findFirst({
+      where: {
+        id: documentId,
+        itemId: id,
+        item: { userId: dbUser.id, deletedAt: null },
+      },
+      select: { id: true },
+    })
+
+    if (!existingDocument) {
+      return ErrorResponses.notFound('書類')
+    }
+
+    const document = await prisma.itemDocument.update({
+      where: { id: documentId },
+      data,
+      select: itemDocumentSelect,
+    })
+
+    return NextResponse.json(document)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, '書類の更新データに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('PUT /api/items/[id]/documents/[documentId] error:', error)
+    return ErrorResponses.internalError('書類の更新に失敗しました')
+  }
+}
+
+/**
+ * DELETE /api/items/[id]/documents/[documentId] - 書類の削除（Vercel Blobのファイル・サムネイルを含む）
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; documentId: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id, documentId } = itemDocumentParamsSchema.parse(resolvedParams)
+
+    // 書類の存在と所有権をチェック（ゴミ箱内のアイテムは対象外）
+    const document = await prisma.itemDocument.findFirst({
+      where: {
+        id: documentId,
+        itemId: id,
+        item: { userId: dbUser.id, deletedAt: null },
+      },
+      select: { id: true, url: true, thumbnailUrl: true },
+    })
+
+    if (!document) {
+      return ErrorResponses.notFound('書類')
+    }
+
+    // 個別のBlob削除に失敗してもデータベース削除は続行
+    await deleteImageBlobs([toDocumentBlobSource(document)])
+
+    await prisma.itemDocument.delete({
+      where: { id: documentId },
+    })
+
+    return NextResponse.json({ message: '書類を削除しました' })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, '書類IDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('DELETE /api/items/[id]/documents/[documentId] error:', error)
+    return ErrorResponses.internalError('書類の削除に失敗しました')
+  }
+}
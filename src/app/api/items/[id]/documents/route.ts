@@ -0,0 +1,226 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  itemIdSchema,
+  uploadItemDocumentSchema,
+  validateDocumentFile,
+  validateDocumentContent,
+  MAX_DOCUMENTS_PER_ITEM,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { put } from '@vercel/blob'
+import { randomBytes } from 'crypto'
+import {
+  itemDocumentSelect,
+  itemDocumentOrderBy,
+  generateDocumentThumbnail
+} from '@/lib/document-utils'
+import { EntitlementError, entitlementErrorResponse, assertStorageCapacity } from '@/lib/entitlements'
+
+export const runtime = 'nodejs'
+
+/**
+ * ファイル名を生成（タイムスタンプ + ランダム文字列）
+ */
+function generateFileName(originalName: string): string {
+  const timestamp = Date.now()
+  const random = randomBytes(8).toString('hex')
+  const extension = originalName.toLowerCase().match(/\.[^.]+$/)?.[0] || '.pdf'
+  return `${timestamp}-${random}${extension}`
+}
+
+/**
+ * GET /api/items/[id]/documents - アイテムの書類一覧取得（新しい書類から）
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemIdSchema.parse(resolvedParams)
+
+    // アイテムの存在と所有権をチェック
+    const item = await prisma.item.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+        deletedAt: null,
+      },
+      select: { id: true },
+    })
+
+    if (!item) {
+      return ErrorResponses.notFound('アイテム')
+    }
+
+    const documents = await prisma.itemDocument.findMany({
+      where: { itemId: id },
+      select: itemDocumentSelect,
+      orderBy: itemDocumentOrderBy,
+    })
+
+    return NextResponse.json({ documents })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'アイテムIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/items/[id]/documents error:', error)
+    return ErrorResponses.internalError('書類の取得に失敗しました')
+  }
+}
+
+/**
+ * POST /api/items/[id]/documents - 書類（PDF・画像）のアップロード
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemIdSchema.parse(resolvedParams)
+
+    // フォームデータの取得
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    if (!file) {
+      return ErrorResponses.badRequest('ファイルが選択されていません', 'file')
+    }
+
+    // ファイルバリデーション
+    const fileError = validateDocumentFile(file)
+    if (fileError) {
+      return ErrorResponses.badRequest(fileError, 'file')
+    }
+
+    // フォームデータのバリデーション
+    const data = uploadItemDocumentSchema.parse({
+      kind: formData.get('kind') || undefined,
+      title: formData.get('title') ?? undefined,
+    })
+
+    // アイテムの存在と所有権をチェック
+    const item = await prisma.item.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        _count: {
+          select: { documents: true },
+        },
+      },
+    })
+
+    if (!item) {
+      return ErrorResponses.notFound('アイテム')
+    }
+
+    // 書類数制限チェック
+    if (item._count.documents >= MAX_DOCUMENTS_PER_ITEM) {
+      return ErrorResponses.badRequest(
+        `このアイテムには既に${MAX_DOCUMENTS_PER_ITEM}件の書類が登録されています。新しい書類を追加する前に既存の書類を削除してください`,
+        'file'
+      )
+    }
+
+    // プランの保存容量の上限チェック
+    await assertStorageCapacity(dbUser.id, file.size)
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+
+    // 申告されたMIMEタイプ・拡張子ではなく、ファイルの先頭バイトで形式を確認する
+    const contentError = validateDocumentContent(buffer, file.type)
+    if (contentError) {
+      return ErrorResponses.badRequest(contentError, 'file')
+    }
+
+    const fileName = generateFileName(file.name)
+
+    // Vercel Blobに画像と同じアイテムのディレクトリ配下へアップロード
+    const blob = await put(`items/${id}/documents/${fileName}`, buffer, {
+      access: 'public',
+      contentType: file.type,
+    })
+
+    const thumbnailUrl = await generateDocumentThumbnail(buffer, file.type, fileName, id)
+
+    const document = await prisma.itemDocument.create({
+      data: {
+        itemId: id,
+        kind: data.kind,
+        title: data.title ?? null,
+        url: blob.url,
+        filename: fileName,
+        originalName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        thumbnailUrl,
+      },
+      select: itemDocumentSelect,
+    })
+
+    return NextResponse.json(document, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, '書類アップロードのデータに誤りがあります')
+    }
+
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error)
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error && typeof error.code === 'string' && error.code.startsWith('P')) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/items/[id]/documents error:', error)
+    return ErrorResponses.internalError('書類のアップロードに失敗しました')
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  itemIdSchema,
+  duplicateItemSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { duplicateItem } from '@/lib/item-copy-utils'
+import { EntitlementError, entitlementErrorResponse } from '@/lib/entitlements'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/items/[id]/duplicate - アイテムの複製（フィールド・タグ・カスタムフィールド、指定時は画像もコピー）
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemIdSchema.parse(resolvedParams)
+
+    // ボディは省略可能（省略時は画像をコピーしない）
+    const body = await request.json().catch(() => ({}))
+    const { includeImages } = duplicateItemSchema.parse(body)
+
+    const result = await duplicateItem(dbUser.id, id, { includeImages })
+    if (!result) {
+      return ErrorResponses.notFound('アイテム')
+    }
+
+    const failedMessage = result.failedImages > 0
+      ? `（${result.failedImages}枚の画像はコピーできませんでした）`
+      : ''
+
+    return NextResponse.json({
+      success: true,
+      message: `「${result.item.name}」を作成しました${failedMessage}`,
+      ...result,
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'アイテム複製のデータに誤りがあります')
+    }
+
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error)
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/items/[id]/duplicate error:', error)
+    return ErrorResponses.internalError('アイテムの複製に失敗しました')
+  }
+}
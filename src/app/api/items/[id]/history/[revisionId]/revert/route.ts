@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  itemRevisionParamsSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { revertItemToRevision, ItemRevertError } from '@/lib/revision-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/items/[id]/history/[revisionId]/revert - アイテムを指定した履歴の状態に戻す
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id, revisionId } = itemRevisionParamsSchema.parse(resolvedParams)
+
+    const item = await revertItemToRevision(dbUser.id, id, revisionId)
+    if (!item) {
+      return ErrorResponses.notFound('履歴')
+    }
+
+    // 画像URLをAPI経由のパスに変換
+    const itemWithFixedUrls = {
+      ...item,
+      images: item.images.map(image => ({
+        ...image,
+        url: image.url.startsWith('/uploads/')
+          ? image.url.replace('/uploads/', '/api/uploads/')
+          : image.url
+      }))
+    }
+
+    return NextResponse.json({
+      message: 'アイテムを選択した履歴の状態に戻しました',
+      item: itemWithFixedUrls,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'アイテムIDまたは履歴IDの形式に誤りがあります')
+    }
+
+    if (error instanceof ItemRevertError) {
+      return ErrorResponses.badRequest(error.message)
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/items/[id]/history/[revisionId]/revert error:', error)
+    return ErrorResponses.internalError('履歴からの復元に失敗しました')
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  itemIdSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import type { ItemChanges } from '@/lib/revision-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * 取得する履歴の上限
+ */
+const MAX_REVISIONS = 100
+
+/**
+ * GET /api/items/[id]/history - アイテムの変更履歴を取得（新しい順）
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemIdSchema.parse(resolvedParams)
+
+    // アイテムの存在確認
+    const item = await prisma.item.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+        deletedAt: null,
+      },
+      select: { id: true },
+    })
+
+    if (!item) {
+      return ErrorResponses.notFound('アイテム')
+    }
+
+    const revisions = await prisma.itemRevision.findMany({
+      where: {
+        itemId: id,
+        userId: dbUser.id,
+      },
+      select: {
+        id: true,
+        action: true,
+        changes: true,
+        revertedFromId: true,
+        createdAt: true,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: MAX_REVISIONS,
+    })
+
+    // 履歴に含まれるフォルダ名を解決（ゴミ箱内のフォルダを含む）
+    const folderIds = new Set<string>()
+    revisions.forEach(revision => {
+      const folderChange = (revision.changes as ItemChanges).folderId
+      if (folderChange?.from) folderIds.add(folderChange.from)
+      if (folderChange?.to) folderIds.add(folderChange.to)
+    })
+
+    const folders = folderIds.size > 0
+      ? await prisma.folder.findMany({
+        where: {
+          id: { in: Array.from(folderIds) },
+          userId: dbUser.id,
+        },
+        select: {
+          id: true,
+          name: true,
+        },
+      })
+      : []
+
+    return NextResponse.json({
+      revisions,
+      folders: Object.fromEntries(folders.map(folder => [folder.id, folder.name])),
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'アイテムIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/items/[id]/history error:', error)
+    return ErrorResponses.internalError('変更履歴の取得に失敗しました')
+  }
+}
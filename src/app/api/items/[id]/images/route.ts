@@ -9,6 +9,7 @@ import {
 import { itemIdSchema } from '@/lib/validations'
 import { ZodError } from 'zod'
 import { ensureUserExists } from '@/lib/user-helper'
+import { getUserPlan } from '@/lib/entitlements'
 
 export const runtime = 'nodejs'
 
@@ -43,6 +44,7 @@ export async function GET(
       where: {
         id,
         userId: dbUser.id,
+        deletedAt: null,
       },
       select: {
         id: true,
@@ -56,6 +58,7 @@ export async function GET(
     }
 
     // 画像一覧を取得
+    const plan = await getUserPlan(dbUser.id)
     const images = await prisma.itemImage.findMany({
       where: {
         itemId: id,
@@ -91,7 +94,7 @@ export async function GET(
         totalImages: images.length,
         totalSize: images.reduce((sum, img) => sum + img.size, 0),
         totalSizeMB: (images.reduce((sum, img) => sum + img.size, 0) / 1024 / 1024).toFixed(2),
-        remainingSlots: 10 - images.length,
+        remainingSlots: Math.max(0, plan.maxImagesPerItem - images.length),
       },
     })
   } catch (error) {
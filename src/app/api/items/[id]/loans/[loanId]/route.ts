@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  itemLoanParamsSchema,
+  updateItemLoanSchema,
+  validateItemLoanDates,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { itemLoanSelect } from '@/lib/item-loan-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * PUT /api/items/[id]/loans/[loanId] - 貸出記録の更新（返却の記録・取り消しを含む）
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; loanId: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id, loanId } = itemLoanParamsSchema.parse(resolvedParams)
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = updateItemLoanSchema.parse(body)
+
+    // 貸出記録の存在と所有権をチェック（ゴミ箱内のアイテムは対象外）
+    const existingLoan = await prisma.itemLoan.findFirst({
+      where: {
+        id: loanId,
+        itemId: id,
+        userId: dbUser.id,
+        item: { deletedAt: null },
+      },
+    })
+
+    if (!existingLoan) {
+      return ErrorResponses.notFound('貸出記録')
+    }
+
+    const dateError = validateItemLoanDates({
+      lentAt: data.lentAt ?? existingLoan.lentAt,
+      dueDate: data.dueDate !== undefined ? data.dueDate : existingLoan.dueDate,
+      returnedAt: data.returnedAt !== undefined ? data.returnedAt : existingLoan.returnedAt,
+    })
+    if (dateError) {
+      return ErrorResponses.badRequest(dateError)
+    }
+
+    // 返却を取り消す場合は、他に貸出中の記録がないことを確認
+    if (data.returnedAt === null && existingLoan.returnedAt) {
+      const activeLoan = await prisma.itemLoan.findFirst({
+        where: {
+          itemId: id,
+          returnedAt: null,
+          id: { not: loanId },
+        },
+        select: { borrower: true },
+      })
+
+      if (activeLoan) {
+        return ErrorResponses.conflict(
+          `このアイテムは「${activeLoan.borrower}」に貸出中のため、返却を取り消せません`
+        )
+      }
+    }
+
+    const loan = await prisma.itemLoan.update({
+      where: { id: loanId },
+      data,
+      select: itemLoanSelect,
+    })
+
+    return NextResponse.json(loan)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, '貸出記録の更新データに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('PUT /api/items/[id]/loans/[loanId] error:', error)
+    return ErrorResponses.internalError('貸出記録の更新に失敗しました')
+  }
+}
+
+/**
+ * DELETE /api/items/[id]/loans/[loanId] - 貸出記録の削除
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; loanId: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id, loanId } = itemLoanParamsSchema.parse(resolvedParams)
+
+    // 貸出記録の存在と所有権をチェック（ゴミ箱内のアイテムは対象外）
+    const loan = await prisma.itemLoan.findFirst({
+      where: {
+        id: loanId,
+        itemId: id,
+        userId: dbUser.id,
+        item: { deletedAt: null },
+      },
+    })
+
+    if (!loan) {
+      return ErrorResponses.notFound('貸出記録')
+    }
+
+    await prisma.itemLoan.delete({
+      where: { id: loanId },
+    })
+
+    return NextResponse.json({ message: '貸出記録を削除しました' })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, '貸出記録IDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('DELETE /api/items/[id]/loans/[loanId] error:', error)
+    return ErrorResponses.internalError('貸出記録の削除に失敗しました')
+  }
+}
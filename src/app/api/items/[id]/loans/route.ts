@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  itemIdSchema,
+  createItemLoanSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { itemLoanSelect, itemLoanOrderBy } from '@/lib/item-loan-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/items/[id]/loans - アイテムの貸出記録一覧取得（新しい貸出から）
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemIdSchema.parse(resolvedParams)
+
+    // アイテムの存在と所有権をチェック
+    const item = await prisma.item.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+        deletedAt: null,
+      },
+      select: { id: true },
+    })
+
+    if (!item) {
+      return ErrorResponses.notFound('アイテム')
+    }
+
+    const loans = await prisma.itemLoan.findMany({
+      where: { itemId: id },
+      select: itemLoanSelect,
+      orderBy: itemLoanOrderBy,
+    })
+
+    return NextResponse.json({ loans })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'アイテムIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/items/[id]/loans error:', error)
+    return ErrorResponses.internalError('貸出記録の取得に失敗しました')
+  }
+}
+
+/**
+ * POST /api/items/[id]/loans - アイテムの貸出を記録（貸出中の記録がある場合は不可）
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemIdSchema.parse(resolvedParams)
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = createItemLoanSchema.parse(body)
+
+    // アイテムの存在と所有権をチェック
+    const item = await prisma.item.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        loans: {
+          where: { returnedAt: null },
+          select: { borrower: true },
+          take: 1,
+        },
+      },
+    })
+
+    if (!item) {
+      return ErrorResponses.notFound('アイテム')
+    }
+
+    if (item.loans.length > 0) {
+      return ErrorResponses.conflict(
+        `このアイテムは「${item.loans[0].borrower}」に貸出中です。返却を記録してから貸し出してください`
+      )
+    }
+
+    const loan = await prisma.itemLoan.create({
+      data: {
+        itemId: id,
+        userId: dbUser.id,
+        borrower: data.borrower,
+        lentAt: data.lentAt ?? new Date(),
+        dueDate: data.dueDate ?? null,
+        notes: data.notes ?? null,
+      },
+      select: itemLoanSelect,
+    })
+
+    return NextResponse.json(loan, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, '貸出記録のデータに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/items/[id]/loans error:', error)
+    return ErrorResponses.internalError('貸出の記録に失敗しました')
+  }
+}
@@ -25,6 +25,7 @@ export async function DELETE(req: NextRequest, { params }: Props) {
     const item = await prisma.item.findFirst({
       where: {
         id: itemId,
+        deletedAt: null,
         user: {
           email: session.user.email
         }
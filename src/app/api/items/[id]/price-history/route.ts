@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
-import { getPriceHistory } from '@/lib/ai/gemini'
+import { getPriceHistory } from '@/lib/ai/service'
 import { prisma } from '@/lib/prisma'
 
 interface Props {
@@ -29,6 +29,7 @@ export async function GET(req: NextRequest, { params }: Props) {
     const item = await prisma.item.findFirst({
       where: {
         id: itemId,
+        deletedAt: null,
         user: {
           email: session.user.email
         }
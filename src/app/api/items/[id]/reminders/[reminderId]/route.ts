@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  itemReminderParamsSchema,
+  updateItemReminderSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { itemReminderSelect } from '@/lib/reminder-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * PUT /api/items/[id]/reminders/[reminderId] - リマインダーの更新（dueAtで次回の通知日を変更、enabledで停止・再開）
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reminderId: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id, reminderId } = itemReminderParamsSchema.parse(resolvedParams)
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = updateItemReminderSchema.parse(body)
+
+    // リマインダーの存在と所有権をチェック（ゴミ箱内のアイテムは対象外）
+    const existingReminder = await prisma.itemReminder.findFirst({
+      where: {
+        id: reminderId,
+        itemId: id,
+        userId: dbUser.id,
+        item: { deletedAt: null },
+      },
+      select: { id: true },
+    })
+
+    if (!existingReminder) {
+      return ErrorResponses.notFound('リマインダー')
+    }
+
+    const { dueAt, ...fields } = data
+    const reminder = await prisma.itemReminder.update({
+      where: { id: reminderId },
+      data: {
+        ...fields,
+        ...(dueAt && { nextDueAt: dueAt }),
+      },
+      select: itemReminderSelect,
+    })
+
+    return NextResponse.json(reminder)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'リマインダーの更新データに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('PUT /api/items/[id]/reminders/[reminderId] error:', error)
+    return ErrorResponses.internalError('リマインダーの更新に失敗しました')
+  }
+}
+
+/**
+ * DELETE /api/items/[id]/reminders/[reminderId] - リマインダーの削除（送信済みの通知は残る）
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reminderId: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id, reminderId } = itemReminderParamsSchema.parse(resolvedParams)
+
+    const { count } = await prisma.itemReminder.deleteMany({
+      where: {
+        id: reminderId,
+        itemId: id,
+        userId: dbUser.id,
+        item: { deletedAt: null },
+      },
+    })
+
+    if (count === 0) {
+      return ErrorResponses.notFound('リマインダー')
+    }
+
+    return NextResponse.json({ message: 'リマインダーを削除しました' })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'リマインダーIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('DELETE /api/items/[id]/reminders/[reminderId] error:', error)
+    return ErrorResponses.internalError('リマインダーの削除に失敗しました')
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  itemIdSchema,
+  createItemReminderSchema,
+  MAX_REMINDERS_PER_ITEM,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { itemReminderSelect, itemReminderOrderBy } from '@/lib/reminder-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/items/[id]/reminders - アイテムのリマインダー一覧取得
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemIdSchema.parse(resolvedParams)
+
+    // アイテムの存在と所有権をチェック
+    const item = await prisma.item.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+        deletedAt: null,
+      },
+      select: { id: true },
+    })
+
+    if (!item) {
+      return ErrorResponses.notFound('アイテム')
+    }
+
+    const reminders = await prisma.itemReminder.findMany({
+      where: { itemId: id },
+      select: itemReminderSelect,
+      orderBy: itemReminderOrderBy,
+    })
+
+    return NextResponse.json({ reminders })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'アイテムIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/items/[id]/reminders error:', error)
+    return ErrorResponses.internalError('リマインダーの取得に失敗しました')
+  }
+}
+
+/**
+ * POST /api/items/[id]/reminders - リマインダーの作成
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemIdSchema.parse(resolvedParams)
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = createItemReminderSchema.parse(body)
+
+    // アイテムの存在と所有権をチェック
+    const item = await prisma.item.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        _count: {
+          select: { reminders: true },
+        },
+      },
+    })
+
+    if (!item) {
+      return ErrorResponses.notFound('アイテム')
+    }
+
+    if (item._count.reminders >= MAX_REMINDERS_PER_ITEM) {
+      return ErrorResponses.badRequest(`1つのアイテムに設定できるリマインダーは${MAX_REMINDERS_PER_ITEM}件までです`)
+    }
+
+    const { dueAt, ...fields } = data
+    const reminder = await prisma.itemReminder.create({
+      data: {
+        ...fields,
+        itemId: id,
+        userId: dbUser.id,
+        nextDueAt: dueAt,
+      },
+      select: itemReminderSelect,
+    })
+
+    return NextResponse.json(reminder, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'リマインダーのデータに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/items/[id]/reminders error:', error)
+    return ErrorResponses.internalError('リマインダーの作成に失敗しました')
+  }
+}
@@ -4,6 +4,7 @@ import { prisma } from '@/lib/prisma'
 import { 
   updateItemSchema, 
   itemIdSchema, 
+  buildCustomFieldValuesSchema,
   validationErrorResponse, 
   ErrorResponses, 
   handleDatabaseError 
@@ -11,7 +12,14 @@ import {
 import { ZodError } from 'zod'
 import { Decimal } from 'decimal.js'
 import { ensureUserExists } from '@/lib/user-helper'
-import { del } from '@vercel/blob'
+import { recordItemRevision } from '@/lib/revision-utils'
+import { itemTagsInclude, resolveTagIds } from '@/lib/tag-utils'
+import {
+  itemCustomFieldValuesInclude,
+  findApplicableCustomFields,
+  saveCustomFieldValues,
+  withCustomFieldMap,
+} from '@/lib/custom-field-utils'
 
 export const runtime = 'nodejs'
 
@@ -46,6 +54,7 @@ export async function GET(
       where: {
         id,
         userId: dbUser.id,
+        deletedAt: null,
       },
       include: {
         folder: {
@@ -55,6 +64,7 @@ export async function GET(
             parentId: true,
           },
         },
+        tags: itemTagsInclude,
         images: {
           select: {
             id: true,
@@ -68,6 +78,7 @@ export async function GET(
             order: 'asc',
           },
         },
+        customFieldValues: itemCustomFieldValuesInclude,
       },
     })
 
@@ -77,7 +88,7 @@ export async function GET(
 
     // 画像URLをAPI経由のパスに変換
     const itemWithFixedUrls = {
-      ...item,
+      ...withCustomFieldMap(item),
       images: item.images.map(image => ({
         ...image,
         url: image.url.startsWith('/uploads/') 
@@ -137,6 +148,7 @@ export async function PUT(
       where: {
         id,
         userId: dbUser.id,
+        deletedAt: null,
       },
     })
 
@@ -151,6 +163,7 @@ export async function PUT(
           where: {
             id: data.folderId,
             userId: dbUser.id,
+            deletedAt: null,
           },
         })
 
@@ -160,9 +173,17 @@ export async function PUT(
       }
     }
 
-    // Decimal型のフィールドを変換
+    // カスタムフィールドの値を、更新後のカテゴリに適用される定義から生成したスキーマで検証
+    const customFieldDefinitions = data.customFields
+      ? await findApplicableCustomFields(prisma, dbUser.id, data.category ?? existingItem.category)
+      : []
+    const customFieldValues = buildCustomFieldValuesSchema(customFieldDefinitions, { requireAll: false })
+      .parse(data.customFields || {})
+
+    // Decimal型のフィールドを変換（タグは名前からIDを解決して置き換える）
+    const { tags: tagNames, customFields: _customFields, ...fields } = data
     const updateData: any = {
-      ...data,
+      ...fields,
       updatedAt: new Date(),
     }
     
@@ -171,36 +192,57 @@ export async function PUT(
       updateData.purchasePrice = new Decimal(data.purchasePrice)
     }
 
-    // アイテム更新
-    const item = await prisma.item.update({
-      where: { id },
-      data: updateData,
-      include: {
-        folder: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        images: {
-          select: {
-            id: true,
-            url: true,
-            order: true,
-            thumbnailSmall: true,
-            thumbnailMedium: true,
-            thumbnailLarge: true,
+    // アイテム更新（変更されたフィールドを履歴に記録）
+    const item = await prisma.$transaction(async (tx) => {
+      if (tagNames) {
+        const tagIds = await resolveTagIds(tx, dbUser.id, tagNames)
+        updateData.tags = { set: tagIds.map(tagId => ({ id: tagId })) }
+      }
+
+      await saveCustomFieldValues(tx, id, customFieldDefinitions, customFieldValues)
+
+      const updatedItem = await tx.item.update({
+        where: { id },
+        data: updateData,
+        include: {
+          folder: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
-          orderBy: {
-            order: 'asc',
+          tags: itemTagsInclude,
+          images: {
+            select: {
+              id: true,
+              url: true,
+              order: true,
+              thumbnailSmall: true,
+              thumbnailMedium: true,
+              thumbnailLarge: true,
+            },
+            orderBy: {
+              order: 'asc',
+            },
           },
+          customFieldValues: itemCustomFieldValuesInclude,
         },
-      },
+      })
+
+      await recordItemRevision(tx, {
+        itemId: id,
+        userId: dbUser.id,
+        action: 'update',
+        before: existingItem,
+        after: updatedItem,
+      })
+
+      return updatedItem
     })
 
     // 画像URLをAPI経由のパスに変換
     const itemWithFixedUrls = {
-      ...item,
+      ...withCustomFieldMap(item),
       images: item.images.map(image => ({
         ...image,
         url: image.url.startsWith('/uploads/') 
@@ -226,7 +268,7 @@ export async function PUT(
 }
 
 /**
- * DELETE /api/items/[id] - アイテム削除
+ * DELETE /api/items/[id] - アイテムをゴミ箱へ移動
  */
 export async function DELETE(
   request: NextRequest,
@@ -256,9 +298,7 @@ export async function DELETE(
       where: {
         id,
         userId: dbUser.id,
-      },
-      include: {
-        images: true,
+        deletedAt: null,
       },
     })
 
@@ -266,45 +306,23 @@ export async function DELETE(
       return ErrorResponses.notFound('アイテム')
     }
 
-    // Vercel Blobから画像とサムネイルを削除
-    if (item.images.length > 0) {
-      try {
-        // 全ての画像とサムネイルを並列で削除
-        await Promise.all(
-          item.images.map(async (image) => {
-            const urlsToDelete = [image.url]
-            
-            // サムネイルURLも削除対象に追加
-            if (image.thumbnailSmall) urlsToDelete.push(image.thumbnailSmall)
-            if (image.thumbnailMedium) urlsToDelete.push(image.thumbnailMedium)
-            if (image.thumbnailLarge) urlsToDelete.push(image.thumbnailLarge)
-            
-            // 全てのURLを並列で削除
-            await Promise.allSettled(
-              urlsToDelete.map(async (url) => {
-                try {
-                  await del(url)
-                  console.log(`Deleted blob: ${url}`)
-                } catch (blobError) {
-                  console.warn(`Failed to delete blob: ${url}`, blobError)
-                  // 個別のBlob削除に失敗してもアイテム削除は続行
-                }
-              })
-            )
-          })
-        )
-      } catch (error) {
-        console.warn('Failed to delete some blobs during item deletion:', error)
-        // Blob削除に失敗してもアイテム削除は続行
-      }
-    }
+    // ゴミ箱へ移動（画像は完全削除または保持期間経過時に削除）
+    await prisma.$transaction(async (tx) => {
+      await tx.item.update({
+        where: { id },
+        data: { deletedAt: new Date() },
+      })
 
-    // アイテムと関連データの削除（カスケード削除）
-    await prisma.item.delete({
-      where: { id },
+      await recordItemRevision(tx, {
+        itemId: id,
+        userId: dbUser.id,
+        action: 'delete',
+        before: item,
+        after: item,
+      })
     })
 
-    return NextResponse.json({ message: 'Item deleted successfully' })
+    return NextResponse.json({ message: 'Item moved to trash' })
   } catch (error) {
     if (error instanceof ZodError) {
       return validationErrorResponse(error, 'アイテムIDの形式に誤りがあります')
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  bulkItemOperationSchema,
+  smartFolderScopeSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import {
+  bulkMoveItems,
+  bulkDeleteItems,
+  bulkUpdateItems,
+  bulkTagItems,
+  bulkSearchPrices,
+  BulkItemResult
+} from '@/lib/bulk-utils'
+import { findSmartFolderItemIds, SmartFolderQueryError } from '@/lib/smart-folder-utils'
+import { EntitlementError, entitlementErrorResponse, assertFeature } from '@/lib/entitlements'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+/**
+ * 操作ごとの完了メッセージ
+ */
+const ACTION_MESSAGES = {
+  move: '移動',
+  delete: 'ゴミ箱への移動',
+  update: '一括編集',
+  tag: 'タグ設定',
+  price_search: '価格調査',
+} as const
+
+/**
+ * POST /api/items/bulk - アイテムの一括操作（移動・削除・一括編集・タグ設定・価格調査）
+ * itemIds の代わりに smartFolderId を指定すると、スマートフォルダに一致するアイテムすべてが対象になる
+ * アイテムごとの成否を results で返す
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+
+    // スマートフォルダ指定時は一致するアイテムを対象にする（件数上限は通常の選択と同じ）
+    const { smartFolderId } = smartFolderScopeSchema.parse(body)
+    if (smartFolderId) {
+      const scope = await findSmartFolderItemIds(dbUser.id, smartFolderId)
+      if (!scope) {
+        return ErrorResponses.notFound('スマートフォルダ')
+      }
+      body.itemIds = scope.itemIds
+    }
+
+    const operation = bulkItemOperationSchema.parse(body)
+
+    let results: BulkItemResult[]
+
+    switch (operation.action) {
+      case 'move': {
+        // 移動先フォルダの存在確認（未分類への移動はnull）
+        if (operation.folderId) {
+          const folder = await prisma.folder.findFirst({
+            where: {
+              id: operation.folderId,
+              userId: dbUser.id,
+              deletedAt: null,
+            },
+          })
+
+          if (!folder) {
+            return ErrorResponses.notFound('移動先フォルダ')
+          }
+        }
+
+        results = await bulkMoveItems(dbUser.id, operation.itemIds, operation.folderId)
+        break
+      }
+
+      case 'delete':
+        results = await bulkDeleteItems(dbUser.id, operation.itemIds)
+        break
+
+      case 'update':
+        results = await bulkUpdateItems(dbUser.id, operation.itemIds, operation.fields)
+        break
+
+      case 'tag':
+        if (operation.add.length === 0 && operation.remove.length === 0) {
+          return ErrorResponses.badRequest('追加または削除するタグを指定してください', 'add')
+        }
+        results = await bulkTagItems(dbUser.id, operation.itemIds, operation.add, operation.remove)
+        break
+
+      case 'price_search':
+        await assertFeature(dbUser.id, 'bulkPriceSearch')
+        results = await bulkSearchPrices(dbUser.id, session.user.email, operation.itemIds)
+        break
+    }
+
+    const succeeded = results.filter(result => result.success).length
+    const failed = results.length - succeeded
+
+    return NextResponse.json({
+      action: operation.action,
+      message: failed > 0
+        ? `${succeeded}件の${ACTION_MESSAGES[operation.action]}が完了しました（${failed}件は失敗しました）`
+        : `${succeeded}件の${ACTION_MESSAGES[operation.action]}が完了しました`,
+      summary: {
+        requested: results.length,
+        succeeded,
+        failed,
+      },
+      results,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, '一括操作のデータに誤りがあります')
+    }
+
+    if (error instanceof SmartFolderQueryError) {
+      return ErrorResponses.badRequest(error.message)
+    }
+
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error)
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/items/bulk error:', error)
+    return ErrorResponses.internalError('アイテムの一括操作に失敗しました')
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { ErrorResponses, handleDatabaseError } from '@/lib/validations'
+import { ensureUserExists } from '@/lib/user-helper'
+import { findDuplicateGroups } from '@/lib/duplicate-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/items/duplicates - 重複している可能性のあるアイテムのグループ取得
+ * 名前・メーカーの類似度と1枚目の画像の知覚ハッシュで判定する
+ */
+export async function GET() {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    const { groups, pendingImageCount } = await findDuplicateGroups(dbUser.id)
+
+    return NextResponse.json({
+      groups,
+      pendingImageCount,
+    })
+  } catch (error) {
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/items/duplicates error:', error)
+    return ErrorResponses.internalError('重複アイテムの検出に失敗しました')
+  }
+}
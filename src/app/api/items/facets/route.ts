@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  searchItemsSchema,
+  customFieldFiltersSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { buildItemFacetWheres } from '@/lib/item-filter-utils'
+import { countItemFacets } from '@/lib/item-facet-utils'
+import {
+  customFieldDefinitionSelect,
+  customFieldDefinitionOrderBy,
+  extractCustomFieldFilters,
+  CustomFieldQueryError,
+} from '@/lib/custom-field-utils'
+
+export const runtime = 'nodejs'
+
+// フォルダを階層順に並べる（インデント付きの表示名を付与）
+function sortFoldersHierarchically(folders: Array<{ id: string; name: string; parentId: string | null }>) {
+  const result: Array<{ id: string; name: string; displayName: string; parentId: string | null }> = []
+
+  // ルートフォルダ（parentId が null）から開始
+  const addFolderAndChildren = (folderId: string | null, level = 0) => {
+    folders
+      .filter(f => f.parentId === folderId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(folder => {
+        result.push({
+          id: folder.id,
+          name: folder.name,
+          displayName: '　'.repeat(level) + folder.name, // インデント表示用
+          parentId: folder.parentId,
+        })
+        addFolderAndChildren(folder.id, level + 1)
+      })
+  }
+
+  addFolderAndChildren(null)
+  return result
+}
+
+/**
+ * GET /api/items/facets - 絞り込みの選択肢（カテゴリ・メーカー・状態・フォルダ・タグ・カスタムフィールド）と件数取得
+ * アイテム一覧のページ取得とは分け、絞り込み条件が変わったときだけ取得する
+ * 件数は /api/items と同じ絞り込み条件で集計し、各ファセット自身の絞り込みは除く
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // クエリパラメータのバリデーション（/api/items と同じ形式）
+    const params = searchItemsSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const customFieldFilters = customFieldFiltersSchema.parse(
+      extractCustomFieldFilters(request.nextUrl.searchParams)
+    )
+
+    const [categories, folderRows, manufacturers, conditions, tags, customFields] = await Promise.all([
+      // カテゴリ一覧を取得（ユニークな値のみ）
+      prisma.item.findMany({
+        where: { userId: dbUser.id, deletedAt: null },
+        select: { category: true },
+        distinct: ['category'],
+      }).then(results => 
+        results
+          .map(item => item.category)
+          .filter(category => category && category.trim() !== '')
+          .sort()
+      ),
+      // フォルダ一覧を取得（階層構造を考慮したソート）
+      prisma.folder.findMany({
+        where: { userId: dbUser.id, deletedAt: null },
+        select: {
+          id: true,
+          name: true,
+          parentId: true,
+        },
+        orderBy: [
+          { parentId: 'asc' }, // 親フォルダが先
+          { name: 'asc' },     // 同レベルでは名前順
+        ],
+      }),
+      // メーカー一覧を取得（ユニークな値のみ）
+      prisma.item.findMany({
+        where: { userId: dbUser.id, deletedAt: null },
+        select: { manufacturer: true },
+        distinct: ['manufacturer'],
+      }).then(results => 
+        results
+          .map(item => item.manufacturer)
+          .filter(manufacturer => manufacturer && manufacturer.trim() !== '')
+          .sort()
+      ),
+      // 状態一覧を取得（ユニークな値のみ）
+      prisma.item.findMany({
+        where: { userId: dbUser.id, deletedAt: null },
+        select: { condition: true },
+        distinct: ['condition'],
+      }).then(results => 
+        results
+          .map(item => item.condition)
+          .filter(condition => condition && condition.trim() !== '')
+          .sort()
+      ),
+      // タグ一覧を取得
+      prisma.tag.findMany({
+        where: { userId: dbUser.id },
+        select: { id: true, name: true, color: true },
+        orderBy: { name: 'asc' },
+      }),
+      // カスタムフィールド定義を取得
+      prisma.customFieldDefinition.findMany({
+        where: { userId: dbUser.id },
+        select: customFieldDefinitionSelect,
+        orderBy: customFieldDefinitionOrderBy,
+      }),
+    ])
+
+    // 現在の絞り込み条件でのファセットごとの件数
+    const facetWheres = await buildItemFacetWheres(dbUser.id, params, customFields, customFieldFilters)
+    const counts = await countItemFacets(facetWheres, folderRows, params.includeSubfolders ?? false)
+
+    return NextResponse.json({
+      categories,
+      manufacturers,
+      conditions,
+      folders: sortFoldersHierarchically(folderRows),
+      tags,
+      customFields,
+      counts,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, '絞り込み条件のパラメータに誤りがあります')
+    }
+
+    if (error instanceof CustomFieldQueryError) {
+      return ErrorResponses.badRequest(error.message)
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/items/facets error:', error)
+    return ErrorResponses.internalError('絞り込み条件の取得に失敗しました')
+  }
+}
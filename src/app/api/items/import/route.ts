@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  importItemsSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { recordItemRevisions, revisionFieldSelect } from '@/lib/revision-utils'
+import {
+  parseImportContent,
+  resolveColumnMapping,
+  validateImportRows,
+  buildFolderPathMap,
+  findMissingFolderPaths,
+  ensureFolderPaths,
+  ImportParseError,
+} from '@/lib/import-utils'
+import { EntitlementError, entitlementErrorResponse, assertItemCapacity } from '@/lib/entitlements'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/items/import - CSV/JSONからアイテムを一括インポート
+ * dryRun=true（デフォルト）の場合は行ごとの検証結果のみを返す
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = importItemsSchema.parse(body)
+
+    // ファイル内容の解析と行ごとの検証
+    const table = parseImportContent(data.format, data.content)
+    const mapping = resolveColumnMapping(table.columns, data.mapping)
+
+    if (!Object.values(mapping).includes('name')) {
+      return ErrorResponses.badRequest('商品名（name）に対応する列を指定してください', 'mapping')
+    }
+
+    const { results, validRows } = validateImportRows(table, mapping)
+
+    const summary = {
+      totalRows: results.length,
+      validRows: validRows.length,
+      invalidRows: results.length - validRows.length,
+    }
+
+    // ドライラン: 保存せずにプレビューを返す
+    if (data.dryRun) {
+      const folders = await prisma.folder.findMany({
+        where: { userId: dbUser.id, deletedAt: null },
+        select: { id: true, name: true, parentId: true },
+      })
+      const foldersToCreate = findMissingFolderPaths(validRows, buildFolderPathMap(folders))
+
+      return NextResponse.json({
+        dryRun: true,
+        columns: table.columns,
+        mapping,
+        summary,
+        foldersToCreate,
+        rows: results,
+      })
+    }
+
+    if (validRows.length === 0) {
+      return ErrorResponses.badRequest('インポートできる有効な行がありません')
+    }
+
+    // 有効な行を1トランザクションで保存（フォルダの作成を含む）
+    const { createdPaths, createdCount } = await prisma.$transaction(async (tx) => {
+      await assertItemCapacity(dbUser.id, validRows.length, tx)
+
+      const { pathMap, createdPaths } = await ensureFolderPaths(tx, dbUser.id, validRows)
+
+      const createdItems = await tx.item.createManyAndReturn({
+        data: validRows.map(({ item, folderSegments }) => ({
+          ...item,
+          folderId: folderSegments.length > 0 ? pathMap.get(folderSegments.join('/')) : undefined,
+          userId: dbUser.id,
+        })),
+        select: { ...revisionFieldSelect, id: true },
+      })
+
+      // 作成履歴を記録
+      await recordItemRevisions(tx, createdItems.map(createdItem => ({
+        itemId: createdItem.id,
+        userId: dbUser.id,
+        action: 'create',
+        before: null,
+        after: createdItem,
+      })))
+
+      return { createdPaths, createdCount: createdItems.length }
+    }, {
+      timeout: 30000,
+    })
+
+    return NextResponse.json({
+      dryRun: false,
+      message: `${createdCount}件のアイテムをインポートしました`,
+      columns: table.columns,
+      mapping,
+      summary: {
+        ...summary,
+        createdItems: createdCount,
+        skippedRows: summary.invalidRows,
+      },
+      createdFolders: createdPaths,
+      rows: results,
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'インポートのデータに誤りがあります')
+    }
+
+    if (error instanceof ImportParseError) {
+      return ErrorResponses.badRequest(error.message, 'content')
+    }
+
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error)
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/items/import error:', error)
+    return ErrorResponses.internalError('アイテムのインポートに失敗しました')
+  }
+}
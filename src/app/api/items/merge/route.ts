@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  mergeItemsSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { mergeItems, MergeItemsError } from '@/lib/duplicate-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/items/merge - 重複アイテムの統合
+ * 統合元のフィールド・画像・価格履歴を統合先にまとめ、統合元をゴミ箱へ移動する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    const body = await request.json()
+    const { targetId, sourceIds } = mergeItemsSchema.parse(body)
+
+    const result = await mergeItems(dbUser.id, targetId, sourceIds)
+    if (!result) {
+      return ErrorResponses.notFound('統合先のアイテム')
+    }
+
+    const skippedMessage = result.skippedImages > 0
+      ? `（画像の上限を超えた${result.skippedImages}枚は統合元とともにゴミ箱に移動しました）`
+      : ''
+
+    return NextResponse.json({
+      success: true,
+      message: `${result.mergedCount}個のアイテムを「${result.item.name}」に統合しました${skippedMessage}`,
+      ...result,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'アイテム統合のデータに誤りがあります')
+    }
+
+    if (error instanceof MergeItemsError) {
+      return ErrorResponses.badRequest(error.message)
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/items/merge error:', error)
+    return ErrorResponses.internalError('アイテムの統合に失敗しました')
+  }
+}
@@ -8,6 +8,7 @@ import {
 } from '@/lib/validations'
 import { ZodError } from 'zod'
 import { ensureUserExists } from '@/lib/user-helper'
+import { recordItemRevision, revisionFieldSelect } from '@/lib/revision-utils'
 import { z } from 'zod'
 
 export const runtime = 'nodejs'
@@ -69,11 +70,11 @@ export async function POST(request: NextRequest) {
       where: {
         id: data.itemId,
         userId: dbUser.id,
+        deletedAt: null,
       },
       select: {
+        ...revisionFieldSelect,
         id: true,
-        name: true,
-        folderId: true,
         folder: {
           select: {
             id: true,
@@ -94,6 +95,7 @@ export async function POST(request: NextRequest) {
         where: {
           id: data.folderId,
           userId: dbUser.id,
+          deletedAt: null,
         },
         select: {
           id: true,
@@ -116,25 +118,37 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // アイテムのフォルダを更新
-    const updatedItem = await prisma.item.update({
-      where: {
-        id: data.itemId,
-      },
-      data: {
-        folderId: data.folderId,
-      },
-      select: {
-        id: true,
-        name: true,
-        folderId: true,
-        folder: {
-          select: {
-            id: true,
-            name: true,
+    // アイテムのフォルダを更新（移動履歴も記録）
+    const updatedItem = await prisma.$transaction(async (tx) => {
+      const movedItem = await tx.item.update({
+        where: {
+          id: data.itemId,
+        },
+        data: {
+          folderId: data.folderId,
+        },
+        select: {
+          id: true,
+          name: true,
+          folderId: true,
+          folder: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
         },
-      },
+      })
+
+      await recordItemRevision(tx, {
+        itemId: item.id,
+        userId: dbUser.id,
+        action: 'move',
+        before: item,
+        after: { ...item, folderId: movedItem.folderId },
+      })
+
+      return movedItem
     })
 
     // 移動結果のメッセージを作成
@@ -4,13 +4,39 @@ import { prisma } from '@/lib/prisma'
 import { 
   createItemSchema, 
   searchItemsSchema, 
+  customFieldFiltersSchema,
+  buildCustomFieldValuesSchema,
   validationErrorResponse, 
   ErrorResponses,
   handleDatabaseError
 } from '@/lib/validations'
 import { ZodError } from 'zod'
+import { Prisma } from '@prisma/client'
 import { Decimal } from 'decimal.js'
 import { ensureUserExists } from '@/lib/user-helper'
+import { recordItemRevision } from '@/lib/revision-utils'
+import { itemTagsInclude, resolveTagIds } from '@/lib/tag-utils'
+import { buildItemSearchWhere } from '@/lib/item-filter-utils'
+import { findItemIdsSortedByRelevance, buildItemHighlights } from '@/lib/search-utils'
+import {
+  ItemCursorError,
+  decodeItemCursor,
+  encodeItemCursor,
+  itemCursorValue,
+  buildItemOrderBy,
+  buildItemCursorWhere,
+} from '@/lib/item-cursor-utils'
+import type { ItemKeysetSortField } from '@/lib/item-cursor-utils'
+import {
+  itemCustomFieldValuesInclude,
+  extractCustomFieldFilters,
+  findApplicableCustomFields,
+  findItemIdsSortedByCustomField,
+  saveCustomFieldValues,
+  withCustomFieldMap,
+  CustomFieldQueryError,
+} from '@/lib/custom-field-utils'
+import { EntitlementError, entitlementErrorResponse, assertItemCapacity } from '@/lib/entitlements'
 
 export const runtime = 'nodejs'
 
@@ -36,189 +62,159 @@ export async function GET(request: NextRequest) {
     // クエリパラメータのバリデーション
     const searchParams = Object.fromEntries(request.nextUrl.searchParams)
     const params = searchItemsSchema.parse(searchParams)
+    const customFieldFilters = customFieldFiltersSchema.parse(
+      extractCustomFieldFilters(request.nextUrl.searchParams)
+    )
 
-    // Prismaクエリの構築
-    const where: any = {
-      userId: dbUser.id,
-    }
+    // 絞り込みに使うカスタムフィールド定義
+    const customFields = await prisma.customFieldDefinition.findMany({
+      where: { userId: dbUser.id },
+      select: { id: true, name: true, type: true },
+    })
 
-    // 検索条件の追加（SQLite対応 - 大文字小文字区別なし）
-    if (params.q) {
-      const searchTerm = params.q.toLowerCase()
-      where.OR = [
-        { 
-          name: { 
-            contains: searchTerm 
-          } 
-        },
-        { 
-          description: { 
-            contains: searchTerm 
-          } 
-        },
-        { 
-          category: { 
-            contains: searchTerm 
-          } 
-        },
-        { 
-          manufacturer: { 
-            contains: searchTerm 
-          } 
-        },
-      ]
-    }
+    // Prismaクエリの構築
+    const { where, searchTerms, searchRanks } = await buildItemSearchWhere(
+      dbUser.id,
+      params,
+      customFields,
+      customFieldFilters
+    )
 
-    if (params.category) {
-      where.category = params.category
+    // カスタムフィールドでの並び替え（cf:フィールドID）
+    const sortCustomFieldId = params.sort.startsWith('cf:') ? params.sort.slice(3) : null
+    if (sortCustomFieldId && !customFields.some(field => field.id === sortCustomFieldId)) {
+      throw new CustomFieldQueryError('並び替えに指定したカスタムフィールドが見つかりません')
     }
 
-    if (params.manufacturer) {
-      where.manufacturer = params.manufacturer
-    }
+    // ソートフィールドの変換（priceの場合はpurchasePriceにマッピング、関連度・カスタムフィールド順は作成日時を基準にする）
+    const sortByRelevance = params.sort === 'relevance' && searchRanks !== null
+    const sortInMemory = Boolean(sortCustomFieldId) || sortByRelevance
+    const sortField: ItemKeysetSortField = params.sort === 'price'
+      ? 'purchasePrice'
+      : params.sort === 'relevance' || sortCustomFieldId ? 'createdAt' : params.sort as ItemKeysetSortField
 
-    if (params.folderId) {
-      where.folderId = params.folderId
+    // ページネーション（cursor 指定時はカーソル方式、それ以外はページ番号方式）
+    const useCursor = params.cursor !== undefined
+    const sortKey = `${params.sort}:${params.order}`
+    const cursor = useCursor ? decodeItemCursor(params.cursor!, sortKey, sortField) : null
+    if (cursor && ('offset' in cursor) !== sortInMemory) {
+      throw new ItemCursorError('カーソルが無効です。一覧を再読み込みしてください')
     }
+    const skip = useCursor
+      ? (cursor && 'offset' in cursor ? cursor.offset : 0)
+      : (params.page - 1) * params.limit
+    const take = useCursor ? params.limit + 1 : params.limit
 
-    // ページネーション計算
-    const skip = (params.page - 1) * params.limit
-
-    // ソートフィールドの変換（priceの場合はpurchasePriceにマッピング）
-    const sortField = params.sort === 'price' ? 'purchasePrice' : params.sort
-
-    // データ取得
-    const [items, total, categories, folders, manufacturers] = await Promise.all([
-      prisma.item.findMany({
-        where,
-        skip,
-        take: params.limit,
+    const include = {
+      folder: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      tags: itemTagsInclude,
+      images: {
+        select: {
+          id: true,
+          url: true,
+          order: true,
+          thumbnailSmall: true,
+          thumbnailMedium: true,
+          thumbnailLarge: true,
+        },
         orderBy: {
-          [sortField]: params.order,
+          order: 'asc',
         },
-        include: {
-          folder: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-          images: {
-            select: {
-              id: true,
-              url: true,
-              order: true,
-              thumbnailSmall: true,
-              thumbnailMedium: true,
-              thumbnailLarge: true,
-            },
-            orderBy: {
-              order: 'asc',
-            },
-          },
-          priceHistory: {
-            where: {
-              isActive: true,
-            },
-            orderBy: {
-              searchDate: 'desc',
-            },
-            take: 1,
-            select: {
-              id: true,
-              searchDate: true,
-              minPrice: true,
-              avgPrice: true,
-              maxPrice: true,
-              listingCount: true,
-            },
-          },
+      },
+      priceHistory: {
+        where: {
+          isActive: true,
         },
-      }),
-      prisma.item.count({ where }),
-      // カテゴリ一覧を取得（ユニークな値のみ）
-      prisma.item.findMany({
-        where: { userId: dbUser.id },
-        select: { category: true },
-        distinct: ['category'],
-      }).then(results => 
-        results
-          .map(item => item.category)
-          .filter(category => category && category.trim() !== '')
-          .sort()
-      ),
-      // フォルダ一覧を取得（階層構造を考慮したソート）
-      prisma.folder.findMany({
-        where: { userId: dbUser.id },
+        orderBy: {
+          searchDate: 'desc',
+        },
+        take: 1,
         select: {
           id: true,
-          name: true,
-          parentId: true,
+          searchDate: true,
+          minPrice: true,
+          avgPrice: true,
+          maxPrice: true,
+          listingCount: true,
         },
-        orderBy: [
-          { parentId: 'asc' }, // 親フォルダが先
-          { name: 'asc' },     // 同レベルでは名前順
-        ],
-      }).then(folders => {
-        // 階層構造でソートするヘルパー関数
-        const sortFoldersHierarchically = (folders: any[]) => {
-          const folderMap = new Map(folders.map(f => [f.id, f]))
-          const result: any[] = []
-          
-          // ルートフォルダ（parentId が null）から開始
-          const addFolderAndChildren = (folderId: string | null, level = 0) => {
-            folders
-              .filter(f => f.parentId === folderId)
-              .sort((a, b) => a.name.localeCompare(b.name))
-              .forEach(folder => {
-                result.push({
-                  id: folder.id,
-                  name: folder.name,
-                  displayName: '　'.repeat(level) + folder.name, // インデント表示用
-                })
-                addFolderAndChildren(folder.id, level + 1)
-              })
-          }
-          
-          addFolderAndChildren(null)
-          return result
-        }
-        
-        return sortFoldersHierarchically(folders)
-      }),
-      // メーカー一覧を取得（ユニークな値のみ）
-      prisma.item.findMany({
-        where: { userId: dbUser.id },
-        select: { manufacturer: true },
-        distinct: ['manufacturer'],
-      }).then(results => 
-        results
-          .map(item => item.manufacturer)
-          .filter(manufacturer => manufacturer && manufacturer.trim() !== '')
-          .sort()
-      ),
+      },
+      customFieldValues: itemCustomFieldValuesInclude,
+    } satisfies Prisma.ItemInclude
+
+    const findItems = async () => {
+      if (!sortInMemory) {
+        return prisma.item.findMany({
+          where: cursor && 'id' in cursor
+            ? { AND: [where, buildItemCursorWhere(sortField, params.order, cursor)] }
+            : where,
+          skip,
+          take,
+          orderBy: buildItemOrderBy(sortField, params.order),
+          include,
+        })
+      }
+
+      // 関連度・カスタムフィールドはorderByで扱えないため、並び替えたIDでページを取得する
+      const itemIds = sortCustomFieldId
+        ? await findItemIdsSortedByCustomField(where, sortCustomFieldId, params.order, skip, take)
+        : await findItemIdsSortedByRelevance(where, searchRanks!, skip, take)
+      const pageItems = await prisma.item.findMany({
+        where: { id: { in: itemIds } },
+        include,
+      })
+      const itemMap = new Map(pageItems.map(item => [item.id, item]))
+      return itemIds.flatMap(id => itemMap.get(id) ?? [])
+    }
+
+    // データ取得（カーソル方式では次ページの有無を判定するため1件多く取得する）
+    const [fetchedItems, total] = await Promise.all([
+      findItems(),
+      prisma.item.count({ where }),
     ])
+    const hasMore = useCursor && fetchedItems.length > params.limit
+    const items = hasMore ? fetchedItems.slice(0, params.limit) : fetchedItems
+    const lastItem = items[items.length - 1]
+    const nextCursor = hasMore && lastItem
+      ? encodeItemCursor(sortInMemory
+        ? { sort: sortKey, offset: skip + items.length }
+        : { sort: sortKey, value: itemCursorValue(lastItem, sortField), id: lastItem.id })
+      : null
 
-    // レスポンスの構築
+    // レスポンスの構築（絞り込みの選択肢は /api/items/facets で取得する）
     const response = {
-      items,
-      pagination: {
-        page: params.page,
-        limit: params.limit,
-        total,
-        totalPages: Math.ceil(total / params.limit),
-      },
-      categories,
-      manufacturers,
-      folders,
+      items: items.map(item => ({
+        ...withCustomFieldMap(item),
+        ...(searchTerms.length > 0 && { highlights: buildItemHighlights(item, searchTerms) }),
+      })),
+      pagination: useCursor
+        ? {
+            limit: params.limit,
+            total,
+            hasMore,
+            nextCursor,
+          }
+        : {
+            page: params.page,
+            limit: params.limit,
+            total,
+            totalPages: Math.ceil(total / params.limit),
+          },
     }
 
-
     return NextResponse.json(response)
   } catch (error) {
     if (error instanceof ZodError) {
       return validationErrorResponse(error, 'アイテム検索のパラメータに誤りがあります')
     }
+
+    if (error instanceof CustomFieldQueryError || error instanceof ItemCursorError) {
+      return ErrorResponses.badRequest(error.message)
+    }
     
     // データベースエラーの場合
     if (error && typeof error === 'object' && 'code' in error) {
@@ -259,6 +255,7 @@ export async function POST(request: NextRequest) {
         where: {
           id: data.folderId,
           userId: dbUser.id,
+          deletedAt: null,
         },
       })
 
@@ -267,9 +264,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Decimal型のフィールドを変換
+    // Decimal型のフィールドを変換（タグは名前からIDを解決して関連付ける）
+    const { tags: tagNames, customFields: customFieldInput, ...fields } = data
     const itemData: any = {
-      ...data,
+      ...fields,
       userId: dbUser.id,
     }
     
@@ -278,24 +276,56 @@ export async function POST(request: NextRequest) {
       itemData.purchasePrice = new Decimal(data.purchasePrice)
     }
 
-    // アイテム作成
-    const item = await prisma.item.create({
-      data: itemData,
-      include: {
-        folder: {
-          select: {
-            id: true,
-            name: true,
+    // カスタムフィールドの値を、カテゴリに適用される定義から生成したスキーマで検証
+    const customFieldDefinitions = await findApplicableCustomFields(prisma, dbUser.id, data.category)
+    const customFieldValues = buildCustomFieldValuesSchema(customFieldDefinitions, { requireAll: true })
+      .parse(customFieldInput || {})
+
+    // アイテム作成（作成履歴も記録）
+    const item = await prisma.$transaction(async (tx) => {
+      await assertItemCapacity(dbUser.id, 1, tx)
+
+      if (tagNames) {
+        const tagIds = await resolveTagIds(tx, dbUser.id, tagNames)
+        itemData.tags = { connect: tagIds.map(id => ({ id })) }
+      }
+
+      const createdItem = await tx.item.create({
+        data: itemData,
+        include: {
+          folder: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
-        },
-        images: {
-          select: {
-            id: true,
-            url: true,
-            order: true,
+          tags: itemTagsInclude,
+          images: {
+            select: {
+              id: true,
+              url: true,
+              order: true,
+            },
           },
         },
-      },
+      })
+
+      await saveCustomFieldValues(tx, createdItem.id, customFieldDefinitions, customFieldValues)
+
+      await recordItemRevision(tx, {
+        itemId: createdItem.id,
+        userId: dbUser.id,
+        action: 'create',
+        before: null,
+        after: createdItem,
+      })
+
+      const savedValues = await tx.itemCustomFieldValue.findMany({
+        where: { itemId: createdItem.id },
+        ...itemCustomFieldValuesInclude,
+      })
+
+      return withCustomFieldMap({ ...createdItem, customFieldValues: savedValues })
     })
 
     return NextResponse.json(item, { status: 201 })
@@ -303,6 +333,10 @@ export async function POST(request: NextRequest) {
     if (error instanceof ZodError) {
       return validationErrorResponse(error, 'アイテムの作成データに誤りがあります')
     }
+
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error)
+    }
     
     // データベースエラーの場合
     if (error && typeof error === 'object' && 'code' in error) {
@@ -39,6 +39,7 @@ export async function GET(request: NextRequest) {
     const suggestions = await prisma.item.findMany({
       where: {
         userId: dbUser.id,
+        deletedAt: null,
         [field]: {
           not: null,
           contains: query,
@@ -91,6 +91,7 @@ export async function GET(request: NextRequest) {
     // 未分類アイテム（folderId が null）の検索条件を構築
     const where: any = {
       userId: dbUser.id,
+      deletedAt: null,
       folderId: null, // 未分類アイテムはfolderId が null
     }
 
@@ -153,6 +154,7 @@ export async function GET(request: NextRequest) {
           by: ['category'],
           where: {
             userId: dbUser.id,
+            deletedAt: null,
             folderId: null,
           },
           _count: {
@@ -169,6 +171,7 @@ export async function GET(request: NextRequest) {
         prisma.item.count({
           where: {
             userId: dbUser.id,
+            deletedAt: null,
             folderId: null,
           },
         }),
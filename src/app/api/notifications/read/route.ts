@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  markNotificationsReadSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/notifications/read - 通知を既読にする（ids で指定、または all: true で全件）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = markNotificationsReadSchema.parse(body)
+
+    const { count } = await prisma.notification.updateMany({
+      where: {
+        userId: dbUser.id,
+        readAt: null,
+        ...('ids' in data && { id: { in: data.ids } }),
+      },
+      data: { readAt: new Date() },
+    })
+
+    const unreadCount = await prisma.notification.count({
+      where: { userId: dbUser.id, readAt: null },
+    })
+
+    return NextResponse.json({ updatedCount: count, unreadCount })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, '既読にする通知の指定に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/notifications/read error:', error)
+    return ErrorResponses.internalError('通知の既読化に失敗しました')
+  }
+}
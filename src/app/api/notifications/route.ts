@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  notificationListSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/notifications - アプリ内通知の一覧（新しい順）と未読件数
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    const { searchParams } = new URL(request.url)
+    const { unreadOnly, limit } = notificationListSchema.parse(Object.fromEntries(searchParams))
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId: dbUser.id,
+          ...(unreadOnly && { readAt: null }),
+        },
+        select: {
+          id: true,
+          title: true,
+          body: true,
+          link: true,
+          readAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      }),
+      prisma.notification.count({
+        where: { userId: dbUser.id, readAt: null },
+      }),
+    ])
+
+    return NextResponse.json({ notifications, unreadCount })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, '通知の取得条件に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/notifications error:', error)
+    return ErrorResponses.internalError('通知の取得に失敗しました')
+  }
+}
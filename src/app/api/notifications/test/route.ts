@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { ErrorResponses, handleDatabaseError } from '@/lib/validations'
+import { ensureUserExists } from '@/lib/user-helper'
+import { notificationRecipientSelect } from '@/lib/notifications/channels'
+import { sendNotification } from '@/lib/notifications/send'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/notifications/test - 有効な全チャネルにテスト通知を送り、チャネルごとの結果を返す
+ */
+export async function POST() {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    const recipient = await prisma.user.findUniqueOrThrow({
+      where: { id: dbUser.id },
+      select: notificationRecipientSelect,
+    })
+
+    const { notification, deliveries } = await sendNotification(recipient, {
+      title: 'テスト通知',
+      body: '通知の配信設定を確認するためのテスト通知です。',
+      link: '/settings',
+    })
+
+    return NextResponse.json({
+      notificationId: notification.id,
+      deliveries,
+    })
+  } catch (error) {
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/notifications/test error:', error)
+    return ErrorResponses.internalError('テスト通知の送信に失敗しました')
+  }
+}
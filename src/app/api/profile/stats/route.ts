@@ -28,19 +28,20 @@ export async function GET(request: NextRequest) {
 
     // アイテム数を取得
     const totalItems = await prisma.item.count({
-      where: { userId: dbUser.id }
+      where: { userId: dbUser.id, deletedAt: null }
     })
 
     // フォルダ数を取得
     const totalFolders = await prisma.folder.count({
-      where: { userId: dbUser.id }
+      where: { userId: dbUser.id, deletedAt: null }
     })
 
     // 画像数を取得
     const totalImages = await prisma.itemImage.count({
       where: {
         item: {
-          userId: dbUser.id
+          userId: dbUser.id,
+          deletedAt: null
         }
       }
     })
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  updateNotificationSettingsSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { getSmtpConfig } from '@/lib/notifications/smtp'
+import { generateWebhookSecret } from '@/lib/notifications/webhook'
+import { EntitlementError, entitlementErrorResponse, assertFeature, getUserPlan } from '@/lib/entitlements'
+
+export const runtime = 'nodejs'
+
+const notificationSettingsSelect = {
+  notifyByEmail: true,
+  notificationWebhookUrl: true,
+  notificationWebhookSecret: true,
+}
+
+/**
+ * GET /api/settings/notifications - 通知の配信設定取得
+ * （emailAvailable: サーバーでメール送信が設定されているか、webhookAvailable: プランでWebhook通知が使えるか）
+ * Webhook URLが設定済みで署名用シークレットが未発行の場合はここで発行する
+ */
+export async function GET() {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    const [currentSettings, plan] = await Promise.all([
+      prisma.user.findUniqueOrThrow({
+        where: { id: dbUser.id },
+        select: notificationSettingsSelect,
+      }),
+      getUserPlan(dbUser.id),
+    ])
+
+    const settings = currentSettings.notificationWebhookUrl && !currentSettings.notificationWebhookSecret
+      ? await prisma.user.update({
+          where: { id: dbUser.id },
+          data: { notificationWebhookSecret: generateWebhookSecret() },
+          select: notificationSettingsSelect,
+        })
+      : currentSettings
+
+    return NextResponse.json({
+      ...settings,
+      emailAvailable: getSmtpConfig() !== null,
+      webhookAvailable: plan.features.webhookNotifications,
+    })
+  } catch (error) {
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/settings/notifications error:', error)
+    return ErrorResponses.internalError('通知設定の取得に失敗しました')
+  }
+}
+
+/**
+ * PUT /api/settings/notifications - 通知の配信設定更新
+ * Webhook URLを設定したときに署名用シークレットが未発行なら発行する（regenerateWebhookSecret で再発行）
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const { regenerateWebhookSecret, ...data } = updateNotificationSettingsSchema.parse(body)
+
+    // Webhook URLの設定はプランでWebhook通知が使える場合のみ（解除はいつでも可能）
+    const plan = data.notificationWebhookUrl
+      ? await assertFeature(dbUser.id, 'webhookNotifications')
+      : await getUserPlan(dbUser.id)
+
+    const current = await prisma.user.findUniqueOrThrow({
+      where: { id: dbUser.id },
+      select: { notificationWebhookSecret: true },
+    })
+
+    const settings = await prisma.user.update({
+      where: { id: dbUser.id },
+      data: {
+        ...data,
+        ...((regenerateWebhookSecret || (data.notificationWebhookUrl && !current.notificationWebhookSecret)) && {
+          notificationWebhookSecret: generateWebhookSecret(),
+        }),
+      },
+      select: notificationSettingsSelect,
+    })
+
+    return NextResponse.json({
+      ...settings,
+      emailAvailable: getSmtpConfig() !== null,
+      webhookAvailable: plan.features.webhookNotifications,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, '通知設定のデータに誤りがあります')
+    }
+
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error)
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('PUT /api/settings/notifications error:', error)
+    return ErrorResponses.internalError('通知設定の更新に失敗しました')
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getAIQuotaStatus } from '@/lib/ai/quota'
+import { getEntitlementSummary } from '@/lib/entitlements'
 
 export const runtime = 'nodejs'
 
@@ -35,6 +37,19 @@ async function getOrCreateUser(email: string, sessionName?: string | null, sessi
   return user
 }
 
+// プランと上限に対する利用状況
+async function getPlanSettings(userId: string) {
+  const { plan, usage } = await getEntitlementSummary(userId)
+  return {
+    subscriptionTier: plan.tier,
+    planName: plan.name,
+    itemCount: usage.items,
+    maxItems: plan.maxItems,
+    storageUsedBytes: usage.storageBytes,
+    storageLimitBytes: plan.storageBytes,
+  }
+}
+
 export async function GET(request: NextRequest) {
   try {
     const session = await auth()
@@ -43,13 +58,19 @@ export async function GET(request: NextRequest) {
     }
 
     const dbUser = await getOrCreateUser(session.user.email, session.user.name, session.user.image)
+    // 利用回数は今月分（月初にリセット）
+    const [quota, planSettings] = await Promise.all([
+      getAIQuotaStatus(dbUser.id),
+      getPlanSettings(dbUser.id),
+    ])
 
     return NextResponse.json({
       displayName: dbUser.name || session.user.name || '',
       email: dbUser.email,
-      aiUsageCount: dbUser.aiUsageCount,
-      aiUsageLimit: dbUser.aiUsageLimit,
-      subscriptionTier: dbUser.subscriptionTier,
+      aiUsageCount: quota.used,
+      aiUsageLimit: quota.limit,
+      aiUsageResetAt: quota.resetAt.toISOString(),
+      ...planSettings,
     })
 
   } catch (error) {
@@ -106,12 +127,18 @@ export async function PUT(request: NextRequest) {
     })
     console.log('Settings PUT - Verification query result:', verifyUser)
 
+    const [quota, planSettings] = await Promise.all([
+      getAIQuotaStatus(updatedUser.id),
+      getPlanSettings(updatedUser.id),
+    ])
+
     return NextResponse.json({
       displayName: updatedUser.name,
       email: updatedUser.email,
-      aiUsageCount: updatedUser.aiUsageCount,
-      aiUsageLimit: updatedUser.aiUsageLimit,
-      subscriptionTier: updatedUser.subscriptionTier,
+      aiUsageCount: quota.used,
+      aiUsageLimit: quota.limit,
+      aiUsageResetAt: quota.resetAt.toISOString(),
+      ...planSettings,
     })
 
   } catch (error) {
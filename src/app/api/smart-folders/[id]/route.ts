@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  updateSmartFolderSchema,
+  smartFolderIdSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { smartFolderSelect, countSmartFolderItems } from '@/lib/smart-folder-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * PUT /api/smart-folders/[id] - スマートフォルダ更新（名前・絞り込み条件・表示順）
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = smartFolderIdSchema.parse(resolvedParams)
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = updateSmartFolderSchema.parse(body)
+
+    // スマートフォルダの存在確認
+    const existingSmartFolder = await prisma.smartFolder.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+      },
+    })
+
+    if (!existingSmartFolder) {
+      return ErrorResponses.notFound('スマートフォルダ')
+    }
+
+    // 名前変更時の重複チェック
+    if (data.name && data.name !== existingSmartFolder.name) {
+      const conflictingSmartFolder = await prisma.smartFolder.findFirst({
+        where: {
+          userId: dbUser.id,
+          name: data.name,
+          id: { not: id },
+        },
+      })
+
+      if (conflictingSmartFolder) {
+        return ErrorResponses.conflict('同名のスマートフォルダが既に存在します')
+      }
+    }
+
+    const smartFolder = await prisma.smartFolder.update({
+      where: { id },
+      data,
+      select: smartFolderSelect,
+    })
+
+    const itemCount = await countSmartFolderItems(dbUser.id, smartFolder.query)
+
+    return NextResponse.json({ ...smartFolder, itemCount })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'スマートフォルダの更新データに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('PUT /api/smart-folders/[id] error:', error)
+    return ErrorResponses.internalError('スマートフォルダの更新に失敗しました')
+  }
+}
+
+/**
+ * DELETE /api/smart-folders/[id] - スマートフォルダ削除（アイテムは削除されない）
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = smartFolderIdSchema.parse(resolvedParams)
+
+    // スマートフォルダの存在確認
+    const smartFolder = await prisma.smartFolder.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+      },
+    })
+
+    if (!smartFolder) {
+      return ErrorResponses.notFound('スマートフォルダ')
+    }
+
+    await prisma.smartFolder.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'スマートフォルダを削除しました' })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'スマートフォルダIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('DELETE /api/smart-folders/[id] error:', error)
+    return ErrorResponses.internalError('スマートフォルダの削除に失敗しました')
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  createSmartFolderSchema,
+  MAX_SMART_FOLDERS,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import {
+  smartFolderSelect,
+  smartFolderOrderBy,
+  countSmartFolderItems,
+} from '@/lib/smart-folder-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/smart-folders - スマートフォルダ一覧取得（現在の一致件数付き、条件が無効な場合はitemCountがnull）
+ */
+export async function GET() {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    const smartFolders = await prisma.smartFolder.findMany({
+      where: { userId: dbUser.id },
+      select: smartFolderSelect,
+      orderBy: smartFolderOrderBy,
+    })
+
+    const itemCounts = await Promise.all(
+      smartFolders.map(smartFolder => countSmartFolderItems(dbUser.id, smartFolder.query))
+    )
+
+    return NextResponse.json({
+      smartFolders: smartFolders.map((smartFolder, index) => ({
+        ...smartFolder,
+        itemCount: itemCounts[index],
+      })),
+    })
+  } catch (error) {
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/smart-folders error:', error)
+    return ErrorResponses.internalError('スマートフォルダの取得に失敗しました')
+  }
+}
+
+/**
+ * POST /api/smart-folders - スマートフォルダ作成（現在の絞り込み条件を名前を付けて保存）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = createSmartFolderSchema.parse(body)
+
+    const [existingSmartFolder, smartFolderCount] = await Promise.all([
+      prisma.smartFolder.findFirst({
+        where: {
+          userId: dbUser.id,
+          name: data.name,
+        },
+      }),
+      prisma.smartFolder.count({
+        where: { userId: dbUser.id },
+      }),
+    ])
+
+    // 重複名チェック
+    if (existingSmartFolder) {
+      return ErrorResponses.conflict('同名のスマートフォルダが既に存在します')
+    }
+
+    if (smartFolderCount >= MAX_SMART_FOLDERS) {
+      return ErrorResponses.badRequest(`スマートフォルダは${MAX_SMART_FOLDERS}個まで作成できます`)
+    }
+
+    // 新しいスマートフォルダは末尾に追加する
+    const smartFolder = await prisma.smartFolder.create({
+      data: {
+        name: data.name,
+        query: data.query,
+        sortOrder: smartFolderCount,
+        userId: dbUser.id,
+      },
+      select: smartFolderSelect,
+    })
+
+    const itemCount = await countSmartFolderItems(dbUser.id, smartFolder.query)
+
+    return NextResponse.json({ ...smartFolder, itemCount }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'スマートフォルダの作成データに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/smart-folders error:', error)
+    return ErrorResponses.internalError('スマートフォルダの作成に失敗しました')
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  updateTagSchema,
+  tagIdSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+
+export const runtime = 'nodejs'
+
+/**
+ * PUT /api/tags/[id] - タグ更新（名前・表示色）
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = tagIdSchema.parse(resolvedParams)
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = updateTagSchema.parse(body)
+
+    // タグの存在確認
+    const existingTag = await prisma.tag.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+      },
+    })
+
+    if (!existingTag) {
+      return ErrorResponses.notFound('タグ')
+    }
+
+    // 名前変更時の重複チェック
+    if (data.name && data.name !== existingTag.name) {
+      const duplicateTag = await prisma.tag.findFirst({
+        where: {
+          userId: dbUser.id,
+          name: data.name,
+          id: { not: id },
+        },
+      })
+
+      if (duplicateTag) {
+        return ErrorResponses.conflict('同名のタグが既に存在します')
+      }
+    }
+
+    const tag = await prisma.tag.update({
+      where: { id },
+      data: {
+        name: data.name,
+        color: data.color,
+      },
+      select: {
+        id: true,
+        name: true,
+        color: true,
+        _count: {
+          select: {
+            items: { where: { deletedAt: null } },
+          },
+        },
+      },
+    })
+
+    const { _count, ...tagData } = tag
+    return NextResponse.json({ ...tagData, itemCount: _count.items })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'タグの更新データに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('PUT /api/tags/[id] error:', error)
+    return ErrorResponses.internalError('タグの更新に失敗しました')
+  }
+}
+
+/**
+ * DELETE /api/tags/[id] - タグ削除（アイテムからも外れる）
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = tagIdSchema.parse(resolvedParams)
+
+    // タグの存在確認
+    const tag = await prisma.tag.findFirst({
+      where: {
+        id,
+        userId: dbUser.id,
+      },
+    })
+
+    if (!tag) {
+      return ErrorResponses.notFound('タグ')
+    }
+
+    // タグ削除（アイテムとの関連は自動で解除される）
+    await prisma.tag.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'タグを削除しました' })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'タグIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('DELETE /api/tags/[id] error:', error)
+    return ErrorResponses.internalError('タグの削除に失敗しました')
+  }
+}
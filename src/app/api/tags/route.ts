@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  createTagSchema,
+  getTagsSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/tags - タグ一覧取得（query指定時は部分一致で絞り込み、オートコンプリート用）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // クエリパラメータのバリデーション
+    const { query } = getTagsSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const tags = await prisma.tag.findMany({
+      where: {
+        userId: dbUser.id,
+        ...(query && {
+          name: {
+            contains: query,
+            mode: 'insensitive',
+          },
+        }),
+      },
+      select: {
+        id: true,
+        name: true,
+        color: true,
+        _count: {
+          select: {
+            items: { where: { deletedAt: null } },
+          },
+        },
+      },
+      orderBy: {
+        name: 'asc',
+      },
+    })
+
+    return NextResponse.json({
+      tags: tags.map(({ _count, ...tag }) => ({
+        ...tag,
+        itemCount: _count.items,
+      })),
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'タグ検索のパラメータに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/tags error:', error)
+    return ErrorResponses.internalError('タグの取得に失敗しました')
+  }
+}
+
+/**
+ * POST /api/tags - タグ新規作成
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // リクエストボディのバリデーション
+    const body = await request.json()
+    const data = createTagSchema.parse(body)
+
+    // 重複名チェック
+    const existingTag = await prisma.tag.findFirst({
+      where: {
+        userId: dbUser.id,
+        name: data.name,
+      },
+    })
+
+    if (existingTag) {
+      return ErrorResponses.conflict('同名のタグが既に存在します')
+    }
+
+    const tag = await prisma.tag.create({
+      data: {
+        name: data.name,
+        color: data.color,
+        userId: dbUser.id,
+      },
+      select: {
+        id: true,
+        name: true,
+        color: true,
+      },
+    })
+
+    return NextResponse.json({ ...tag, itemCount: 0 }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'タグの作成データに誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/tags error:', error)
+    return ErrorResponses.internalError('タグの作成に失敗しました')
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  folderIdSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { EntitlementError, entitlementErrorResponse } from '@/lib/entitlements'
+import { restoreFolder, TrashRestoreError } from '@/lib/trash-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/trash/folders/[id]/restore - ゴミ箱のフォルダを復元
+ * 同時にゴミ箱へ移動したサブフォルダ・アイテムも復元する
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = folderIdSchema.parse(resolvedParams)
+
+    const result = await restoreFolder(dbUser.id, id)
+    if (!result) {
+      return ErrorResponses.notFound('フォルダ')
+    }
+
+    return NextResponse.json({
+      message: 'フォルダを復元しました',
+      restoredFoldersCount: result.folders,
+      restoredItemsCount: result.items,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'フォルダIDの形式に誤りがあります')
+    }
+
+    if (error instanceof TrashRestoreError) {
+      return ErrorResponses.conflict(error.message)
+    }
+
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error)
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/trash/folders/[id]/restore error:', error)
+    return ErrorResponses.internalError('フォルダの復元に失敗しました')
+  }
+}
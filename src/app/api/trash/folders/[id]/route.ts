@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  folderIdSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { purgeTrashedFolder } from '@/lib/trash-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * DELETE /api/trash/folders/[id] - ゴミ箱のフォルダを完全に削除
+ * 同時にゴミ箱へ移動したサブフォルダ・アイテム・画像ファイルも削除する
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = folderIdSchema.parse(resolvedParams)
+
+    const result = await purgeTrashedFolder(dbUser.id, id)
+    if (!result) {
+      return ErrorResponses.notFound('フォルダ')
+    }
+
+    return NextResponse.json({
+      message: result.failedBlobs.length > 0
+        ? 'フォルダを完全に削除しましたが、一部の画像ファイルを削除できませんでした'
+        : 'フォルダを完全に削除しました',
+      deletedFoldersCount: result.folders,
+      deletedItemsCount: result.items,
+      failedBlobs: result.failedBlobs,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'フォルダIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('DELETE /api/trash/folders/[id] error:', error)
+    return ErrorResponses.internalError('フォルダの完全削除に失敗しました')
+  }
+}
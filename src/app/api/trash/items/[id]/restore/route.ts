@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  itemIdSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { EntitlementError, entitlementErrorResponse } from '@/lib/entitlements'
+import { restoreItem } from '@/lib/trash-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/trash/items/[id]/restore - ゴミ箱のアイテムを復元
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemIdSchema.parse(resolvedParams)
+
+    const item = await restoreItem(dbUser.id, id)
+    if (!item) {
+      return ErrorResponses.notFound('アイテム')
+    }
+
+    return NextResponse.json({
+      message: 'アイテムを復元しました',
+      item,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'アイテムIDの形式に誤りがあります')
+    }
+
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error)
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('POST /api/trash/items/[id]/restore error:', error)
+    return ErrorResponses.internalError('アイテムの復元に失敗しました')
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  itemIdSchema,
+  validationErrorResponse,
+  ErrorResponses,
+  handleDatabaseError
+} from '@/lib/validations'
+import { ZodError } from 'zod'
+import { ensureUserExists } from '@/lib/user-helper'
+import { purgeItems } from '@/lib/trash-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * DELETE /api/trash/items/[id] - ゴミ箱のアイテムを完全に削除（画像ファイルを含む）
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    // IDのバリデーション
+    const resolvedParams = await params
+    const { id } = itemIdSchema.parse(resolvedParams)
+
+    const result = await purgeItems({
+      id,
+      userId: dbUser.id,
+      deletedAt: { not: null },
+    })
+
+    if (result.items === 0) {
+      return ErrorResponses.notFound('アイテム')
+    }
+
+    return NextResponse.json({
+      message: result.failedBlobs.length > 0
+        ? 'アイテムを完全に削除しましたが、一部の画像ファイルを削除できませんでした'
+        : 'アイテムを完全に削除しました',
+      failedBlobs: result.failedBlobs,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationErrorResponse(error, 'アイテムIDの形式に誤りがあります')
+    }
+
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('DELETE /api/trash/items/[id] error:', error)
+    return ErrorResponses.internalError('アイテムの完全削除に失敗しました')
+  }
+}
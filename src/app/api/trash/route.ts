@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { ErrorResponses, handleDatabaseError } from '@/lib/validations'
+import { ensureUserExists } from '@/lib/user-helper'
+import { getTrashEntries, emptyTrash, TRASH_RETENTION_DAYS } from '@/lib/trash-utils'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/trash - ゴミ箱の一覧取得
+ */
+export async function GET() {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    const { folders, items } = await getTrashEntries(dbUser.id)
+
+    return NextResponse.json({
+      folders,
+      items,
+      retentionDays: TRASH_RETENTION_DAYS,
+    })
+  } catch (error) {
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('GET /api/trash error:', error)
+    return ErrorResponses.internalError('ゴミ箱の取得に失敗しました')
+  }
+}
+
+/**
+ * DELETE /api/trash - ゴミ箱を空にする（画像ファイルを含めて完全に削除）
+ */
+export async function DELETE() {
+  try {
+    // 認証チェック
+    const session = await auth()
+    if (!session?.user?.email) {
+      return ErrorResponses.unauthorized()
+    }
+
+    // ユーザーをデータベースに確実に存在させる
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+
+    const result = await emptyTrash(dbUser.id)
+
+    return NextResponse.json({
+      message: result.failedBlobs.length > 0
+        ? 'ゴミ箱を空にしましたが、一部の画像ファイルを削除できませんでした'
+        : 'ゴミ箱を空にしました',
+      deletedFoldersCount: result.folders,
+      deletedItemsCount: result.items,
+      failedBlobs: result.failedBlobs,
+    })
+  } catch (error) {
+    // データベースエラーの場合
+    if (error && typeof error === 'object' && 'code' in error) {
+      return handleDatabaseError(error)
+    }
+
+    console.error('DELETE /api/trash error:', error)
+    return ErrorResponses.internalError('ゴミ箱を空にできませんでした')
+  }
+}
@@ -16,6 +16,13 @@ import { ensureUserExists } from '@/lib/user-helper'
 import { put } from '@vercel/blob'
 import { randomBytes } from 'crypto'
 import { generateBlobThumbnails, getImageInfo } from '@/lib/image-utils'
+import {
+  EntitlementError,
+  entitlementErrorResponse,
+  getUserPlan,
+  assertImageCapacity,
+  assertStorageCapacity
+} from '@/lib/entitlements'
 
 export const runtime = 'nodejs'
 
@@ -82,6 +89,7 @@ export async function POST(request: NextRequest) {
       where: {
         id: validatedData.itemId,
         userId: dbUser.id,
+        deletedAt: null,
       },
       include: {
         _count: {
@@ -96,13 +104,10 @@ export async function POST(request: NextRequest) {
       return ErrorResponses.notFound('指定されたアイテムが見つかりません', 'itemId')
     }
 
-    // 画像数制限チェック（1アイテムあたり最大10枚）
-    if (item._count.images >= 10) {
-      return ErrorResponses.badRequest(
-        'このアイテムには既に10枚の画像が登録されています。新しい画像を追加する前に既存の画像を削除してください',
-        'itemId'
-      )
-    }
+    // プランの画像数（1アイテムあたり）と保存容量の上限チェック
+    const plan = await getUserPlan(dbUser.id)
+    assertImageCapacity(plan, item._count.images)
+    await assertStorageCapacity(dbUser.id, file.size)
 
     // ファイル名の生成
     const fileName = generateFileName(file.name)
@@ -211,6 +216,10 @@ export async function POST(request: NextRequest) {
     if (error instanceof ZodError) {
       return validationErrorResponse(error, '画像アップロードのデータに誤りがあります')
     }
+
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error)
+    }
     
     // Vercel Blobエラー
     if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string' && error.message.includes('blob')) {
@@ -239,14 +248,22 @@ export async function GET(request: NextRequest) {
       return ErrorResponses.unauthorized()
     }
 
-    // アップロード設定情報を返す
+    const dbUser = await ensureUserExists({
+      id: session.user.id || '',
+      email: session.user.email,
+      name: session.user.name,
+      image: session.user.image,
+    })
+    const plan = await getUserPlan(dbUser.id)
+
+    // アップロード設定情報を返す（画像数の上限はプランによる）
     return NextResponse.json({
       config: {
         maxFileSize: fileValidationConfig.maxSize,
         maxFileSizeMB: fileValidationConfig.maxSize / 1024 / 1024,
         acceptedFormats: fileValidationConfig.acceptedFormats,
         acceptedExtensions: fileValidationConfig.acceptedExtensions,
-        maxImagesPerItem: 10,
+        maxImagesPerItem: plan.maxImagesPerItem,
       },
       usage: {
         uploadEndpoint: '/api/upload',
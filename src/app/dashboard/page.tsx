@@ -107,12 +107,43 @@ interface PriceTrendsData {
   }[]
 }
 
+interface LoanSummary {
+  activeCount: number
+  overdueCount: number
+  overdueLoans: {
+    id: string
+    borrower: string
+    lentAt: string
+    dueDate: string | null
+    overdueDays: number
+    item: {
+      id: string
+      name: string
+      thumbnail: string | null
+    }
+  }[]
+}
+
+interface WarrantySummary {
+  days: number
+  expiringCount: number
+  items: {
+    id: string
+    name: string
+    warrantyExpiresAt: string
+    daysLeft: number
+    thumbnail: string | null
+  }[]
+}
+
 export default function DashboardPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
   const [stats, setStats] = useState<DashboardStats | null>(null)
   const [valueSummary, setValueSummary] = useState<ValueSummary | null>(null)
   const [trendData, setTrendData] = useState<PriceTrendsData | null>(null)
+  const [loanSummary, setLoanSummary] = useState<LoanSummary | null>(null)
+  const [warrantySummary, setWarrantySummary] = useState<WarrantySummary | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedItem, setSelectedItem] = useState<string>('')
@@ -142,10 +173,12 @@ export default function DashboardPage() {
     try {
       console.log('Dashboard: fetchData() started')
       setLoading(true)
-      const [statsResponse, valueResponse, trendsResponse] = await Promise.all([
+      const [statsResponse, valueResponse, trendsResponse, loansResponse, warrantiesResponse] = await Promise.all([
         fetch('/api/dashboard/stats'),
         fetch('/api/dashboard/value-summary'),
-        fetch('/api/dashboard/price-trends')
+        fetch('/api/dashboard/price-trends'),
+        fetch('/api/dashboard/loans'),
+        fetch('/api/dashboard/warranties')
       ])
       
       if (!statsResponse.ok) {
@@ -168,6 +201,14 @@ export default function DashboardPage() {
         }
       }
       
+      // 貸出状況・保証期限も任意（エラーでも続行）
+      if (loansResponse.ok) {
+        setLoanSummary(await loansResponse.json())
+      }
+      if (warrantiesResponse.ok) {
+        setWarrantySummary(await warrantiesResponse.json())
+      }
+      
       console.log('Dashboard: fetchData() completed successfully')
     } catch (err) {
       console.error('Dashboard: fetchData() error:', err)
@@ -692,6 +733,98 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {/* 貸出状況 */}
+      {loanSummary && loanSummary.activeCount > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              返却期限切れの貸出
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                貸出中 {loanSummary.activeCount}件 ／ 期限切れ {loanSummary.overdueCount}件
+              </span>
+            </h2>
+            <Link
+              href={loanSummary.overdueCount > 0 ? '/items?loanStatus=overdue' : '/items?loanStatus=on_loan'}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              すべて見る
+            </Link>
+          </div>
+          {loanSummary.overdueLoans.length > 0 ? (
+            <div className="space-y-3">
+              {loanSummary.overdueLoans.map((loan) => (
+                <Link
+                  key={loan.id}
+                  href={`/items/${loan.item.id}`}
+                  className="flex items-center justify-between p-2 -mx-2 rounded-md hover:bg-gray-50"
+                >
+                  <div className="flex items-center min-w-0">
+                    <div className="w-10 h-10 flex-shrink-0 rounded-md bg-gray-100 overflow-hidden mr-3">
+                      {loan.item.thumbnail && (
+                        <img src={loan.item.thumbnail} alt={loan.item.name} className="w-full h-full object-cover" />
+                      )}
+                    </div>
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{loan.item.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {loan.borrower} ／ 返却予定日: {loan.dueDate ? new Date(loan.dueDate).toLocaleDateString('ja-JP') : '-'}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-sm font-medium text-red-600 flex-shrink-0 ml-3">
+                    {loan.overdueDays}日超過
+                  </div>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-4 text-gray-500">
+              返却期限を過ぎた貸出はありません
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 保証期限が近いアイテム */}
+      {warrantySummary && warrantySummary.expiringCount > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              保証期限が近いアイテム
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                {warrantySummary.days}日以内に期限切れ {warrantySummary.expiringCount}件
+              </span>
+            </h2>
+          </div>
+          <div className="space-y-3">
+            {warrantySummary.items.map((item) => (
+              <Link
+                key={item.id}
+                href={`/items/${item.id}`}
+                className="flex items-center justify-between p-2 -mx-2 rounded-md hover:bg-gray-50"
+              >
+                <div className="flex items-center min-w-0">
+                  <div className="w-10 h-10 flex-shrink-0 rounded-md bg-gray-100 overflow-hidden mr-3">
+                    {item.thumbnail && (
+                      <img src={item.thumbnail} alt={item.name} className="w-full h-full object-cover" />
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">{item.name}</div>
+                    <div className="text-xs text-gray-500">
+                      保証期限: {new Date(item.warrantyExpiresAt).toLocaleDateString('ja-JP')}
+                    </div>
+                  </div>
+                </div>
+                <div className={`text-sm font-medium flex-shrink-0 ml-3 ${item.daysLeft <= 7 ? 'text-red-600' : 'text-yellow-600'}`}>
+                  {item.daysLeft === 0 ? '本日まで' : `あと${item.daysLeft}日`}
+                </div>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* 最近のアイテム */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* 最近追加したアイテム */}
@@ -4,10 +4,14 @@ import { useState, useEffect, use, useRef, useMemo, memo, useCallback } from 're
 import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
 import Link from 'next/link'
-import { Item } from '@/components/items/ItemCard'
+import { Item, ItemCustomFieldDefinition, ItemCustomFieldValue } from '@/components/items/ItemCard'
 import { UploadedImage } from '@/components/UploadedImage'
 import { useItems } from '@/hooks/useItems'
 import { PriceTrendChart } from '@/components/charts/PriceTrendChart'
+import { ItemHistoryTimeline } from '@/components/items/ItemHistoryTimeline'
+import { ItemLoanPanel } from '@/components/items/ItemLoanPanel'
+import { ItemDocumentPanel } from '@/components/items/ItemDocumentPanel'
+import { ItemReminderPanel } from '@/components/items/ItemReminderPanel'
 
 interface Props {
   params: Promise<{ id: string }>
@@ -31,6 +35,9 @@ const ItemDetailPage = memo(function ItemDetailPage({ params }: Props) {
   const [priceHistory, setPriceHistory] = useState<any[]>([])
   const [priceHistoryLoading, setPriceHistoryLoading] = useState(false)
   const [priceHistoryLoaded, setPriceHistoryLoaded] = useState(false)
+  const [customFieldDefinitions, setCustomFieldDefinitions] = useState<ItemCustomFieldDefinition[]>([])
+  const [showDuplicateMenu, setShowDuplicateMenu] = useState(false)
+  const [duplicating, setDuplicating] = useState(false)
 
   // 認証状態を安定化（一度認証されたら loading への変化を無視）
   const authStateRef = useRef({ isAuthenticated: false, hasBeenAuthenticated: false })
@@ -92,10 +99,31 @@ const ItemDetailPage = memo(function ItemDetailPage({ params }: Props) {
     fetchItem()
   }, [itemId, isAuthenticated, isAuthLoading])
 
+  // アイテムのカテゴリに適用されるカスタムフィールド定義を取得
+  const itemCategory = item?.category
+  const hasItem = !!item
+  useEffect(() => {
+    if (!hasItem) return
+
+    const fetchCustomFields = async () => {
+      try {
+        const response = await fetch(`/api/custom-fields?category=${encodeURIComponent(itemCategory || '')}`)
+        if (response.ok) {
+          const data = await response.json()
+          setCustomFieldDefinitions(data.customFields || [])
+        }
+      } catch (err) {
+        console.error('Error fetching custom fields:', err)
+      }
+    }
+
+    fetchCustomFields()
+  }, [hasItem, itemCategory])
+
   const handleDelete = async () => {
     if (!item) return
     
-    if (!confirm('このアイテムを削除してもよろしいですか？')) {
+    if (!confirm('このアイテムをゴミ箱に移動してもよろしいですか？\nゴミ箱から復元できます。')) {
       return
     }
 
@@ -108,6 +136,39 @@ const ItemDetailPage = memo(function ItemDetailPage({ params }: Props) {
     }
   }
 
+  // アイテムを複製し、複製したアイテムの編集画面へ移動
+  const handleDuplicate = async (includeImages: boolean) => {
+    if (!item) return
+
+    setShowDuplicateMenu(false)
+    setDuplicating(true)
+
+    try {
+      const response = await fetch(`/api/items/${item.id}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ includeImages }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'アイテムの複製に失敗しました')
+      }
+
+      if (data.failedImages > 0) {
+        alert(data.message)
+      }
+
+      // フォルダツリーの件数を更新
+      window.dispatchEvent(new Event('folder-updated'))
+      router.push(`/items/${data.item.id}/edit`)
+    } catch (err) {
+      console.error('Error duplicating item:', err)
+      alert(err instanceof Error ? err.message : 'エラーが発生しました')
+    } finally {
+      setDuplicating(false)
+    }
+  }
+
   const formatPrice = (price?: number) => {
     if (!price) return null
     return new Intl.NumberFormat('ja-JP', {
@@ -121,6 +182,19 @@ const ItemDetailPage = memo(function ItemDetailPage({ params }: Props) {
     return new Date(dateString).toLocaleDateString('ja-JP')
   }
 
+  const formatCustomFieldValue = (definition: ItemCustomFieldDefinition, value: ItemCustomFieldValue) => {
+    if (definition.type === 'boolean') return value ? 'はい' : 'いいえ'
+    if (definition.type === 'date' && typeof value === 'string') return formatDate(value)
+    if (definition.type === 'number' && typeof value === 'number') return value.toLocaleString('ja-JP')
+    return String(value)
+  }
+
+  // 値が入力されているカスタムフィールド
+  const filledCustomFields = customFieldDefinitions.filter(definition => {
+    const value = item?.customFields?.[definition.id]
+    return value !== undefined && value !== null && value !== ''
+  })
+
   // 価格履歴を取得（初回のみ）
   const fetchPriceHistory = useCallback(async () => {
     if (!item) return
@@ -330,6 +404,35 @@ const ItemDetailPage = memo(function ItemDetailPage({ params }: Props) {
             </svg>
             編集
           </Link>
+          <div className="relative">
+            <button
+              onClick={() => setShowDuplicateMenu(prev => !prev)}
+              disabled={duplicating}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+              </svg>
+              {duplicating ? '複製中...' : '複製'}
+            </button>
+            {showDuplicateMenu && (
+              <div className="absolute right-0 mt-2 w-48 bg-white border border-gray-200 rounded-md shadow-lg z-10">
+                <button
+                  onClick={() => handleDuplicate(true)}
+                  disabled={item.images.length === 0}
+                  className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:text-gray-400 disabled:hover:bg-white"
+                >
+                  画像を含めて複製
+                </button>
+                <button
+                  onClick={() => handleDuplicate(false)}
+                  className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  画像なしで複製
+                </button>
+              </div>
+            )}
+          </div>
           <button
             onClick={handleDelete}
             className="inline-flex items-center px-4 py-2 border border-red-300 rounded-md shadow-sm text-sm font-medium text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
@@ -418,6 +521,17 @@ const ItemDetailPage = memo(function ItemDetailPage({ params }: Props) {
                     {item.folder.name}
                   </span>
                 )}
+                {item.tags?.map(tag => (
+                  <span
+                    key={tag.id}
+                    className="inline-flex items-center px-2 lg:px-3 py-1 rounded-full text-xs lg:text-sm font-medium bg-white border border-gray-300 text-gray-700"
+                  >
+                    {tag.color && (
+                      <span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: tag.color }} />
+                    )}
+                    #{tag.name}
+                  </span>
+                ))}
               </div>
 
               {item.description && (
@@ -428,7 +542,7 @@ const ItemDetailPage = memo(function ItemDetailPage({ params }: Props) {
             </div>
 
             {/* 購入情報 */}
-            {(item.purchasePrice || item.purchaseDate || item.purchaseLocation) && (
+            {(item.purchasePrice || item.purchaseDate || item.purchaseLocation || item.warrantyExpiresAt) && (
               <div className="bg-gray-50 rounded-lg p-3 lg:p-4">
                 <h3 className="text-base lg:text-lg font-semibold text-gray-900 mb-2 lg:mb-3">購入情報</h3>
                 <dl className="space-y-1.5 lg:space-y-2">
@@ -456,6 +570,60 @@ const ItemDetailPage = memo(function ItemDetailPage({ params }: Props) {
                       </dd>
                     </div>
                   )}
+                  {item.warrantyExpiresAt && (
+                    <div className="flex flex-col gap-1">
+                      <dt className="text-xs lg:text-sm font-medium text-gray-500">保証期限</dt>
+                      <dd className={`text-xs lg:text-sm ${
+                        new Date(item.warrantyExpiresAt) < new Date(new Date().toISOString().split('T')[0])
+                          ? 'text-red-600'
+                          : 'text-gray-900'
+                      }`}>
+                        {formatDate(item.warrantyExpiresAt)}
+                      </dd>
+                    </div>
+                  )}
+                </dl>
+              </div>
+            )}
+
+            {/* 数量・保管場所 */}
+            {(item.quantity !== undefined || item.storageRoom || item.storageShelf || item.storageBox) && (
+              <div className="bg-gray-50 rounded-lg p-3 lg:p-4">
+                <h3 className="text-base lg:text-lg font-semibold text-gray-900 mb-2 lg:mb-3">数量・保管場所</h3>
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-1.5 lg:gap-2">
+                  {item.quantity !== undefined && (
+                    <div className="flex flex-col gap-1">
+                      <dt className="text-xs lg:text-sm font-medium text-gray-500">数量</dt>
+                      <dd className="text-xs lg:text-sm text-gray-900">
+                        {item.quantity.toLocaleString()}{item.unit || ''}
+                      </dd>
+                    </div>
+                  )}
+                  {(item.storageRoom || item.storageShelf || item.storageBox) && (
+                    <div className="flex flex-col gap-1">
+                      <dt className="text-xs lg:text-sm font-medium text-gray-500">保管場所</dt>
+                      <dd className="text-xs lg:text-sm text-gray-900 break-all">
+                        {[item.storageRoom, item.storageShelf, item.storageBox].filter(Boolean).join(' > ')}
+                      </dd>
+                    </div>
+                  )}
+                </dl>
+              </div>
+            )}
+
+            {/* カスタムフィールド */}
+            {filledCustomFields.length > 0 && (
+              <div className="bg-gray-50 rounded-lg p-3 lg:p-4">
+                <h3 className="text-base lg:text-lg font-semibold text-gray-900 mb-2 lg:mb-3">詳細情報</h3>
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-1.5 lg:gap-2">
+                  {filledCustomFields.map(definition => (
+                    <div key={definition.id} className="flex flex-col gap-1">
+                      <dt className="text-xs lg:text-sm font-medium text-gray-500">{definition.name}</dt>
+                      <dd className="text-xs lg:text-sm text-gray-900 break-all">
+                        {formatCustomFieldValue(definition, item.customFields![definition.id])}
+                      </dd>
+                    </div>
+                  ))}
                 </dl>
               </div>
             )}
@@ -783,6 +951,18 @@ const ItemDetailPage = memo(function ItemDetailPage({ params }: Props) {
           </div>
         </div>
       </div>
+
+      {/* 書類（レシート・説明書・保証書） */}
+      <ItemDocumentPanel itemId={item.id} />
+
+      {/* 貸出記録 */}
+      <ItemLoanPanel itemId={item.id} />
+
+      {/* リマインダー（保証期限・電池交換・定期メンテナンスなど） */}
+      <ItemReminderPanel itemId={item.id} warrantyExpiresAt={item.warrantyExpiresAt} />
+
+      {/* 変更履歴 */}
+      <ItemHistoryTimeline itemId={item.id} onReverted={setItem} />
     </div>
   )
 })
@@ -0,0 +1,334 @@
+'use client'
+
+import { useState, useEffect, useRef, useMemo, useCallback, memo } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+interface DuplicateItem {
+  id: string
+  name: string
+  category: string | null
+  manufacturer: string | null
+  purchasePrice: string | null
+  createdAt: string
+  folder: {
+    id: string
+    name: string
+  } | null
+  thumbnail: string | null
+  imageCount: number
+  priceHistoryCount: number
+}
+
+interface DuplicateGroup {
+  items: DuplicateItem[]
+  reasons: Array<'name' | 'image'>
+}
+
+interface DuplicatesResponse {
+  groups: DuplicateGroup[]
+  pendingImageCount: number
+}
+
+// グループごとの選択状態（残すアイテムと統合するアイテム）
+interface GroupSelection {
+  targetId: string
+  sourceIds: string[]
+}
+
+const reasonLabels: Record<DuplicateGroup['reasons'][number], string> = {
+  name: '名前が類似',
+  image: '画像が類似',
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('ja-JP', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+
+// グループのキー（先頭アイテムのID）
+const groupKey = (group: DuplicateGroup) => group.items[0].id
+
+// 初期状態では最も情報の多い（画像・価格履歴の多い）アイテムを残し、残りをすべて統合する
+const defaultSelection = (group: DuplicateGroup): GroupSelection => {
+  const target = group.items.reduce((best, item) =>
+    item.imageCount + item.priceHistoryCount > best.imageCount + best.priceHistoryCount ? item : best
+  )
+  return {
+    targetId: target.id,
+    sourceIds: group.items.filter(item => item.id !== target.id).map(item => item.id),
+  }
+}
+
+const DuplicatesPage = memo(function DuplicatesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  // 認証状態を安定化（一度認証されたら loading への変化を無視）
+  const authStateRef = useRef({ isAuthenticated: false, hasBeenAuthenticated: false })
+
+  const isAuthenticated = useMemo(() => {
+    const currentAuth = status === 'authenticated' && session?.hasSession
+    if (currentAuth) {
+      authStateRef.current.hasBeenAuthenticated = true
+    }
+    if (authStateRef.current.hasBeenAuthenticated && status === 'loading') {
+      return true
+    }
+    authStateRef.current.isAuthenticated = currentAuth
+    return currentAuth
+  }, [status, session?.hasSession])
+
+  const isAuthLoading = useMemo(() => {
+    return status === 'loading' && !authStateRef.current.hasBeenAuthenticated
+  }, [status])
+
+  // 未ログインの場合はトップページにリダイレクト
+  useEffect(() => {
+    if (!isAuthLoading && !isAuthenticated) {
+      router.replace('/')
+    }
+  }, [isAuthenticated, isAuthLoading, router])
+
+  const [duplicates, setDuplicates] = useState<DuplicatesResponse | null>(null)
+  const [selections, setSelections] = useState<Record<string, GroupSelection>>({})
+  const [loading, setLoading] = useState(true)
+  const [processingKey, setProcessingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const fetchDuplicates = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/items/duplicates')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '重複アイテムの検出に失敗しました')
+      }
+      setDuplicates(data)
+      setSelections(Object.fromEntries(
+        (data as DuplicatesResponse).groups.map(group => [groupKey(group), defaultSelection(group)])
+      ))
+    } catch (err) {
+      console.error('Error fetching duplicates:', err)
+      setError(err instanceof Error ? err.message : '重複アイテムの検出に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchDuplicates()
+    }
+  }, [isAuthenticated, fetchDuplicates])
+
+  const handleTargetChange = (group: DuplicateGroup, targetId: string) => {
+    setSelections(prev => ({
+      ...prev,
+      [groupKey(group)]: {
+        targetId,
+        sourceIds: group.items.filter(item => item.id !== targetId).map(item => item.id),
+      },
+    }))
+  }
+
+  const handleSourceToggle = (group: DuplicateGroup, itemId: string) => {
+    setSelections(prev => {
+      const selection = prev[groupKey(group)]
+      const sourceIds = selection.sourceIds.includes(itemId)
+        ? selection.sourceIds.filter(id => id !== itemId)
+        : [...selection.sourceIds, itemId]
+      return { ...prev, [groupKey(group)]: { ...selection, sourceIds } }
+    })
+  }
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const key = groupKey(group)
+    const selection = selections[key]
+    if (!selection || selection.sourceIds.length === 0) return
+
+    const target = group.items.find(item => item.id === selection.targetId)
+    if (!confirm(`${selection.sourceIds.length}個のアイテムを「${target?.name}」に統合してもよろしいですか？\n統合したアイテムはゴミ箱に移動します。`)) return
+
+    setProcessingKey(key)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/items/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(selection),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'アイテムの統合に失敗しました')
+      }
+
+      setMessage(data.message)
+      await fetchDuplicates()
+
+      // フォルダツリーの件数を更新
+      window.dispatchEvent(new Event('folder-updated'))
+    } catch (err) {
+      console.error('Error merging items:', err)
+      setError(err instanceof Error ? err.message : 'アイテムの統合に失敗しました')
+    } finally {
+      setProcessingKey(null)
+    }
+  }
+
+  if (isAuthLoading || !isAuthenticated) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">重複アイテムの確認</h1>
+          <p className="text-gray-600">
+            名前・メーカーや画像が似ているアイテムを1つにまとめられます
+          </p>
+        </div>
+        <Link
+          href="/items"
+          className="text-sm text-blue-600 hover:text-blue-500 underline"
+        >
+          アイテム一覧に戻る
+        </Link>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-sm text-green-800">{message}</p>
+        </div>
+      )}
+      {duplicates && duplicates.pendingImageCount > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 flex items-center justify-between gap-3">
+          <p className="text-sm text-yellow-800">
+            {duplicates.pendingImageCount}件の画像はまだ比較できていません。再検出すると続きを比較します
+          </p>
+          <button
+            onClick={fetchDuplicates}
+            disabled={loading || processingKey !== null}
+            className="px-3 py-1.5 border border-yellow-300 text-yellow-800 text-xs font-medium rounded-md hover:bg-yellow-100 disabled:opacity-50"
+          >
+            再検出
+          </button>
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {!loading && duplicates && duplicates.groups.length === 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">重複している可能性のあるアイテムは見つかりませんでした</p>
+        </div>
+      )}
+
+      {/* Groups */}
+      {!loading && duplicates?.groups.map(group => {
+        const key = groupKey(group)
+        const selection = selections[key]
+        if (!selection) return null
+
+        return (
+          <div key={key} className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between gap-2">
+              <h2 className="text-sm font-medium text-gray-900">
+                {group.items.length}件のアイテム
+                {group.reasons.map(reason => (
+                  <span key={reason} className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-full">
+                    {reasonLabels[reason]}
+                  </span>
+                ))}
+              </h2>
+              <button
+                onClick={() => handleMerge(group)}
+                disabled={processingKey !== null || selection.sourceIds.length === 0}
+                className="px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {processingKey === key ? '統合中...' : `${selection.sourceIds.length}件を統合`}
+              </button>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {group.items.map(item => {
+                const isTarget = item.id === selection.targetId
+                return (
+                  <li key={item.id} className="px-4 py-3 flex items-center gap-3">
+                    <div className="flex flex-col items-center gap-1 w-14 flex-shrink-0 text-xs text-gray-600">
+                      <label className="flex items-center gap-1 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`target-${key}`}
+                          checked={isTarget}
+                          onChange={() => handleTargetChange(group, item.id)}
+                          className="text-blue-600 focus:ring-blue-500"
+                        />
+                        残す
+                      </label>
+                      {!isTarget && (
+                        <label className="flex items-center gap-1 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={selection.sourceIds.includes(item.id)}
+                            onChange={() => handleSourceToggle(group, item.id)}
+                            className="rounded text-blue-600 focus:ring-blue-500"
+                          />
+                          統合
+                        </label>
+                      )}
+                    </div>
+                    <div className="w-12 h-12 flex-shrink-0 rounded-md bg-gray-100 overflow-hidden">
+                      {item.thumbnail && (
+                        <img src={item.thumbnail} alt={item.name} className="w-full h-full object-cover" />
+                      )}
+                    </div>
+                    <div className="min-w-0">
+                      <Link
+                        href={`/items/${item.id}`}
+                        className="text-sm font-medium text-gray-900 hover:text-blue-600 truncate block"
+                      >
+                        {item.name}
+                      </Link>
+                      <p className="text-xs text-gray-500">
+                        {[item.category, item.manufacturer, item.folder?.name].filter(Boolean).join(' ／ ')}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        画像{item.imageCount}枚・価格履歴{item.priceHistoryCount}件
+                        {item.purchasePrice && ` ／ 購入価格: ¥${Number(item.purchasePrice).toLocaleString()}`}
+                        {' '}／ 登録日: {formatDate(item.createdAt)}
+                      </p>
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          </div>
+        )
+      })}
+    </div>
+  )
+})
+
+export default DuplicatesPage
@@ -0,0 +1,375 @@
+'use client'
+
+import { useState, useEffect, useRef, useMemo, useCallback, memo } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+type ImportFormat = 'csv' | 'json'
+
+interface ImportRowResult {
+  row: number
+  valid: boolean
+  errors?: Record<string, string[]>
+  data?: {
+    name: string
+    category?: string
+    manufacturer?: string
+    purchaseDate?: string
+    purchasePrice?: number
+    folderPath?: string
+  }
+}
+
+interface ImportResponse {
+  dryRun: boolean
+  message?: string
+  columns: string[]
+  mapping: Record<string, string>
+  summary: {
+    totalRows: number
+    validRows: number
+    invalidRows: number
+    createdItems?: number
+  }
+  foldersToCreate?: string[]
+  createdFolders?: string[]
+  rows: ImportRowResult[]
+}
+
+// 列の割り当て先として選択できるフィールド
+const FIELD_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: '', label: '（取り込まない）' },
+  { value: 'name', label: '商品名' },
+  { value: 'description', label: '説明' },
+  { value: 'category', label: 'カテゴリ' },
+  { value: 'manufacturer', label: 'メーカー' },
+  { value: 'purchaseDate', label: '購入日' },
+  { value: 'purchasePrice', label: '購入価格' },
+  { value: 'purchaseLocation', label: '購入場所' },
+  { value: 'condition', label: '状態' },
+  { value: 'notes', label: 'メモ' },
+  { value: 'quantity', label: '数量' },
+  { value: 'unit', label: '単位' },
+  { value: 'storageRoom', label: '保管場所（部屋）' },
+  { value: 'storageShelf', label: '保管場所（棚）' },
+  { value: 'storageBox', label: '保管場所（箱）' },
+  { value: 'warrantyExpiresAt', label: '保証期限' },
+  { value: 'folderPath', label: 'フォルダパス' },
+]
+
+const ImportItemsPage = memo(function ImportItemsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  // 認証状態を安定化（一度認証されたら loading への変化を無視）
+  const authStateRef = useRef({ isAuthenticated: false, hasBeenAuthenticated: false })
+
+  const isAuthenticated = useMemo(() => {
+    const currentAuth = status === 'authenticated' && session?.hasSession
+    if (currentAuth) {
+      authStateRef.current.hasBeenAuthenticated = true
+    }
+    if (authStateRef.current.hasBeenAuthenticated && status === 'loading') {
+      return true
+    }
+    authStateRef.current.isAuthenticated = currentAuth
+    return currentAuth
+  }, [status, session?.hasSession])
+
+  const isAuthLoading = useMemo(() => {
+    return status === 'loading' && !authStateRef.current.hasBeenAuthenticated
+  }, [status])
+
+  // 未ログインの場合はトップページにリダイレクト
+  useEffect(() => {
+    if (!isAuthLoading && !isAuthenticated) {
+      router.replace('/')
+    }
+  }, [isAuthenticated, isAuthLoading, router])
+
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [format, setFormat] = useState<ImportFormat>('csv')
+  const [content, setContent] = useState('')
+  const [mapping, setMapping] = useState<Record<string, string>>({})
+  const [preview, setPreview] = useState<ImportResponse | null>(null)
+  const [result, setResult] = useState<ImportResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showInvalidOnly, setShowInvalidOnly] = useState(false)
+
+  const requestImport = useCallback(async (dryRun: boolean, nextMapping?: Record<string, string>) => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/items/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          format,
+          content,
+          dryRun,
+          ...(nextMapping && Object.keys(nextMapping).length > 0 && { mapping: nextMapping }),
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'インポートに失敗しました')
+      }
+
+      return data as ImportResponse
+    } catch (err) {
+      console.error('Error importing items:', err)
+      setError(err instanceof Error ? err.message : 'エラーが発生しました')
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }, [format, content])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const text = await file.text()
+    setFileName(file.name)
+    setFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv')
+    setContent(text)
+    setMapping({})
+    setPreview(null)
+    setResult(null)
+  }
+
+  const handlePreview = async () => {
+    const data = await requestImport(true, mapping)
+    if (data) {
+      setPreview(data)
+      setMapping(data.mapping)
+      setResult(null)
+    }
+  }
+
+  const handleMappingChange = async (column: string, field: string) => {
+    const nextMapping = { ...mapping, [column]: field }
+    setMapping(nextMapping)
+    const data = await requestImport(true, nextMapping)
+    if (data) {
+      setPreview(data)
+    }
+  }
+
+  const handleCommit = async () => {
+    if (!preview || preview.summary.validRows === 0) return
+    if (!confirm(`${preview.summary.validRows}件のアイテムをインポートします。よろしいですか？`)) return
+
+    const data = await requestImport(false, mapping)
+    if (data) {
+      setResult(data)
+      setPreview(null)
+      // フォルダツリーを更新
+      window.dispatchEvent(new Event('folder-updated'))
+    }
+  }
+
+  const visibleRows = useMemo(() => {
+    if (!preview) return []
+    return showInvalidOnly ? preview.rows.filter(row => !row.valid) : preview.rows
+  }, [preview, showInvalidOnly])
+
+  if (isAuthLoading || !isAuthenticated) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <Link href="/items" className="text-blue-600 hover:text-blue-500 flex items-center text-sm">
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          アイテム管理に戻る
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900 mt-4">アイテムの一括インポート</h1>
+        <p className="text-gray-600">CSVまたはJSONファイルから複数のアイテムをまとめて登録します</p>
+      </div>
+
+      {/* File selection */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            インポートファイル
+          </label>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            disabled={loading}
+            className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            1行目は列名として扱われます。フォルダは「家電/キッチン」のようにスラッシュ区切りで指定でき、存在しないフォルダは作成されます（最大3階層）。
+          </p>
+        </div>
+
+        {fileName && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-700">
+              {fileName}（{format.toUpperCase()}）
+            </p>
+            <button
+              onClick={handlePreview}
+              disabled={loading || !content}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {loading ? '確認中...' : '内容を確認'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Error state */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* Import result */}
+      {result && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4 space-y-2">
+          <p className="text-sm font-medium text-green-800">{result.message}</p>
+          {result.summary.invalidRows > 0 && (
+            <p className="text-sm text-green-700">
+              エラーのある{result.summary.invalidRows}行はスキップされました
+            </p>
+          )}
+          {result.createdFolders && result.createdFolders.length > 0 && (
+            <p className="text-sm text-green-700">
+              作成したフォルダ: {result.createdFolders.join('、')}
+            </p>
+          )}
+          <Link href="/items" className="inline-block text-sm text-blue-600 hover:text-blue-500 underline">
+            アイテム一覧を見る
+          </Link>
+        </div>
+      )}
+
+      {/* Dry-run preview */}
+      {preview && (
+        <>
+          {/* Column mapping */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <h2 className="text-lg font-medium text-gray-900 mb-3">列の割り当て</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {preview.columns.map((column) => (
+                <div key={column}>
+                  <label className="block text-xs font-medium text-gray-500 mb-1 truncate" title={column}>
+                    {column}
+                  </label>
+                  <select
+                    value={mapping[column] ?? ''}
+                    onChange={(e) => handleMappingChange(column, e.target.value)}
+                    disabled={loading}
+                    className="block w-full form-select border border-gray-300 bg-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {FIELD_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Summary */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex flex-wrap gap-4 text-sm">
+                <span className="text-gray-700">全{preview.summary.totalRows}行</span>
+                <span className="text-green-700">有効 {preview.summary.validRows}行</span>
+                <span className="text-red-700">エラー {preview.summary.invalidRows}行</span>
+              </div>
+              <button
+                onClick={handleCommit}
+                disabled={loading || preview.summary.validRows === 0}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                有効な{preview.summary.validRows}件をインポート
+              </button>
+            </div>
+            {preview.foldersToCreate && preview.foldersToCreate.length > 0 && (
+              <p className="text-sm text-gray-600">
+                新しく作成されるフォルダ: {preview.foldersToCreate.join('、')}
+              </p>
+            )}
+          </div>
+
+          {/* Row report */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">行ごとの検証結果</h2>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showInvalidOnly}
+                  onChange={(e) => setShowInvalidOnly(e.target.checked)}
+                  className="mr-2 rounded border-gray-300"
+                />
+                エラーのみ表示
+              </label>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">行</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">状態</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">商品名</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">フォルダ</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">エラー内容</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {visibleRows.map((row) => (
+                    <tr key={row.row} className={row.valid ? '' : 'bg-red-50'}>
+                      <td className="px-4 py-2 text-gray-500">{row.row}</td>
+                      <td className="px-4 py-2">
+                        {row.valid ? (
+                          <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">OK</span>
+                        ) : (
+                          <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">エラー</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-gray-900">{row.data?.name || '-'}</td>
+                      <td className="px-4 py-2 text-gray-700">{row.data?.folderPath || '-'}</td>
+                      <td className="px-4 py-2 text-red-700">
+                        {row.errors && Object.entries(row.errors).map(([field, messages]) => (
+                          <div key={field}>
+                            <span className="font-medium">{field}</span>: {messages.join('、')}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+})
+
+export default ImportItemsPage
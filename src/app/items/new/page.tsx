@@ -81,6 +81,7 @@ const NewItemPage = memo(function NewItemPage() {
         folders={folders || []}
         onSave={handleSave}
         loading={loading}
+        showTemplates
       />
     </div>
   )
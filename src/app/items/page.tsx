@@ -3,28 +3,51 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
-import { ItemGrid, ViewMode, GridColumns } from '@/components/items/ItemGrid'
-import { ItemFilters, FilterOptions, ResultsCounter } from '@/components/items/ItemFilters'
+import { ItemGrid, ViewMode, GridColumns, PaginationMode } from '@/components/items/ItemGrid'
+import {
+  ItemFilters,
+  FilterOptions,
+  FacetCounts,
+  ResultsCounter,
+  defaultFilterOptions,
+  filtersToSearchParams,
+  filtersFromSearchParams,
+} from '@/components/items/ItemFilters'
 import { ViewModeToggle } from '@/components/items/ItemGrid'
+import { ItemTable, ItemTableChanges } from '@/components/items/ItemTable'
 import { Pagination } from '@/components/items/Pagination'
-import { Item } from '@/components/items/ItemCard'
+import { BulkActionBar, BulkOperation, BulkOperationResponse } from '@/components/items/BulkActionBar'
+import { Item, ItemTag, ItemCustomFieldDefinition } from '@/components/items/ItemCard'
 import { FolderTree } from '@/components/folders/FolderTree'
 import { FolderModal } from '@/components/folders/FolderModal'
+import { FolderDeleteModal } from '@/components/folders/FolderDeleteModal'
+import { SmartFolder } from '@/components/folders/SmartFolderList'
+import { SmartFolderModal } from '@/components/folders/SmartFolderModal'
 import { Breadcrumb } from '@/components/folders/Breadcrumb'
 import { useSidebar } from '@/contexts/SidebarContext'
 import { useItems } from '@/hooks/useItems'
 
 interface ItemsResponse {
   items: Item[]
+  // ページ番号方式では page・totalPages、カーソル方式では hasMore・nextCursor を返す
   pagination: {
     total: number
-    page: number
     limit: number
-    totalPages: number
+    page?: number
+    totalPages?: number
+    hasMore?: boolean
+    nextCursor?: string | null
   }
+}
+
+interface FacetsResponse {
   categories?: string[]
   manufacturers?: string[]
-  folders?: Array<{ id: string; name: string; displayName?: string }>
+  conditions?: string[]
+  folders?: Array<{ id: string; name: string; displayName?: string; parentId?: string | null }>
+  tags?: ItemTag[]
+  customFields?: ItemCustomFieldDefinition[]
+  counts?: FacetCounts
 }
 
 export default function ItemsPage() {
@@ -69,18 +92,30 @@ export default function ItemsPage() {
   const [totalPages, setTotalPages] = useState(0)
   const [categories, setCategories] = useState<string[]>([])
   const [manufacturers, setManufacturers] = useState<string[]>([])
-  const [folders, setFolders] = useState<Array<{ id: string; name: string; displayName?: string }>>([])
+  const [conditions, setConditions] = useState<string[]>([])
+  const [folders, setFolders] = useState<Array<{ id: string; name: string; displayName?: string; parentId?: string | null }>>([])
+  const [tags, setTags] = useState<ItemTag[]>([])
+  const [customFields, setCustomFields] = useState<ItemCustomFieldDefinition[]>([])
+  const [facetCounts, setFacetCounts] = useState<FacetCounts | undefined>(undefined)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+
+  // 無限スクロールの続きの読み込み
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // 絞り込み変更後に古い続きの結果を追加しないよう、一覧の取得ごとに番号を振る
+  const fetchSequenceRef = useRef(0)
   
   // UI State with localStorage persistence
   const [viewMode, setViewMode] = useState<ViewMode>('grid')
   const [gridColumns, setGridColumns] = useState<GridColumns>(3)
+  const [paginationMode, setPaginationMode] = useState<PaginationMode>('pages')
   
   // Folder state
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null)
   const [isFolderModalOpen, setIsFolderModalOpen] = useState(false)
   const [folderModalMode, setFolderModalMode] = useState<'create' | 'edit'>('create')
+  const [deletingFolder, setDeletingFolder] = useState<{ id: string; name: string } | null>(null)
   const [editingFolder, setEditingFolder] = useState<{ id: string; name: string; parentId?: string } | null>(null)
   const [parentFolderId, setParentFolderId] = useState<string | undefined>(undefined)
   
@@ -90,22 +125,27 @@ export default function ItemsPage() {
   
   // Mobile sidebar state
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false)
+
+  // 一括操作の選択状態
+  const [selectedItemIds, setSelectedItemIds] = useState<Set<string>>(new Set())
+
+  // スマートフォルダ（保存した絞り込み条件）
+  const [activeSmartFolder, setActiveSmartFolder] = useState<SmartFolder | null>(null)
+  const [smartFolderModal, setSmartFolderModal] = useState<{ mode: 'create' | 'edit'; smartFolder?: SmartFolder } | null>(null)
+  // スマートフォルダに一致する全件を一括操作の対象にしているか
+  const [isSmartFolderScope, setIsSmartFolderScope] = useState(false)
+  const [exportingSmartFolder, setExportingSmartFolder] = useState(false)
   
   // Filter state
-  const [filters, setFilters] = useState<FilterOptions>({
-    search: '',
-    category: '',
-    manufacturer: '',
-    folderId: '',
-    sortBy: 'createdAt',
-    sortOrder: 'desc',
-    page: 1,
-    limit: 24,
-  })
+  const [filters, setFilters] = useState<FilterOptions>(defaultFilterOptions)
+  
+  // 保存・ファセット集計用の絞り込み条件（表示中のページは含めない）
+  const currentQuery = useMemo(() => filtersToSearchParams({ ...filters, page: 1 }).toString(), [filters])
   
   // Folder handlers - defined early to avoid initialization errors
   const handleFolderSelect = useCallback((folderId: string | null) => {
     setSelectedFolderId(folderId)
+    setActiveSmartFolder(null)
   }, [])
 
   const handleFolderCreate = useCallback((parentId?: string) => {
@@ -133,8 +173,9 @@ export default function ItemsPage() {
       const savedSortBy = localStorage.getItem('items-sort-by')
       const savedSortOrder = localStorage.getItem('items-sort-order')
       const savedLimit = localStorage.getItem('items-limit')
+      const savedPaginationMode = localStorage.getItem('items-pagination-mode')
       
-      if (savedViewMode && (savedViewMode === 'grid' || savedViewMode === 'list')) {
+      if (savedViewMode && (savedViewMode === 'grid' || savedViewMode === 'list' || savedViewMode === 'table')) {
         setViewMode(savedViewMode)
       }
       
@@ -145,10 +186,14 @@ export default function ItemsPage() {
         }
       }
 
+      if (savedPaginationMode === 'pages' || savedPaginationMode === 'infinite') {
+        setPaginationMode(savedPaginationMode)
+      }
+
       // Load sort and limit preferences
       setFilters(prev => ({
         ...prev,
-        sortBy: savedSortBy && ['name', 'createdAt', 'updatedAt', 'price'].includes(savedSortBy) 
+        sortBy: savedSortBy && ['name', 'createdAt', 'updatedAt', 'purchaseDate', 'price'].includes(savedSortBy) 
           ? savedSortBy as FilterOptions['sortBy'] 
           : prev.sortBy,
         sortOrder: savedSortOrder && ['asc', 'desc'].includes(savedSortOrder)
@@ -158,6 +203,18 @@ export default function ItemsPage() {
           ? parseInt(savedLimit)
           : prev.limit,
       }))
+
+      // 共有・ブックマークされたURLの絞り込み条件を復元（保存済みの並び順より優先）
+      const urlParams = new URLSearchParams(window.location.search)
+      if (urlParams.toString()) {
+        setFilters(prev => filtersFromSearchParams(urlParams, prev))
+        setSelectedFolderId(urlParams.get('folderId') || null)
+      }
+
+      // 無限スクロールでは常に先頭から読み込む
+      if (savedPaginationMode === 'infinite') {
+        setFilters(prev => ({ ...prev, page: 1 }))
+      }
       
       // Mark localStorage as loaded
       setIsLocalStorageLoaded(true)
@@ -172,43 +229,119 @@ export default function ItemsPage() {
       return
     }
 
+    const sequence = ++fetchSequenceRef.current
     setLoading(true)
+    setLoadingMore(false)
     setError(null)
 
     try {
-      const params = new URLSearchParams({
-        page: filters.page.toString(),
-        limit: filters.limit.toString(),
-        sort: filters.sortBy,
-        order: filters.sortOrder,
-        ...(filters.search && { q: filters.search }),
-        ...(filters.category && { category: filters.category }),
-        ...(filters.manufacturer && { manufacturer: filters.manufacturer }),
-        ...(filters.folderId && { folderId: filters.folderId }),
-      })
-
+      const params = filtersToSearchParams(filters)
+      params.set('limit', filters.limit.toString())
+      // 無限スクロールはカーソル方式で先頭ページから取得する
+      if (paginationMode === 'infinite') {
+        params.delete('page')
+        params.set('cursor', '')
+      }
 
       const response = await fetch(`/api/items?${params}`)
       
       if (!response.ok) {
-        throw new Error('アイテムの取得に失敗しました')
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error?.message || 'アイテムの取得に失敗しました')
       }
 
       const data: ItemsResponse = await response.json()
+      if (sequence !== fetchSequenceRef.current) return
       
       setItems(data.items || [])
       setTotal(data.pagination?.total || 0)
       setTotalPages(data.pagination?.totalPages || 0)
-      setCategories(data.categories || [])
-      setManufacturers(data.manufacturers || [])
-      setFolders(data.folders || [])
+      setNextCursor(data.pagination?.nextCursor || null)
     } catch (err) {
       console.error('Error fetching items:', err)
       setError(err instanceof Error ? err.message : 'エラーが発生しました')
     } finally {
-      setLoading(false)
+      if (sequence === fetchSequenceRef.current) {
+        setLoading(false)
+      }
+    }
+  }, [filters, paginationMode, isAuthenticated, isAuthLoading])
+
+  // 無限スクロールで続きのアイテムを読み込む
+  const loadMoreItems = useCallback(async () => {
+    if (!nextCursor || loading || loadingMore) return
+
+    const sequence = fetchSequenceRef.current
+    setLoadingMore(true)
+
+    try {
+      const params = filtersToSearchParams(filters)
+      params.delete('page')
+      params.set('limit', filters.limit.toString())
+      params.set('cursor', nextCursor)
+
+      const response = await fetch(`/api/items?${params}`)
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error?.message || 'アイテムの取得に失敗しました')
+      }
+
+      const data: ItemsResponse = await response.json()
+      if (sequence !== fetchSequenceRef.current) return
+
+      setItems(prevItems => {
+        const loadedIds = new Set(prevItems.map(item => item.id))
+        return [...prevItems, ...(data.items || []).filter(item => !loadedIds.has(item.id))]
+      })
+      setTotal(data.pagination?.total || 0)
+      setNextCursor(data.pagination?.nextCursor || null)
+    } catch (err) {
+      console.error('Error loading more items:', err)
+      setError(err instanceof Error ? err.message : 'エラーが発生しました')
+      setNextCursor(null)
+    } finally {
+      if (sequence === fetchSequenceRef.current) {
+        setLoadingMore(false)
+      }
+    }
+  }, [filters, nextCursor, loading, loadingMore])
+
+  // 絞り込みの選択肢（カテゴリ・メーカー・状態・フォルダ・タグ・カスタムフィールド）と現在の条件での件数を取得
+  const fetchFacets = useCallback(async () => {
+    if (!isLocalStorageLoaded || !isAuthenticated) return
+
+    try {
+      const response = await fetch(`/api/items/facets?${currentQuery}`)
+      if (!response.ok) {
+        throw new Error('絞り込み条件の取得に失敗しました')
+      }
+
+      const data: FacetsResponse = await response.json()
+      setCategories(data.categories || [])
+      setManufacturers(data.manufacturers || [])
+      setConditions(data.conditions || [])
+      setFolders(data.folders || [])
+      setTags(data.tags || [])
+      setCustomFields(data.customFields || [])
+      setFacetCounts(data.counts)
+    } catch (err) {
+      console.error('Error fetching facets:', err)
+    }
+  }, [currentQuery, isLocalStorageLoaded, isAuthenticated])
+
+  // 選択肢・件数はページ送りでは変わらないため、絞り込み条件の変更とフォルダ・アイテムの更新時のみ取得する
+  useEffect(() => {
+    fetchFacets()
+
+    window.addEventListener('folder-updated', fetchFacets)
+    window.addEventListener('smart-folder-updated', fetchFacets)
+
+    return () => {
+      window.removeEventListener('folder-updated', fetchFacets)
+      window.removeEventListener('smart-folder-updated', fetchFacets)
     }
-  }, [filters, isAuthenticated, isAuthLoading])
+  }, [fetchFacets])
 
   // Fetch items when localStorage is loaded and filters change
   useEffect(() => {
@@ -243,6 +376,50 @@ export default function ItemsPage() {
     router.push(`/items/${item.id}`)
   }
 
+  // 表形式でのセル編集（画面に先に反映し、保存に失敗した場合は元に戻す）
+  const handleItemUpdate = useCallback(async (item: Item, changes: ItemTableChanges) => {
+    const folder = changes.folderId !== undefined
+      ? folders.find(f => f.id === changes.folderId)
+      : item.folder
+    setItems(prevItems => prevItems.map(prevItem =>
+      prevItem.id === item.id
+        ? { ...prevItem, ...changes, folder: folder ? { id: folder.id, name: folder.name } : undefined }
+        : prevItem
+    ))
+
+    try {
+      // 購入価格を変更する場合は購入日も必須のため、登録済みの購入日を合わせて送る
+      const body = changes.purchasePrice !== undefined && changes.purchaseDate === undefined && item.purchaseDate
+        ? { ...changes, purchaseDate: item.purchaseDate }
+        : changes
+
+      const response = await fetch(`/api/items/${item.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        const details = Object.values(data.details || {}).flat() as string[]
+        throw new Error(details[0] || data.error?.message || data.error || 'アイテムの更新に失敗しました')
+      }
+
+      // 保存結果を反映（相場価格・検索の強調表示は更新のレスポンスに含まれないため保持する）
+      setItems(prevItems => prevItems.map(prevItem =>
+        prevItem.id === item.id
+          ? { ...prevItem, ...data, priceHistory: prevItem.priceHistory, highlights: prevItem.highlights }
+          : prevItem
+      ))
+      window.dispatchEvent(new Event('smart-folder-updated'))
+    } catch (err) {
+      setItems(prevItems => prevItems.map(prevItem => prevItem.id === item.id ? item : prevItem))
+      throw err
+    }
+  }, [folders])
+
   const handleViewModeChange = (mode: ViewMode) => {
     setViewMode(mode)
     if (typeof window !== 'undefined') {
@@ -257,57 +434,72 @@ export default function ItemsPage() {
     }
   }
 
+  const handlePaginationModeChange = (mode: PaginationMode) => {
+    setPaginationMode(mode)
+    setFilters(prev => prev.page === 1 ? prev : { ...prev, page: 1 })
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('items-pagination-mode', mode)
+    }
+  }
+
+
 
+  // 絞り込み条件をURLに反映（ブックマーク・共有用）
+  useEffect(() => {
+    if (!isLocalStorageLoaded) return
+    const query = filtersToSearchParams(filters).toString()
+    const url = query ? `${window.location.pathname}?${query}` : window.location.pathname
+    if (url !== window.location.pathname + window.location.search) {
+      window.history.replaceState(null, '', url)
+    }
+  }, [filters, isLocalStorageLoaded])
 
   // Update filters when selectedFolderId changes
+  // URLから復元したフォルダ・ページを上書きしないよう、読み込み完了後かつフォルダが変わった場合のみ反映する
   useEffect(() => {
-    setFilters(prev => ({
+    if (!isLocalStorageLoaded) return
+    setFilters(prev => prev.folderId === (selectedFolderId || '') ? prev : {
       ...prev,
       folderId: selectedFolderId || '',
       page: 1
-    }))
-  }, [selectedFolderId])
+    })
+  }, [selectedFolderId, isLocalStorageLoaded])
 
   // More folder handlers (defined after fetchItems)
-  const handleFolderDelete = useCallback(async (folder: { id: string; name: string }) => {
-    try {
-      const response = await fetch(`/api/folders/${folder.id}`, {
-        method: 'DELETE',
-      })
+  const handleFolderDelete = useCallback((folder: { id: string; name: string }) => {
+    // 影響範囲を確認してから削除モードを選択する
+    setDeletingFolder(folder)
+  }, [])
 
-      if (!response.ok) {
-        // APIからのエラーレスポンスを取得
-        const errorData = await response.json()
-        // エラーオブジェクトから message を取得
-        const errorMessage = errorData.error?.message || errorData.error || 'フォルダの削除に失敗しました'
-        throw new Error(errorMessage)
-      }
+  const handleFolderDeleteConfirm = useCallback(async (mode: string) => {
+    if (!deletingFolder) return
 
-      // Refresh items list to reflect changes
-      fetchItems()
-      
-      // フォルダツリーを更新
-      window.dispatchEvent(new Event('folder-updated'))
-      
-      // Clear selection if deleted folder was selected
-      if (selectedFolderId === folder.id) {
-        setSelectedFolderId(null)
-      }
-    } catch (err) {
-      console.error('Error deleting folder:', err)
-      // エラーメッセージをより見やすく表示
-      const errorMessage = err instanceof Error ? err.message : 'エラーが発生しました'
-      
-      // 複数行のエラーメッセージも見やすく表示
-      if (errorMessage.includes('サブフォルダ')) {
-        // サブフォルダ関連のエラーの場合、より詳細に表示
-        alert(`フォルダの削除エラー:\n\n${errorMessage}`)
-      } else {
-        alert(errorMessage)
-      }
+    const response = await fetch(`/api/folders/${deletingFolder.id}?mode=${mode}`, {
+      method: 'DELETE',
+    })
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      // エラーオブジェクトから message を取得
+      throw new Error(data.error?.message || data.error || 'フォルダの削除に失敗しました')
+    }
+
+    // Refresh items list to reflect changes
+    fetchItems()
+    
+    // フォルダツリーを更新
+    window.dispatchEvent(new Event('folder-updated'))
+    
+    // Clear selection if deleted folder was selected
+    if (selectedFolderId === deletingFolder.id) {
+      setSelectedFolderId(null)
+    }
+
+    if (data.failedBlobs?.length > 0) {
+      alert(`${data.message}\n\n削除できなかったファイル: ${data.failedBlobs.length}件`)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedFolderId])
+  }, [deletingFolder, selectedFolderId])
 
   const handleFolderSave = async (folderData: { name: string; parentId?: string }) => {
     try {
@@ -350,6 +542,185 @@ export default function ItemsPage() {
     }
   }
 
+  // 表示条件が変わったら選択を解除
+  useEffect(() => {
+    setSelectedItemIds(new Set())
+    setIsSmartFolderScope(false)
+  }, [filters])
+
+  // 一括操作 handlers
+  const handleItemSelectChange = useCallback((item: Item, selected: boolean) => {
+    setSelectedItemIds(prev => {
+      const next = new Set(prev)
+      if (selected) {
+        next.add(item.id)
+      } else {
+        next.delete(item.id)
+      }
+      return next
+    })
+  }, [])
+
+  const handleSelectAll = useCallback(() => {
+    setSelectedItemIds(new Set(items.map(item => item.id)))
+  }, [items])
+
+  const handleClearSelection = useCallback(() => {
+    setSelectedItemIds(new Set())
+    setIsSmartFolderScope(false)
+  }, [])
+
+  const handleBulkAction = useCallback(async (operation: BulkOperation): Promise<BulkOperationResponse> => {
+    const response = await fetch('/api/items/bulk', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(
+        // スマートフォルダ全体が対象の場合は一致するアイテムをサーバー側で解決する
+        isSmartFolderScope && activeSmartFolder
+          ? { ...operation, smartFolderId: activeSmartFolder.id }
+          : { ...operation, itemIds: Array.from(selectedItemIds) }
+      ),
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error?.message || data.error || '一括操作に失敗しました')
+    }
+
+    // 失敗したアイテムのみ選択を残す（再実行しやすくする）
+    const result = data as BulkOperationResponse
+    setSelectedItemIds(new Set(result.results.filter(item => !item.success).map(item => item.itemId)))
+    setIsSmartFolderScope(false)
+
+    fetchItems()
+
+    // フォルダツリーを更新（アイテム数表示の更新）
+    if (operation.action === 'move' || operation.action === 'delete') {
+      window.dispatchEvent(new Event('folder-updated'))
+    } else {
+      window.dispatchEvent(new Event('smart-folder-updated'))
+    }
+
+    return result
+  }, [selectedItemIds, isSmartFolderScope, activeSmartFolder, fetchItems])
+
+  const isSmartFolderModified = activeSmartFolder !== null && activeSmartFolder.query !== currentQuery
+
+  // スマートフォルダ handlers
+  const handleSmartFolderSelect = useCallback((smartFolder: SmartFolder) => {
+    const params = new URLSearchParams(smartFolder.query)
+    setActiveSmartFolder(smartFolder)
+    setSelectedFolderId(params.get('folderId') || null)
+    setFilters(prev => filtersFromSearchParams(params, { ...defaultFilterOptions, limit: prev.limit }))
+  }, [])
+
+  const handleSmartFolderEdit = useCallback((smartFolder: SmartFolder) => {
+    setSmartFolderModal({ mode: 'edit', smartFolder })
+  }, [])
+
+  const handleSmartFolderDelete = useCallback(async (smartFolder: SmartFolder) => {
+    if (!confirm(`スマートフォルダ「${smartFolder.name}」を削除してもよろしいですか？\nアイテムは削除されません。`)) return
+
+    try {
+      const response = await fetch(`/api/smart-folders/${smartFolder.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error?.message || data.error || 'スマートフォルダの削除に失敗しました')
+      }
+
+      setActiveSmartFolder(prev => prev?.id === smartFolder.id ? null : prev)
+      window.dispatchEvent(new Event('smart-folder-updated'))
+    } catch (err) {
+      console.error('Error deleting smart folder:', err)
+      alert(err instanceof Error ? err.message : 'エラーが発生しました')
+    }
+  }, [])
+
+  // 作成時は現在の絞り込み条件を保存し、編集時は名前のみ変更する
+  const handleSmartFolderSave = async (name: string) => {
+    const editing = smartFolderModal?.mode === 'edit' ? smartFolderModal.smartFolder : undefined
+    const response = await fetch(editing ? `/api/smart-folders/${editing.id}` : '/api/smart-folders', {
+      method: editing ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(editing ? { name } : { name, query: currentQuery }),
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error?.message || data.error || 'スマートフォルダの保存に失敗しました')
+    }
+
+    if (!editing || activeSmartFolder?.id === editing.id) {
+      setActiveSmartFolder(data)
+    }
+    window.dispatchEvent(new Event('smart-folder-updated'))
+  }
+
+  // 表示中のスマートフォルダの条件を現在の絞り込み条件で上書きする
+  const handleSmartFolderOverwrite = async () => {
+    if (!activeSmartFolder) return
+
+    try {
+      const response = await fetch(`/api/smart-folders/${activeSmartFolder.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query: currentQuery }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'スマートフォルダの保存に失敗しました')
+      }
+
+      setActiveSmartFolder(data)
+      window.dispatchEvent(new Event('smart-folder-updated'))
+    } catch (err) {
+      console.error('Error updating smart folder:', err)
+      alert(err instanceof Error ? err.message : 'エラーが発生しました')
+    }
+  }
+
+  // スマートフォルダに一致するアイテムのみをエクスポートする
+  const handleSmartFolderExport = async () => {
+    if (!activeSmartFolder) return
+
+    setExportingSmartFolder(true)
+    try {
+      const response = await fetch(`/api/export?smartFolderId=${activeSmartFolder.id}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error?.message || errorData.error || 'エクスポートに失敗しました')
+      }
+
+      // Content-Dispositionからファイル名を取得してダウンロード
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const filename = disposition.match(/filename="(.+)"/)?.[1] || 'plat-dot-export.zip'
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Error exporting smart folder:', err)
+      alert(err instanceof Error ? err.message : 'エラーが発生しました')
+    } finally {
+      setExportingSmartFolder(false)
+    }
+  }
+
   // Drag and drop handlers
   const handleItemDragStart = (item: Item) => {
     setDraggedItem(item)
@@ -507,6 +878,10 @@ export default function ItemsPage() {
       onFolderDelete: handleFolderDelete,
       onItemDrop: handleItemDrop,
       onFolderMove: handleFolderMove,
+      selectedSmartFolderId: activeSmartFolder?.id ?? null,
+      onSmartFolderSelect: handleSmartFolderSelect,
+      onSmartFolderEdit: handleSmartFolderEdit,
+      onSmartFolderDelete: handleSmartFolderDelete,
     }
     setFolderProps(folderProps)
 
@@ -514,7 +889,20 @@ export default function ItemsPage() {
     return () => {
       setFolderProps(null)
     }
-  }, [selectedFolderId, handleFolderSelect, handleFolderCreate, handleFolderEdit, handleFolderDelete, handleItemDrop, handleFolderMove, setFolderProps])
+  }, [
+    selectedFolderId,
+    activeSmartFolder,
+    handleFolderSelect,
+    handleFolderCreate,
+    handleFolderEdit,
+    handleFolderDelete,
+    handleItemDrop,
+    handleFolderMove,
+    handleSmartFolderSelect,
+    handleSmartFolderEdit,
+    handleSmartFolderDelete,
+    setFolderProps,
+  ])
 
   // Authentication check
   if (isAuthLoading || !isAuthenticated) {
@@ -533,16 +921,36 @@ export default function ItemsPage() {
           <h1 className="text-2xl font-bold text-gray-900">アイテム管理</h1>
           <p className="text-gray-600">持ち物を一覧表示・管理できます</p>
         </div>
-        {/* Desktop button */}
-        <button
-          onClick={() => router.push('/items/new')}
-          className="hidden sm:inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-          新しいアイテム
-        </button>
+        {/* Desktop buttons */}
+        <div className="hidden sm:flex items-center gap-2">
+          <button
+            onClick={() => router.push('/items/import')}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            インポート
+          </button>
+          <button
+            onClick={() => router.push('/items/duplicates')}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
+            </svg>
+            重複を確認
+          </button>
+          <button
+            onClick={() => router.push('/items/new')}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            新しいアイテム
+          </button>
+        </div>
         {/* Mobile button */}
         <button
           onClick={() => router.push('/items/new')}
@@ -569,28 +977,103 @@ export default function ItemsPage() {
           onFiltersChange={handleFiltersChange}
           categories={categories}
           manufacturers={manufacturers}
+          conditions={conditions}
           folders={folders}
+          tags={tags}
+          customFields={customFields}
+          facetCounts={facetCounts}
           loading={loading}
         />
       </div>
 
+      {/* 表示中のスマートフォルダ */}
+      {activeSmartFolder && (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 bg-purple-50 border border-purple-200 rounded-lg px-4 py-3">
+          <p className="text-sm text-purple-900">
+            スマートフォルダ「<span className="font-medium">{activeSmartFolder.name}</span>」を表示中
+            {isSmartFolderModified && (
+              <span className="ml-2 text-xs text-purple-700">（条件が変更されています）</span>
+            )}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {isSmartFolderModified ? (
+              <button
+                onClick={handleSmartFolderOverwrite}
+                className="px-3 py-1.5 border border-purple-300 text-xs font-medium rounded-md text-purple-700 bg-white hover:bg-purple-100"
+              >
+                条件を上書き保存
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => setIsSmartFolderScope(true)}
+                  disabled={total === 0}
+                  className="px-3 py-1.5 border border-purple-300 text-xs font-medium rounded-md text-purple-700 bg-white hover:bg-purple-100 disabled:opacity-50"
+                >
+                  全件を一括操作
+                </button>
+                <button
+                  onClick={handleSmartFolderExport}
+                  disabled={exportingSmartFolder || total === 0}
+                  className="px-3 py-1.5 border border-purple-300 text-xs font-medium rounded-md text-purple-700 bg-white hover:bg-purple-100 disabled:opacity-50"
+                >
+                  {exportingSmartFolder ? 'エクスポート中...' : 'エクスポート'}
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => setActiveSmartFolder(null)}
+              className="px-3 py-1.5 text-xs font-medium text-purple-700 hover:text-purple-900"
+            >
+              閉じる
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Results header */}
       <div className="flex items-center justify-between">
-        <ResultsCounter
-          total={total}
-          currentPage={filters.page}
-          itemsPerPage={filters.limit}
-          loading={loading}
-        />
+        <div className="flex items-center gap-3">
+          <ResultsCounter
+            total={total}
+            currentPage={paginationMode === 'infinite' ? 1 : filters.page}
+            itemsPerPage={paginationMode === 'infinite' ? Math.max(1, items.length) : filters.limit}
+            loading={loading}
+          />
+          {currentQuery && (!activeSmartFolder || isSmartFolderModified) && (
+            <button
+              onClick={() => setSmartFolderModal({ mode: 'create' })}
+              className="text-sm text-blue-600 hover:text-blue-800 whitespace-nowrap"
+            >
+              検索条件を保存
+            </button>
+          )}
+        </div>
         
         <ViewModeToggle
           viewMode={viewMode}
           columns={gridColumns}
           onViewModeChange={handleViewModeChange}
           onColumnsChange={handleColumnsChange}
+          paginationMode={paginationMode}
+          onPaginationModeChange={handlePaginationModeChange}
         />
       </div>
 
+      {/* 一括操作バー */}
+      <BulkActionBar
+        selectedCount={isSmartFolderScope ? total : selectedItemIds.size}
+        allSelected={items.length > 0 && items.every(item => selectedItemIds.has(item.id))}
+        onSelectAll={handleSelectAll}
+        onClearSelection={handleClearSelection}
+        onAction={handleBulkAction}
+        folders={folders}
+        categories={categories}
+        manufacturers={manufacturers}
+        tags={tags}
+        scopeLabel={isSmartFolderScope && activeSmartFolder ? `スマートフォルダ「${activeSmartFolder.name}」` : undefined}
+      />
+
       {/* Error state */}
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-md p-4">
@@ -621,19 +1104,47 @@ export default function ItemsPage() {
       )}
 
           {/* Items grid */}
-      <ItemGrid
-        items={items}
-        viewMode={viewMode}
-        columns={gridColumns}
-        loading={loading}
-        onItemClick={handleItemClick}
-        onItemDragStart={handleItemDragStart}
-        onItemDragEnd={handleItemDragEnd}
-        emptyStateMessage="アイテムが見つかりませんでした。新しいアイテムを追加してみてください。"
-      />
+      {viewMode === 'table' ? (
+        <ItemTable
+          items={items}
+          loading={loading}
+          sortBy={filters.sortBy}
+          sortOrder={filters.sortOrder}
+          onSortChange={(sortBy, sortOrder) => handleFiltersChange({ ...filters, sortBy, sortOrder, page: 1 })}
+          folders={folders}
+          onItemClick={handleItemClick}
+          onItemUpdate={handleItemUpdate}
+          selectedItemIds={selectedItemIds}
+          onItemSelectChange={handleItemSelectChange}
+          emptyStateMessage="アイテムが見つかりませんでした。新しいアイテムを追加してみてください。"
+          {...(paginationMode === 'infinite' && {
+            onLoadMore: loadMoreItems,
+            hasMore: nextCursor !== null,
+            loadingMore,
+          })}
+        />
+      ) : (
+        <ItemGrid
+          items={items}
+          viewMode={viewMode}
+          columns={gridColumns}
+          loading={loading}
+          onItemClick={handleItemClick}
+          onItemDragStart={handleItemDragStart}
+          onItemDragEnd={handleItemDragEnd}
+          selectedItemIds={selectedItemIds}
+          onItemSelectChange={handleItemSelectChange}
+          emptyStateMessage="アイテムが見つかりませんでした。新しいアイテムを追加してみてください。"
+          {...(paginationMode === 'infinite' && {
+            onLoadMore: loadMoreItems,
+            hasMore: nextCursor !== null,
+            loadingMore,
+          })}
+        />
+      )}
 
       {/* Pagination */}
-      {totalPages > 1 && (
+      {paginationMode === 'pages' && totalPages > 1 && (
         <Pagination
           currentPage={filters.page}
           totalPages={totalPages}
@@ -653,6 +1164,23 @@ export default function ItemsPage() {
         mode={folderModalMode}
       />
 
+      {/* Smart folder modal */}
+      <SmartFolderModal
+        isOpen={!!smartFolderModal}
+        onClose={() => setSmartFolderModal(null)}
+        onSave={handleSmartFolderSave}
+        initialName={smartFolderModal?.smartFolder?.name}
+        mode={smartFolderModal?.mode || 'create'}
+      />
+
+      {/* Folder delete modal */}
+      <FolderDeleteModal
+        isOpen={!!deletingFolder}
+        onClose={() => setDeletingFolder(null)}
+        onConfirm={handleFolderDeleteConfirm}
+        folder={deletingFolder}
+      />
+
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,372 @@
+'use client'
+
+import { useState, useEffect, useRef, useMemo, useCallback, memo } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ItemCustomFieldDefinition } from '@/components/items/ItemCard'
+
+const FIELD_TYPE_LABELS: Record<ItemCustomFieldDefinition['type'], string> = {
+  text: 'テキスト',
+  number: '数値',
+  date: '日付',
+  select: '選択式',
+  boolean: 'はい/いいえ',
+}
+
+interface FieldFormState {
+  name: string
+  type: ItemCustomFieldDefinition['type']
+  options: string
+  category: string
+  required: boolean
+  sortOrder: string
+}
+
+const emptyForm: FieldFormState = {
+  name: '',
+  type: 'text',
+  options: '',
+  category: '',
+  required: false,
+  sortOrder: '0',
+}
+
+const CustomFieldsPage = memo(function CustomFieldsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  // 認証状態を安定化（一度認証されたら loading への変化を無視）
+  const authStateRef = useRef({ isAuthenticated: false, hasBeenAuthenticated: false })
+
+  const isAuthenticated = useMemo(() => {
+    const currentAuth = status === 'authenticated' && session?.hasSession
+    if (currentAuth) {
+      authStateRef.current.hasBeenAuthenticated = true
+    }
+    if (authStateRef.current.hasBeenAuthenticated && status === 'loading') {
+      return true
+    }
+    authStateRef.current.isAuthenticated = currentAuth
+    return currentAuth
+  }, [status, session?.hasSession])
+
+  const isAuthLoading = useMemo(() => {
+    return status === 'loading' && !authStateRef.current.hasBeenAuthenticated
+  }, [status])
+
+  // 未ログインの場合はトップページにリダイレクト
+  useEffect(() => {
+    if (!isAuthLoading && !isAuthenticated) {
+      router.replace('/')
+    }
+  }, [isAuthenticated, isAuthLoading, router])
+
+  const [fields, setFields] = useState<ItemCustomFieldDefinition[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<FieldFormState>(emptyForm)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const fetchFields = useCallback(async () => {
+    try {
+      const response = await fetch('/api/custom-fields')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'カスタムフィールドの取得に失敗しました')
+      }
+      setFields(data.customFields || [])
+    } catch (err) {
+      console.error('Error fetching custom fields:', err)
+      setError(err instanceof Error ? err.message : 'カスタムフィールドの取得に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchFields()
+    }
+  }, [isAuthenticated, fetchFields])
+
+  const resetForm = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  const handleEdit = (field: ItemCustomFieldDefinition) => {
+    setEditingId(field.id)
+    setError(null)
+    setMessage(null)
+    setForm({
+      name: field.name,
+      type: field.type,
+      options: field.options.join('\n'),
+      category: field.category || '',
+      required: field.required,
+      sortOrder: field.sortOrder.toString(),
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    // 選択肢は改行またはカンマ区切り
+    const options = form.options.split(/[\n,]/).map(option => option.trim()).filter(Boolean)
+    const payload = {
+      name: form.name,
+      options,
+      category: form.category.trim() || null,
+      required: form.required,
+      sortOrder: parseInt(form.sortOrder) || 0,
+    }
+
+    try {
+      const response = await fetch(editingId ? `/api/custom-fields/${editingId}` : '/api/custom-fields', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editingId ? payload : { ...payload, type: form.type }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'カスタムフィールドの保存に失敗しました')
+      }
+
+      setMessage(editingId ? 'カスタムフィールドを更新しました' : 'カスタムフィールドを追加しました')
+      resetForm()
+      await fetchFields()
+    } catch (err) {
+      console.error('Error saving custom field:', err)
+      setError(err instanceof Error ? err.message : 'カスタムフィールドの保存に失敗しました')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (field: ItemCustomFieldDefinition) => {
+    if (!confirm(`カスタムフィールド「${field.name}」を削除してもよろしいですか？\nアイテムに入力済みの値も削除されます。`)) return
+
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/custom-fields/${field.id}`, { method: 'DELETE' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'カスタムフィールドの削除に失敗しました')
+      }
+
+      setMessage(data.message)
+      if (editingId === field.id) resetForm()
+      await fetchFields()
+    } catch (err) {
+      console.error('Error deleting custom field:', err)
+      setError(err instanceof Error ? err.message : 'カスタムフィールドの削除に失敗しました')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (isAuthLoading || !isAuthenticated) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Page header */}
+      <div>
+        <Link href="/settings" className="text-sm text-blue-600 hover:text-blue-500">
+          ← 設定に戻る
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900 mt-2">カスタムフィールド</h1>
+        <p className="text-gray-600">
+          シリアル番号やISBNなど、アイテムに独自の項目を追加できます。カテゴリを指定すると、そのカテゴリのアイテムにだけ表示されます。
+        </p>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-sm text-green-800">{message}</p>
+        </div>
+      )}
+
+      {/* Form */}
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4">
+        <h2 className="text-sm font-medium text-gray-900">
+          {editingId ? 'カスタムフィールドを編集' : 'カスタムフィールドを追加'}
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="field-name" className="block text-sm font-medium text-gray-700 mb-1">フィールド名</label>
+            <input
+              type="text"
+              id="field-name"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              maxLength={50}
+              required
+              disabled={saving}
+              className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="例: シリアル番号"
+            />
+          </div>
+          <div>
+            <label htmlFor="field-type" className="block text-sm font-medium text-gray-700 mb-1">型</label>
+            <select
+              id="field-type"
+              value={form.type}
+              onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as FieldFormState['type'] }))}
+              disabled={saving || editingId !== null}
+              className="block w-full form-select border border-gray-300 bg-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+            >
+              {Object.entries(FIELD_TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+            {editingId && (
+              <p className="mt-1 text-xs text-gray-500">作成後に型は変更できません</p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="field-category" className="block text-sm font-medium text-gray-700 mb-1">対象カテゴリ</label>
+            <input
+              type="text"
+              id="field-category"
+              value={form.category}
+              onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value }))}
+              maxLength={50}
+              disabled={saving}
+              className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="空欄の場合はすべてのアイテム"
+            />
+          </div>
+          <div>
+            <label htmlFor="field-sort-order" className="block text-sm font-medium text-gray-700 mb-1">表示順</label>
+            <input
+              type="number"
+              id="field-sort-order"
+              value={form.sortOrder}
+              onChange={(e) => setForm(prev => ({ ...prev, sortOrder: e.target.value }))}
+              min={0}
+              max={9999}
+              disabled={saving}
+              className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          {form.type === 'select' && (
+            <div className="sm:col-span-2">
+              <label htmlFor="field-options" className="block text-sm font-medium text-gray-700 mb-1">選択肢（1行に1つ）</label>
+              <textarea
+                id="field-options"
+                value={form.options}
+                onChange={(e) => setForm(prev => ({ ...prev, options: e.target.value }))}
+                rows={4}
+                disabled={saving}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          )}
+        </div>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.required}
+            onChange={(e) => setForm(prev => ({ ...prev, required: e.target.checked }))}
+            disabled={saving}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          入力を必須にする
+        </label>
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              キャンセル
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={saving || !form.name.trim()}
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {saving ? '保存中...' : editingId ? '更新' : '追加'}
+          </button>
+        </div>
+      </form>
+
+      {loading && (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {/* List */}
+      {!loading && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <h2 className="px-4 py-3 border-b border-gray-200 text-sm font-medium text-gray-900">
+            登録済みのフィールド（{fields.length}）
+          </h2>
+          {fields.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">カスタムフィールドはまだありません</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {fields.map(field => (
+                <li key={field.id} className="px-4 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {field.name}
+                      {field.required && <span className="ml-2 text-xs text-red-600">必須</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {FIELD_TYPE_LABELS[field.type]} ／ {field.category ? `カテゴリ: ${field.category}` : 'すべてのアイテム'}
+                      {field.type === 'select' && ` ／ 選択肢: ${field.options.join('、')}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleEdit(field)}
+                      disabled={saving}
+                      className="px-3 py-1.5 border border-gray-300 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      編集
+                    </button>
+                    <button
+                      onClick={() => handleDelete(field)}
+                      disabled={saving}
+                      className="px-3 py-1.5 bg-red-600 text-white text-xs font-medium rounded-md hover:bg-red-700 disabled:opacity-50"
+                    >
+                      削除
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+})
+
+export default CustomFieldsPage
@@ -1,18 +1,31 @@
 'use client'
 
-import { useSession } from 'next-auth/react'
+import { useSession, signOut } from 'next-auth/react'
 import { useState, useEffect, useCallback, useRef, useMemo, memo } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { DeleteAccountModal } from '@/components/settings/DeleteAccountModal'
+import { NotificationSettings } from '@/components/settings/NotificationSettings'
 
 interface UserSettings {
   displayName: string
   email: string
   aiUsageCount: number
   aiUsageLimit: number
+  aiUsageResetAt: string
   subscriptionTier: string
+  planName: string
+  itemCount: number
+  maxItems: number | null
+  storageUsedBytes: number
+  storageLimitBytes: number
 }
 
+const formatStorageSize = (size: number) =>
+  size >= 1024 * 1024 * 1024
+    ? `${(size / 1024 / 1024 / 1024).toFixed(1)}GB`
+    : `${(size / 1024 / 1024).toFixed(1)}MB`
+
 const SettingsPage = memo(function SettingsPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -41,6 +54,8 @@ const SettingsPage = memo(function SettingsPage() {
   const [displayNameInput, setDisplayNameInput] = useState('')
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [showDeleteModal, setShowDeleteModal] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
 
@@ -160,14 +175,68 @@ const SettingsPage = memo(function SettingsPage() {
     localStorage.setItem('notifications', enabled.toString())
   }, [])
 
-  const handleExportData = useCallback(() => {
-    // データエクスポート機能は将来実装予定
-    alert('データエクスポート機能は現在準備中です。\n\n実装予定:\n- アイテム・フォルダ・画像データの一括出力\n- CSV/JSON形式での出力\n- プライバシー保護機能')
+  const handleExportData = useCallback(async () => {
+    setExporting(true)
+    setError(null)
+    setSuccessMessage(null)
+
+    try {
+      const response = await fetch('/api/export')
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error?.message || errorData.error || 'データのエクスポートに失敗しました')
+      }
+
+      // Content-Dispositionからファイル名を取得してダウンロード
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const filename = disposition.match(/filename="(.+)"/)?.[1] || 'plat-dot-export.zip'
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      URL.revokeObjectURL(url)
+
+      const missingFiles = Number(response.headers.get('X-Export-Missing-Files') || 0)
+      setSuccessMessage(
+        missingFiles > 0
+          ? `データをエクスポートしました（取得できなかった画像が${missingFiles}件あります）`
+          : 'データをエクスポートしました'
+      )
+      setTimeout(() => setSuccessMessage(null), 3000)
+    } catch (error) {
+      console.error('Error exporting data:', error)
+      setError(error instanceof Error ? error.message : 'データのエクスポートに失敗しました')
+    } finally {
+      setExporting(false)
+    }
   }, [])
 
-  const handleDeleteAccount = useCallback(() => {
-    // アカウント削除機能は将来実装予定
-    alert('アカウント削除機能は現在準備中です。\n\n実装予定:\n- 確認手続き付きアカウント削除\n- 全データの完全削除\n- エクスポート機能との連携\n\nお急ぎの場合はサポートまでお問い合わせください。')
+  const handleDeleteAccount = useCallback(async (input: { confirmation: string; email: string }) => {
+    const response = await fetch('/api/account', {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(input),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(data.error?.message || data.error || 'アカウントの削除に失敗しました')
+    }
+
+    // 一部の画像ファイルが削除できなかった場合も通知してからログアウト
+    if (data.status === 'partial') {
+      alert(`${data.message}\n\n削除できなかったファイル: ${data.summary?.blobsFailed ?? 0}件\n削除記録ID: ${data.deletionId}\n\nお手数ですがサポートまでお問い合わせください。`)
+    } else {
+      alert(data.message || 'アカウントを削除しました')
+    }
+
+    await signOut({ callbackUrl: '/' })
   }, [])
 
   if (isAuthLoading) {
@@ -286,7 +355,7 @@ const SettingsPage = memo(function SettingsPage() {
 
           {/* AI機能設定 */}
           <div className="bg-white shadow rounded-lg p-6">
-            <h2 className="text-lg font-medium text-gray-900 mb-4">AI機能</h2>
+            <h2 className="text-lg font-medium text-gray-900 mb-4">プランとAI機能</h2>
             
             {settings && (
               <div className="space-y-4">
@@ -294,21 +363,41 @@ const SettingsPage = memo(function SettingsPage() {
                   <div>
                     <h3 className="font-medium text-blue-900">使用状況</h3>
                     <p className="text-sm text-blue-700">
-                      {settings.aiUsageCount} / {settings.aiUsageLimit} 回使用
+                      今月 {settings.aiUsageCount} / {settings.aiUsageLimit} 回使用
+                    </p>
+                    <p className="text-xs text-blue-600 mt-0.5">
+                      {new Date(settings.aiUsageResetAt).toLocaleDateString('ja-JP', { month: 'long', day: 'numeric' })}にリセット
                     </p>
                   </div>
                   <div className="text-right">
                     <span className="text-sm font-medium text-blue-900">
-                      {settings.subscriptionTier === 'free' ? '無料プラン' : 'プレミアムプラン'}
+                      {settings.planName}
                     </span>
                   </div>
                 </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <h3 className="text-sm font-medium text-gray-900">登録アイテム</h3>
+                    <p className="text-sm text-gray-600 mt-0.5">
+                      {settings.maxItems === null
+                        ? `${settings.itemCount}件（無制限）`
+                        : `${settings.itemCount} / ${settings.maxItems}件`}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <h3 className="text-sm font-medium text-gray-900">保存容量（画像・書類）</h3>
+                    <p className="text-sm text-gray-600 mt-0.5">
+                      {formatStorageSize(settings.storageUsedBytes)} / {formatStorageSize(settings.storageLimitBytes)}
+                    </p>
+                  </div>
+                </div>
                 
                 {settings.subscriptionTier === 'free' && (
                   <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
                     <h3 className="font-medium text-orange-900 mb-2">制限について</h3>
                     <p className="text-sm text-orange-700 mb-3">
-                      無料プランでは月20回までAI機能をご利用いただけます。
+                      {settings.planName}では月{settings.aiUsageLimit}回までAI機能をご利用いただけます。
                     </p>
                     <button
                       className="bg-gray-400 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-500 transition-colors"
@@ -371,6 +460,10 @@ const SettingsPage = memo(function SettingsPage() {
                   />
                 </button>
               </div>
+
+              <div className="border-t border-gray-200 pt-4">
+                <NotificationSettings />
+              </div>
             </div>
           </div>
 
@@ -384,18 +477,36 @@ const SettingsPage = memo(function SettingsPage() {
                   <div className="flex-1">
                     <h3 className="text-sm sm:text-base font-medium text-gray-900">データエクスポート</h3>
                     <p className="text-xs sm:text-sm text-gray-500 mt-0.5">
-                      アイテム、フォルダ、画像情報をJSONファイルでダウンロード（準備中）
+                      アイテム、フォルダ、画像、価格履歴をZIPファイルでダウンロード
                     </p>
                   </div>
                   <button
                     onClick={handleExportData}
-                    className="bg-gray-400 text-white px-3 sm:px-4 py-1.5 sm:py-2 rounded-md text-xs sm:text-sm font-medium hover:bg-gray-500 transition-colors whitespace-nowrap"
+                    disabled={exporting}
+                    className="bg-blue-600 text-white px-3 sm:px-4 py-1.5 sm:py-2 rounded-md text-xs sm:text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
                   >
-                    準備中
+                    {exporting ? 'エクスポート中...' : 'エクスポート'}
                   </button>
                 </div>
               </div>
 
+              <div className="border border-gray-200 rounded-lg p-3 sm:p-4">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                  <div className="flex-1">
+                    <h3 className="text-sm sm:text-base font-medium text-gray-900">カスタムフィールド</h3>
+                    <p className="text-xs sm:text-sm text-gray-500 mt-0.5">
+                      シリアル番号やISBNなど、アイテムに独自の項目を追加
+                    </p>
+                  </div>
+                  <Link
+                    href="/settings/custom-fields"
+                    className="bg-blue-600 text-white px-3 sm:px-4 py-1.5 sm:py-2 rounded-md text-xs sm:text-sm font-medium hover:bg-blue-700 transition-colors whitespace-nowrap inline-block"
+                  >
+                    管理
+                  </Link>
+                </div>
+              </div>
+
               <div className="border border-gray-200 rounded-lg p-3 sm:p-4">
                 <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
                   <div className="flex-1">
@@ -425,14 +536,14 @@ const SettingsPage = memo(function SettingsPage() {
                   <div className="flex-1">
                     <h3 className="text-sm sm:text-base font-medium text-gray-900">アカウント削除</h3>
                     <p className="text-xs sm:text-sm text-gray-700 mt-0.5">
-                      アカウントと全てのデータを完全に削除します（準備中）
+                      アカウントと全てのデータ（画像ファイルを含む）を完全に削除します
                     </p>
                   </div>
                   <button
-                    onClick={handleDeleteAccount}
-                    className="bg-gray-400 text-white px-3 sm:px-4 py-1.5 sm:py-2 rounded-md text-xs sm:text-sm font-medium hover:bg-gray-500 transition-colors whitespace-nowrap"
+                    onClick={() => setShowDeleteModal(true)}
+                    className="bg-red-600 text-white px-3 sm:px-4 py-1.5 sm:py-2 rounded-md text-xs sm:text-sm font-medium hover:bg-red-700 transition-colors whitespace-nowrap"
                   >
-                    準備中
+                    削除
                   </button>
                 </div>
               </div>
@@ -440,6 +551,14 @@ const SettingsPage = memo(function SettingsPage() {
           </div>
         </div>
       </div>
+
+      <DeleteAccountModal
+        isOpen={showDeleteModal}
+        onClose={() => setShowDeleteModal(false)}
+        onConfirm={handleDeleteAccount}
+        email={settings?.email || session?.user?.email || ''}
+        onExport={exporting ? undefined : handleExportData}
+      />
     </div>
   )
 })
@@ -0,0 +1,306 @@
+'use client'
+
+import { useState, useEffect, useRef, useMemo, useCallback, memo } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+interface TrashedFolder {
+  id: string
+  name: string
+  parentId: string | null
+  deletedAt: string
+  expiresAt: string
+  folderCount: number
+  itemCount: number
+}
+
+interface TrashedItem {
+  id: string
+  name: string
+  category: string | null
+  manufacturer: string | null
+  deletedAt: string
+  expiresAt: string
+  folder: {
+    id: string
+    name: string
+  } | null
+  thumbnail: string | null
+}
+
+interface TrashResponse {
+  folders: TrashedFolder[]
+  items: TrashedItem[]
+  retentionDays: number
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('ja-JP', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+// 完全削除までの残り日数
+const getRemainingDays = (expiresAt: string) =>
+  Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000)))
+
+const TrashPage = memo(function TrashPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  // 認証状態を安定化（一度認証されたら loading への変化を無視）
+  const authStateRef = useRef({ isAuthenticated: false, hasBeenAuthenticated: false })
+
+  const isAuthenticated = useMemo(() => {
+    const currentAuth = status === 'authenticated' && session?.hasSession
+    if (currentAuth) {
+      authStateRef.current.hasBeenAuthenticated = true
+    }
+    if (authStateRef.current.hasBeenAuthenticated && status === 'loading') {
+      return true
+    }
+    authStateRef.current.isAuthenticated = currentAuth
+    return currentAuth
+  }, [status, session?.hasSession])
+
+  const isAuthLoading = useMemo(() => {
+    return status === 'loading' && !authStateRef.current.hasBeenAuthenticated
+  }, [status])
+
+  // 未ログインの場合はトップページにリダイレクト
+  useEffect(() => {
+    if (!isAuthLoading && !isAuthenticated) {
+      router.replace('/')
+    }
+  }, [isAuthenticated, isAuthLoading, router])
+
+  const [trash, setTrash] = useState<TrashResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [processingId, setProcessingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await fetch('/api/trash')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'ゴミ箱の取得に失敗しました')
+      }
+      setTrash(data)
+    } catch (err) {
+      console.error('Error fetching trash:', err)
+      setError(err instanceof Error ? err.message : 'ゴミ箱の取得に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchTrash()
+    }
+  }, [isAuthenticated, fetchTrash])
+
+  // 復元・完全削除の共通処理
+  const runAction = useCallback(async (key: string, url: string, method: 'POST' | 'DELETE') => {
+    setProcessingId(key)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(url, { method })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '処理に失敗しました')
+      }
+
+      setMessage(
+        data.failedBlobs?.length > 0
+          ? `${data.message}（削除できなかったファイル: ${data.failedBlobs.length}件）`
+          : data.message
+      )
+      await fetchTrash()
+
+      // フォルダツリーを更新
+      window.dispatchEvent(new Event('folder-updated'))
+    } catch (err) {
+      console.error('Error processing trash action:', err)
+      setError(err instanceof Error ? err.message : '処理に失敗しました')
+    } finally {
+      setProcessingId(null)
+    }
+  }, [fetchTrash])
+
+  const handleRestoreFolder = (folder: TrashedFolder) =>
+    runAction(`folder-${folder.id}`, `/api/trash/folders/${folder.id}/restore`, 'POST')
+
+  const handlePurgeFolder = (folder: TrashedFolder) => {
+    if (!confirm(`フォルダ「${folder.name}」を完全に削除してもよろしいですか？\n含まれるアイテムと画像も削除され、元に戻せません。`)) return
+    runAction(`folder-${folder.id}`, `/api/trash/folders/${folder.id}`, 'DELETE')
+  }
+
+  const handleRestoreItem = (item: TrashedItem) =>
+    runAction(`item-${item.id}`, `/api/trash/items/${item.id}/restore`, 'POST')
+
+  const handlePurgeItem = (item: TrashedItem) => {
+    if (!confirm(`「${item.name}」を完全に削除してもよろしいですか？\n画像も削除され、元に戻せません。`)) return
+    runAction(`item-${item.id}`, `/api/trash/items/${item.id}`, 'DELETE')
+  }
+
+  const handleEmptyTrash = () => {
+    if (!confirm('ゴミ箱を空にしてもよろしいですか？\nすべてのアイテムと画像が完全に削除され、元に戻せません。')) return
+    runAction('all', '/api/trash', 'DELETE')
+  }
+
+  if (isAuthLoading || !isAuthenticated) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const isEmpty = trash && trash.folders.length === 0 && trash.items.length === 0
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">ゴミ箱</h1>
+          <p className="text-gray-600">
+            削除したアイテムとフォルダは{trash?.retentionDays ?? 30}日後に完全に削除されます
+          </p>
+        </div>
+        {trash && !isEmpty && (
+          <button
+            onClick={handleEmptyTrash}
+            disabled={processingId !== null}
+            className="px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {processingId === 'all' ? '削除中...' : 'ゴミ箱を空にする'}
+          </button>
+        )}
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-sm text-green-800">{message}</p>
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {isEmpty && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">ゴミ箱は空です</p>
+          <Link href="/items" className="inline-block mt-2 text-sm text-blue-600 hover:text-blue-500 underline">
+            アイテム一覧に戻る
+          </Link>
+        </div>
+      )}
+
+      {/* Folders */}
+      {trash && trash.folders.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <h2 className="px-4 py-3 border-b border-gray-200 text-sm font-medium text-gray-900">
+            フォルダ（{trash.folders.length}）
+          </h2>
+          <ul className="divide-y divide-gray-200">
+            {trash.folders.map(folder => (
+              <li key={folder.id} className="px-4 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{folder.name}</p>
+                  <p className="text-xs text-gray-500">
+                    サブフォルダ{folder.folderCount}個・アイテム{folder.itemCount}件 ／ 削除日時: {formatDate(folder.deletedAt)}
+                    ／ あと{getRemainingDays(folder.expiresAt)}日で完全に削除
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleRestoreFolder(folder)}
+                    disabled={processingId !== null}
+                    className="px-3 py-1.5 border border-gray-300 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    復元
+                  </button>
+                  <button
+                    onClick={() => handlePurgeFolder(folder)}
+                    disabled={processingId !== null}
+                    className="px-3 py-1.5 bg-red-600 text-white text-xs font-medium rounded-md hover:bg-red-700 disabled:opacity-50"
+                  >
+                    完全に削除
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Items */}
+      {trash && trash.items.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <h2 className="px-4 py-3 border-b border-gray-200 text-sm font-medium text-gray-900">
+            アイテム（{trash.items.length}）
+          </h2>
+          <ul className="divide-y divide-gray-200">
+            {trash.items.map(item => (
+              <li key={item.id} className="px-4 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div className="flex items-center min-w-0">
+                  <div className="w-12 h-12 flex-shrink-0 rounded-md bg-gray-100 overflow-hidden mr-3">
+                    {item.thumbnail && (
+                      <img src={item.thumbnail} alt={item.name} className="w-full h-full object-cover" />
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{item.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {[item.category, item.manufacturer, item.folder?.name].filter(Boolean).join(' ／ ')}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      削除日時: {formatDate(item.deletedAt)} ／ あと{getRemainingDays(item.expiresAt)}日で完全に削除
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleRestoreItem(item)}
+                    disabled={processingId !== null}
+                    className="px-3 py-1.5 border border-gray-300 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    復元
+                  </button>
+                  <button
+                    onClick={() => handlePurgeItem(item)}
+                    disabled={processingId !== null}
+                    className="px-3 py-1.5 bg-red-600 text-white text-xs font-medium rounded-md hover:bg-red-700 disabled:opacity-50"
+                  >
+                    完全に削除
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+})
+
+export default TrashPage
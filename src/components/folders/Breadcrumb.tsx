@@ -7,7 +7,7 @@ interface BreadcrumbItem {
 
 interface BreadcrumbProps {
   selectedFolderId: string | null
-  folders: Array<{ id: string; name: string; parentId?: string }>
+  folders: Array<{ id: string; name: string; parentId?: string | null }>
   onFolderSelect: (folderId: string | null) => void
   className?: string
 }
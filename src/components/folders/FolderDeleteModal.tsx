@@ -0,0 +1,277 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+type FolderDeleteMode = 'reject' | 'move_to_parent' | 'move_to_uncategorized' | 'delete_all'
+
+interface FolderDeleteModeEffect {
+  allowed: boolean
+  reason?: string
+  movedFolders: number
+  movedItems: number
+  deletedFolders: number
+  deletedItems: number
+  deletedImages: number
+}
+
+interface FolderDeletionPreview {
+  folder: {
+    id: string
+    name: string
+    parentId: string | null
+  }
+  parent: {
+    id: string
+    name: string
+  } | null
+  counts: {
+    subfolders: number
+    directSubfolders: number
+    items: number
+    totalItems: number
+    images: number
+  }
+  conflicts: string[]
+  modes: Record<FolderDeleteMode, FolderDeleteModeEffect>
+}
+
+interface FolderDeleteModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onConfirm: (mode: FolderDeleteMode) => Promise<void>
+  folder: { id: string; name: string } | null
+}
+
+export function FolderDeleteModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  folder
+}: FolderDeleteModalProps) {
+  const [preview, setPreview] = useState<FolderDeletionPreview | null>(null)
+  const [mode, setMode] = useState<FolderDeleteMode>('reject')
+  const [loadingPreview, setLoadingPreview] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // 影響範囲のプレビューを取得
+  useEffect(() => {
+    if (!isOpen || !folder) return
+
+    let cancelled = false
+    setPreview(null)
+    setError(null)
+    setLoadingPreview(true)
+
+    fetch(`/api/folders/${folder.id}/delete-preview`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error?.message || data.error || 'プレビューの取得に失敗しました')
+        }
+        if (cancelled) return
+        setPreview(data)
+        // 中身が空ならそのまま削除、それ以外は親フォルダへの移動を初期選択
+        const initialMode: FolderDeleteMode = data.counts.subfolders === 0 && data.counts.items === 0
+          ? 'reject'
+          : data.modes.move_to_parent.allowed ? 'move_to_parent' : 'move_to_uncategorized'
+        setMode(initialMode)
+      })
+      .catch((err) => {
+        console.error('Error fetching delete preview:', err)
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'エラーが発生しました')
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingPreview(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, folder])
+
+  // ESCキーでモーダルを閉じる
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !loading) {
+        onClose()
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape)
+      document.body.style.overflow = 'hidden'
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape)
+      document.body.style.overflow = 'unset'
+    }
+  }, [isOpen, loading, onClose])
+
+  const handleSubmit = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      await onConfirm(mode)
+      onClose()
+    } catch (err) {
+      console.error('Error deleting folder:', err)
+      setError(err instanceof Error ? err.message : 'エラーが発生しました')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      onClose()
+    }
+  }
+
+  if (!isOpen || !folder) return null
+
+  const isEmpty = preview && preview.counts.subfolders === 0 && preview.counts.items === 0
+  const parentLabel = preview?.parent ? `「${preview.parent.name}」` : '最上位（アイテムは未分類）'
+
+  // 中身がある場合のみ選択肢を表示
+  const options: Array<{ value: FolderDeleteMode; label: string; description: string }> = preview ? [
+    {
+      value: 'move_to_parent',
+      label: '親フォルダへ移動',
+      description: `サブフォルダ${preview.modes.move_to_parent.movedFolders}個とアイテム${preview.modes.move_to_parent.movedItems}件を${parentLabel}へ移動します`,
+    },
+    {
+      value: 'move_to_uncategorized',
+      label: 'アイテムを未分類へ移動',
+      description: `サブフォルダを含む${preview.modes.move_to_uncategorized.deletedFolders}個のフォルダを削除し、アイテム${preview.modes.move_to_uncategorized.movedItems}件を未分類へ移動します`,
+    },
+    {
+      value: 'delete_all',
+      label: 'すべてゴミ箱へ移動',
+      description: `フォルダ${preview.modes.delete_all.deletedFolders}個、アイテム${preview.modes.delete_all.deletedItems}件、画像${preview.modes.delete_all.deletedImages}枚をゴミ箱へ移動します`,
+    },
+  ] : []
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      {/* Background overlay */}
+      <div
+        className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+        onClick={handleClose}
+      ></div>
+
+      {/* Modal */}
+      <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+        <div className="relative transform overflow-hidden rounded-lg bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg">
+          <div className="bg-white px-4 pb-4 pt-5 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium leading-6 text-gray-900" id="modal-title">
+                フォルダ「{folder.name}」を削除
+              </h3>
+              <button
+                type="button"
+                className="rounded-md bg-white p-2 text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                onClick={handleClose}
+                disabled={loading}
+              >
+                <span className="sr-only">閉じる</span>
+                <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {loadingPreview && (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            )}
+
+            {preview && (
+              <div className="mb-4">
+                {isEmpty ? (
+                  <p className="text-sm text-gray-700">このフォルダは空です。ゴミ箱へ移動してもよろしいですか？</p>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-700 mb-3">
+                      このフォルダにはサブフォルダが{preview.counts.subfolders}個、
+                      アイテムが{preview.counts.totalItems}件（画像{preview.counts.images}枚）含まれています。
+                      中身の扱いを選択してください。
+                    </p>
+                    <div className="space-y-2">
+                      {options.map(option => {
+                        const effect = preview.modes[option.value]
+                        return (
+                          <label
+                            key={option.value}
+                            className={`flex items-start p-3 border rounded-md ${
+                              !effect.allowed
+                                ? 'border-gray-200 bg-gray-50 opacity-60 cursor-not-allowed'
+                                : mode === option.value
+                                  ? option.value === 'delete_all' ? 'border-red-500 bg-red-50 cursor-pointer' : 'border-blue-500 bg-blue-50 cursor-pointer'
+                                  : 'border-gray-200 hover:bg-gray-50 cursor-pointer'
+                            }`}
+                          >
+                            <input
+                              type="radio"
+                              name="folderDeleteMode"
+                              value={option.value}
+                              checked={mode === option.value}
+                              onChange={() => setMode(option.value)}
+                              disabled={!effect.allowed || loading}
+                              className="mt-1 mr-3"
+                            />
+                            <div>
+                              <p className={`text-sm font-medium ${option.value === 'delete_all' ? 'text-red-700' : 'text-gray-900'}`}>
+                                {option.label}
+                              </p>
+                              <p className="text-xs text-gray-500 mt-0.5">{option.description}</p>
+                              {!effect.allowed && effect.reason && (
+                                <p className="text-xs text-red-600 mt-0.5">{effect.reason}</p>
+                              )}
+                            </div>
+                          </label>
+                        )
+                      })}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* エラー表示 */}
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            {/* Action buttons */}
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={loading}
+                className="inline-flex justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+              >
+                キャンセル
+              </button>
+              <button
+                type="button"
+                onClick={handleSubmit}
+                disabled={loading || !preview || !preview.modes[mode].allowed}
+                className="inline-flex justify-center rounded-md border border-transparent bg-red-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? '移動中...' : 'ゴミ箱へ移動'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
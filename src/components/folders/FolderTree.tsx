@@ -187,12 +187,10 @@ export const FolderTree = forwardRef<FolderTreeHandle, FolderTreeProps>(({
     })
   }
 
-  // フォルダの削除確認
+  // フォルダの削除（確認と削除モードの選択は呼び出し元で行う）
   const handleFolderDelete = (folder: Folder, e: React.MouseEvent) => {
     e.stopPropagation()
-    if (confirm(`フォルダ「${folder.name}」を削除してもよろしいですか？\n含まれるアイテムは未分類に移動されます。`)) {
-      onFolderDelete?.(folder)
-    }
+    onFolderDelete?.(folder)
   }
 
   // フォルダの編集
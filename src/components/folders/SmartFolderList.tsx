@@ -0,0 +1,186 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import { useSession } from 'next-auth/react'
+
+/**
+ * スマートフォルダ（保存した絞り込み条件）
+ */
+export interface SmartFolder {
+  id: string
+  name: string
+  query: string
+  sortOrder: number
+  // 条件が無効になっている場合はnull
+  itemCount: number | null
+}
+
+const SmartFolderIcon = ({ className }: { className?: string }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+  </svg>
+)
+
+interface SmartFolderListProps {
+  selectedSmartFolderId?: string | null
+  onSmartFolderSelect: (smartFolder: SmartFolder) => void
+  onSmartFolderEdit?: (smartFolder: SmartFolder) => void
+  onSmartFolderDelete?: (smartFolder: SmartFolder) => void
+  className?: string
+}
+
+/**
+ * サイドバーのスマートフォルダ一覧（件数は 'smart-folder-updated' / 'folder-updated' イベントで再取得する）
+ */
+export function SmartFolderList({
+  selectedSmartFolderId,
+  onSmartFolderSelect,
+  onSmartFolderEdit,
+  onSmartFolderDelete,
+  className = ''
+}: SmartFolderListProps) {
+  const { data: session, status } = useSession()
+
+  // 認証状態を安定化（一度認証されたら loading への変化を無視）
+  const authStateRef = useRef({ isAuthenticated: false, hasBeenAuthenticated: false })
+
+  const isAuthenticated = useMemo(() => {
+    const currentAuth = status === 'authenticated' && session?.hasSession
+    if (currentAuth) {
+      authStateRef.current.hasBeenAuthenticated = true
+    }
+    // 一度認証されていて、現在loadingの場合は認証済みとして扱う
+    if (authStateRef.current.hasBeenAuthenticated && status === 'loading') {
+      return true
+    }
+    authStateRef.current.isAuthenticated = currentAuth
+    return currentAuth
+  }, [status, session?.hasSession])
+
+  const [smartFolders, setSmartFolders] = useState<SmartFolder[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSmartFolders = useCallback(async () => {
+    if (!isAuthenticated) {
+      setSmartFolders([])
+      return
+    }
+
+    try {
+      setError(null)
+      const response = await fetch('/api/smart-folders')
+      if (!response.ok) {
+        throw new Error('スマートフォルダの取得に失敗しました')
+      }
+
+      const data = await response.json()
+      setSmartFolders(data.smartFolders || [])
+    } catch (err) {
+      console.error('Error fetching smart folders:', err)
+      setError(err instanceof Error ? err.message : 'エラーが発生しました')
+    }
+  }, [isAuthenticated])
+
+  useEffect(() => {
+    fetchSmartFolders()
+  }, [fetchSmartFolders])
+
+  // スマートフォルダの変更・アイテムの移動などで件数を更新する
+  useEffect(() => {
+    window.addEventListener('smart-folder-updated', fetchSmartFolders)
+    window.addEventListener('folder-updated', fetchSmartFolders)
+
+    return () => {
+      window.removeEventListener('smart-folder-updated', fetchSmartFolders)
+      window.removeEventListener('folder-updated', fetchSmartFolders)
+    }
+  }, [fetchSmartFolders])
+
+  if (smartFolders.length === 0 && !error) {
+    return null
+  }
+
+  return (
+    <div className={`p-2 ${className}`}>
+      <div className="flex items-center justify-between mb-2 px-2">
+        <h3 className="text-sm font-medium text-gray-900">スマートフォルダ</h3>
+      </div>
+
+      {error && (
+        <div className="px-2 py-1 text-sm text-red-600 bg-red-50 rounded mb-2">
+          {error}
+          <button
+            onClick={fetchSmartFolders}
+            className="ml-2 underline hover:no-underline"
+          >
+            再試行
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {smartFolders.map(smartFolder => {
+          const isSelected = selectedSmartFolderId === smartFolder.id
+          return (
+            <div
+              key={smartFolder.id}
+              className={`group relative flex items-center px-2 py-1.5 rounded cursor-pointer transition-colors duration-200 touch-manipulation ${
+                isSelected ? 'bg-blue-100 text-blue-900' : 'hover:bg-gray-100'
+              }`}
+              onClick={() => onSmartFolderSelect(smartFolder)}
+            >
+              <div className="w-5 h-5" />
+              <SmartFolderIcon className="w-4 h-4 text-purple-500 flex-shrink-0 ml-1" />
+              <span className="ml-2 text-sm truncate flex-1" title={smartFolder.name}>
+                {smartFolder.name}
+              </span>
+              {smartFolder.itemCount === null ? (
+                <span className="ml-2 text-xs text-red-500 flex-shrink-0" title="絞り込み条件が無効です">
+                  !
+                </span>
+              ) : (
+                <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded-full flex-shrink-0">
+                  {smartFolder.itemCount}
+                </span>
+              )}
+
+              {/* スマートフォルダアクション */}
+              {(onSmartFolderEdit || onSmartFolderDelete) && (
+                <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity bg-white rounded shadow-sm">
+                  {onSmartFolderEdit && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onSmartFolderEdit(smartFolder)
+                      }}
+                      className="p-1 hover:bg-gray-200 rounded text-gray-500 hover:text-gray-700"
+                      title="名前を変更"
+                    >
+                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                      </svg>
+                    </button>
+                  )}
+                  {onSmartFolderDelete && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onSmartFolderDelete(smartFolder)
+                      }}
+                      className="p-1 hover:bg-red-100 rounded text-gray-500 hover:text-red-600"
+                      title="スマートフォルダを削除"
+                    >
+                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
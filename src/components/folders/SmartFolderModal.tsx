@@ -0,0 +1,151 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface SmartFolderModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSave: (name: string) => Promise<void>
+  initialName?: string
+  mode: 'create' | 'edit'
+}
+
+/**
+ * スマートフォルダの作成（現在の絞り込み条件を保存）・名前変更モーダル
+ */
+export function SmartFolderModal({
+  isOpen,
+  onClose,
+  onSave,
+  initialName = '',
+  mode
+}: SmartFolderModalProps) {
+  const [name, setName] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(initialName)
+      setError(null)
+    }
+  }, [isOpen, initialName])
+
+  // ESCキーでモーダルを閉じる
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose()
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape)
+      document.body.style.overflow = 'hidden'
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape)
+      document.body.style.overflow = 'unset'
+    }
+  }, [isOpen, onClose])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim()) {
+      setError('スマートフォルダ名を入力してください')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      await onSave(name.trim())
+      onClose()
+    } catch (err) {
+      console.error('Error saving smart folder:', err)
+      setError(err instanceof Error ? err.message : 'エラーが発生しました')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      onClose()
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="smart-folder-modal-title" role="dialog" aria-modal="true">
+      {/* Background overlay */}
+      <div
+        className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+        onClick={handleClose}
+      ></div>
+
+      {/* Modal */}
+      <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+        <div className="relative transform overflow-hidden rounded-lg bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg">
+          <div className="bg-white px-4 pb-4 pt-5 sm:p-6 sm:pb-4">
+            <h3 className="text-lg font-medium leading-6 text-gray-900 mb-2" id="smart-folder-modal-title">
+              {mode === 'create' ? '検索条件をスマートフォルダに保存' : 'スマートフォルダの名前を変更'}
+            </h3>
+            {mode === 'create' && (
+              <p className="text-sm text-gray-500 mb-4">
+                現在の検索キーワード・フィルター・並び順を保存し、サイドバーからいつでも呼び出せます。
+              </p>
+            )}
+
+            <form onSubmit={handleSubmit}>
+              <div className="mb-4">
+                <label htmlFor="smartFolderName" className="block text-sm font-medium text-gray-700 mb-2">
+                  スマートフォルダ名
+                </label>
+                <input
+                  type="text"
+                  id="smartFolderName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 focus:outline-none sm:text-sm"
+                  placeholder="例: 値上がりしたカメラ"
+                  maxLength={50}
+                  disabled={loading}
+                  autoFocus
+                />
+              </div>
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  disabled={loading}
+                  className="inline-flex justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+                >
+                  キャンセル
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading || !name.trim()}
+                  className="inline-flex justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? '保存中...' : '保存'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
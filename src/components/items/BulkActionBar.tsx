@@ -0,0 +1,364 @@
+'use client'
+
+import { useState } from 'react'
+
+export type BulkOperation =
+  | { action: 'move'; folderId: string | null }
+  | { action: 'delete' }
+  | { action: 'update'; fields: { category?: string; manufacturer?: string; condition?: string } }
+  | { action: 'tag'; add: string[]; remove: string[] }
+  | { action: 'price_search' }
+
+export interface BulkOperationResponse {
+  action: BulkOperation['action']
+  message: string
+  summary: {
+    requested: number
+    succeeded: number
+    failed: number
+  }
+  results: Array<{
+    itemId: string
+    name: string | null
+    success: boolean
+    error?: string
+  }>
+}
+
+interface BulkActionBarProps {
+  selectedCount: number
+  allSelected: boolean
+  onSelectAll: () => void
+  onClearSelection: () => void
+  onAction: (operation: BulkOperation) => Promise<BulkOperationResponse>
+  folders: Array<{ id: string; name: string; displayName?: string }>
+  categories: string[]
+  manufacturers: string[]
+  tags?: Array<{ id: string; name: string }>
+  // スマートフォルダ全体を対象にしている場合の表示名（選択ではなく条件に一致する全件が対象）
+  scopeLabel?: string
+}
+
+// 一度に価格調査できるアイテム数（APIの上限と合わせる）
+const MAX_PRICE_SEARCH_ITEMS = 10
+
+const CONDITIONS = [
+  '新品',
+  '未使用に近い',
+  '目立った傷や汚れなし',
+  'やや傷や汚れあり',
+  '傷や汚れあり',
+  '全体的に状態が悪い',
+]
+
+export function BulkActionBar({
+  selectedCount,
+  allSelected,
+  onSelectAll,
+  onClearSelection,
+  onAction,
+  folders,
+  categories,
+  manufacturers,
+  tags = [],
+  scopeLabel
+}: BulkActionBarProps) {
+  const [panel, setPanel] = useState<'move' | 'update' | 'tag' | null>(null)
+  const [targetFolderId, setTargetFolderId] = useState('')
+  const [fields, setFields] = useState({ category: '', manufacturer: '', condition: '' })
+  const [tagInput, setTagInput] = useState({ add: '', remove: '' })
+  const [processing, setProcessing] = useState(false)
+  const [result, setResult] = useState<BulkOperationResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const runAction = async (operation: BulkOperation) => {
+    setProcessing(true)
+    setError(null)
+    setResult(null)
+
+    try {
+      const response = await onAction(operation)
+      setResult(response)
+      setPanel(null)
+    } catch (err) {
+      console.error('Error running bulk action:', err)
+      setError(err instanceof Error ? err.message : '一括操作に失敗しました')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const handleMove = () => {
+    runAction({ action: 'move', folderId: targetFolderId || null })
+  }
+
+  const handleUpdate = () => {
+    // 入力された項目のみ設定する
+    const updateFields = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value.trim() !== '')
+    )
+    if (Object.keys(updateFields).length === 0) {
+      setError('設定する項目を少なくとも1つ入力してください')
+      return
+    }
+    runAction({ action: 'update', fields: updateFields })
+  }
+
+  const handleTag = () => {
+    // カンマ区切りの入力をタグ名の配列に変換する
+    const parseTags = (value: string) => value.split(',').map(tag => tag.trim()).filter(Boolean)
+    const add = parseTags(tagInput.add)
+    const remove = parseTags(tagInput.remove)
+    if (add.length === 0 && remove.length === 0) {
+      setError('追加または削除するタグを入力してください')
+      return
+    }
+    runAction({ action: 'tag', add, remove })
+  }
+
+  const handleDelete = () => {
+    const target = scopeLabel ? `${scopeLabel}の${selectedCount}件` : `選択した${selectedCount}件`
+    if (!confirm(`${target}のアイテムをゴミ箱に移動してもよろしいですか？\nゴミ箱から復元できます。`)) return
+    runAction({ action: 'delete' })
+  }
+
+  const handlePriceSearch = () => {
+    if (selectedCount > MAX_PRICE_SEARCH_ITEMS) {
+      setError(`一度に価格調査できるアイテムは${MAX_PRICE_SEARCH_ITEMS}個までです`)
+      return
+    }
+    runAction({ action: 'price_search' })
+  }
+
+  const failedResults = result?.results.filter(item => !item.success) || []
+
+  if (selectedCount === 0 && !result) return null
+
+  return (
+    <div className="sticky top-0 z-20 bg-white rounded-lg shadow-md border border-blue-200 p-3 space-y-3">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+        <div className="flex items-center gap-3 text-sm">
+          <span className="font-medium text-gray-900">
+            {scopeLabel ? `${scopeLabel}の全${selectedCount}件が対象` : `${selectedCount}件を選択中`}
+          </span>
+          {!scopeLabel && (
+            <button
+              onClick={allSelected ? onClearSelection : onSelectAll}
+              disabled={processing}
+              className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              {allSelected ? 'すべて解除' : 'このページをすべて選択'}
+            </button>
+          )}
+          {selectedCount > 0 && (!allSelected || scopeLabel) && (
+            <button
+              onClick={onClearSelection}
+              disabled={processing}
+              className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            >
+              {scopeLabel ? '対象を解除' : '選択を解除'}
+            </button>
+          )}
+        </div>
+
+        {selectedCount > 0 && (
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setPanel(panel === 'move' ? null : 'move')}
+              disabled={processing}
+              className={`px-3 py-1.5 border text-xs font-medium rounded-md disabled:opacity-50 ${
+                panel === 'move' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              フォルダへ移動
+            </button>
+            <button
+              onClick={() => setPanel(panel === 'update' ? null : 'update')}
+              disabled={processing}
+              className={`px-3 py-1.5 border text-xs font-medium rounded-md disabled:opacity-50 ${
+                panel === 'update' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              一括編集
+            </button>
+            <button
+              onClick={() => setPanel(panel === 'tag' ? null : 'tag')}
+              disabled={processing}
+              className={`px-3 py-1.5 border text-xs font-medium rounded-md disabled:opacity-50 ${
+                panel === 'tag' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              タグ設定
+            </button>
+            <button
+              onClick={handlePriceSearch}
+              disabled={processing}
+              className="px-3 py-1.5 border border-green-300 bg-green-50 text-green-700 text-xs font-medium rounded-md hover:bg-green-100 disabled:opacity-50"
+            >
+              価格調査
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={processing}
+              className="px-3 py-1.5 bg-red-600 text-white text-xs font-medium rounded-md hover:bg-red-700 disabled:opacity-50"
+            >
+              ゴミ箱へ移動
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* 移動先の選択 */}
+      {panel === 'move' && selectedCount > 0 && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 border-t border-gray-200 pt-3">
+          <select
+            value={targetFolderId}
+            onChange={(e) => setTargetFolderId(e.target.value)}
+            disabled={processing}
+            className="block w-full sm:w-64 form-select border border-gray-300 bg-white rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">未分類</option>
+            {folders.map((folder) => (
+              <option key={folder.id} value={folder.id}>
+                {folder.displayName || folder.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleMove}
+            disabled={processing}
+            className="px-4 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {processing ? '移動中...' : '移動する'}
+          </button>
+        </div>
+      )}
+
+      {/* 一括編集 */}
+      {panel === 'update' && selectedCount > 0 && (
+        <div className="border-t border-gray-200 pt-3 space-y-2">
+          <p className="text-xs text-gray-500">入力した項目のみ、選択したアイテムすべてに設定されます</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <input
+              type="text"
+              list="bulk-categories"
+              value={fields.category}
+              onChange={(e) => setFields(prev => ({ ...prev, category: e.target.value }))}
+              placeholder="カテゴリー（変更しない）"
+              disabled={processing}
+              className="block w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <datalist id="bulk-categories">
+              {categories.map(category => <option key={category} value={category} />)}
+            </datalist>
+            <input
+              type="text"
+              list="bulk-manufacturers"
+              value={fields.manufacturer}
+              onChange={(e) => setFields(prev => ({ ...prev, manufacturer: e.target.value }))}
+              placeholder="メーカー（変更しない）"
+              disabled={processing}
+              className="block w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <datalist id="bulk-manufacturers">
+              {manufacturers.map(manufacturer => <option key={manufacturer} value={manufacturer} />)}
+            </datalist>
+            <select
+              value={fields.condition}
+              onChange={(e) => setFields(prev => ({ ...prev, condition: e.target.value }))}
+              disabled={processing}
+              className="block w-full form-select border border-gray-300 bg-white rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">状態（変更しない）</option>
+              {CONDITIONS.map(condition => (
+                <option key={condition} value={condition}>{condition}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={handleUpdate}
+              disabled={processing}
+              className="px-4 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {processing ? '更新中...' : '設定する'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* タグの追加・削除 */}
+      {panel === 'tag' && selectedCount > 0 && (
+        <div className="border-t border-gray-200 pt-3 space-y-2">
+          <p className="text-xs text-gray-500">複数のタグはカンマ区切りで入力してください</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input
+              type="text"
+              list="bulk-tags"
+              value={tagInput.add}
+              onChange={(e) => setTagInput(prev => ({ ...prev, add: e.target.value }))}
+              placeholder="追加するタグ"
+              disabled={processing}
+              className="block w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <input
+              type="text"
+              list="bulk-tags"
+              value={tagInput.remove}
+              onChange={(e) => setTagInput(prev => ({ ...prev, remove: e.target.value }))}
+              placeholder="外すタグ"
+              disabled={processing}
+              className="block w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <datalist id="bulk-tags">
+              {tags.map(tag => <option key={tag.id} value={tag.name} />)}
+            </datalist>
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={handleTag}
+              disabled={processing}
+              className="px-4 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {processing ? '設定中...' : '設定する'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {processing && panel === null && (
+        <p className="text-xs text-gray-500">処理中...</p>
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* 一括操作の結果 */}
+      {result && (
+        <div className={`p-2 border rounded-md ${failedResults.length > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'}`}>
+          <div className="flex items-start justify-between gap-2">
+            <p className={`text-sm ${failedResults.length > 0 ? 'text-yellow-800' : 'text-green-800'}`}>{result.message}</p>
+            <button
+              onClick={() => setResult(null)}
+              className="text-xs text-gray-500 hover:text-gray-700 flex-shrink-0"
+            >
+              閉じる
+            </button>
+          </div>
+          {failedResults.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {failedResults.map(item => (
+                <li key={item.itemId} className="text-xs text-yellow-800">
+                  {item.name || item.itemId}: {item.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
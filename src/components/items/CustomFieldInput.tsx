@@ -0,0 +1,80 @@
+'use client'
+
+import { ItemCustomFieldDefinition } from './ItemCard'
+
+interface CustomFieldInputProps {
+  definition: ItemCustomFieldDefinition
+  value: string | boolean | undefined
+  onChange: (value: string | boolean) => void
+  error?: string
+  disabled?: boolean
+}
+
+/**
+ * カスタムフィールドの型に応じた入力欄
+ */
+export function CustomFieldInput({ definition, value, onChange, error, disabled = false }: CustomFieldInputProps) {
+  const inputId = `custom-field-${definition.id}`
+  const inputClassName = `block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 ${
+    error ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+  }`
+
+  if (definition.type === 'boolean') {
+    return (
+      <div>
+        <label htmlFor={inputId} className="inline-flex items-center gap-2 text-sm font-medium text-gray-700 mt-6">
+          <input
+            type="checkbox"
+            id={inputId}
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            disabled={disabled}
+          />
+          {definition.name}
+        </label>
+        {error && (
+          <p className="mt-1 text-sm text-red-600">{error}</p>
+        )}
+      </div>
+    )
+  }
+
+  const stringValue = typeof value === 'string' ? value : ''
+
+  return (
+    <div>
+      <label htmlFor={inputId} className="block text-sm font-medium text-gray-700 mb-1">
+        {definition.name}{definition.required && <span className="text-red-500"> *</span>}
+      </label>
+      {definition.type === 'select' ? (
+        <select
+          id={inputId}
+          value={stringValue}
+          onChange={(e) => onChange(e.target.value)}
+          className={`form-select bg-white border ${inputClassName}`}
+          disabled={disabled}
+        >
+          <option value="">選択してください</option>
+          {definition.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type={definition.type === 'number' ? 'number' : definition.type === 'date' ? 'date' : 'text'}
+          id={inputId}
+          value={stringValue}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+          step={definition.type === 'number' ? 'any' : undefined}
+          maxLength={definition.type === 'text' ? 500 : undefined}
+          disabled={disabled}
+        />
+      )}
+      {error && (
+        <p className="mt-1 text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  )
+}
@@ -39,10 +39,12 @@ export function ImageUploadModal({
   itemId,
   images,
   onImagesChange,
-  maxImages = 10,
+  maxImages: maxImagesProp,
   allowPreview = false
 }: ImageUploadModalProps) {
   const [uploadConfig, setUploadConfig] = useState<UploadConfig | null>(null)
+  // 指定がなければプランの上限（設定の読み込み前は無料プランの上限）
+  const maxImages = maxImagesProp ?? uploadConfig?.maxImagesPerItem ?? 10
   const [uploading, setUploading] = useState(false)
   const [dragOver, setDragOver] = useState(false)
   const [error, setError] = useState<string | null>(null)
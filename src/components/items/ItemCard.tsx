@@ -19,6 +19,30 @@ export interface ItemFolder {
   name: string
 }
 
+export interface ItemTag {
+  id: string
+  name: string
+  color?: string | null
+}
+
+export interface ItemCustomFieldDefinition {
+  id: string
+  name: string
+  type: 'text' | 'number' | 'date' | 'select' | 'boolean'
+  options: string[]
+  category: string | null
+  required: boolean
+  sortOrder: number
+}
+
+export type ItemCustomFieldValue = string | number | boolean | null
+
+export interface ItemSearchHighlight {
+  field: 'name' | 'description' | 'manufacturer' | 'category' | 'notes' | 'purchaseLocation'
+  text: string
+  ranges: Array<[number, number]>
+}
+
 export interface PriceHistory {
   id: string
   searchDate: string
@@ -39,24 +63,61 @@ export interface Item {
   purchaseLocation?: string
   condition?: string
   notes?: string
+  quantity?: number
+  unit?: string
+  storageRoom?: string
+  storageShelf?: string
+  storageBox?: string
+  warrantyExpiresAt?: string
   folderId?: string
   userId?: string
   createdAt: string
   updatedAt: string
   folder?: ItemFolder
+  tags?: ItemTag[]
+  customFields?: Record<string, ItemCustomFieldValue>
+  highlights?: ItemSearchHighlight[]
   images: ItemImage[]
   priceHistory?: PriceHistory[]
 }
 
+const HIGHLIGHT_FIELD_LABELS: Record<ItemSearchHighlight['field'], string> = {
+  name: '商品名',
+  description: '説明',
+  manufacturer: 'メーカー',
+  category: 'カテゴリ',
+  notes: 'メモ',
+  purchaseLocation: '購入場所',
+}
+
+// 検索語に一致した箇所を強調表示する
+function HighlightedText({ highlight }: { highlight: ItemSearchHighlight }) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  highlight.ranges.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(highlight.text.slice(cursor, start))
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+        {highlight.text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  })
+  if (cursor < highlight.text.length) parts.push(highlight.text.slice(cursor))
+  return <>{parts}</>
+}
+
 interface ItemCardProps {
   item: Item
   viewMode?: 'grid' | 'list'
   onClick?: (item: Item) => void
   onDragStart?: (item: Item) => void
   onDragEnd?: () => void
+  selected?: boolean
+  onSelectChange?: (item: Item, selected: boolean) => void
 }
 
-export function ItemCard({ item, viewMode = 'grid', onClick, onDragStart, onDragEnd }: ItemCardProps) {
+export function ItemCard({ item, viewMode = 'grid', onClick, onDragStart, onDragEnd, selected = false, onSelectChange }: ItemCardProps) {
   const [imageError, setImageError] = useState(false)
   const [isHovered, setIsHovered] = useState(false)
 
@@ -126,10 +187,55 @@ export function ItemCard({ item, viewMode = 'grid', onClick, onDragStart, onDrag
     }
   }
 
+  // 一括操作用の選択チェックボックス（カードのクリックとは独立させる）
+  const selectionCheckbox = onSelectChange && (
+    <input
+      type="checkbox"
+      checked={selected}
+      onChange={(e) => onSelectChange(item, e.target.checked)}
+      onClick={(e) => e.stopPropagation()}
+      aria-label={`${item.name}を選択`}
+      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
+    />
+  )
+
+  // 検索時の一致箇所（商品名以外は最初の1件を抜粋として表示）
+  const nameHighlight = item.highlights?.find(highlight => highlight.field === 'name')
+  const snippetHighlight = item.highlights?.find(highlight => highlight.field !== 'name')
+  const itemName = nameHighlight ? <HighlightedText highlight={nameHighlight} /> : item.name
+  const searchSnippet = snippetHighlight && (
+    <p className="text-xs text-gray-500 line-clamp-2">
+      <span className="font-medium">{HIGHLIGHT_FIELD_LABELS[snippetHighlight.field]}: </span>
+      <HighlightedText highlight={snippetHighlight} />
+    </p>
+  )
+
+  // タグのチップ表示
+  const tagChips = item.tags && item.tags.length > 0 && (
+    <div className="flex flex-wrap gap-1">
+      {item.tags.map((tag) => (
+        <span
+          key={tag.id}
+          className="inline-flex items-center px-1.5 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700"
+        >
+          {tag.color && (
+            <span
+              className="w-1.5 h-1.5 rounded-full mr-1"
+              style={{ backgroundColor: tag.color }}
+            />
+          )}
+          {tag.name}
+        </span>
+      ))}
+    </div>
+  )
+
   if (viewMode === 'list') {
     return (
       <div
-        className="bg-white rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-all duration-200 cursor-pointer"
+        className={`bg-white rounded-lg shadow-sm border hover:shadow-md transition-all duration-200 cursor-pointer ${
+          selected ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200'
+        }`}
         onClick={handleCardClick}
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
@@ -138,6 +244,12 @@ export function ItemCard({ item, viewMode = 'grid', onClick, onDragStart, onDrag
         onDragEnd={handleDragEnd}
       >
         <div className="flex p-3 space-x-3">
+          {selectionCheckbox && (
+            <div className="flex items-center">
+              {selectionCheckbox}
+            </div>
+          )}
+
           {/* Image */}
           <div className="flex-shrink-0">
             <div className="w-16 h-16 bg-gray-100 rounded-lg overflow-hidden relative">
@@ -171,9 +283,13 @@ export function ItemCard({ item, viewMode = 'grid', onClick, onDragStart, onDrag
             <div className="flex items-start justify-between">
               <div className="flex-1 min-w-0">
                 <h3 className="text-base font-semibold text-gray-900 truncate">
-                  {item.name}
+                  {itemName}
                 </h3>
-                {item.description && (
+                {searchSnippet ? (
+                  <div className="mt-1">
+                    {searchSnippet}
+                  </div>
+                ) : item.description && (
                   <p className="text-sm text-gray-600 mt-1 line-clamp-1">
                     {item.description}
                   </p>
@@ -242,6 +358,11 @@ export function ItemCard({ item, viewMode = 'grid', onClick, onDragStart, onDrag
                 </span>
               )}
             </div>
+            {tagChips && (
+              <div className="mt-1.5">
+                {tagChips}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -251,7 +372,9 @@ export function ItemCard({ item, viewMode = 'grid', onClick, onDragStart, onDrag
   // Grid view
   return (
     <div
-      className="bg-white rounded-lg shadow-sm border border-gray-200 hover:shadow-lg transition-all duration-200 cursor-pointer group overflow-hidden"
+      className={`bg-white rounded-lg shadow-sm border hover:shadow-lg transition-all duration-200 cursor-pointer group overflow-hidden ${
+        selected ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200'
+      }`}
       onClick={handleCardClick}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
@@ -311,15 +434,27 @@ export function ItemCard({ item, viewMode = 'grid', onClick, onDragStart, onDrag
             </div>
           </div>
         )}
+
+        {selectionCheckbox && (
+          <div className="absolute bottom-1 left-1 z-10 bg-white bg-opacity-90 rounded p-1 flex items-center">
+            {selectionCheckbox}
+          </div>
+        )}
       </div>
 
       {/* Content */}
       <div className="p-3">
         {/* 商品名 - 1行に短縮 */}
         <h3 className="text-sm font-semibold text-gray-900 line-clamp-1 mb-2">
-          {item.name}
+          {itemName}
         </h3>
 
+        {searchSnippet && (
+          <div className="mb-2">
+            {searchSnippet}
+          </div>
+        )}
+
         {/* 価格情報 - コンパクトに */}
         {(formatPrice(item.purchasePrice) || latestPriceHistory?.avgPrice) && (
           <div className="space-y-1">
@@ -367,6 +502,12 @@ export function ItemCard({ item, viewMode = 'grid', onClick, onDragStart, onDrag
             )}
           </div>
         )}
+
+        {tagChips && (
+          <div className="mt-2">
+            {tagChips}
+          </div>
+        )}
       </div>
     </div>
   )
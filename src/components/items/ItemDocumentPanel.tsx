@@ -0,0 +1,243 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+
+type ItemDocumentKind = 'receipt' | 'manual' | 'warranty' | 'other'
+
+interface ItemDocument {
+  id: string
+  kind: ItemDocumentKind
+  title: string | null
+  url: string
+  originalName: string
+  mimeType: string
+  size: number
+  thumbnailUrl: string | null
+  createdAt: string
+}
+
+interface ItemDocumentPanelProps {
+  itemId: string
+}
+
+const KIND_LABELS: Record<ItemDocumentKind, string> = {
+  receipt: 'レシート',
+  manual: '説明書',
+  warranty: '保証書',
+  other: 'その他',
+}
+
+const ACCEPTED_TYPES = '.pdf,.jpg,.jpeg,.png,.webp,application/pdf,image/jpeg,image/png,image/webp'
+
+const formatFileSize = (size: number) =>
+  size >= 1024 * 1024 ? `${(size / 1024 / 1024).toFixed(1)}MB` : `${Math.max(1, Math.round(size / 1024))}KB`
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('ja-JP', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+
+export function ItemDocumentPanel({ itemId }: ItemDocumentPanelProps) {
+  const [documents, setDocuments] = useState<ItemDocument[]>([])
+  const [loading, setLoading] = useState(true)
+  const [processing, setProcessing] = useState(false)
+  const [kind, setKind] = useState<ItemDocumentKind>('receipt')
+  const [title, setTitle] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/items/${itemId}/documents`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '書類の取得に失敗しました')
+      }
+      setDocuments(data.documents)
+    } catch (err) {
+      console.error('Error fetching item documents:', err)
+      setError(err instanceof Error ? err.message : '書類の取得に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [itemId])
+
+  useEffect(() => {
+    fetchDocuments()
+  }, [fetchDocuments])
+
+  const handleUpload = async (file: File) => {
+    setProcessing(true)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('kind', kind)
+      formData.append('title', title)
+
+      const response = await fetch(`/api/items/${itemId}/documents`, {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '書類のアップロードに失敗しました')
+      }
+      setDocuments(prev => [data, ...prev])
+      setTitle('')
+    } catch (err) {
+      console.error('Error uploading item document:', err)
+      setError(err instanceof Error ? err.message : '書類のアップロードに失敗しました')
+    } finally {
+      setProcessing(false)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+    }
+  }
+
+  const handleDelete = async (document: ItemDocument) => {
+    if (!confirm(`「${document.title || document.originalName}」を削除してもよろしいですか？`)) return
+
+    setProcessing(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/items/${itemId}/documents/${document.id}`, { method: 'DELETE' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '書類の削除に失敗しました')
+      }
+      setDocuments(prev => prev.filter(d => d.id !== document.id))
+    } catch (err) {
+      console.error('Error deleting item document:', err)
+      setError(err instanceof Error ? err.message : '書類の削除に失敗しました')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 lg:p-6">
+        <h3 className="text-base lg:text-lg font-semibold text-gray-900 flex items-center mb-4">
+          <svg className="w-5 h-5 mr-2 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+          書類
+        </h3>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {/* アップロード */}
+        <div className="mb-4 flex flex-col sm:flex-row gap-2">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as ItemDocumentKind)}
+            aria-label="書類の種類"
+            disabled={processing}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {(Object.keys(KIND_LABELS) as ItemDocumentKind[]).map(value => (
+              <option key={value} value={value}>{KIND_LABELS[value]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            aria-label="書類名"
+            placeholder="書類名（任意）"
+            maxLength={100}
+            disabled={processing}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleUpload(file)
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={processing}
+            className="px-3 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400 flex-shrink-0"
+          >
+            {processing ? '処理中...' : 'ファイルを追加'}
+          </button>
+        </div>
+        <p className="mb-4 text-xs text-gray-500">PDF・JPG・PNG・WEBP（20MBまで）</p>
+
+        {loading && documents.length === 0 ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">添付された書類はありません</p>
+        ) : (
+          <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+            {documents.map(document => (
+              <li key={document.id} className="border border-gray-200 rounded-md overflow-hidden flex flex-col">
+                <a
+                  href={document.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block aspect-[3/4] bg-gray-50 hover:opacity-90"
+                >
+                  {document.thumbnailUrl ? (
+                    <img
+                      src={document.thumbnailUrl}
+                      alt={document.title || document.originalName}
+                      className="w-full h-full object-contain"
+                    />
+                  ) : (
+                    // サムネイルがない場合（生成に失敗した場合など）はアイコンを表示
+                    <div className="w-full h-full flex flex-col items-center justify-center text-gray-400">
+                      <svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                      </svg>
+                      <span className="mt-1 text-xs font-medium">
+                        {document.mimeType === 'application/pdf' ? 'PDF' : 'IMAGE'}
+                      </span>
+                    </div>
+                  )}
+                </a>
+                <div className="p-2 flex-1 flex flex-col gap-0.5">
+                  <span className="self-start px-1.5 py-0.5 bg-gray-100 text-gray-600 text-xs rounded">
+                    {KIND_LABELS[document.kind] || document.kind}
+                  </span>
+                  <p className="text-xs text-gray-900 truncate" title={document.title || document.originalName}>
+                    {document.title || document.originalName}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(document.size)}・{formatDate(document.createdAt)}
+                  </p>
+                  <button
+                    onClick={() => handleDelete(document)}
+                    disabled={processing}
+                    className="mt-auto self-end text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    削除
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,44 +1,264 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { ItemCustomFieldDefinition } from './ItemCard'
 
 export interface FilterOptions {
   search: string
   category: string
   manufacturer: string
   folderId: string
-  sortBy: 'name' | 'createdAt' | 'updatedAt' | 'price'
+  includeSubfolders: boolean
+  condition: string
+  // 範囲指定は入力値の文字列のまま保持する（空文字は未指定）
+  priceMin: string
+  priceMax: string
+  purchasedFrom: string
+  purchasedTo: string
+  createdFrom: string
+  createdTo: string
+  updatedFrom: string
+  updatedTo: string
+  hasImages: '' | 'true' | 'false'
+  hasPriceHistory: '' | 'true' | 'false'
+  valueChangeMin: string
+  loanStatus: '' | 'on_loan' | 'overdue' | 'available'
+  tags: string[]
+  tagMode: 'any' | 'all'
+  // キーはカスタムフィールドID（number・dateは「min..max」形式）
+  customFields: Record<string, string>
+  sortBy: 'name' | 'createdAt' | 'updatedAt' | 'purchaseDate' | 'price' | 'relevance' | `cf:${string}`
   sortOrder: 'asc' | 'desc'
   page: number
   limit: number
 }
 
+/**
+ * 現在の絞り込み条件でのファセットごとの件数（/api/items/facets の counts）
+ * 件数が0の選択肢は含まれない
+ */
+export interface FacetCounts {
+  category: Record<string, number>
+  manufacturer: Record<string, number>
+  condition: Record<string, number>
+  folder: Record<string, number>
+  price: Array<{ min: number; max: number | null; count: number }>
+}
+
+/**
+ * 絞り込み条件の初期値
+ */
+export const defaultFilterOptions: FilterOptions = {
+  search: '',
+  category: '',
+  manufacturer: '',
+  folderId: '',
+  includeSubfolders: false,
+  condition: '',
+  priceMin: '',
+  priceMax: '',
+  purchasedFrom: '',
+  purchasedTo: '',
+  createdFrom: '',
+  createdTo: '',
+  updatedFrom: '',
+  updatedTo: '',
+  hasImages: '',
+  hasPriceHistory: '',
+  valueChangeMin: '',
+  loanStatus: '',
+  tags: [],
+  tagMode: 'any',
+  customFields: {},
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  page: 1,
+  limit: 24,
+}
+
+// クエリパラメータと同名の文字列の絞り込み条件
+const stringFilterKeys = [
+  'category',
+  'manufacturer',
+  'folderId',
+  'condition',
+  'priceMin',
+  'priceMax',
+  'purchasedFrom',
+  'purchasedTo',
+  'createdFrom',
+  'createdTo',
+  'updatedFrom',
+  'updatedTo',
+  'hasImages',
+  'hasPriceHistory',
+  'valueChangeMin',
+  'loanStatus',
+] as const
+
+const loanStatuses = ['on_loan', 'overdue', 'available']
+
+const sortFields = ['name', 'createdAt', 'updatedAt', 'purchaseDate', 'price', 'relevance']
+
+/**
+ * 絞り込み条件をクエリパラメータに変換する（APIリクエストと共有用URLで共通）
+ * 初期値の並び順・1ページ目は省略し、表示件数は含めない
+ */
+export function filtersToSearchParams(filters: FilterOptions): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (filters.search) {
+    params.set('q', filters.search)
+  }
+  stringFilterKeys.forEach(key => {
+    if (filters[key]) params.set(key, filters[key])
+  })
+  if (filters.folderId && filters.includeSubfolders) {
+    params.set('includeSubfolders', 'true')
+  }
+  if (filters.tags.length > 0) {
+    params.set('tags', filters.tags.join(','))
+    params.set('tagMode', filters.tagMode)
+  }
+  Object.entries(filters.customFields).forEach(([fieldId, value]) => {
+    if (value) params.set(`cf_${fieldId}`, value)
+  })
+  if (filters.sortBy !== defaultFilterOptions.sortBy || filters.sortOrder !== defaultFilterOptions.sortOrder) {
+    params.set('sort', filters.sortBy)
+    params.set('order', filters.sortOrder)
+  }
+  if (filters.page > 1) {
+    params.set('page', filters.page.toString())
+  }
+
+  return params
+}
+
+/**
+ * クエリパラメータから絞り込み条件を復元する（共有用URLからの復元用、不正な値は無視する）
+ */
+export function filtersFromSearchParams(params: URLSearchParams, base: FilterOptions): FilterOptions {
+  const filters: FilterOptions = {
+    ...base,
+    search: params.get('q') || '',
+    includeSubfolders: params.get('includeSubfolders') === 'true',
+    tags: (params.get('tags') || '').split(',').map(tag => tag.trim()).filter(Boolean),
+    tagMode: params.get('tagMode') === 'all' ? 'all' : 'any',
+    customFields: {},
+    page: 1,
+  }
+
+  stringFilterKeys.forEach(key => {
+    const value = params.get(key) || ''
+    if (key === 'hasImages' || key === 'hasPriceHistory') {
+      filters[key] = value === 'true' || value === 'false' ? value : ''
+    } else if (key === 'loanStatus') {
+      filters[key] = loanStatuses.includes(value) ? value as FilterOptions['loanStatus'] : ''
+    } else {
+      filters[key] = value
+    }
+  })
+
+  params.forEach((value, key) => {
+    if (key.startsWith('cf_') && value) {
+      filters.customFields[key.slice(3)] = value
+    }
+  })
+
+  const sort = params.get('sort')
+  if (sort && (sortFields.includes(sort) || sort.startsWith('cf:'))) {
+    filters.sortBy = sort as FilterOptions['sortBy']
+    filters.sortOrder = params.get('order') === 'asc' ? 'asc' : 'desc'
+  }
+
+  const page = parseInt(params.get('page') || '')
+  if (page >= 1) {
+    filters.page = page
+  }
+
+  return filters
+}
+
 interface ItemFiltersProps {
   filters: FilterOptions
   onFiltersChange: (filters: FilterOptions) => void
   categories?: string[]
   manufacturers?: string[]
-  folders?: Array<{ id: string; name: string; displayName?: string }>
+  conditions?: string[]
+  folders?: Array<{ id: string; name: string; displayName?: string; parentId?: string | null }>
+  tags?: Array<{ id: string; name: string; color?: string | null }>
+  customFields?: ItemCustomFieldDefinition[]
+  facetCounts?: FacetCounts
   loading?: boolean
 }
 
+// 件数付きの選択肢の表示名
+const withCount = (label: string, count: number | undefined) =>
+  count === undefined ? label : `${label} (${count})`
+
+// 件数が0の選択肢を除く（件数が未取得の場合・選択中の値は常に表示）
+const visibleOptions = (values: string[], counts: Record<string, number> | undefined, selected: string) =>
+  counts ? values.filter(value => (counts[value] ?? 0) > 0 || value === selected) : values
+
+// 購入価格の区分の表示名
+const priceBucketLabel = (min: number, max: number | null) =>
+  max === null ? `${min.toLocaleString()}円〜` : `${min.toLocaleString()}〜${max.toLocaleString()}円`
+
 export function ItemFilters({
   filters,
   onFiltersChange,
   categories = [],
   manufacturers = [],
+  conditions = [],
   folders = [],
+  tags = [],
+  customFields = [],
+  facetCounts,
   loading = false
 }: ItemFiltersProps) {
   const [isFilterOpen, setIsFilterOpen] = useState(false)
   const [searchValue, setSearchValue] = useState(filters.search)
 
+  // 件数が0のフォルダを除く（サブフォルダに該当があるフォルダは階層表示のため残す）
+  const visibleFolders = (() => {
+    if (!facetCounts) return folders
+
+    const visibleIds = new Set<string>()
+    // 階層順の一覧を逆にたどり、子フォルダを親フォルダより先に判定する
+    const childrenFirst = [...folders].reverse()
+    childrenFirst.forEach(folder => {
+      if ((facetCounts.folder[folder.id] ?? 0) > 0 || folder.id === filters.folderId || visibleIds.has(folder.id)) {
+        visibleIds.add(folder.id)
+        if (folder.parentId) {
+          visibleIds.add(folder.parentId)
+        }
+      }
+    })
+    return folders.filter(folder => visibleIds.has(folder.id))
+  })()
+
+  // 共有用URLからの復元などで検索キーワードが外部から変わった場合に入力欄へ反映する
+  useEffect(() => {
+    setSearchValue(filters.search)
+  }, [filters.search])
+
+  // 検索開始時は関連度順に、検索解除時は関連度順から作成日時順に戻す
+  const sortForSearch = (search: string): Partial<FilterOptions> => {
+    if (search && !filters.search) {
+      return { sortBy: 'relevance', sortOrder: 'desc' }
+    }
+    if (!search && filters.sortBy === 'relevance') {
+      return { sortBy: 'createdAt', sortOrder: 'desc' }
+    }
+    return {}
+  }
 
   // Manual search execution
   const executeSearch = () => {
     if (searchValue !== filters.search) {
       onFiltersChange({
         ...filters,
+        ...sortForSearch(searchValue),
         search: searchValue,
         page: 1, // Reset to first page when searching
       })
@@ -61,22 +281,37 @@ export function ItemFilters({
     onFiltersChange(newFilters)
   }
 
+  // タグの選択・解除を切り替える
+  const toggleTag = (name: string) => {
+    const nextTags = filters.tags.includes(name)
+      ? filters.tags.filter(tag => tag !== name)
+      : [...filters.tags, name]
+    handleFilterChange('tags', nextTags)
+  }
+
+  const handleCustomFieldChange = (fieldId: string, value: string) => {
+    handleFilterChange('customFields', { ...filters.customFields, [fieldId]: value })
+  }
+
+  // 範囲指定（min..max）の片側を更新する
+  const handleCustomFieldRangeChange = (fieldId: string, side: 'min' | 'max', value: string) => {
+    const [min = '', max = ''] = (filters.customFields[fieldId] || '').split('..')
+    const nextMin = side === 'min' ? value : min
+    const nextMax = side === 'max' ? value : max
+    handleCustomFieldChange(fieldId, nextMin || nextMax ? `${nextMin}..${nextMax}` : '')
+  }
+
   const clearFilters = () => {
-    const defaultFilters: FilterOptions = {
-      search: '',
-      category: '',
-      manufacturer: '',
-      folderId: '',
-      sortBy: 'createdAt',
-      sortOrder: 'desc',
-      page: 1,
-      limit: filters.limit,
-    }
     setSearchValue('')
-    onFiltersChange(defaultFilters)
+    onFiltersChange({
+      ...defaultFilterOptions,
+      limit: filters.limit,
+    })
   }
 
-  const hasActiveFilters = filters.search || filters.category || filters.manufacturer || filters.folderId
+  const hasActiveFilters = filters.search || filters.tags.length > 0 ||
+    stringFilterKeys.some(key => filters[key]) ||
+    Object.values(filters.customFields).some(Boolean)
 
   return (
     <div className="space-y-4">
@@ -112,6 +347,7 @@ export function ItemFilters({
               if (filters.search) {
                 onFiltersChange({
                   ...filters,
+                  ...sortForSearch(''),
                   search: '',
                   page: 1,
                 })
@@ -174,6 +410,7 @@ export function ItemFilters({
               className="form-select border border-gray-300 bg-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 w-full sm:w-64"
               disabled={loading}
             >
+            {filters.search && <option value="relevance-desc">関連度（検索キーワード）</option>}
             <option value="createdAt-desc">作成日時（新しい順）</option>
             <option value="createdAt-asc">作成日時（古い順）</option>
             <option value="updatedAt-desc">更新日時（新しい順）</option>
@@ -182,6 +419,12 @@ export function ItemFilters({
             <option value="name-desc">名前（Z-A）</option>
             <option value="price-desc">価格（高い順）</option>
             <option value="price-asc">価格（安い順）</option>
+            <option value="purchaseDate-desc">購入日（新しい順）</option>
+            <option value="purchaseDate-asc">購入日（古い順）</option>
+            {customFields.filter(field => field.type !== 'boolean').map(field => [
+              <option key={`${field.id}-asc`} value={`cf:${field.id}-asc`}>{field.name}（昇順）</option>,
+              <option key={`${field.id}-desc`} value={`cf:${field.id}-desc`}>{field.name}（降順）</option>,
+            ])}
           </select>
           </div>
         </div>
@@ -203,9 +446,9 @@ export function ItemFilters({
                 disabled={loading}
               >
                 <option value="">すべてのカテゴリ</option>
-                {categories.map((category) => (
+                {visibleOptions(categories, facetCounts?.category, filters.category).map((category) => (
                   <option key={category} value={category}>
-                    {category}
+                    {withCount(category, facetCounts && (facetCounts.category[category] ?? 0))}
                   </option>
                 ))}
               </select>
@@ -223,9 +466,9 @@ export function ItemFilters({
                 disabled={loading}
               >
                 <option value="">すべてのメーカー</option>
-                {manufacturers.map((manufacturer) => (
+                {visibleOptions(manufacturers, facetCounts?.manufacturer, filters.manufacturer).map((manufacturer) => (
                   <option key={manufacturer} value={manufacturer}>
-                    {manufacturer}
+                    {withCount(manufacturer, facetCounts && (facetCounts.manufacturer[manufacturer] ?? 0))}
                   </option>
                 ))}
               </select>
@@ -245,15 +488,315 @@ export function ItemFilters({
                 disabled={loading}
               >
                 <option value="">すべてのフォルダ</option>
-                {folders.map((folder) => (
+                {visibleFolders.map((folder) => (
                   <option key={folder.id} value={folder.id}>
-                    {folder.displayName || folder.name}
+                    {withCount(folder.displayName || folder.name, facetCounts && (facetCounts.folder[folder.id] ?? 0))}
+                  </option>
+                ))}
+              </select>
+              <label className="mt-2 inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={filters.includeSubfolders}
+                  onChange={(e) => handleFilterChange('includeSubfolders', e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  disabled={loading || !filters.folderId}
+                />
+                サブフォルダを含む
+              </label>
+            </div>
+
+            {/* Condition filter */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                状態
+              </label>
+              <select
+                value={filters.condition}
+                onChange={(e) => handleFilterChange('condition', e.target.value)}
+                className="block w-full form-select border border-gray-300 bg-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                disabled={loading}
+              >
+                <option value="">すべての状態</option>
+                {visibleOptions(conditions, facetCounts?.condition, filters.condition).map((condition) => (
+                  <option key={condition} value={condition}>
+                    {withCount(condition, facetCounts && (facetCounts.condition[condition] ?? 0))}
                   </option>
                 ))}
               </select>
             </div>
           </div>
 
+          {/* Range filters */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <FilterRangeInput
+                label="購入価格（円）"
+                type="number"
+                min={filters.priceMin}
+                max={filters.priceMax}
+                onChange={(min, max) => onFiltersChange({ ...filters, priceMin: min, priceMax: max, page: 1 })}
+                disabled={loading}
+              />
+              {/* 価格帯ごとの件数（選択で範囲を指定、再選択で解除） */}
+              {facetCounts && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {facetCounts.price.map(bucket => {
+                    const min = String(bucket.min)
+                    const max = bucket.max === null ? '' : String(bucket.max)
+                    const isSelected = filters.priceMin === min && filters.priceMax === max
+                    if (bucket.count === 0 && !isSelected) return null
+                    return (
+                      <button
+                        key={bucket.min}
+                        type="button"
+                        onClick={() => onFiltersChange({
+                          ...filters,
+                          priceMin: isSelected ? '' : min,
+                          priceMax: isSelected ? '' : max,
+                          page: 1,
+                        })}
+                        className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                          isSelected
+                            ? 'bg-blue-600 border-blue-600 text-white'
+                            : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+                        }`}
+                        disabled={loading}
+                      >
+                        {withCount(priceBucketLabel(bucket.min, bucket.max), bucket.count)}
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+            <FilterRangeInput
+              label="購入日"
+              type="date"
+              min={filters.purchasedFrom}
+              max={filters.purchasedTo}
+              onChange={(min, max) => onFiltersChange({ ...filters, purchasedFrom: min, purchasedTo: max, page: 1 })}
+              disabled={loading}
+            />
+            <FilterRangeInput
+              label="作成日"
+              type="date"
+              min={filters.createdFrom}
+              max={filters.createdTo}
+              onChange={(min, max) => onFiltersChange({ ...filters, createdFrom: min, createdTo: max, page: 1 })}
+              disabled={loading}
+            />
+            <FilterRangeInput
+              label="更新日"
+              type="date"
+              min={filters.updatedFrom}
+              max={filters.updatedTo}
+              onChange={(min, max) => onFiltersChange({ ...filters, updatedFrom: min, updatedTo: max, page: 1 })}
+              disabled={loading}
+            />
+          </div>
+
+          {/* Image / price data / loan filters */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                画像
+              </label>
+              <select
+                value={filters.hasImages}
+                onChange={(e) => handleFilterChange('hasImages', e.target.value)}
+                className="block w-full form-select border border-gray-300 bg-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                disabled={loading}
+              >
+                <option value="">すべて</option>
+                <option value="true">画像あり</option>
+                <option value="false">画像なし</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                価格データ
+              </label>
+              <select
+                value={filters.hasPriceHistory}
+                onChange={(e) => handleFilterChange('hasPriceHistory', e.target.value)}
+                className="block w-full form-select border border-gray-300 bg-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                disabled={loading}
+              >
+                <option value="">すべて</option>
+                <option value="true">価格データあり</option>
+                <option value="false">価格データなし</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                貸出状況
+              </label>
+              <select
+                value={filters.loanStatus}
+                onChange={(e) => handleFilterChange('loanStatus', e.target.value)}
+                className="block w-full form-select border border-gray-300 bg-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                disabled={loading}
+              >
+                <option value="">すべて</option>
+                <option value="on_loan">貸出中</option>
+                <option value="overdue">返却期限切れ</option>
+                <option value="available">手元にある</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                購入価格からの変動率
+              </label>
+              <div className="flex items-center gap-2">
+                <span className="text-gray-500 text-sm">±</span>
+                <input
+                  type="number"
+                  min={0}
+                  defaultValue={filters.valueChangeMin}
+                  key={`value-change-${filters.valueChangeMin}`}
+                  onBlur={(e) => e.target.value !== filters.valueChangeMin && handleFilterChange('valueChangeMin', e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="例: 20"
+                  disabled={loading}
+                />
+                <span className="text-gray-500 text-sm whitespace-nowrap">%以上</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Tag filter */}
+          {tags.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">
+                  タグ
+                </label>
+                <div className="inline-flex rounded-md shadow-sm" role="group">
+                  <button
+                    type="button"
+                    onClick={() => handleFilterChange('tagMode', 'any')}
+                    className={`px-2 py-1 text-xs font-medium border border-gray-300 rounded-l-md ${
+                      filters.tagMode === 'any' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                    disabled={loading}
+                  >
+                    いずれかを含む
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleFilterChange('tagMode', 'all')}
+                    className={`px-2 py-1 text-xs font-medium border border-gray-300 border-l-0 rounded-r-md ${
+                      filters.tagMode === 'all' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                    disabled={loading}
+                  >
+                    すべてを含む
+                  </button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {tags.map((tag) => {
+                  const selected = filters.tags.includes(tag.name)
+                  return (
+                    <button
+                      key={tag.id}
+                      type="button"
+                      onClick={() => toggleTag(tag.name)}
+                      className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium border ${
+                        selected
+                          ? 'bg-blue-100 text-blue-800 border-blue-500'
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+                      }`}
+                      disabled={loading}
+                    >
+                      {tag.color && (
+                        <span
+                          className="w-2 h-2 rounded-full mr-1.5"
+                          style={{ backgroundColor: tag.color }}
+                        />
+                      )}
+                      {tag.name}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Custom field filters */}
+          {customFields.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">カスタムフィールド</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {customFields.map((field) => {
+                  const value = filters.customFields[field.id] || ''
+                  const [min = '', max = ''] = value.split('..')
+                  return (
+                    <div key={field.id}>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">
+                        {field.name}
+                        {field.category && <span className="ml-1 text-gray-400">（{field.category}）</span>}
+                      </label>
+                      {field.type === 'select' || field.type === 'boolean' ? (
+                        <select
+                          value={value}
+                          onChange={(e) => handleCustomFieldChange(field.id, e.target.value)}
+                          className="block w-full form-select border border-gray-300 bg-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                          disabled={loading}
+                        >
+                          <option value="">すべて</option>
+                          {field.type === 'boolean' ? (
+                            <>
+                              <option value="true">はい</option>
+                              <option value="false">いいえ</option>
+                            </>
+                          ) : field.options.map(option => (
+                            <option key={option} value={option}>{option}</option>
+                          ))}
+                        </select>
+                      ) : field.type === 'number' || field.type === 'date' ? (
+                        <div className="flex items-center gap-2">
+                          <input
+                            type={field.type}
+                            defaultValue={min}
+                            key={`${field.id}-min-${min}`}
+                            onBlur={(e) => e.target.value !== min && handleCustomFieldRangeChange(field.id, 'min', e.target.value)}
+                            className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            placeholder="下限"
+                            disabled={loading}
+                          />
+                          <span className="text-gray-500 text-sm">〜</span>
+                          <input
+                            type={field.type}
+                            defaultValue={max}
+                            key={`${field.id}-max-${max}`}
+                            onBlur={(e) => e.target.value !== max && handleCustomFieldRangeChange(field.id, 'max', e.target.value)}
+                            className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            placeholder="上限"
+                            disabled={loading}
+                          />
+                        </div>
+                      ) : (
+                        <input
+                          type="text"
+                          defaultValue={value}
+                          key={`${field.id}-${value}`}
+                          onBlur={(e) => e.target.value.trim() !== value && handleCustomFieldChange(field.id, e.target.value.trim())}
+                          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                          className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                          placeholder="含む文字列"
+                          disabled={loading}
+                        />
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Items per page */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -277,6 +820,53 @@ export function ItemFilters({
   )
 }
 
+// 範囲指定（下限〜上限）の入力欄
+interface FilterRangeInputProps {
+  label: string
+  type: 'number' | 'date'
+  min: string
+  max: string
+  onChange: (min: string, max: string) => void
+  disabled?: boolean
+}
+
+function FilterRangeInput({ label, type, min, max, onChange, disabled = false }: FilterRangeInputProps) {
+  const inputClassName = 'block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <div className="flex items-center gap-2">
+        <input
+          type={type}
+          min={type === 'number' ? 0 : undefined}
+          defaultValue={min}
+          key={`min-${min}`}
+          onBlur={(e) => e.target.value !== min && onChange(e.target.value, max)}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className={inputClassName}
+          placeholder="下限"
+          disabled={disabled}
+        />
+        <span className="text-gray-500 text-sm">〜</span>
+        <input
+          type={type}
+          min={type === 'number' ? 0 : undefined}
+          defaultValue={max}
+          key={`max-${max}`}
+          onBlur={(e) => e.target.value !== max && onChange(min, e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className={inputClassName}
+          placeholder="上限"
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  )
+}
+
 // Results counter component
 interface ResultsCounterProps {
   total: number
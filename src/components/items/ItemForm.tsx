@@ -2,9 +2,12 @@
 
 import { useState, useEffect, useCallback, memo } from 'react'
 import { useRouter } from 'next/navigation'
-import { Item } from './ItemCard'
+import { Item, ItemCustomFieldDefinition, ItemCustomFieldValue } from './ItemCard'
+import { CustomFieldInput } from './CustomFieldInput'
+import { ItemTemplatePicker, ItemTemplateValues } from './ItemTemplatePicker'
 import { useFormPersistence } from '@/hooks/useFormPersistence'
 import { usePerformanceProfiler } from '@/hooks/usePerformanceProfiler'
+import { MAX_RECOGNITION_IMAGES } from '@/lib/validations/ai'
 
 interface ItemFolder {
   id: string
@@ -23,7 +26,104 @@ interface ItemFormData {
   purchaseLocation?: string
   condition?: string
   notes?: string
+  quantity?: number | string
+  unit?: string
+  storageRoom?: string
+  storageShelf?: string
+  storageBox?: string
+  warrantyExpiresAt?: string
   folderId?: string
+  tags?: string[]
+  customFields?: Record<string, string | boolean | null>
+}
+
+/**
+ * フォームで扱う画像の共通項目
+ */
+interface FormImageBase {
+  id: string
+  url: string
+  filename: string
+  mimeType: string
+  size: number
+  order: number
+}
+
+/**
+ * アップロード済みの画像
+ */
+interface SavedFormImage extends FormImageBase {
+  isPreview?: false
+}
+
+/**
+ * 新規作成時のプレビュー画像（アイテム作成後にアップロードする）
+ */
+interface PreviewFormImage extends FormImageBase {
+  isPreview: true
+  file?: File
+  base64Data?: string
+}
+
+type FormImage = SavedFormImage | PreviewFormImage
+
+/**
+ * AI認識に送る画像データを読み込む（MIMEタイプは実際のファイルの形式を使う）
+ */
+async function readImageForRecognition(image: FormImage): Promise<{ imageBase64: string; mimeType: string }> {
+  // プレビュー画像でBase64データ（data URL）を持っている場合はそのまま使う
+  if (image.isPreview && image.base64Data) {
+    const [header, imageBase64] = image.base64Data.split(',')
+    const mimeType = header.match(/^data:(image\/[a-z]+);base64$/)?.[1]
+    if (imageBase64 && mimeType) {
+      return { imageBase64, mimeType }
+    }
+  }
+
+  let blob: Blob
+  if (image.isPreview && image.file) {
+    blob = image.file
+  } else {
+    const response = await fetch(image.url)
+    if (!response.ok) {
+      throw new Error(`画像の取得に失敗しました: ${response.status}`)
+    }
+    blob = await response.blob()
+  }
+
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(new Error('画像の読み込みに失敗しました'))
+    reader.readAsDataURL(blob)
+  })
+
+  const imageBase64 = dataUrl.split(',')[1] // data:image/...;base64, を除去
+  if (!imageBase64) {
+    throw new Error('画像データの処理に失敗しました')
+  }
+  return {
+    imageBase64,
+    mimeType: blob.type || image.mimeType || 'image/jpeg',
+  }
+}
+
+/**
+ * AI認識結果の確信度バッジ（高: 80%以上、中: 50%以上）
+ */
+function ConfidenceBadge({ value }: { value?: number }) {
+  if (typeof value !== 'number') return null
+  const percent = Math.round(value * 100)
+  const color = value >= 0.8
+    ? 'bg-green-100 text-green-800'
+    : value >= 0.5
+      ? 'bg-yellow-100 text-yellow-800'
+      : 'bg-gray-100 text-gray-600'
+  return (
+    <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${color}`} title="AIの確信度">
+      確信度 {percent}%
+    </span>
+  )
 }
 
 interface ItemFormProps {
@@ -33,6 +133,14 @@ interface ItemFormProps {
   onSave: (itemData: ItemFormData) => Promise<void>
   loading?: boolean
   formKey?: string // フォーム永続化用のキー
+  showTemplates?: boolean // テンプレートの選択・保存を表示（新規作成時）
+}
+
+// APIのカスタムフィールド値をフォーム用の値に変換する
+function toFormCustomFields(values?: Record<string, ItemCustomFieldValue>): Record<string, string | boolean | null> {
+  return Object.fromEntries(
+    Object.entries(values || {}).map(([fieldId, value]) => [fieldId, typeof value === 'number' ? String(value) : value])
+  )
 }
 
 export const ItemForm = memo(function ItemForm({
@@ -41,7 +149,8 @@ export const ItemForm = memo(function ItemForm({
   folders = [],
   onSave,
   loading = false,
-  formKey
+  formKey,
+  showTemplates = false
 }: ItemFormProps) {
   const router = useRouter()
   
@@ -58,9 +167,17 @@ export const ItemForm = memo(function ItemForm({
     purchaseLocation: '',
     condition: '',
     notes: '',
-    folderId: ''
+    quantity: '1',
+    unit: '',
+    storageRoom: '',
+    storageShelf: '',
+    storageBox: '',
+    warrantyExpiresAt: '',
+    folderId: '',
+    tags: [],
+    customFields: {}
   })
-  const [images, setImages] = useState<any[]>([])
+  const [images, setImages] = useState<FormImage[]>([])
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [aiRecognitionLoading, setAiRecognitionLoading] = useState(false)
@@ -68,6 +185,14 @@ export const ItemForm = memo(function ItemForm({
   const [categorySuggestions, setCategorySuggestions] = useState<string[]>([])
   const [manufacturerSuggestions, setManufacturerSuggestions] = useState<string[]>([])
   const [suggestionLoading, setSuggestionLoading] = useState({ category: false, manufacturer: false })
+  const [tagInput, setTagInput] = useState('')
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([])
+  const [customFieldDefinitions, setCustomFieldDefinitions] = useState<ItemCustomFieldDefinition[]>([])
+
+  // 現在のカテゴリに適用されるカスタムフィールド（カテゴリ未指定の定義は常に対象）
+  const applicableCustomFields = customFieldDefinitions.filter(definition =>
+    !definition.category || definition.category === formData.category?.trim()
+  )
 
   // フォーム永続化
   const persistenceKey = formKey || `item-form-${mode}-${item?.id || 'new'}`
@@ -101,7 +226,15 @@ export const ItemForm = memo(function ItemForm({
         purchaseLocation: '',
         condition: '',
         notes: '',
+        quantity: '1',
+        unit: '',
+        storageRoom: '',
+        storageShelf: '',
+        storageBox: '',
+        warrantyExpiresAt: '',
         folderId: '',
+        tags: [],
+        customFields: {},
         ...savedData
       })
     } else if (mode === 'edit' && item) {
@@ -116,7 +249,15 @@ export const ItemForm = memo(function ItemForm({
         purchaseLocation: item.purchaseLocation || '',
         condition: item.condition || '',
         notes: item.notes || '',
-        folderId: item.folder?.id || ''
+        quantity: String(item.quantity ?? 1),
+        unit: item.unit || '',
+        storageRoom: item.storageRoom || '',
+        storageShelf: item.storageShelf || '',
+        storageBox: item.storageBox || '',
+        warrantyExpiresAt: item.warrantyExpiresAt ? item.warrantyExpiresAt.split('T')[0] : '',
+        folderId: item.folder?.id || '',
+        tags: item.tags?.map(tag => tag.name) || [],
+        customFields: toFormCustomFields(item.customFields)
       })
       // 既存の画像を設定
       if (item.images && item.images.length > 0) {
@@ -139,9 +280,9 @@ export const ItemForm = memo(function ItemForm({
       try {
         const response = await fetch(`/api/items/${item.id}`)
         if (response.ok) {
-          const updatedItem = await response.json()
+          const updatedItem: Item = await response.json()
           if (updatedItem.images) {
-            const updatedImages = updatedItem.images.map((img: any) => ({
+            const updatedImages = updatedItem.images.map((img): SavedFormImage => ({
               id: img.id,
               url: img.url,
               filename: `image_${img.order}.jpg`,
@@ -163,7 +304,7 @@ export const ItemForm = memo(function ItemForm({
       const savedImages = localStorage.getItem(`item-images-preview-${currentUrl}`)
       if (savedImages) {
         try {
-          const parsed = JSON.parse(savedImages)
+          const parsed: PreviewFormImage[] = JSON.parse(savedImages)
           setImages(parsed)
         } catch (err) {
           console.error('Failed to load preview images:', err)
@@ -273,6 +414,12 @@ export const ItemForm = memo(function ItemForm({
       newErrors.manufacturer = 'メーカーは100文字以内で入力してください'
     }
 
+    // 数量のバリデーション
+    const quantity = formData.quantity?.toString().trim()
+    if (quantity && (!/^\d+$/.test(quantity) || Number(quantity) > 999999)) {
+      newErrors.quantity = '数量は0〜999,999の整数で入力してください'
+    }
+
     // 価格のバリデーション
     if (formData.purchasePrice) {
       const price = parseFloat(formData.purchasePrice.toString())
@@ -300,6 +447,14 @@ export const ItemForm = memo(function ItemForm({
       newErrors.purchaseDate = '購入価格を入力した場合は購入日も必須です'
     }
 
+    // カスタムフィールドの必須チェック
+    applicableCustomFields.forEach(definition => {
+      const value = formData.customFields?.[definition.id]
+      if (definition.required && definition.type !== 'boolean' && (value === undefined || value === null || value === '')) {
+        newErrors[`customFields.${definition.id}`] = `${definition.name}は必須です`
+      }
+    })
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -325,7 +480,20 @@ export const ItemForm = memo(function ItemForm({
         purchaseLocation: formData.purchaseLocation?.trim() || undefined,
         condition: formData.condition?.trim() || undefined,
         notes: formData.notes?.trim() || undefined,
-        folderId: formData.folderId || undefined
+        quantity: formData.quantity !== '' && formData.quantity !== undefined ? Number(formData.quantity) : undefined,
+        unit: formData.unit?.trim() || undefined,
+        storageRoom: formData.storageRoom?.trim() || undefined,
+        storageShelf: formData.storageShelf?.trim() || undefined,
+        storageBox: formData.storageBox?.trim() || undefined,
+        warrantyExpiresAt: formData.warrantyExpiresAt || undefined,
+        folderId: formData.folderId || undefined,
+        tags: formData.tags || [],
+        // 現在のカテゴリに適用されるフィールドのみ送信（空欄は値をクリア）
+        customFields: Object.fromEntries(applicableCustomFields.map(definition => {
+          const value = formData.customFields?.[definition.id]
+          if (definition.type === 'boolean') return [definition.id, value === true]
+          return [definition.id, typeof value === 'string' && value.trim() !== '' ? value.trim() : null]
+        }))
       }
 
       await onSave(submitData)
@@ -347,7 +515,11 @@ export const ItemForm = memo(function ItemForm({
   const handleCancel = () => {
     // 編集途中のデータを破棄するか確認
     const hasChanges = mode === 'create' ? 
-      Object.values(formData).some(value => value && value.toString().trim() !== '') :
+      Object.entries(formData).some(([key, value]) => key === 'customFields'
+        ? Object.values(value || {}).some(fieldValue => fieldValue !== '' && fieldValue !== false)
+        : key === 'quantity'
+          ? value !== '1'
+          : value && value.toString().trim() !== '') :
       JSON.stringify(formData) !== JSON.stringify({
         name: item?.name || '',
         description: item?.description || '',
@@ -358,7 +530,15 @@ export const ItemForm = memo(function ItemForm({
         purchaseLocation: item?.purchaseLocation || '',
         condition: item?.condition || '',
         notes: item?.notes || '',
-        folderId: item?.folder?.id || ''
+        quantity: String(item?.quantity ?? 1),
+        unit: item?.unit || '',
+        storageRoom: item?.storageRoom || '',
+        storageShelf: item?.storageShelf || '',
+        storageBox: item?.storageBox || '',
+        warrantyExpiresAt: item?.warrantyExpiresAt ? item.warrantyExpiresAt.split('T')[0] : '',
+        folderId: item?.folder?.id || '',
+        tags: item?.tags?.map(tag => tag.name) || [],
+        customFields: toFormCustomFields(item?.customFields)
       })
 
     if (hasChanges) {
@@ -395,6 +575,58 @@ export const ItemForm = memo(function ItemForm({
     }
   }
 
+  const updateCustomField = (fieldId: string, value: string | boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      customFields: {
+        ...prev.customFields,
+        [fieldId]: value
+      }
+    }))
+    const errorKey = `customFields.${fieldId}`
+    if (errors[errorKey]) {
+      setErrors(prev => ({
+        ...prev,
+        [errorKey]: ''
+      }))
+    }
+  }
+
+  // タグを追加する（前後空白除去・重複は無視）
+  const addTag = (value: string) => {
+    const name = value.trim().replace(/,/g, '')
+    setTagInput('')
+    if (!name || formData.tags?.includes(name)) return
+    if ((formData.tags?.length || 0) >= 20) {
+      setErrors(prev => ({ ...prev, tags: 'タグは20個まで設定できます' }))
+      return
+    }
+    setFormData(prev => ({
+      ...prev,
+      tags: [...(prev.tags || []), name]
+    }))
+  }
+
+  const removeTag = (name: string) => {
+    setFormData(prev => ({
+      ...prev,
+      tags: (prev.tags || []).filter(tag => tag !== name)
+    }))
+    if (errors.tags) {
+      setErrors(prev => ({ ...prev, tags: '' }))
+    }
+  }
+
+  // Enterまたはカンマでタグを確定し、空欄でBackspaceを押すと最後のタグを外す
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTag(tagInput)
+    } else if (e.key === 'Backspace' && !tagInput && formData.tags?.length) {
+      removeTag(formData.tags[formData.tags.length - 1])
+    }
+  }
+
   // 画像管理ページに遷移
   const handleImageManagement = () => {
     const itemId = mode === 'edit' ? item?.id : 'new'
@@ -447,6 +679,45 @@ export const ItemForm = memo(function ItemForm({
     return () => clearTimeout(timer)
   }, [formData.manufacturer, fetchSuggestions])
 
+  // カスタムフィールド定義の取得
+  useEffect(() => {
+    const fetchCustomFields = async () => {
+      try {
+        const response = await fetch('/api/custom-fields')
+        if (response.ok) {
+          const data = await response.json()
+          setCustomFieldDefinitions(data.customFields || [])
+        }
+      } catch (error) {
+        console.error('Failed to fetch custom fields:', error)
+      }
+    }
+
+    fetchCustomFields()
+  }, [])
+
+  // タグ入力変更時の候補取得
+  useEffect(() => {
+    if (!tagInput.trim()) {
+      setTagSuggestions([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/tags?query=${encodeURIComponent(tagInput.trim())}`)
+        if (response.ok) {
+          const data = await response.json()
+          setTagSuggestions((data.tags || []).map((tag: { name: string }) => tag.name))
+        }
+      } catch (error) {
+        console.error('Failed to fetch tag suggestions:', error)
+      }
+    }, 300) // 300ms デバウンス
+
+    return () => clearTimeout(timer)
+  }, [tagInput])
+
   // datalistオプションを更新
   useEffect(() => {
     const categoryDatalist = document.getElementById('category-suggestions') as HTMLDataListElement
@@ -472,7 +743,7 @@ export const ItemForm = memo(function ItemForm({
     }
   }, [manufacturerSuggestions])
 
-  // AI画像認識処理
+  // AI画像認識処理（先頭から最大 MAX_RECOGNITION_IMAGES 枚の画像を同じ商品として認識）
   const handleAIRecognition = useCallback(async () => {
     if (images.length === 0) {
       alert('画像をアップロードしてからAI認識を実行してください。')
@@ -483,34 +754,10 @@ export const ItemForm = memo(function ItemForm({
     setAiRecognitionResult(null)
 
     try {
-      // 最初の画像を使用してAI認識を実行
-      const firstImage = images[0]
-      let imageBase64: string
-
-      if (firstImage.isPreview && firstImage.base64Data) {
-        // プレビュー画像の場合、Base64データを使用
-        imageBase64 = firstImage.base64Data.split(',')[1] // data:image/...;base64, を除去
-      } else {
-        // アップロード済み画像の場合、URLから取得
-        const response = await fetch(firstImage.url)
-        if (!response.ok) {
-          throw new Error(`画像の取得に失敗しました: ${response.status}`)
-        }
-        const blob = await response.blob()
-        const base64Response = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader()
-          reader.onload = () => resolve(reader.result as string)
-          reader.onerror = () => reject(new Error('画像の読み込みに失敗しました'))
-          reader.readAsDataURL(blob)
-        })
-        imageBase64 = base64Response.split(',')[1] // data:image/...;base64, を除去
-      }
+      const recognitionImages = await Promise.all(
+        images.slice(0, MAX_RECOGNITION_IMAGES).map(readImageForRecognition)
+      )
 
-      if (!imageBase64) {
-        throw new Error('画像データの処理に失敗しました')
-      }
-
-      
       // AI認識API呼び出し
       const apiResponse = await fetch('/api/ai/recognize', {
         method: 'POST',
@@ -518,8 +765,7 @@ export const ItemForm = memo(function ItemForm({
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          imageBase64,
-          mimeType: firstImage.mimeType || 'image/jpeg'
+          images: recognitionImages
         })
       })
 
@@ -569,6 +815,22 @@ export const ItemForm = memo(function ItemForm({
         </div>
       </div>
 
+      {/* テンプレート */}
+      {showTemplates && (
+        <ItemTemplatePicker
+          values={{
+            category: formData.category,
+            manufacturer: formData.manufacturer,
+            condition: formData.condition,
+            purchaseLocation: formData.purchaseLocation,
+            notes: formData.notes,
+            folderId: formData.folderId,
+          }}
+          onApply={(values: ItemTemplateValues) => setFormData(prev => ({ ...prev, ...values }))}
+          disabled={isDisabled}
+        />
+      )}
+
       {/* フォーム */}
       <div className="bg-white shadow-sm rounded-lg border border-gray-200">
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
@@ -670,7 +932,9 @@ export const ItemForm = memo(function ItemForm({
                       
                       {/* AI認識の説明とヒント */}
                       <p className="text-xs text-gray-500">
-                        最初の画像を使用して商品名、カテゴリ、メーカー、商品説明を自動認識します
+                        {images.length > 1
+                          ? `最大${MAX_RECOGNITION_IMAGES}枚の画像（正面・ラベル・型番など）を合わせて商品名、カテゴリ、メーカー、商品説明を自動認識します`
+                          : '画像から商品名、カテゴリ、メーカー、商品説明を自動認識します'}
                       </p>
                     </div>
                   )}
@@ -710,6 +974,11 @@ export const ItemForm = memo(function ItemForm({
                       </svg>
                     )}
                     {aiRecognitionResult.success ? 'AI認識結果' : 'AI認識エラー'}
+                    {aiRecognitionResult.success && aiRecognitionResult.data?.imageCount > 1 && (
+                      <span className="ml-2 text-xs font-normal text-purple-600">
+                        （{aiRecognitionResult.data.imageCount}枚の画像から認識）
+                      </span>
+                    )}
                   </h4>
                   <button
                     type="button"
@@ -748,6 +1017,7 @@ export const ItemForm = memo(function ItemForm({
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
                         </svg>
                         商品名候補 ({aiRecognitionResult.data.suggestions.length}件)
+                        <ConfidenceBadge value={aiRecognitionResult.data.confidence?.name} />
                       </p>
                       <div className="grid gap-2">
                         {aiRecognitionResult.data.suggestions.filter((s: any) => s && typeof s === 'string' && s.trim()).map((suggestion: string, index: number) => (
@@ -802,6 +1072,7 @@ export const ItemForm = memo(function ItemForm({
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
                         </svg>
                         カテゴリ候補
+                        <ConfidenceBadge value={aiRecognitionResult.data.confidence?.category} />
                       </p>
                       <div className="flex items-center justify-between bg-gray-50 p-2 rounded border">
                         <span className="text-sm text-gray-700 flex-1 mr-2">{aiRecognitionResult.data.category}</span>
@@ -849,6 +1120,7 @@ export const ItemForm = memo(function ItemForm({
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
                         </svg>
                         メーカー候補
+                        <ConfidenceBadge value={aiRecognitionResult.data.confidence?.manufacturer} />
                       </p>
                       <div className="flex items-center justify-between bg-gray-50 p-2 rounded border">
                         <span className="text-sm text-gray-700 flex-1 mr-2">{aiRecognitionResult.data.manufacturer}</span>
@@ -898,6 +1170,7 @@ export const ItemForm = memo(function ItemForm({
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                         </svg>
                         商品説明候補
+                        <ConfidenceBadge value={aiRecognitionResult.data.confidence?.description} />
                       </p>
                       <div className="bg-gray-50 p-3 rounded border">
                         <p className="text-sm text-gray-700 leading-relaxed mb-3">
@@ -1098,9 +1371,80 @@ export const ItemForm = memo(function ItemForm({
                   ))}
                 </select>
               </div>
+
+              {/* タグ */}
+              <div className="md:col-span-2">
+                <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-1">
+                  タグ
+                </label>
+                <div className={`flex flex-wrap items-center gap-1.5 rounded-md border border-gray-300 shadow-sm px-2 py-1.5 focus-within:border-blue-500 focus-within:ring-1 focus-within:ring-blue-500 ${
+                  errors.tags ? 'border-red-300' : ''
+                }`}>
+                  {formData.tags?.map(tag => (
+                    <span
+                      key={tag}
+                      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                    >
+                      {tag}
+                      <button
+                        type="button"
+                        onClick={() => removeTag(tag)}
+                        className="ml-1 text-blue-600 hover:text-blue-800"
+                        disabled={isDisabled}
+                        aria-label={`${tag}を外す`}
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  ))}
+                  <input
+                    type="text"
+                    id="tags"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={handleTagKeyDown}
+                    onBlur={() => tagInput.trim() && addTag(tagInput)}
+                    className="flex-1 min-w-[8rem] border-0 p-1 text-sm focus:outline-none focus:ring-0"
+                    placeholder="タグを入力してEnter"
+                    maxLength={30}
+                    disabled={isDisabled}
+                    list="tag-suggestions"
+                  />
+                  <datalist id="tag-suggestions">
+                    {tagSuggestions
+                      .filter(suggestion => !formData.tags?.includes(suggestion))
+                      .map(suggestion => <option key={suggestion} value={suggestion} />)}
+                  </datalist>
+                </div>
+                {errors.tags && (
+                  <p className="mt-1 text-sm text-red-600">{errors.tags}</p>
+                )}
+              </div>
             </div>
           </div>
 
+          {/* カスタムフィールドセクション */}
+          {applicableCustomFields.length > 0 && (
+            <div>
+              <h2 className="text-lg font-medium text-gray-900 mb-4">カスタムフィールド</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {applicableCustomFields.map(definition => {
+                  const value = formData.customFields?.[definition.id]
+                  return (
+                    <CustomFieldInput
+                      key={definition.id}
+                      definition={definition}
+                      value={value === null ? undefined : value}
+                      onChange={(newValue) => updateCustomField(definition.id, newValue)}
+                      error={errors[`customFields.${definition.id}`]}
+                      disabled={isDisabled}
+                    />
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
           {/* 購入情報セクション */}
           <div>
             <h2 className="text-lg font-medium text-gray-900 mb-4">購入情報</h2>
@@ -1169,6 +1513,21 @@ export const ItemForm = memo(function ItemForm({
                 />
               </div>
 
+              {/* 保証期限 */}
+              <div>
+                <label htmlFor="warrantyExpiresAt" className="block text-sm font-medium text-gray-700 mb-1">
+                  保証期限
+                </label>
+                <input
+                  type="date"
+                  id="warrantyExpiresAt"
+                  value={formData.warrantyExpiresAt}
+                  onChange={(e) => updateFormData('warrantyExpiresAt', e.target.value)}
+                  className="block w-full rounded-md border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 bg-white"
+                  disabled={isDisabled}
+                />
+              </div>
+
               {/* 状態 */}
               <div>
                 <label htmlFor="condition" className="block text-sm font-medium text-gray-700 mb-1">
@@ -1193,6 +1552,91 @@ export const ItemForm = memo(function ItemForm({
             </div>
           </div>
 
+          {/* 数量・保管場所セクション */}
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 mb-4">数量・保管場所</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* 数量 */}
+              <div>
+                <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-1">
+                  数量
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    id="quantity"
+                    step="1"
+                    min="0"
+                    max="999999"
+                    value={formData.quantity}
+                    onChange={(e) => updateFormData('quantity', e.target.value)}
+                    className={`block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 ${
+                      errors.quantity ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+                    }`}
+                    placeholder="1"
+                    disabled={isDisabled}
+                  />
+                  <input
+                    type="text"
+                    id="unit"
+                    aria-label="単位"
+                    value={formData.unit}
+                    onChange={(e) => updateFormData('unit', e.target.value)}
+                    className="block w-28 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2"
+                    placeholder="単位（個）"
+                    maxLength={20}
+                    disabled={isDisabled}
+                  />
+                </div>
+                {errors.quantity && (
+                  <p className="mt-1 text-sm text-red-600">{errors.quantity}</p>
+                )}
+              </div>
+
+              {/* 保管場所（部屋 > 棚 > 箱） */}
+              <div>
+                <label htmlFor="storageRoom" className="block text-sm font-medium text-gray-700 mb-1">
+                  保管場所
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  <input
+                    type="text"
+                    id="storageRoom"
+                    aria-label="部屋"
+                    value={formData.storageRoom}
+                    onChange={(e) => updateFormData('storageRoom', e.target.value)}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2"
+                    placeholder="部屋"
+                    maxLength={50}
+                    disabled={isDisabled}
+                  />
+                  <input
+                    type="text"
+                    id="storageShelf"
+                    aria-label="棚"
+                    value={formData.storageShelf}
+                    onChange={(e) => updateFormData('storageShelf', e.target.value)}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2"
+                    placeholder="棚"
+                    maxLength={50}
+                    disabled={isDisabled}
+                  />
+                  <input
+                    type="text"
+                    id="storageBox"
+                    aria-label="箱"
+                    value={formData.storageBox}
+                    onChange={(e) => updateFormData('storageBox', e.target.value)}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2"
+                    placeholder="箱"
+                    maxLength={50}
+                    disabled={isDisabled}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+
           {/* その他情報セクション */}
           <div>
             <h2 className="text-lg font-medium text-gray-900 mb-4">その他情報</h2>
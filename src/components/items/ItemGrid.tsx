@@ -1,20 +1,29 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef } from 'react'
 import { ItemCard, Item } from './ItemCard'
 
-export type ViewMode = 'grid' | 'list'
+export type ViewMode = 'grid' | 'list' | 'table'
 export type GridColumns = 1 | 2 | 3 | 4
+// ページ送り（Pagination）か無限スクロールか
+export type PaginationMode = 'pages' | 'infinite'
 
 interface ItemGridProps {
   items: Item[]
-  viewMode?: ViewMode
+  // 表形式は ItemTable で表示する
+  viewMode?: Exclude<ViewMode, 'table'>
   columns?: GridColumns
   loading?: boolean
   onItemClick?: (item: Item) => void
   onItemDragStart?: (item: Item) => void
   onItemDragEnd?: () => void
   emptyStateMessage?: string
+  selectedItemIds?: Set<string>
+  onItemSelectChange?: (item: Item, selected: boolean) => void
+  // 無限スクロール（指定すると末尾が表示されたときに続きを読み込む）
+  onLoadMore?: () => void
+  hasMore?: boolean
+  loadingMore?: boolean
 }
 
 export function ItemGrid({ 
@@ -25,9 +34,14 @@ export function ItemGrid({
   onItemClick,
   onItemDragStart,
   onItemDragEnd,
-  emptyStateMessage = 'アイテムが見つかりませんでした'
+  emptyStateMessage = 'アイテムが見つかりませんでした',
+  selectedItemIds,
+  onItemSelectChange,
+  onLoadMore,
+  hasMore = false,
+  loadingMore = false
 }: ItemGridProps) {
-  
+
   // Grid columns class mapping
   const getGridCols = () => {
     if (viewMode === 'list') return 'grid-cols-1'
@@ -100,17 +114,71 @@ export function ItemGrid({
 
   // Items grid
   return (
-    <div className={`grid gap-4 ${getGridCols()}`}>
-      {items.map((item) => (
-        <ItemCard
-          key={item.id}
-          item={item}
-          viewMode={viewMode}
-          onClick={onItemClick}
-          onDragStart={onItemDragStart}
-          onDragEnd={onItemDragEnd}
-        />
-      ))}
+    <>
+      <div className={`grid gap-4 ${getGridCols()}`}>
+        {items.map((item) => (
+          <ItemCard
+            key={item.id}
+            item={item}
+            viewMode={viewMode}
+            onClick={onItemClick}
+            onDragStart={onItemDragStart}
+            onDragEnd={onItemDragEnd}
+            selected={selectedItemIds?.has(item.id)}
+            onSelectChange={onItemSelectChange}
+          />
+        ))}
+      </div>
+
+      {/* 無限スクロールの読み込み位置 */}
+      {onLoadMore && (
+        <LoadMoreTrigger onLoadMore={onLoadMore} hasMore={hasMore} loadingMore={loadingMore} />
+      )}
+    </>
+  )
+}
+
+// 無限スクロールの読み込み位置（画面に近づいたら続きを読み込む）
+interface LoadMoreTriggerProps {
+  onLoadMore: () => void
+  hasMore: boolean
+  loadingMore: boolean
+}
+
+export function LoadMoreTrigger({ onLoadMore, hasMore, loadingMore }: LoadMoreTriggerProps) {
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !hasMore || loadingMore) return
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMore()
+      }
+    }, { rootMargin: '200px' })
+    observer.observe(sentinel)
+
+    return () => observer.disconnect()
+  }, [onLoadMore, hasMore, loadingMore])
+
+  return (
+    <div ref={loadMoreRef} className="flex justify-center py-6">
+      {loadingMore ? (
+        <div className="flex items-center text-sm text-gray-500">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+          読み込み中...
+        </div>
+      ) : hasMore ? (
+        <button
+          onClick={onLoadMore}
+          className="px-4 py-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          さらに読み込む
+        </button>
+      ) : (
+        <p className="text-sm text-gray-400">すべてのアイテムを表示しました</p>
+      )}
     </div>
   )
 }
@@ -121,16 +189,40 @@ interface ViewModeToggleProps {
   columns: GridColumns
   onViewModeChange: (mode: ViewMode) => void
   onColumnsChange: (cols: GridColumns) => void
+  paginationMode?: PaginationMode
+  onPaginationModeChange?: (mode: PaginationMode) => void
 }
 
 export function ViewModeToggle({ 
   viewMode, 
   columns, 
   onViewModeChange, 
-  onColumnsChange 
+  onColumnsChange,
+  paginationMode,
+  onPaginationModeChange
 }: ViewModeToggleProps) {
   return (
     <div className="flex items-center space-x-4">
+      {/* Pagination mode toggle */}
+      {paginationMode && onPaginationModeChange && (
+        <div className="flex items-center bg-gray-100 rounded-lg p-1">
+          {([['pages', 'ページ'], ['infinite', 'スクロール']] as const).map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => onPaginationModeChange(mode)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors whitespace-nowrap ${
+                paginationMode === mode
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+              aria-label={mode === 'pages' ? 'ページ送りで表示' : '無限スクロールで表示'}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* View mode toggle */}
       <div className="flex items-center bg-gray-100 rounded-lg p-1">
         <button
@@ -159,6 +251,19 @@ export function ViewModeToggle({
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
           </svg>
         </button>
+        <button
+          onClick={() => onViewModeChange('table')}
+          className={`p-2 rounded-md transition-colors ${
+            viewMode === 'table'
+              ? 'bg-white text-gray-900 shadow-sm'
+              : 'text-gray-500 hover:text-gray-700'
+          }`}
+          aria-label="表形式で表示"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18M10 4v16M4 4h16a1 1 0 011 1v14a1 1 0 01-1 1H4a1 1 0 01-1-1V5a1 1 0 011-1z" />
+          </svg>
+        </button>
       </div>
 
       {/* Grid columns selector (only for grid mode and desktop) */}
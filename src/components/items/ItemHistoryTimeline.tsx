@@ -0,0 +1,204 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Item } from '@/components/items/ItemCard'
+
+type RevisionAction = 'create' | 'update' | 'move' | 'delete' | 'restore' | 'revert'
+
+interface ItemRevision {
+  id: string
+  action: RevisionAction
+  changes: Record<string, { from: string | null; to: string | null }>
+  revertedFromId: string | null
+  createdAt: string
+}
+
+interface ItemHistoryTimelineProps {
+  itemId: string
+  onReverted: (item: Item) => void
+}
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: '作成',
+  update: '編集',
+  move: '移動',
+  delete: 'ゴミ箱へ移動',
+  restore: 'ゴミ箱から復元',
+  revert: '履歴から復元',
+}
+
+const ACTION_COLORS: Record<RevisionAction, string> = {
+  create: 'bg-green-500',
+  update: 'bg-blue-500',
+  move: 'bg-indigo-500',
+  delete: 'bg-red-500',
+  restore: 'bg-yellow-500',
+  revert: 'bg-purple-500',
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: '商品名',
+  description: '説明',
+  category: 'カテゴリー',
+  manufacturer: 'メーカー',
+  purchaseDate: '購入日',
+  purchasePrice: '購入価格',
+  purchaseLocation: '購入場所',
+  condition: '状態',
+  notes: 'メモ',
+  quantity: '数量',
+  unit: '単位',
+  storageRoom: '保管場所（部屋）',
+  storageShelf: '保管場所（棚）',
+  storageBox: '保管場所（箱）',
+  warrantyExpiresAt: '保証期限',
+  folderId: 'フォルダ',
+}
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+export function ItemHistoryTimeline({ itemId, onReverted }: ItemHistoryTimelineProps) {
+  const [revisions, setRevisions] = useState<ItemRevision[]>([])
+  const [folders, setFolders] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/items/${itemId}/history`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '変更履歴の取得に失敗しました')
+      }
+      setRevisions(data.revisions)
+      setFolders(data.folders)
+    } catch (err) {
+      console.error('Error fetching item history:', err)
+      setError(err instanceof Error ? err.message : '変更履歴の取得に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [itemId])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  // 指定した履歴の状態に戻す
+  const handleRevert = async (revision: ItemRevision) => {
+    if (!confirm(`${formatDateTime(revision.createdAt)}時点の状態に戻してもよろしいですか？`)) return
+
+    setRevertingId(revision.id)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/items/${itemId}/history/${revision.id}/revert`, {
+        method: 'POST',
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '履歴からの復元に失敗しました')
+      }
+      onReverted(data.item)
+      await fetchHistory()
+    } catch (err) {
+      console.error('Error reverting item:', err)
+      setError(err instanceof Error ? err.message : '履歴からの復元に失敗しました')
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  // フィールド値を表示用に整形
+  const formatValue = (field: string, value: string | null) => {
+    if (value === null) return field === 'folderId' ? '未分類' : '（なし）'
+    switch (field) {
+      case 'purchaseDate':
+      case 'warrantyExpiresAt':
+        return new Date(value).toLocaleDateString('ja-JP')
+      case 'purchasePrice':
+        return `¥${Number(value).toLocaleString()}`
+      case 'folderId':
+        return folders[value] || '（削除されたフォルダ）'
+      default:
+        return value
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 lg:p-6">
+        <h3 className="text-base lg:text-lg font-semibold text-gray-900 flex items-center mb-4">
+          <svg className="w-5 h-5 mr-2 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          変更履歴
+        </h3>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {loading && revisions.length === 0 ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">変更履歴はまだありません</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 max-h-96 overflow-y-auto">
+            {revisions.map((revision, index) => {
+              const fields = Object.keys(revision.changes)
+              return (
+                <li key={revision.id} className="mb-5 ml-4 last:mb-0">
+                  <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${ACTION_COLORS[revision.action] || 'bg-gray-400'}`}></span>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">
+                        {ACTION_LABELS[revision.action] || revision.action}
+                      </span>
+                      <time className="text-xs text-gray-500">{formatDateTime(revision.createdAt)}</time>
+                    </div>
+                    {/* 最新の履歴は現在の状態なので戻す対象外 */}
+                    {index > 0 && (
+                      <button
+                        onClick={() => handleRevert(revision)}
+                        disabled={revertingId !== null}
+                        className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        {revertingId === revision.id ? '復元中...' : 'この状態に戻す'}
+                      </button>
+                    )}
+                  </div>
+                  {revision.action !== 'create' && fields.length > 0 && (
+                    <ul className="mt-1 space-y-0.5">
+                      {fields.map(field => (
+                        <li key={field} className="text-xs text-gray-600">
+                          <span className="font-medium">{FIELD_LABELS[field] || field}</span>:{' '}
+                          <span className="line-through text-gray-400">{formatValue(field, revision.changes[field].from)}</span>
+                          {' → '}
+                          <span>{formatValue(field, revision.changes[field].to)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,337 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+interface ItemLoan {
+  id: string
+  borrower: string
+  lentAt: string
+  dueDate: string | null
+  returnedAt: string | null
+  notes: string | null
+}
+
+interface ItemLoanPanelProps {
+  itemId: string
+}
+
+interface LoanFormData {
+  borrower: string
+  lentAt: string
+  dueDate: string
+  notes: string
+}
+
+// 当日の日付（YYYY-MM-DD）
+const todayString = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
+const emptyForm = (): LoanFormData => ({
+  borrower: '',
+  lentAt: todayString(),
+  dueDate: '',
+  notes: '',
+})
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('ja-JP', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+
+// 返却予定日を過ぎているか（返却予定日の当日中は期限内）
+const isOverdue = (loan: ItemLoan) =>
+  !loan.returnedAt && !!loan.dueDate && new Date(loan.dueDate) < new Date(todayString())
+
+export function ItemLoanPanel({ itemId }: ItemLoanPanelProps) {
+  const [loans, setLoans] = useState<ItemLoan[]>([])
+  const [loading, setLoading] = useState(true)
+  const [processing, setProcessing] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState<LoanFormData>(emptyForm)
+  const [error, setError] = useState<string | null>(null)
+
+  const activeLoan = loans.find(loan => !loan.returnedAt)
+
+  const fetchLoans = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/items/${itemId}/loans`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '貸出記録の取得に失敗しました')
+      }
+      setLoans(data.loans)
+    } catch (err) {
+      console.error('Error fetching item loans:', err)
+      setError(err instanceof Error ? err.message : '貸出記録の取得に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [itemId])
+
+  useEffect(() => {
+    fetchLoans()
+  }, [fetchLoans])
+
+  // 貸出を記録
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.borrower.trim()) {
+      setError('貸出先を入力してください')
+      return
+    }
+
+    setProcessing(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/items/${itemId}/loans`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          borrower: formData.borrower,
+          lentAt: formData.lentAt || undefined,
+          dueDate: formData.dueDate || null,
+          notes: formData.notes,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '貸出の記録に失敗しました')
+      }
+      setShowForm(false)
+      setFormData(emptyForm())
+      await fetchLoans()
+    } catch (err) {
+      console.error('Error creating item loan:', err)
+      setError(err instanceof Error ? err.message : '貸出の記録に失敗しました')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  // 返却を記録（返却日は当日）
+  const handleReturn = async (loan: ItemLoan) => {
+    if (!confirm(`「${loan.borrower}」からの返却を記録してもよろしいですか？`)) return
+
+    setProcessing(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/items/${itemId}/loans/${loan.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ returnedAt: todayString() }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '返却の記録に失敗しました')
+      }
+      await fetchLoans()
+    } catch (err) {
+      console.error('Error returning item loan:', err)
+      setError(err instanceof Error ? err.message : '返却の記録に失敗しました')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const handleDelete = async (loan: ItemLoan) => {
+    if (!confirm(`「${loan.borrower}」への貸出記録を削除してもよろしいですか？`)) return
+
+    setProcessing(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/items/${itemId}/loans/${loan.id}`, { method: 'DELETE' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '貸出記録の削除に失敗しました')
+      }
+      await fetchLoans()
+    } catch (err) {
+      console.error('Error deleting item loan:', err)
+      setError(err instanceof Error ? err.message : '貸出記録の削除に失敗しました')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 lg:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-base lg:text-lg font-semibold text-gray-900 flex items-center">
+            <svg className="w-5 h-5 mr-2 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+            </svg>
+            貸出記録
+          </h3>
+          {!activeLoan && !showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              disabled={loading || processing}
+              className="px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              貸し出す
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {/* 貸出中の表示 */}
+        {activeLoan && (
+          <div className={`mb-4 p-3 rounded-md border flex items-center justify-between gap-2 ${
+            isOverdue(activeLoan) ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'
+          }`}>
+            <p className={`text-sm ${isOverdue(activeLoan) ? 'text-red-800' : 'text-yellow-800'}`}>
+              「{activeLoan.borrower}」に貸出中
+              {activeLoan.dueDate && `（返却予定: ${formatDate(activeLoan.dueDate)}${isOverdue(activeLoan) ? '・期限切れ' : ''}）`}
+            </p>
+            <button
+              onClick={() => handleReturn(activeLoan)}
+              disabled={processing}
+              className="px-3 py-1.5 border border-gray-300 bg-white text-gray-700 text-xs font-medium rounded-md hover:bg-gray-50 disabled:opacity-50 flex-shrink-0"
+            >
+              返却を記録
+            </button>
+          </div>
+        )}
+
+        {/* 貸出フォーム */}
+        {showForm && (
+          <form onSubmit={handleSubmit} className="mb-4 p-3 bg-gray-50 rounded-md space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="loan-borrower" className="block text-xs font-medium text-gray-700 mb-1">
+                  貸出先 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="loan-borrower"
+                  value={formData.borrower}
+                  onChange={(e) => setFormData(prev => ({ ...prev, borrower: e.target.value }))}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm px-3 py-2"
+                  placeholder="例: 山田さん"
+                  maxLength={100}
+                  disabled={processing}
+                />
+              </div>
+              <div>
+                <label htmlFor="loan-lent-at" className="block text-xs font-medium text-gray-700 mb-1">
+                  貸出日
+                </label>
+                <input
+                  type="date"
+                  id="loan-lent-at"
+                  value={formData.lentAt}
+                  onChange={(e) => setFormData(prev => ({ ...prev, lentAt: e.target.value }))}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm px-3 py-2"
+                  disabled={processing}
+                />
+              </div>
+              <div>
+                <label htmlFor="loan-due-date" className="block text-xs font-medium text-gray-700 mb-1">
+                  返却予定日
+                </label>
+                <input
+                  type="date"
+                  id="loan-due-date"
+                  value={formData.dueDate}
+                  min={formData.lentAt || undefined}
+                  onChange={(e) => setFormData(prev => ({ ...prev, dueDate: e.target.value }))}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm px-3 py-2"
+                  disabled={processing}
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="loan-notes" className="block text-xs font-medium text-gray-700 mb-1">
+                メモ
+              </label>
+              <input
+                type="text"
+                id="loan-notes"
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm px-3 py-2"
+                maxLength={500}
+                disabled={processing}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowForm(false)
+                  setFormData(emptyForm())
+                }}
+                disabled={processing}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-100 disabled:opacity-50"
+              >
+                キャンセル
+              </button>
+              <button
+                type="submit"
+                disabled={processing}
+                className="px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {processing ? '記録中...' : '貸出を記録'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {loading && loans.length === 0 ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : loans.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">貸出記録はまだありません</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 max-h-80 overflow-y-auto">
+            {loans.map(loan => (
+              <li key={loan.id} className="py-2 flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900">
+                    {loan.borrower}
+                    {!loan.returnedAt && (
+                      <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                        isOverdue(loan) ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'
+                      }`}>
+                        {isOverdue(loan) ? '期限切れ' : '貸出中'}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(loan.lentAt)} 〜 {loan.returnedAt ? formatDate(loan.returnedAt) : ''}
+                    {!loan.returnedAt && loan.dueDate && `（返却予定: ${formatDate(loan.dueDate)}）`}
+                  </p>
+                  {loan.notes && (
+                    <p className="text-xs text-gray-600 whitespace-pre-wrap break-all">{loan.notes}</p>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleDelete(loan)}
+                  disabled={processing}
+                  className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50 flex-shrink-0"
+                >
+                  削除
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,412 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+type ItemReminderType = 'warranty' | 'battery' | 'maintenance' | 'loan' | 'custom'
+type ReminderRecurrence = 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+interface ItemReminder {
+  id: string
+  type: ItemReminderType
+  title: string
+  notes: string | null
+  recurrence: ReminderRecurrence
+  interval: number
+  nextDueAt: string
+  lastNotifiedAt: string | null
+  enabled: boolean
+}
+
+interface ItemReminderPanelProps {
+  itemId: string
+  // 保証期限のリマインダーを作るときの通知日の初期値
+  warrantyExpiresAt?: string | null
+}
+
+interface ReminderFormData {
+  type: ItemReminderType
+  title: string
+  notes: string
+  dueAt: string
+  recurrence: ReminderRecurrence
+  interval: string
+}
+
+const TYPE_LABELS: Record<ItemReminderType, string> = {
+  warranty: '保証期限',
+  battery: '電池交換',
+  maintenance: '定期メンテナンス',
+  loan: '返却予定日',
+  custom: 'その他',
+}
+
+// 種類を選んだときのタイトルの初期値
+const DEFAULT_TITLES: Record<ItemReminderType, string> = {
+  warranty: '保証期限が近づいています',
+  battery: '電池を交換してください',
+  maintenance: '定期メンテナンスの時期です',
+  loan: '返却予定日です',
+  custom: '',
+}
+
+const RECURRENCE_UNITS: Record<Exclude<ReminderRecurrence, 'none'>, string> = {
+  daily: '日',
+  weekly: '週間',
+  monthly: 'か月',
+  yearly: '年',
+}
+
+// 日付（YYYY-MM-DD）
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+const emptyForm = (warrantyExpiresAt?: string | null): ReminderFormData => ({
+  type: warrantyExpiresAt ? 'warranty' : 'maintenance',
+  title: warrantyExpiresAt ? DEFAULT_TITLES.warranty : DEFAULT_TITLES.maintenance,
+  notes: '',
+  dueAt: warrantyExpiresAt ? warrantyExpiresAt.split('T')[0] : '',
+  recurrence: 'none',
+  interval: '1',
+})
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('ja-JP', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+
+const formatRecurrence = (reminder: ItemReminder) =>
+  reminder.recurrence === 'none'
+    ? '1回のみ'
+    : `${reminder.interval === 1 ? '毎' : reminder.interval}${RECURRENCE_UNITS[reminder.recurrence]}${reminder.interval === 1 ? '' : 'ごと'}`
+
+export function ItemReminderPanel({ itemId, warrantyExpiresAt }: ItemReminderPanelProps) {
+  const [reminders, setReminders] = useState<ItemReminder[]>([])
+  const [loading, setLoading] = useState(true)
+  const [processing, setProcessing] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState<ReminderFormData>(() => emptyForm(warrantyExpiresAt))
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReminders = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/items/${itemId}/reminders`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'リマインダーの取得に失敗しました')
+      }
+      setReminders(data.reminders)
+    } catch (err) {
+      console.error('Error fetching item reminders:', err)
+      setError(err instanceof Error ? err.message : 'リマインダーの取得に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [itemId])
+
+  useEffect(() => {
+    fetchReminders()
+  }, [fetchReminders])
+
+  // 種類を変えたとき、タイトルが初期値のままなら新しい種類の初期値に置き換える
+  const handleTypeChange = (type: ItemReminderType) => {
+    setFormData(prev => ({
+      ...prev,
+      type,
+      title: prev.title === DEFAULT_TITLES[prev.type] ? DEFAULT_TITLES[type] : prev.title,
+      dueAt: type === 'warranty' && !prev.dueAt && warrantyExpiresAt ? warrantyExpiresAt.split('T')[0] : prev.dueAt,
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.title.trim()) {
+      setError('タイトルを入力してください')
+      return
+    }
+    if (!formData.dueAt) {
+      setError('通知日を入力してください')
+      return
+    }
+
+    setProcessing(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/items/${itemId}/reminders`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: formData.type,
+          title: formData.title,
+          notes: formData.notes,
+          dueAt: formData.dueAt,
+          recurrence: formData.recurrence,
+          interval: Number(formData.interval) || 1,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'リマインダーの作成に失敗しました')
+      }
+      setShowForm(false)
+      setFormData(emptyForm(warrantyExpiresAt))
+      await fetchReminders()
+    } catch (err) {
+      console.error('Error creating item reminder:', err)
+      setError(err instanceof Error ? err.message : 'リマインダーの作成に失敗しました')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  // 有効・停止の切り替え（再開時に通知日を過ぎていれば次回の定期実行で通知される）
+  const handleToggle = async (reminder: ItemReminder) => {
+    setProcessing(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/items/${itemId}/reminders/${reminder.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !reminder.enabled }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'リマインダーの更新に失敗しました')
+      }
+      await fetchReminders()
+    } catch (err) {
+      console.error('Error updating item reminder:', err)
+      setError(err instanceof Error ? err.message : 'リマインダーの更新に失敗しました')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const handleDelete = async (reminder: ItemReminder) => {
+    if (!confirm(`リマインダー「${reminder.title}」を削除してもよろしいですか？`)) return
+
+    setProcessing(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/items/${itemId}/reminders/${reminder.id}`, { method: 'DELETE' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'リマインダーの削除に失敗しました')
+      }
+      setReminders(prev => prev.filter(r => r.id !== reminder.id))
+    } catch (err) {
+      console.error('Error deleting item reminder:', err)
+      setError(err instanceof Error ? err.message : 'リマインダーの削除に失敗しました')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 lg:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-base lg:text-lg font-semibold text-gray-900 flex items-center">
+            <svg className="w-5 h-5 mr-2 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+            </svg>
+            リマインダー
+          </h3>
+          {!showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              disabled={loading || processing}
+              className="px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              追加
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {/* リマインダー作成フォーム */}
+        {showForm && (
+          <form onSubmit={handleSubmit} className="mb-4 p-3 bg-gray-50 rounded-md space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="reminder-type" className="block text-xs font-medium text-gray-700 mb-1">
+                  種類
+                </label>
+                <select
+                  id="reminder-type"
+                  value={formData.type}
+                  onChange={(e) => handleTypeChange(e.target.value as ItemReminderType)}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm px-3 py-2 bg-white"
+                  disabled={processing}
+                >
+                  {(Object.keys(TYPE_LABELS) as ItemReminderType[]).map(value => (
+                    <option key={value} value={value}>{TYPE_LABELS[value]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="sm:col-span-2">
+                <label htmlFor="reminder-title" className="block text-xs font-medium text-gray-700 mb-1">
+                  タイトル <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="reminder-title"
+                  value={formData.title}
+                  onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm px-3 py-2"
+                  maxLength={100}
+                  disabled={processing}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="reminder-due-at" className="block text-xs font-medium text-gray-700 mb-1">
+                  通知日 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  id="reminder-due-at"
+                  value={formData.dueAt}
+                  min={toDateString(new Date())}
+                  onChange={(e) => setFormData(prev => ({ ...prev, dueAt: e.target.value }))}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm px-3 py-2"
+                  disabled={processing}
+                />
+              </div>
+              <div>
+                <label htmlFor="reminder-recurrence" className="block text-xs font-medium text-gray-700 mb-1">
+                  繰り返し
+                </label>
+                <select
+                  id="reminder-recurrence"
+                  value={formData.recurrence}
+                  onChange={(e) => setFormData(prev => ({ ...prev, recurrence: e.target.value as ReminderRecurrence }))}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm px-3 py-2 bg-white"
+                  disabled={processing}
+                >
+                  <option value="none">繰り返さない</option>
+                  <option value="daily">日ごと</option>
+                  <option value="weekly">週ごと</option>
+                  <option value="monthly">月ごと</option>
+                  <option value="yearly">年ごと</option>
+                </select>
+              </div>
+              {formData.recurrence !== 'none' && (
+                <div>
+                  <label htmlFor="reminder-interval" className="block text-xs font-medium text-gray-700 mb-1">
+                    間隔
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      id="reminder-interval"
+                      value={formData.interval}
+                      min={1}
+                      max={365}
+                      onChange={(e) => setFormData(prev => ({ ...prev, interval: e.target.value }))}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm px-3 py-2"
+                      disabled={processing}
+                    />
+                    <span className="text-sm text-gray-600 flex-shrink-0">{RECURRENCE_UNITS[formData.recurrence]}ごと</span>
+                  </div>
+                </div>
+              )}
+            </div>
+            <div>
+              <label htmlFor="reminder-notes" className="block text-xs font-medium text-gray-700 mb-1">
+                メモ
+              </label>
+              <input
+                type="text"
+                id="reminder-notes"
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm px-3 py-2"
+                placeholder="例: 単3電池2本"
+                maxLength={500}
+                disabled={processing}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowForm(false)
+                  setFormData(emptyForm(warrantyExpiresAt))
+                }}
+                disabled={processing}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-100 disabled:opacity-50"
+              >
+                キャンセル
+              </button>
+              <button
+                type="submit"
+                disabled={processing}
+                className="px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {processing ? '保存中...' : 'リマインダーを追加'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {loading && reminders.length === 0 ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : reminders.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">リマインダーは設定されていません</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {reminders.map(reminder => (
+              <li key={reminder.id} className={`py-2 flex items-start justify-between gap-2 ${reminder.enabled ? '' : 'opacity-60'}`}>
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900">
+                    <span className="mr-2 px-1.5 py-0.5 bg-gray-100 text-gray-600 text-xs rounded">
+                      {TYPE_LABELS[reminder.type] || reminder.type}
+                    </span>
+                    {reminder.title}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {reminder.enabled ? `次回: ${formatDate(reminder.nextDueAt)}` : '停止中'}・{formatRecurrence(reminder)}
+                    {reminder.lastNotifiedAt && `（前回通知: ${formatDate(reminder.lastNotifiedAt)}）`}
+                  </p>
+                  {reminder.notes && (
+                    <p className="text-xs text-gray-600 whitespace-pre-wrap break-all">{reminder.notes}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <button
+                    onClick={() => handleToggle(reminder)}
+                    disabled={processing}
+                    className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    {reminder.enabled ? '停止' : '再開'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(reminder)}
+                    disabled={processing}
+                    className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    削除
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,602 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { Item } from './ItemCard'
+import { LoadMoreTrigger } from './ItemGrid'
+import type { FilterOptions } from './ItemFilters'
+
+/**
+ * 表形式で編集できる項目（PUT /api/items/[id] にそのまま送る）
+ */
+export type ItemTableChanges = Partial<Pick<Item,
+  'name' | 'category' | 'manufacturer' | 'condition' | 'purchasePrice' | 'purchaseDate' | 'purchaseLocation' | 'folderId'
+>>
+
+type ColumnKey =
+  | 'name'
+  | 'category'
+  | 'manufacturer'
+  | 'condition'
+  | 'purchasePrice'
+  | 'purchaseDate'
+  | 'purchaseLocation'
+  | 'avgPrice'
+  | 'profit'
+  | 'folder'
+  | 'tags'
+  | 'createdAt'
+  | 'updatedAt'
+
+type CellEditor = 'text' | 'number' | 'date' | 'folder'
+
+interface TableColumn {
+  key: ColumnKey
+  label: string
+  width: number
+  // 見出しのクリックで並び替える項目
+  sortBy?: FilterOptions['sortBy']
+  editor?: CellEditor
+  align?: 'right'
+}
+
+const COLUMNS: TableColumn[] = [
+  { key: 'name', label: '商品名', width: 240, sortBy: 'name', editor: 'text' },
+  { key: 'category', label: 'カテゴリ', width: 140, editor: 'text' },
+  { key: 'manufacturer', label: 'メーカー', width: 140, editor: 'text' },
+  { key: 'condition', label: '状態', width: 100, editor: 'text' },
+  { key: 'purchasePrice', label: '購入価格', width: 120, sortBy: 'price', editor: 'number', align: 'right' },
+  { key: 'purchaseDate', label: '購入日', width: 130, sortBy: 'purchaseDate', editor: 'date' },
+  { key: 'purchaseLocation', label: '購入場所', width: 140, editor: 'text' },
+  { key: 'avgPrice', label: '相場価格（AI）', width: 130, align: 'right' },
+  { key: 'profit', label: '損益', width: 150, align: 'right' },
+  { key: 'folder', label: 'フォルダ', width: 140, editor: 'folder' },
+  { key: 'tags', label: 'タグ', width: 160 },
+  { key: 'createdAt', label: '作成日時', width: 160, sortBy: 'createdAt' },
+  { key: 'updatedAt', label: '更新日時', width: 160, sortBy: 'updatedAt' },
+]
+
+const DEFAULT_VISIBLE_COLUMNS: ColumnKey[] = [
+  'name', 'category', 'manufacturer', 'purchasePrice', 'avgPrice', 'profit', 'folder', 'updatedAt',
+]
+const MIN_COLUMN_WIDTH = 60
+
+const formatPrice = (price?: number | string | null) => {
+  if (price === undefined || price === null || price === '') return '—'
+  return new Intl.NumberFormat('ja-JP', {
+    style: 'currency',
+    currency: 'JPY',
+  }).format(Number(price))
+}
+
+const formatDate = (value?: string, withTime = false) => {
+  if (!value) return '—'
+  const date = new Date(value)
+  return withTime ? date.toLocaleString('ja-JP') : date.toLocaleDateString('ja-JP')
+}
+
+// 購入価格と最新の相場価格（平均）の差額
+const calculateProfit = (item: Item) => {
+  const avgPrice = item.priceHistory?.[0]?.avgPrice
+  if (!item.purchasePrice || avgPrice === undefined || avgPrice === null) return null
+  const purchasePrice = Number(item.purchasePrice)
+  const difference = Number(avgPrice) - purchasePrice
+  return { difference, percentage: (difference / purchasePrice) * 100 }
+}
+
+// 編集欄の初期値
+const editValue = (item: Item, column: TableColumn): string => {
+  switch (column.key) {
+    case 'purchasePrice':
+      return item.purchasePrice === undefined || item.purchasePrice === null ? '' : String(Number(item.purchasePrice))
+    case 'purchaseDate':
+      return item.purchaseDate ? item.purchaseDate.slice(0, 10) : ''
+    case 'folder':
+      return item.folderId || item.folder?.id || ''
+    default:
+      return String(item[column.key as keyof Item] ?? '')
+  }
+}
+
+interface ItemTableProps {
+  items: Item[]
+  loading?: boolean
+  sortBy: FilterOptions['sortBy']
+  sortOrder: FilterOptions['sortOrder']
+  onSortChange?: (sortBy: FilterOptions['sortBy'], sortOrder: FilterOptions['sortOrder']) => void
+  folders?: Array<{ id: string; name: string; displayName?: string }>
+  onItemClick?: (item: Item) => void
+  // セルの編集を保存する（失敗した場合はエラーを投げる）
+  onItemUpdate?: (item: Item, changes: ItemTableChanges) => Promise<void>
+  emptyStateMessage?: string
+  selectedItemIds?: Set<string>
+  onItemSelectChange?: (item: Item, selected: boolean) => void
+  // 無限スクロール（指定すると末尾が表示されたときに続きを読み込む）
+  onLoadMore?: () => void
+  hasMore?: boolean
+  loadingMore?: boolean
+}
+
+/**
+ * アイテムの表形式表示（列の表示切り替え・幅の変更、並び替え、セルの直接編集、キーボード操作）
+ * 矢印キーでセルを移動し、Enter・F2で編集、編集中はEnter・Tabで確定、Escで取り消す
+ */
+export function ItemTable({
+  items,
+  loading = false,
+  sortBy,
+  sortOrder,
+  onSortChange,
+  folders = [],
+  onItemClick,
+  onItemUpdate,
+  emptyStateMessage = 'アイテムが見つかりませんでした',
+  selectedItemIds,
+  onItemSelectChange,
+  onLoadMore,
+  hasMore = false,
+  loadingMore = false
+}: ItemTableProps) {
+  const [visibleKeys, setVisibleKeys] = useState<ColumnKey[]>(DEFAULT_VISIBLE_COLUMNS)
+  const [columnWidths, setColumnWidths] = useState<Partial<Record<ColumnKey, number>>>({})
+  const [isColumnMenuOpen, setIsColumnMenuOpen] = useState(false)
+  const [activeCell, setActiveCell] = useState<{ row: number; col: number }>({ row: 0, col: 0 })
+  const [editing, setEditingState] = useState<{ row: number; col: number; value: string } | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const tableRef = useRef<HTMLDivElement>(null)
+  // 確定・取り消し後に編集欄のblurで二重に保存しないよう、編集中の状態を同期的に参照する
+  const editingRef = useRef<{ row: number; col: number; value: string } | null>(null)
+
+  const setEditing = (value: { row: number; col: number; value: string } | null) => {
+    editingRef.current = value
+    setEditingState(value)
+  }
+
+  const columns = COLUMNS.filter(column => visibleKeys.includes(column.key))
+
+  // 列の表示・幅をlocalStorageから復元
+  useEffect(() => {
+    try {
+      const savedColumns = JSON.parse(localStorage.getItem('items-table-columns') || 'null')
+      if (Array.isArray(savedColumns)) {
+        const keys = savedColumns.filter((key): key is ColumnKey => COLUMNS.some(column => column.key === key))
+        if (keys.length > 0) {
+          setVisibleKeys(keys.includes('name') ? keys : ['name', ...keys])
+        }
+      }
+      const savedWidths = JSON.parse(localStorage.getItem('items-table-column-widths') || 'null')
+      if (savedWidths && typeof savedWidths === 'object') {
+        setColumnWidths(savedWidths)
+      }
+    } catch {
+      // 保存値が壊れている場合は初期値のまま
+    }
+  }, [])
+
+  // 一覧が変わってもアクティブなセルが範囲内に収まるようにする
+  useEffect(() => {
+    setActiveCell(prev => ({
+      row: Math.min(prev.row, Math.max(0, items.length - 1)),
+      col: Math.min(prev.col, Math.max(0, columns.length - 1)),
+    }))
+  }, [items.length, columns.length])
+
+  // アクティブなセルを表示範囲に入れる
+  useEffect(() => {
+    const cell = tableRef.current?.querySelector(`[data-cell="${activeCell.row}-${activeCell.col}"]`)
+    cell?.scrollIntoView({ block: 'nearest', inline: 'nearest' })
+  }, [activeCell])
+
+  const toggleColumn = (key: ColumnKey) => {
+    const keys = visibleKeys.includes(key)
+      ? visibleKeys.filter(visibleKey => visibleKey !== key)
+      : COLUMNS.map(column => column.key).filter(columnKey => columnKey === key || visibleKeys.includes(columnKey))
+    setVisibleKeys(keys)
+    localStorage.setItem('items-table-columns', JSON.stringify(keys))
+  }
+
+  // 見出しの右端をドラッグして列幅を変更する
+  const handleResizeStart = (e: React.MouseEvent, column: TableColumn) => {
+    e.preventDefault()
+    e.stopPropagation()
+    const startX = e.clientX
+    const startWidth = columnWidths[column.key] ?? column.width
+    let latestWidths = columnWidths
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, startWidth + moveEvent.clientX - startX)
+      latestWidths = { ...latestWidths, [column.key]: width }
+      setColumnWidths(latestWidths)
+    }
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove)
+      window.removeEventListener('mouseup', handleMouseUp)
+      localStorage.setItem('items-table-column-widths', JSON.stringify(latestWidths))
+    }
+
+    window.addEventListener('mousemove', handleMouseMove)
+    window.addEventListener('mouseup', handleMouseUp)
+  }
+
+  const handleSort = (column: TableColumn) => {
+    if (!column.sortBy || !onSortChange) return
+    if (sortBy === column.sortBy) {
+      onSortChange(column.sortBy, sortOrder === 'asc' ? 'desc' : 'asc')
+    } else {
+      onSortChange(column.sortBy, column.key === 'name' ? 'asc' : 'desc')
+    }
+  }
+
+  const moveActiveCell = useCallback((rowDelta: number, colDelta: number) => {
+    setActiveCell(prev => ({
+      row: Math.min(Math.max(0, prev.row + rowDelta), Math.max(0, items.length - 1)),
+      col: Math.min(Math.max(0, prev.col + colDelta), Math.max(0, columns.length - 1)),
+    }))
+  }, [items.length, columns.length])
+
+  const startEditing = (row: number, col: number) => {
+    const item = items[row]
+    const column = columns[col]
+    if (!item || !column?.editor || !onItemUpdate) return false
+    setActiveCell({ row, col })
+    setEditing({ row, col, value: editValue(item, column) })
+    return true
+  }
+
+  // 編集内容を確定する（変更がない場合は保存しない）
+  const commitEditing = async (move?: { row: number; col: number }) => {
+    const current = editingRef.current
+    if (!current) return
+    const item = items[current.row]
+    const column = columns[current.col]
+    const value = current.value.trim()
+    setEditing(null)
+    if (move) moveActiveCell(move.row, move.col)
+    tableRef.current?.focus()
+
+    if (!item || !column || !onItemUpdate || value === editValue(item, column)) return
+
+    let changes: ItemTableChanges
+    switch (column.editor) {
+      case 'number': {
+        const price = Number(value)
+        if (value === '' || !Number.isFinite(price) || price < 0) {
+          setSaveError(`${column.label}には0以上の数値を入力してください`)
+          return
+        }
+        changes = { purchasePrice: price }
+        break
+      }
+      case 'folder':
+        changes = { folderId: value }
+        break
+      default:
+        if (column.key === 'name' && value === '') {
+          setSaveError('商品名は必須です')
+          return
+        }
+        changes = { [column.key]: value }
+    }
+
+    try {
+      setSaveError(null)
+      await onItemUpdate(item, changes)
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'アイテムの更新に失敗しました')
+    }
+  }
+
+  const cancelEditing = () => {
+    setEditing(null)
+    tableRef.current?.focus()
+  }
+
+  // セル間の移動（編集中のキー操作は編集欄で処理する）
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (editing || items.length === 0) return
+
+    switch (e.key) {
+      case 'ArrowUp':
+        moveActiveCell(-1, 0)
+        break
+      case 'ArrowDown':
+        moveActiveCell(1, 0)
+        break
+      case 'ArrowLeft':
+        moveActiveCell(0, -1)
+        break
+      case 'ArrowRight':
+        moveActiveCell(0, 1)
+        break
+      case 'Tab':
+        moveActiveCell(0, e.shiftKey ? -1 : 1)
+        break
+      case 'Home':
+        setActiveCell(prev => ({ ...prev, col: 0 }))
+        break
+      case 'End':
+        setActiveCell(prev => ({ ...prev, col: columns.length - 1 }))
+        break
+      case 'Enter':
+      case 'F2': {
+        // 編集できないセル・Ctrl（⌘）+Enterは詳細ページを開く
+        const opened = !(e.ctrlKey || e.metaKey) && startEditing(activeCell.row, activeCell.col)
+        if (!opened && e.key === 'Enter' && items[activeCell.row]) {
+          onItemClick?.(items[activeCell.row])
+        }
+        break
+      }
+      case ' ': {
+        const item = items[activeCell.row]
+        if (item && onItemSelectChange) {
+          onItemSelectChange(item, !selectedItemIds?.has(item.id))
+        }
+        break
+      }
+      default:
+        return
+    }
+    e.preventDefault()
+  }
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      commitEditing({ row: 1, col: 0 })
+    } else if (e.key === 'Tab') {
+      e.preventDefault()
+      commitEditing({ row: 0, col: e.shiftKey ? -1 : 1 })
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      cancelEditing()
+    }
+  }
+
+  const renderCell = (item: Item, column: TableColumn) => {
+    switch (column.key) {
+      case 'name':
+        return <span className="font-medium text-gray-900">{item.name}</span>
+      case 'purchasePrice':
+        return formatPrice(item.purchasePrice)
+      case 'purchaseDate':
+        return formatDate(item.purchaseDate)
+      case 'avgPrice':
+        return formatPrice(item.priceHistory?.[0]?.avgPrice)
+      case 'profit': {
+        const profit = calculateProfit(item)
+        if (!profit) return '—'
+        const sign = profit.difference > 0 ? '+' : ''
+        return (
+          <span className={profit.difference > 0 ? 'text-green-600' : profit.difference < 0 ? 'text-red-600' : 'text-gray-600'}>
+            {sign}{formatPrice(profit.difference)}
+            <span className="ml-1 text-xs">({sign}{profit.percentage.toFixed(1)}%)</span>
+          </span>
+        )
+      }
+      case 'folder':
+        return item.folder?.name || '—'
+      case 'tags':
+        return item.tags && item.tags.length > 0 ? (
+          <span className="flex gap-1 overflow-hidden">
+            {item.tags.map(tag => (
+              <span key={tag.id} className="px-1.5 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700 whitespace-nowrap">
+                {tag.name}
+              </span>
+            ))}
+          </span>
+        ) : '—'
+      case 'createdAt':
+        return formatDate(item.createdAt, true)
+      case 'updatedAt':
+        return formatDate(item.updatedAt, true)
+      default:
+        return item[column.key] || '—'
+    }
+  }
+
+  const renderEditor = (column: TableColumn) => {
+    if (!editing) return null
+    const className = 'w-full border border-blue-500 rounded px-1 py-0.5 text-sm focus:outline-none'
+    const commonProps = {
+      autoFocus: true,
+      onKeyDown: handleEditorKeyDown,
+      onBlur: () => commitEditing(),
+      className,
+    }
+
+    if (column.editor === 'folder') {
+      return (
+        <select
+          {...commonProps}
+          value={editing.value}
+          onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+        >
+          {!editing.value && <option value="">未分類</option>}
+          {folders.map(folder => (
+            <option key={folder.id} value={folder.id}>
+              {folder.displayName || folder.name}
+            </option>
+          ))}
+        </select>
+      )
+    }
+
+    return (
+      <input
+        {...commonProps}
+        type={column.editor}
+        min={column.editor === 'number' ? 0 : undefined}
+        value={editing.value}
+        onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {/* 列の表示切り替え */}
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          矢印キーで移動、Enterで編集（編集できない列では詳細を表示）、Escで取り消し
+        </p>
+        <div className="relative">
+          <button
+            onClick={() => setIsColumnMenuOpen(!isColumnMenuOpen)}
+            className="px-3 py-1.5 border border-gray-300 text-sm rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            表示する列
+          </button>
+          {isColumnMenuOpen && (
+            <>
+              <div className="fixed inset-0 z-10" onClick={() => setIsColumnMenuOpen(false)} />
+              <div className="absolute right-0 z-20 mt-1 w-48 bg-white border border-gray-200 rounded-md shadow-lg p-2 space-y-1">
+                {COLUMNS.map(column => (
+                  <label key={column.key} className="flex items-center gap-2 px-1 py-0.5 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={visibleKeys.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      disabled={column.key === 'name'}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {saveError && (
+        <div className="flex items-center justify-between bg-red-50 border border-red-200 rounded-md px-3 py-2 text-sm text-red-800">
+          <span>保存できませんでした: {saveError}</span>
+          <button onClick={() => setSaveError(null)} className="ml-2 underline hover:no-underline">
+            閉じる
+          </button>
+        </div>
+      )}
+
+      <div
+        ref={tableRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className={`overflow-x-auto bg-white rounded-lg shadow-sm border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          loading && items.length > 0 ? 'opacity-60' : ''
+        }`}
+        role="grid"
+        aria-label="アイテム一覧"
+      >
+        <table className="min-w-full table-fixed text-sm">
+          <colgroup>
+            <col style={{ width: 72 }} />
+            {columns.map(column => (
+              <col key={column.key} style={{ width: columnWidths[column.key] ?? column.width }} />
+            ))}
+          </colgroup>
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-2 py-2" />
+              {columns.map(column => (
+                <th
+                  key={column.key}
+                  onClick={() => handleSort(column)}
+                  className={`relative px-3 py-2 font-medium text-gray-700 select-none whitespace-nowrap ${
+                    column.align === 'right' ? 'text-right' : 'text-left'
+                  } ${column.sortBy && onSortChange ? 'cursor-pointer hover:bg-gray-100' : ''}`}
+                  aria-sort={column.sortBy && sortBy === column.sortBy ? (sortOrder === 'asc' ? 'ascending' : 'descending') : undefined}
+                >
+                  {column.label}
+                  {column.sortBy && sortBy === column.sortBy && (
+                    <span className="ml-1 text-gray-500">{sortOrder === 'asc' ? '▲' : '▼'}</span>
+                  )}
+                  <span
+                    onMouseDown={(e) => handleResizeStart(e, column)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300"
+                    aria-hidden="true"
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {loading && items.length === 0 ? (
+              [...Array(6)].map((_, index) => (
+                <tr key={index} className="animate-pulse border-b border-gray-100">
+                  <td className="px-2 py-3" />
+                  {columns.map(column => (
+                    <td key={column.key} className="px-3 py-3">
+                      <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+                    </td>
+                  ))}
+                </tr>
+              ))
+            ) : items.length === 0 ? (
+              <tr>
+                <td colSpan={columns.length + 1} className="px-3 py-12 text-center text-gray-500">
+                  {emptyStateMessage}
+                </td>
+              </tr>
+            ) : (
+              items.map((item, rowIndex) => (
+                <tr
+                  key={item.id}
+                  className={`border-b border-gray-100 ${selectedItemIds?.has(item.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <td className="px-2 py-1.5">
+                    <div className="flex items-center gap-1">
+                      {onItemSelectChange && (
+                        <input
+                          type="checkbox"
+                          checked={selectedItemIds?.has(item.id) || false}
+                          onChange={(e) => onItemSelectChange(item, e.target.checked)}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          aria-label={`${item.name}を選択`}
+                          tabIndex={-1}
+                        />
+                      )}
+                      <button
+                        onClick={() => onItemClick?.(item)}
+                        className="p-1 text-gray-400 hover:text-blue-600"
+                        title="詳細を表示"
+                        tabIndex={-1}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                        </svg>
+                      </button>
+                    </div>
+                  </td>
+                  {columns.map((column, colIndex) => {
+                    const isActive = activeCell.row === rowIndex && activeCell.col === colIndex
+                    const isEditing = editing?.row === rowIndex && editing.col === colIndex
+                    return (
+                      <td
+                        key={column.key}
+                        data-cell={`${rowIndex}-${colIndex}`}
+                        onClick={() => setActiveCell({ row: rowIndex, col: colIndex })}
+                        onDoubleClick={() => startEditing(rowIndex, colIndex)}
+                        className={`px-3 py-1.5 truncate ${column.align === 'right' ? 'text-right' : ''} ${
+                          isActive ? 'outline outline-2 -outline-offset-2 outline-blue-500' : ''
+                        } ${column.editor && onItemUpdate ? 'cursor-text' : ''}`}
+                        role="gridcell"
+                        aria-selected={isActive}
+                      >
+                        {isEditing ? renderEditor(column) : renderCell(item, column)}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* 無限スクロールの読み込み位置 */}
+      {onLoadMore && items.length > 0 && (
+        <LoadMoreTrigger onLoadMore={onLoadMore} hasMore={hasMore} loadingMore={loadingMore} />
+      )}
+    </div>
+  )
+}
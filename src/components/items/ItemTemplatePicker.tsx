@@ -0,0 +1,219 @@
+'use client'
+
+import { useState, useEffect, useCallback, memo } from 'react'
+
+/**
+ * テンプレートで入力できる項目
+ */
+export interface ItemTemplateValues {
+  category?: string
+  manufacturer?: string
+  condition?: string
+  purchaseLocation?: string
+  notes?: string
+  folderId?: string
+}
+
+interface ItemTemplate {
+  id: string
+  name: string
+  category: string | null
+  manufacturer: string | null
+  condition: string | null
+  purchaseLocation: string | null
+  notes: string | null
+  folderId: string | null
+  folder: { id: string; name: string } | null
+}
+
+interface ItemTemplatePickerProps {
+  // 現在のフォームの入力内容（テンプレートとして保存する値）
+  values: ItemTemplateValues
+  onApply: (values: ItemTemplateValues) => void
+  disabled?: boolean
+}
+
+const TEMPLATE_FIELDS = ['category', 'manufacturer', 'condition', 'purchaseLocation', 'notes', 'folderId'] as const
+
+const fieldLabels: Record<typeof TEMPLATE_FIELDS[number], string> = {
+  category: 'カテゴリー',
+  manufacturer: 'メーカー',
+  condition: '状態',
+  purchaseLocation: '購入場所',
+  notes: 'メモ',
+  folderId: 'フォルダ',
+}
+
+export const ItemTemplatePicker = memo(function ItemTemplatePicker({
+  values,
+  onApply,
+  disabled = false
+}: ItemTemplatePickerProps) {
+  const [templates, setTemplates] = useState<ItemTemplate[]>([])
+  const [selectedId, setSelectedId] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const selectedTemplate = templates.find(template => template.id === selectedId)
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/item-templates')
+      if (response.ok) {
+        const data = await response.json()
+        setTemplates(data.templates || [])
+      }
+    } catch (err) {
+      console.error('Error fetching item templates:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [fetchTemplates])
+
+  const handleSelect = (templateId: string) => {
+    setSelectedId(templateId)
+    setError(null)
+    setMessage(null)
+
+    const template = templates.find(t => t.id === templateId)
+    if (!template) return
+
+    // テンプレートに保存されている項目のみ上書きする
+    const templateValues: ItemTemplateValues = {}
+    TEMPLATE_FIELDS.forEach(field => {
+      const value = template[field]
+      if (value) {
+        templateValues[field] = value
+      }
+    })
+    onApply(templateValues)
+    setMessage(`テンプレート「${template.name}」を適用しました`)
+  }
+
+  const handleSaveTemplate = async () => {
+    const savedFields = TEMPLATE_FIELDS.filter(field => values[field]?.trim())
+    if (savedFields.length === 0) {
+      setError(`${TEMPLATE_FIELDS.map(field => fieldLabels[field]).join('・')}のいずれかを入力してから保存してください`)
+      return
+    }
+
+    const name = prompt(
+      `テンプレート名を入力してください\n保存する項目: ${savedFields.map(field => fieldLabels[field]).join('・')}`,
+      values.category || ''
+    )?.trim()
+    if (!name) return
+
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/item-templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          ...Object.fromEntries(savedFields.map(field => [field, values[field]])),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'テンプレートの保存に失敗しました')
+      }
+
+      setTemplates(prev => [...prev, data])
+      setSelectedId(data.id)
+      setMessage(`テンプレート「${data.name}」を保存しました`)
+    } catch (err) {
+      console.error('Error saving item template:', err)
+      setError(err instanceof Error ? err.message : 'テンプレートの保存に失敗しました')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate) return
+    if (!confirm(`テンプレート「${selectedTemplate.name}」を削除してもよろしいですか？`)) return
+
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/item-templates/${selectedTemplate.id}`, { method: 'DELETE' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'テンプレートの削除に失敗しました')
+      }
+
+      setTemplates(prev => prev.filter(template => template.id !== selectedTemplate.id))
+      setSelectedId('')
+      setMessage(data.message)
+    } catch (err) {
+      console.error('Error deleting item template:', err)
+      setError(err instanceof Error ? err.message : 'テンプレートの削除に失敗しました')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mb-6 bg-white shadow-sm rounded-lg border border-gray-200 p-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <label htmlFor="item-template" className="text-sm font-medium text-gray-700 flex-shrink-0">
+          テンプレート
+        </label>
+        <select
+          id="item-template"
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={disabled || saving}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+        >
+          <option value="">
+            {templates.length > 0 ? 'テンプレートを選択して入力' : '保存したテンプレートはありません'}
+          </option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2 flex-shrink-0">
+          <button
+            type="button"
+            onClick={handleSaveTemplate}
+            disabled={disabled || saving}
+            className="px-3 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            現在の入力を保存
+          </button>
+          {selectedTemplate && (
+            <button
+              type="button"
+              onClick={handleDeleteTemplate}
+              disabled={disabled || saving}
+              className="px-3 py-2 border border-red-300 text-red-700 text-sm font-medium rounded-md hover:bg-red-50 disabled:opacity-50"
+            >
+              削除
+            </button>
+          )}
+        </div>
+      </div>
+      {selectedTemplate && (
+        <p className="mt-2 text-xs text-gray-500">
+          {TEMPLATE_FIELDS
+            .filter(field => selectedTemplate[field])
+            .map(field => `${fieldLabels[field]}: ${field === 'folderId' ? selectedTemplate.folder?.name : selectedTemplate[field]}`)
+            .join(' ／ ')}
+        </p>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {message && <p className="mt-2 text-sm text-green-700">{message}</p>}
+    </div>
+  )
+})
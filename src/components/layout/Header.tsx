@@ -4,6 +4,7 @@ import { useState, useEffect, useRef, useMemo } from 'react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { useSession, signOut } from 'next-auth/react'
+import { NotificationCenter } from './NotificationCenter'
 
 interface HeaderProps {
   onMenuToggle: () => void
@@ -150,64 +151,67 @@ export function Header({ onMenuToggle, isSidebarOpen }: HeaderProps) {
                 <div className="w-8 h-8 bg-gray-300 rounded-full"></div>
               </div>
             ) : isAuthenticated ? (
-              <div className="relative">
-                <button
-                  onClick={() => setIsUserMenuOpen(!isUserMenuOpen)}
-                  className="flex items-center text-sm rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                  aria-label="ユーザーメニューを開く"
-                >
-                  <img
-                    className="h-8 w-8 rounded-full"
-                    src={session?.user?.image || '/default-avatar.svg'}
-                    alt={session?.user?.name || 'ユーザー'}
-                    onError={(e) => {
-                      e.currentTarget.src = '/default-avatar.svg'
-                    }}
-                  />
-                </button>
-
-                {/* User dropdown menu */}
-                {isUserMenuOpen && (
-                  <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 focus:outline-none z-50">
-                    <div className="py-1">
-                      <div className="px-4 py-2 text-sm text-gray-700 border-b">
-                        <div className="font-medium">{displayName || session?.user?.name}</div>
-                        <div className="text-gray-500">{session?.user?.email}</div>
-                      </div>
-                      <Link
-                        href="/profile"
-                        className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                        onClick={() => setIsUserMenuOpen(false)}
-                      >
-                        プロフィール
-                      </Link>
-                      <Link
-                        href="/settings"
-                        className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                        onClick={() => setIsUserMenuOpen(false)}
-                      >
-                        設定
-                      </Link>
-                      {process.env.NODE_ENV === 'development' && (
+              <>
+                <NotificationCenter />
+                <div className="relative">
+                  <button
+                    onClick={() => setIsUserMenuOpen(!isUserMenuOpen)}
+                    className="flex items-center text-sm rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    aria-label="ユーザーメニューを開く"
+                  >
+                    <img
+                      className="h-8 w-8 rounded-full"
+                      src={session?.user?.image || '/default-avatar.svg'}
+                      alt={session?.user?.name || 'ユーザー'}
+                      onError={(e) => {
+                        e.currentTarget.src = '/default-avatar.svg'
+                      }}
+                    />
+                  </button>
+
+                  {/* User dropdown menu */}
+                  {isUserMenuOpen && (
+                    <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 focus:outline-none z-50">
+                      <div className="py-1">
+                        <div className="px-4 py-2 text-sm text-gray-700 border-b">
+                          <div className="font-medium">{displayName || session?.user?.name}</div>
+                          <div className="text-gray-500">{session?.user?.email}</div>
+                        </div>
+                        <Link
+                          href="/profile"
+                          className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                          onClick={() => setIsUserMenuOpen(false)}
+                        >
+                          プロフィール
+                        </Link>
                         <Link
-                          href="/test"
+                          href="/settings"
                           className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                           onClick={() => setIsUserMenuOpen(false)}
                         >
-                          テストページ
+                          設定
                         </Link>
-                      )}
-                      <hr className="my-1" />
-                      <button
-                        onClick={handleSignOut}
-                        className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                      >
-                        ログアウト
-                      </button>
+                        {process.env.NODE_ENV === 'development' && (
+                          <Link
+                            href="/test"
+                            className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                            onClick={() => setIsUserMenuOpen(false)}
+                          >
+                            テストページ
+                          </Link>
+                        )}
+                        <hr className="my-1" />
+                        <button
+                          onClick={handleSignOut}
+                          className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                        >
+                          ログアウト
+                        </button>
+                      </div>
                     </div>
-                  </div>
-                )}
-              </div>
+                  )}
+                </div>
+              </>
             ) : (
               <Link
                 href="/auth/signin"
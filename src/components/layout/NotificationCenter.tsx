@@ -0,0 +1,180 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+
+interface NotificationItem {
+  id: string
+  title: string
+  body: string | null
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+// 未読件数の再取得間隔
+const POLL_INTERVAL = 60000
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('ja-JP', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+export function NotificationCenter() {
+  const [isOpen, setIsOpen] = useState(false)
+  const [notifications, setNotifications] = useState<NotificationItem[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(false)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications')
+      if (!response.ok) return
+      const data = await response.json()
+      setNotifications(data.notifications)
+      setUnreadCount(data.unreadCount)
+    } catch (err) {
+      console.error('Error fetching notifications:', err)
+    }
+  }, [])
+
+  // 一定間隔とページフォーカス時に再取得する
+  useEffect(() => {
+    fetchNotifications()
+    const timer = setInterval(fetchNotifications, POLL_INTERVAL)
+    window.addEventListener('focus', fetchNotifications)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener('focus', fetchNotifications)
+    }
+  }, [fetchNotifications])
+
+  const handleOpen = async () => {
+    const nextOpen = !isOpen
+    setIsOpen(nextOpen)
+    if (nextOpen) {
+      setLoading(true)
+      await fetchNotifications()
+      setLoading(false)
+    }
+  }
+
+  const markAsRead = async (body: { ids: string[] } | { all: true }) => {
+    try {
+      const response = await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      if (!response.ok) return
+      const data = await response.json()
+      const readAt = new Date().toISOString()
+      setNotifications(prev => prev.map(notification =>
+        'all' in body || body.ids.includes(notification.id)
+          ? { ...notification, readAt: notification.readAt ?? readAt }
+          : notification
+      ))
+      setUnreadCount(data.unreadCount)
+    } catch (err) {
+      console.error('Error marking notifications as read:', err)
+    }
+  }
+
+  const handleSelect = (notification: NotificationItem) => {
+    if (!notification.readAt) {
+      markAsRead({ ids: [notification.id] })
+    }
+    setIsOpen(false)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleOpen}
+        className="relative p-2 rounded-full text-gray-600 hover:text-gray-900 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label={unreadCount > 0 ? `通知（未読${unreadCount}件）` : '通知'}
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-bold leading-[1.125rem] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Close notification list when clicking outside */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+
+          <div className="origin-top-right absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-50">
+            <div className="flex items-center justify-between px-4 py-2 border-b">
+              <span className="text-sm font-medium text-gray-900">通知</span>
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => markAsRead({ all: true })}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  すべて既読にする
+                </button>
+              )}
+            </div>
+
+            {loading && notifications.length === 0 ? (
+              <div className="flex items-center justify-center p-6">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">通知はありません</p>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {notifications.map(notification => {
+                  const content = (
+                    <>
+                      <p className={`text-sm ${notification.readAt ? 'text-gray-600' : 'text-gray-900 font-medium'}`}>
+                        {!notification.readAt && (
+                          <span className="inline-block w-2 h-2 mr-1.5 rounded-full bg-blue-600 align-middle" />
+                        )}
+                        {notification.title}
+                      </p>
+                      {notification.body && (
+                        <p className="mt-0.5 text-xs text-gray-500 whitespace-pre-wrap line-clamp-3">{notification.body}</p>
+                      )}
+                      <p className="mt-0.5 text-xs text-gray-400">{formatDateTime(notification.createdAt)}</p>
+                    </>
+                  )
+
+                  return (
+                    <li key={notification.id}>
+                      {notification.link ? (
+                        <Link
+                          href={notification.link}
+                          onClick={() => handleSelect(notification)}
+                          className="block px-4 py-2 hover:bg-gray-50"
+                        >
+                          {content}
+                        </Link>
+                      ) : (
+                        <button
+                          onClick={() => handleSelect(notification)}
+                          className="block w-full text-left px-4 py-2 hover:bg-gray-50"
+                        >
+                          {content}
+                        </button>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { useSession } from 'next-auth/react'
 import { FolderTree } from '@/components/folders/FolderTree'
+import { SmartFolderList, SmartFolder } from '@/components/folders/SmartFolderList'
 
 interface SidebarProps {
   isOpen: boolean
@@ -18,6 +19,10 @@ interface SidebarProps {
     onFolderDelete?: (folder: { id: string; name: string }) => void
     onItemDrop?: (itemData: any, folderId: string | null) => void
     onFolderMove?: (folderId: string, newParentId: string | null) => void
+    selectedSmartFolderId?: string | null
+    onSmartFolderSelect?: (smartFolder: SmartFolder) => void
+    onSmartFolderEdit?: (smartFolder: SmartFolder) => void
+    onSmartFolderDelete?: (smartFolder: SmartFolder) => void
   }
 }
 
@@ -54,6 +59,16 @@ export function Sidebar({ isOpen, onClose, isMinimized = false, onToggleMinimize
       ),
       requireAuth: true,
     },
+    {
+      name: 'ゴミ箱',
+      href: '/trash',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>
+      ),
+      requireAuth: true,
+    },
   ]
 
   const testingItems: NavItem[] = [
@@ -172,9 +187,18 @@ export function Sidebar({ isOpen, onClose, isMinimized = false, onToggleMinimize
               </div>
             </div>
 
-            {/* Folder tree for items page */}
+            {/* Smart folders and folder tree for items page */}
             {!isMinimized && folderProps && pathname.startsWith('/items') && (
               <div>
+                {folderProps.onSmartFolderSelect && (
+                  <SmartFolderList
+                    selectedSmartFolderId={folderProps.selectedSmartFolderId}
+                    onSmartFolderSelect={folderProps.onSmartFolderSelect}
+                    onSmartFolderEdit={folderProps.onSmartFolderEdit}
+                    onSmartFolderDelete={folderProps.onSmartFolderDelete}
+                    className="px-2"
+                  />
+                )}
                 <FolderTree
                   selectedFolderId={folderProps.selectedFolderId}
                   onFolderSelect={folderProps.onFolderSelect}
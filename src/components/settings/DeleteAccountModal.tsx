@@ -0,0 +1,199 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface DeleteAccountModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onConfirm: (input: { confirmation: string; email: string }) => Promise<void>
+  email: string
+  onExport?: () => void
+}
+
+export function DeleteAccountModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  email,
+  onExport
+}: DeleteAccountModalProps) {
+  const [confirmation, setConfirmation] = useState('')
+  const [emailInput, setEmailInput] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // 入力内容の初期化
+  useEffect(() => {
+    if (isOpen) {
+      setConfirmation('')
+      setEmailInput('')
+      setError(null)
+    }
+  }, [isOpen])
+
+  // ESCキーでモーダルを閉じる
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !loading) {
+        onClose()
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape)
+      document.body.style.overflow = 'hidden'
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape)
+      document.body.style.overflow = 'unset'
+    }
+  }, [isOpen, loading, onClose])
+
+  const canSubmit =
+    confirmation === 'DELETE' &&
+    emailInput.trim().toLowerCase() === email.toLowerCase()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!canSubmit) {
+      setError('確認内容が正しく入力されていません')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      await onConfirm({ confirmation, email: emailInput.trim() })
+    } catch (err) {
+      console.error('Error deleting account:', err)
+      setError(err instanceof Error ? err.message : 'エラーが発生しました')
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      onClose()
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
+      {/* Background overlay */}
+      <div
+        className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+        onClick={handleClose}
+      ></div>
+
+      {/* Modal */}
+      <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+        <div className="relative transform overflow-hidden rounded-lg bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg">
+          <div className="bg-white px-4 pb-4 pt-5 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium leading-6 text-red-700" id="modal-title">
+                アカウント削除
+              </h3>
+              <button
+                type="button"
+                className="rounded-md bg-white p-2 text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                onClick={handleClose}
+                disabled={loading}
+              >
+                <span className="sr-only">閉じる</span>
+                <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800 space-y-1">
+              <p>アカウントを削除すると、全てのアイテム・フォルダ・画像・価格履歴が完全に削除されます。</p>
+              <p>この操作は取り消せません。</p>
+            </div>
+
+            {onExport && (
+              <p className="mb-4 text-sm text-gray-600">
+                削除する前に
+                <button
+                  type="button"
+                  onClick={onExport}
+                  disabled={loading}
+                  className="mx-1 text-blue-600 hover:text-blue-800 underline disabled:opacity-50"
+                >
+                  データをエクスポート
+                </button>
+                しておくことをおすすめします。
+              </p>
+            )}
+
+            <form onSubmit={handleSubmit}>
+              <div className="mb-4">
+                <label htmlFor="deleteConfirmation" className="block text-sm font-medium text-gray-700 mb-2">
+                  確認のため <span className="font-mono font-bold">DELETE</span> と入力してください
+                </label>
+                <input
+                  type="text"
+                  id="deleteConfirmation"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-red-500 focus:ring-red-500 focus:outline-none sm:text-sm"
+                  placeholder="DELETE"
+                  autoComplete="off"
+                  disabled={loading}
+                  autoFocus
+                />
+              </div>
+
+              <div className="mb-4">
+                <label htmlFor="deleteEmail" className="block text-sm font-medium text-gray-700 mb-2">
+                  ログイン中のメールアドレスを入力してください
+                </label>
+                <input
+                  type="email"
+                  id="deleteEmail"
+                  value={emailInput}
+                  onChange={(e) => setEmailInput(e.target.value)}
+                  className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-red-500 focus:ring-red-500 focus:outline-none sm:text-sm"
+                  placeholder={email}
+                  autoComplete="off"
+                  disabled={loading}
+                />
+              </div>
+
+              {/* エラー表示 */}
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
+
+              {/* Action buttons */}
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  disabled={loading}
+                  className="inline-flex justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+                >
+                  キャンセル
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading || !canSubmit}
+                  className="inline-flex justify-center rounded-md border border-transparent bg-red-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? '削除中...' : 'アカウントを削除'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface NotificationSettingsData {
+  notifyByEmail: boolean
+  notificationWebhookUrl: string | null
+  notificationWebhookSecret: string | null
+  emailAvailable: boolean
+  webhookAvailable: boolean
+}
+
+interface DeliveryResult {
+  channel: string
+  status: 'sent' | 'failed'
+  error: string | null
+}
+
+const CHANNEL_LABELS: Record<string, string> = {
+  in_app: 'アプリ内',
+  email: 'メール',
+  webhook: 'Webhook',
+}
+
+/**
+ * リマインダー通知の配信チャネル設定（アプリ内通知は常に有効）
+ */
+export function NotificationSettings() {
+  const [settings, setSettings] = useState<NotificationSettingsData | null>(null)
+  const [webhookUrl, setWebhookUrl] = useState('')
+  const [processing, setProcessing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [testResults, setTestResults] = useState<DeliveryResult[] | null>(null)
+
+  useEffect(() => {
+    fetch('/api/settings/notifications')
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error?.message || data.error || '通知設定の取得に失敗しました')
+        }
+        setSettings(data)
+        setWebhookUrl(data.notificationWebhookUrl || '')
+      })
+      .catch(err => {
+        console.error('Error fetching notification settings:', err)
+        setError(err instanceof Error ? err.message : '通知設定の取得に失敗しました')
+      })
+  }, [])
+
+  const saveSettings = async (
+    updates: Partial<Pick<NotificationSettingsData, 'notifyByEmail' | 'notificationWebhookUrl'>> | { regenerateWebhookSecret: true },
+    successMessage = '通知設定を保存しました'
+  ) => {
+    setProcessing(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/notifications', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '通知設定の保存に失敗しました')
+      }
+      setSettings(data)
+      setWebhookUrl(data.notificationWebhookUrl || '')
+      setMessage(successMessage)
+    } catch (err) {
+      console.error('Error saving notification settings:', err)
+      setError(err instanceof Error ? err.message : '通知設定の保存に失敗しました')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const handleRegenerateSecret = () => {
+    if (!confirm('署名用シークレットを再発行してもよろしいですか？\n受信側で使っているシークレットも更新する必要があります。')) return
+    saveSettings({ regenerateWebhookSecret: true }, '署名用シークレットを再発行しました')
+  }
+
+  const handleTest = async () => {
+    setProcessing(true)
+    setError(null)
+    setMessage(null)
+    setTestResults(null)
+
+    try {
+      const response = await fetch('/api/notifications/test', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || 'テスト通知の送信に失敗しました')
+      }
+      setTestResults(data.deliveries)
+    } catch (err) {
+      console.error('Error sending test notification:', err)
+      setError(err instanceof Error ? err.message : 'テスト通知の送信に失敗しました')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  if (!settings) {
+    return error ? <p className="text-sm text-red-600">{error}</p> : null
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex-1">
+          <h3 className="text-sm sm:text-base font-medium text-gray-900">メールでリマインダーを受け取る</h3>
+          <p className="text-xs sm:text-sm text-gray-500 mt-0.5">
+            {settings.emailAvailable
+              ? '登録メールアドレスにリマインダーを送信します'
+              : 'サーバーでメール送信が設定されていないため利用できません'}
+          </p>
+        </div>
+        <button
+          onClick={() => saveSettings({ notifyByEmail: !settings.notifyByEmail })}
+          disabled={processing || !settings.emailAvailable}
+          aria-label="メール通知の切り替え"
+          className={`relative inline-flex h-5 w-10 sm:h-6 sm:w-11 items-center rounded-full transition-colors flex-shrink-0 disabled:opacity-50 ${
+            settings.notifyByEmail ? 'bg-blue-600' : 'bg-gray-200'
+          }`}
+        >
+          <span
+            className={`inline-block h-3 w-3 sm:h-4 sm:w-4 transform rounded-full bg-white transition-transform ${
+              settings.notifyByEmail ? 'translate-x-6 sm:translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
+      <div>
+        <label htmlFor="notification-webhook-url" className="block text-sm sm:text-base font-medium text-gray-900">
+          Webhook URL
+        </label>
+        <p className="text-xs sm:text-sm text-gray-500 mt-0.5 mb-2">
+          {settings.webhookAvailable
+            ? 'リマインダーをJSONでPOSTします（空欄で無効）'
+            : '現在のプランではWebhook通知をご利用いただけません'}
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="url"
+            id="notification-webhook-url"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            placeholder="https://example.com/webhook"
+            maxLength={500}
+            disabled={processing || !settings.webhookAvailable}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => saveSettings({ notificationWebhookUrl: webhookUrl.trim() || null })}
+            disabled={processing || !settings.webhookAvailable || webhookUrl.trim() === (settings.notificationWebhookUrl || '')}
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:bg-gray-400 flex-shrink-0"
+          >
+            保存
+          </button>
+        </div>
+
+        {settings.notificationWebhookUrl && settings.notificationWebhookSecret && (
+          <div className="mt-3">
+            <label htmlFor="notification-webhook-secret" className="block text-sm font-medium text-gray-900">
+              署名用シークレット
+            </label>
+            <p className="text-xs sm:text-sm text-gray-500 mt-0.5 mb-2">
+              本文のHMAC-SHA256署名を X-Plat-Dot-Signature ヘッダー（sha256=〜）に付けて送信します。受信側でこのシークレットを使って検証してください
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                id="notification-webhook-secret"
+                value={settings.notificationWebhookSecret}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono bg-gray-50"
+              />
+              <button
+                onClick={handleRegenerateSecret}
+                disabled={processing}
+                className="px-4 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 disabled:opacity-50 flex-shrink-0"
+              >
+                再発行
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <button
+          onClick={handleTest}
+          disabled={processing}
+          className="px-4 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 disabled:opacity-50 self-start"
+        >
+          {processing ? '処理中...' : 'テスト通知を送信'}
+        </button>
+        {message && <p className="text-sm text-green-700">{message}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {testResults && (
+        <ul className="text-sm space-y-1">
+          {testResults.map(result => (
+            <li key={result.channel} className={result.status === 'sent' ? 'text-green-700' : 'text-red-600'}>
+              {CHANNEL_LABELS[result.channel] || result.channel}: {result.status === 'sent' ? '送信しました' : `失敗しました（${result.error}）`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { createContext, useContext, useState, ReactNode } from 'react'
+import type { SmartFolder } from '@/components/folders/SmartFolderList'
 
 interface FolderProps {
   selectedFolderId: string | null
@@ -9,6 +10,10 @@ interface FolderProps {
   onFolderEdit?: (folder: { id: string; name: string; parentId?: string }) => void
   onFolderDelete?: (folder: { id: string; name: string }) => void
   onItemDrop?: (itemData: any, folderId: string | null) => void
+  selectedSmartFolderId?: string | null
+  onSmartFolderSelect?: (smartFolder: SmartFolder) => void
+  onSmartFolderEdit?: (smartFolder: SmartFolder) => void
+  onSmartFolderDelete?: (smartFolder: SmartFolder) => void
 }
 
 interface SidebarContextType {
@@ -12,7 +12,15 @@ interface ItemFormData {
   purchaseLocation?: string
   condition?: string
   notes?: string
+  quantity?: number
+  unit?: string
+  storageRoom?: string
+  storageShelf?: string
+  storageBox?: string
+  warrantyExpiresAt?: string
   folderId?: string
+  tags?: string[]
+  customFields?: Record<string, string | number | boolean | null>
 }
 
 interface UseItemsReturn {
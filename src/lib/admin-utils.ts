@@ -0,0 +1,60 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getEntitlementSummary } from '@/lib/entitlements'
+import { getAIQuotaStatus } from '@/lib/ai/quota'
+
+/**
+ * 管理者のメールアドレス（ADMIN_EMAILS にカンマ区切りで指定）
+ */
+function getAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * 管理者かどうか（ADMIN_EMAILS 未設定の場合は誰も管理者にならない）
+ */
+export function isAdminEmail(email: string | null | undefined): boolean {
+  if (!email) return false
+  return getAdminEmails().includes(email.toLowerCase())
+}
+
+/**
+ * 管理画面で返すユーザー情報
+ */
+export const adminUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  subscriptionTier: true,
+  aiUsageLimit: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect
+
+/**
+ * 管理画面用のユーザー情報（プラン・利用状況・今月のAI利用状況）
+ * @returns ユーザーが存在しない場合はnull
+ */
+export async function getAdminUserSummary(where: { id: string } | { email: string }) {
+  const user = await prisma.user.findUnique({ where, select: adminUserSelect })
+  if (!user) return null
+
+  const [{ plan, usage }, quota] = await Promise.all([
+    getEntitlementSummary(user.id),
+    getAIQuotaStatus(user.id),
+  ])
+
+  return {
+    user,
+    plan,
+    usage,
+    aiQuota: {
+      used: quota.used,
+      limit: quota.limit,
+      remaining: quota.remaining,
+      resetAt: quota.resetAt.toISOString(),
+    },
+  }
+}
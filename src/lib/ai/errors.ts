@@ -2,6 +2,8 @@
  * AI機能のエラーハンドリング用ユーティリティ
  */
 
+import { EntitlementError } from '@/lib/entitlements'
+
 // エラーコード定義
 export enum AIErrorCode {
   // 認証・認可エラー
@@ -15,9 +17,11 @@ export enum AIErrorCode {
   
   // AI サービスエラー
   AI_EMPTY_RESPONSE = 'AI_EMPTY_RESPONSE',
+  AI_INVALID_RESPONSE = 'AI_INVALID_RESPONSE',
   AI_RECOGNITION_FAILED = 'AI_RECOGNITION_FAILED',
   AI_SERVICE_UNAVAILABLE = 'AI_SERVICE_UNAVAILABLE',
   AI_QUOTA_EXCEEDED = 'AI_QUOTA_EXCEEDED',
+  PLAN_LIMIT_EXCEEDED = 'PLAN_LIMIT_EXCEEDED',
   
   // ネットワーク・システムエラー
   NETWORK_ERROR = 'NETWORK_ERROR',
@@ -45,12 +49,44 @@ export class AIError extends Error {
   }
 }
 
+// 月間のAI利用回数の上限に達した場合のエラー
+export function createQuotaExceededError(quota: { used: number; limit: number; resetAt: Date }): AIError {
+  return new AIError(
+    `今月のAI機能の利用上限（${quota.limit}回）に達しました`,
+    AIErrorCode.AI_QUOTA_EXCEEDED,
+    429,
+    {
+      used: quota.used,
+      limit: quota.limit,
+      resetAt: quota.resetAt.toISOString()
+    }
+  )
+}
+
+// AIの応答が期待する形式（JSONスキーマ）に合わない場合のエラー
+export function createInvalidResponseError(issues: string[]): AIError {
+  return new AIError(
+    'AIの応答を解析できませんでした',
+    AIErrorCode.AI_INVALID_RESPONSE,
+    502,
+    { issues }
+  )
+}
+
 // エラー判定ユーティリティ
 export function categorizeAIError(error: unknown): AIError {
   if (error instanceof AIError) {
     return error
   }
 
+  // プランで利用できない機能
+  if (error instanceof EntitlementError) {
+    return new AIError(error.message, AIErrorCode.PLAN_LIMIT_EXCEEDED, 403, {
+      reason: error.reason,
+      ...error.details
+    })
+  }
+
   if (error instanceof Error) {
     const message = error.message.toLowerCase()
     
@@ -109,12 +145,16 @@ export function getUserFriendlyMessage(code: AIErrorCode): string {
       return 'サポートされていない画像形式です'
     case AIErrorCode.AI_EMPTY_RESPONSE:
       return 'AI認識結果を取得できませんでした'
+    case AIErrorCode.AI_INVALID_RESPONSE:
+      return 'AIの応答を解析できませんでした。再度お試しください'
     case AIErrorCode.AI_RECOGNITION_FAILED:
       return '画像認識に失敗しました。別の画像をお試しください'
     case AIErrorCode.AI_SERVICE_UNAVAILABLE:
       return 'AI機能が一時的に利用できません'
     case AIErrorCode.AI_QUOTA_EXCEEDED:
       return 'AI機能の利用制限に達しました'
+    case AIErrorCode.PLAN_LIMIT_EXCEEDED:
+      return '現在のプランではご利用いただけません'
     case AIErrorCode.NETWORK_ERROR:
       return 'ネットワークエラーが発生しました'
     case AIErrorCode.TIMEOUT_ERROR:
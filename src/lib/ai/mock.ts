@@ -0,0 +1,110 @@
+import { readFileSync } from 'fs'
+import { createHash } from 'crypto'
+import { z } from 'zod'
+import { aiPriceListingSchema } from '@/lib/validations/ai'
+import defaultFixtures from './fixtures/mock-responses.json'
+import type {
+  AIModelConfig,
+  AIProvider,
+  PriceSearchResult,
+  RecognitionImage,
+  RecognitionResult
+} from './provider'
+import { mergeRecognitionResults } from './recognition'
+
+const priceSearchFixtureSchema = z.object({
+  prices: z.array(aiPriceListingSchema),
+  summary: z.string(),
+})
+
+/**
+ * モックプロバイダーが返す応答の定義
+ */
+const mockFixturesSchema = z.object({
+  recognitions: z.array(z.object({
+    suggestions: z.array(z.string()).min(1),
+    category: z.string().optional(),
+    manufacturer: z.string().optional(),
+    description: z.string().optional(),
+    // 項目ごとの確信度（省略時は MOCK_DEFAULT_CONFIDENCE）
+    confidence: z.object({
+      name: z.number().min(0).max(1).optional(),
+      category: z.number().min(0).max(1).optional(),
+      manufacturer: z.number().min(0).max(1).optional(),
+      description: z.number().min(0).max(1).optional(),
+    }).optional(),
+  })).min(1),
+  // 商品名（メーカー名を含む）にキーワードが含まれる場合に使う価格検索結果
+  priceSearches: z.array(priceSearchFixtureSchema.extend({
+    keywords: z.array(z.string()).min(1),
+  })),
+  defaultPriceSearch: priceSearchFixtureSchema,
+  describe: z.string(),
+})
+
+export type MockFixtures = z.infer<typeof mockFixturesSchema>
+
+/**
+ * 応答の定義を読み込む
+ * AI_MOCK_FIXTURES にJSONファイルのパスを指定すると同梱の定義の代わりに使用する
+ */
+export function loadMockFixtures(): MockFixtures {
+  const path = process.env.AI_MOCK_FIXTURES
+  const source: unknown = path ? JSON.parse(readFileSync(path, 'utf8')) : defaultFixtures
+  return mockFixturesSchema.parse(source)
+}
+
+const MOCK_DEFAULT_CONFIDENCE = 0.8
+
+// 入力から決まるインデックス（同じ入力には常に同じ応答を返す）
+function pickIndex(input: string, length: number): number {
+  return createHash('sha256').update(input).digest().readUInt32BE(0) % length
+}
+
+/**
+ * 外部APIを呼ばずに定義済みの応答を返すAIプロバイダーを作成する（ローカル開発・CI用）
+ * @param models 機能ごとのモデル名（応答には影響しない）
+ * @param fixtures 応答の定義（省略時は loadMockFixtures の結果）
+ */
+export function createMockProvider(
+  models: AIModelConfig,
+  fixtures: MockFixtures = loadMockFixtures()
+): AIProvider {
+  return {
+    name: 'mock',
+    models,
+
+    // 画像ごとに応答を選び、複数の場合は統合する
+    async recognize(images: RecognitionImage[]): Promise<RecognitionResult> {
+      const results = images.map(image => {
+        const { confidence = {}, ...recognition } = fixtures.recognitions[pickIndex(image.data, fixtures.recognitions.length)]
+        const result: RecognitionResult = {
+          ...recognition,
+          suggestions: [...recognition.suggestions],
+          confidence: { name: confidence.name ?? MOCK_DEFAULT_CONFIDENCE },
+        }
+        if (recognition.category) result.confidence.category = confidence.category ?? MOCK_DEFAULT_CONFIDENCE
+        if (recognition.manufacturer) result.confidence.manufacturer = confidence.manufacturer ?? MOCK_DEFAULT_CONFIDENCE
+        if (recognition.description) result.confidence.description = confidence.description ?? MOCK_DEFAULT_CONFIDENCE
+        return result
+      })
+      return mergeRecognitionResults(results)
+    },
+
+    async searchPrices(itemName: string, manufacturer?: string): Promise<PriceSearchResult> {
+      const productIdentifier = manufacturer ? `${manufacturer} ${itemName}` : itemName
+      const matched = fixtures.priceSearches.find(fixture =>
+        fixture.keywords.some(keyword => productIdentifier.includes(keyword))
+      )
+      const { prices, summary } = matched ?? fixtures.defaultPriceSearch
+      return {
+        prices: prices.map(price => ({ ...price })),
+        summary,
+      }
+    },
+
+    async describe() {
+      return fixtures.describe
+    },
+  }
+}
@@ -0,0 +1,129 @@
+import { createGeminiProvider } from './gemini'
+import { createMockProvider } from './mock'
+
+/**
+ * 画像認識の入力画像
+ */
+export interface RecognitionImage {
+  // Base64エンコードされた画像データ（data URLの接頭辞なし）
+  data: string
+  mimeType: string
+}
+
+/**
+ * 画像認識結果の項目ごとの確信度（0〜1）
+ * name は商品名候補の1件目に対する確信度。値を返さなかった項目は省略する
+ */
+export interface RecognitionConfidence {
+  name: number
+  category?: number
+  manufacturer?: number
+  description?: number
+}
+
+/**
+ * 画像認識結果のインターフェース
+ */
+export interface RecognitionResult {
+  suggestions: string[]
+  category?: string
+  manufacturer?: string
+  description?: string
+  confidence: RecognitionConfidence
+}
+
+/**
+ * 販売サイトごとの価格情報
+ */
+export interface PriceListing {
+  price: string
+  site: string
+  url: string
+  condition: string
+}
+
+/**
+ * 価格検索結果のインターフェース
+ */
+export interface PriceSearchResult {
+  prices: PriceListing[]
+  summary: string
+}
+
+/**
+ * AI機能の種類（機能ごとに使用するモデルを設定できる）
+ */
+export type AIFeature = 'recognize' | 'searchPrices' | 'describe'
+
+/**
+ * 機能ごとのモデル名
+ */
+export type AIModelConfig = Record<AIFeature, string>
+
+/**
+ * AIプロバイダー（Gemini・モックなど）が実装するインターフェース
+ */
+export interface AIProvider {
+  name: string
+  models: AIModelConfig
+  /** 画像に写っている商品を認識する（複数の画像は同じ商品を別の角度から写したものとして扱う） */
+  recognize(images: RecognitionImage[]): Promise<RecognitionResult>
+  /** 商品の中古・新品の相場価格を検索する */
+  searchPrices(itemName: string, manufacturer?: string): Promise<PriceSearchResult>
+  /** プロンプトに対する短い説明文を生成する（接続テストなどに使用） */
+  describe(prompt: string): Promise<string>
+}
+
+export type AIProviderName = 'gemini' | 'mock'
+
+const DEFAULT_MODELS: Record<AIProviderName, AIModelConfig> = {
+  gemini: {
+    recognize: 'gemini-2.5-flash-lite',
+    searchPrices: 'gemini-2.5-flash',
+    describe: 'gemini-2.5-flash-lite',
+  },
+  mock: {
+    recognize: 'mock',
+    searchPrices: 'mock',
+    describe: 'mock',
+  },
+}
+
+/**
+ * 使用するプロバイダー名を環境変数 AI_PROVIDER から取得する（未設定の場合はgemini）
+ */
+export function getAIProviderName(): AIProviderName {
+  const name = process.env.AI_PROVIDER?.trim().toLowerCase()
+  if (!name || name === 'gemini') return 'gemini'
+  if (name === 'mock') return 'mock'
+  throw new Error(`未対応のAIプロバイダーです: ${process.env.AI_PROVIDER}`)
+}
+
+/**
+ * 機能ごとのモデル名を取得する
+ * AI_MODEL_RECOGNIZE / AI_MODEL_SEARCH_PRICES / AI_MODEL_DESCRIBE で上書きできる
+ */
+export function getAIModelConfig(providerName: AIProviderName = getAIProviderName()): AIModelConfig {
+  const defaults = DEFAULT_MODELS[providerName]
+  return {
+    recognize: process.env.AI_MODEL_RECOGNIZE || defaults.recognize,
+    searchPrices: process.env.AI_MODEL_SEARCH_PRICES || defaults.searchPrices,
+    describe: process.env.AI_MODEL_DESCRIBE || defaults.describe,
+  }
+}
+
+let cachedProvider: AIProvider | null = null
+
+/**
+ * 環境変数の設定に応じたAIプロバイダーを取得する
+ */
+export function getAIProvider(): AIProvider {
+  if (cachedProvider) return cachedProvider
+
+  const providerName = getAIProviderName()
+  const models = getAIModelConfig(providerName)
+  cachedProvider = providerName === 'mock'
+    ? createMockProvider(models)
+    : createGeminiProvider(models)
+  return cachedProvider
+}
@@ -0,0 +1,146 @@
+import { prisma } from '@/lib/db'
+import { getPlan } from '@/lib/plans'
+import { createQuotaExceededError } from './errors'
+import type { AIUsageType } from './usage'
+
+/**
+ * 利用回数を数える期間（毎月1日0時にリセット）
+ */
+export function getBillingPeriod(now: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(now.getFullYear(), now.getMonth(), 1),
+    end: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+  }
+}
+
+/**
+ * ユーザーのプランと個別設定から月間の上限回数を求める
+ * aiUsageLimit が設定されている場合はプランの上限に関係なくその値を上限とする（個別の引き上げ・引き下げ用）
+ */
+export function resolveMonthlyLimit(user: { subscriptionTier: string; aiUsageLimit: number | null }): number {
+  return user.aiUsageLimit ?? getPlan(user.subscriptionTier).aiMonthlyQuota
+}
+
+/**
+ * 今月のAI利用状況
+ */
+export interface AIQuotaStatus {
+  used: number
+  limit: number
+  remaining: number
+  subscriptionTier: string
+  resetAt: Date
+}
+
+/**
+ * 今月のAI利用状況を取得する（利用回数はAI使用履歴から数える）
+ * @param userId ユーザーID（実際のDBのcuid）
+ */
+export async function getAIQuotaStatus(userId: string, now: Date = new Date()): Promise<AIQuotaStatus> {
+  const { start, end } = getBillingPeriod(now)
+  const [user, used] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { subscriptionTier: true, aiUsageLimit: true },
+    }),
+    prisma.aiUsageLog.count({
+      where: { userId, createdAt: { gte: start, lt: end } },
+    }),
+  ])
+
+  const limit = resolveMonthlyLimit(user)
+  return {
+    used,
+    limit,
+    remaining: Math.max(0, limit - used),
+    subscriptionTier: user.subscriptionTier,
+    resetAt: end,
+  }
+}
+
+/**
+ * AIの利用枠を1回分消費する
+ * ユーザー行をロックしてから数えるため、同時に実行されても上限を超えて消費されない
+ * @returns 作成したAI使用履歴のID（失敗時の返却用）
+ * @throws AIError（AI_QUOTA_EXCEEDED） 上限に達している場合
+ */
+export async function consumeAIQuota(
+  userId: string,
+  type: AIUsageType,
+  itemId?: string,
+  now: Date = new Date()
+): Promise<string> {
+  const { start, end } = getBillingPeriod(now)
+
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM users WHERE id = ${userId} FOR UPDATE`
+
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { subscriptionTier: true, aiUsageLimit: true },
+    })
+    const used = await tx.aiUsageLog.count({
+      where: { userId, createdAt: { gte: start, lt: end } },
+    })
+
+    const limit = resolveMonthlyLimit(user)
+    if (used >= limit) {
+      throw createQuotaExceededError({ used, limit, resetAt: end })
+    }
+
+    const log = await tx.aiUsageLog.create({
+      data: { userId, type, itemId },
+      select: { id: true },
+    })
+    await tx.user.update({
+      where: { id: userId },
+      data: { aiUsageCount: used + 1 },
+    })
+
+    return log.id
+  })
+}
+
+/**
+ * AI呼び出しが失敗した場合に、消費した利用枠を返却する
+ */
+export async function releaseAIQuota(userId: string, usageLogId: string, now: Date = new Date()): Promise<void> {
+  const { start, end } = getBillingPeriod(now)
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.aiUsageLog.deleteMany({ where: { id: usageLogId, userId } })
+      const used = await tx.aiUsageLog.count({
+        where: { userId, createdAt: { gte: start, lt: end } },
+      })
+      await tx.user.update({
+        where: { id: userId },
+        data: { aiUsageCount: used },
+      })
+    })
+  } catch (error) {
+    console.error('AI利用枠の返却に失敗:', error)
+  }
+}
+
+/**
+ * 利用枠を消費してからAI機能を実行する（失敗した場合は利用枠を返却する）
+ * @param userId ユーザーID（実際のDBのcuid）
+ * @param type AI機能のタイプ
+ * @param run AI機能の処理
+ * @param itemId 関連アイテムID（オプション）
+ */
+export async function withAIQuota<T>(
+  userId: string,
+  type: AIUsageType,
+  run: () => Promise<T>,
+  itemId?: string
+): Promise<T> {
+  const usageLogId = await consumeAIQuota(userId, type, itemId)
+  try {
+    return await run()
+  } catch (error) {
+    await releaseAIQuota(userId, usageLogId)
+    throw error
+  }
+}
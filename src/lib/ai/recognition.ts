@@ -0,0 +1,113 @@
+import type { RecognitionConfidence, RecognitionResult } from './provider'
+
+/**
+ * 商品名候補の最大数
+ */
+export const MAX_RECOGNITION_SUGGESTIONS = 3
+
+// 先頭バイト（Base64）から判別できる画像形式
+const IMAGE_SIGNATURES: { prefix: string; mimeType: string }[] = [
+  { prefix: '/9j/', mimeType: 'image/jpeg' },
+  { prefix: 'iVBORw0KGgo', mimeType: 'image/png' },
+  { prefix: 'UklGR', mimeType: 'image/webp' },
+]
+
+/**
+ * 画像のMIMEタイプを決める
+ * 指定がなければdata URLの接頭辞、それもなければ画像データの先頭バイトから判別する
+ * @param imageBase64 Base64エンコードされた画像データ（data URLも可）
+ * @param mimeType 指定されたMIMEタイプ（オプション）
+ */
+export function resolveImageMimeType(imageBase64: string, mimeType?: string): string {
+  const dataUrlMatch = imageBase64.match(/^data:(image\/[a-z]+);base64,/)
+  const detected = mimeType
+    || dataUrlMatch?.[1]
+    || IMAGE_SIGNATURES.find(signature => imageBase64.startsWith(signature.prefix))?.mimeType
+    || 'image/jpeg'
+  return detected === 'image/jpg' ? 'image/jpeg' : detected
+}
+
+/**
+ * 確信度を0〜1の範囲に丸める（数値でない場合はfallback）
+ */
+export function clampConfidence(value: unknown, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback
+  return Math.min(1, Math.max(0, Math.round(value * 100) / 100))
+}
+
+// 表記ゆれを吸収した比較用のキー
+const toKey = (value: string) => value.normalize('NFKC').replace(/\s+/g, ' ').trim().toLowerCase()
+
+/**
+ * 各結果の値を確信度で重み付けして多数決をとる
+ * 確信度は選ばれた値の重みの合計を結果の件数で割ったもの（全画像が同じ値なら各確信度の平均）
+ */
+function voteField(
+  results: RecognitionResult[],
+  field: 'category' | 'manufacturer'
+): { value?: string; confidence?: number } {
+  const votes = new Map<string, { value: string; weight: number }>()
+  for (const result of results) {
+    const value = result[field]?.trim()
+    if (!value) continue
+    const key = toKey(value)
+    const vote = votes.get(key) ?? { value, weight: 0 }
+    vote.weight += result.confidence[field] ?? 0
+    votes.set(key, vote)
+  }
+
+  const winner = [...votes.values()].sort((a, b) => b.weight - a.weight)[0]
+  if (!winner) return {}
+  return { value: winner.value, confidence: clampConfidence(winner.weight / results.length, 0) }
+}
+
+/**
+ * 同じ商品を写した複数の画像の認識結果を1つにまとめる
+ * 商品名候補は順位と確信度で得点をつけて上位を残し、カテゴリ・メーカーは多数決、説明文は最も確信度の高いものを使う
+ */
+export function mergeRecognitionResults(results: RecognitionResult[]): RecognitionResult {
+  if (results.length === 0) {
+    throw new Error('統合する認識結果がありません')
+  }
+  if (results.length === 1) {
+    return results[0]
+  }
+
+  // 商品名候補: 上位ほど高い得点（1位=1、2位=1/2、…）に確信度を掛けて合計する
+  const names = new Map<string, { value: string; score: number; count: number }>()
+  for (const result of results) {
+    const seen = new Set<string>()
+    result.suggestions.forEach((suggestion, index) => {
+      const key = toKey(suggestion)
+      if (!key || seen.has(key)) return
+      seen.add(key)
+      const entry = names.get(key) ?? { value: suggestion.trim(), score: 0, count: 0 }
+      entry.score += result.confidence.name / (index + 1)
+      entry.count++
+      names.set(key, entry)
+    })
+  }
+  const rankedNames = [...names.values()].sort((a, b) => b.score - a.score || b.count - a.count)
+
+  const category = voteField(results, 'category')
+  const manufacturer = voteField(results, 'manufacturer')
+
+  const bestDescription = results
+    .filter(result => result.description?.trim())
+    .sort((a, b) => (b.confidence.description ?? 0) - (a.confidence.description ?? 0))[0]
+
+  const confidence: RecognitionConfidence = {
+    name: clampConfidence((rankedNames[0]?.score ?? 0) / results.length, 0),
+  }
+  if (category.confidence !== undefined) confidence.category = category.confidence
+  if (manufacturer.confidence !== undefined) confidence.manufacturer = manufacturer.confidence
+  if (bestDescription) confidence.description = bestDescription.confidence.description
+
+  return {
+    suggestions: rankedNames.slice(0, MAX_RECOGNITION_SUGGESTIONS).map(entry => entry.value),
+    category: category.value,
+    manufacturer: manufacturer.value,
+    description: bestDescription?.description,
+    confidence,
+  }
+}
@@ -0,0 +1,197 @@
+import { prisma } from '@/lib/db'
+import { getAIProvider, PriceSearchResult, RecognitionResult } from './provider'
+import { resolveImageMimeType } from './recognition'
+import { AIError } from './errors'
+
+/**
+ * 画像認識の入力（同じ商品を写した画像の1枚）
+ */
+export interface RecognitionImageInput {
+  // Base64エンコードされた画像データ（data URLも可）
+  imageBase64: string
+  // 画像のMIMEタイプ（省略時はデータから判別）
+  mimeType?: string
+}
+
+/**
+ * 同じ商品を写した1枚以上の画像からアイテム情報を認識する
+ * @param images 認識する画像（正面・ラベル・型番プレートなど）
+ * @returns 統合された商品名候補、カテゴリ、メーカー情報と項目ごとの確信度
+ */
+export async function recognizeItemFromImages(images: RecognitionImageInput[]): Promise<RecognitionResult> {
+  try {
+    return await getAIProvider().recognize(images.map(image => ({
+      data: image.imageBase64.replace(/^data:image\/[a-z]+;base64,/, ''),
+      mimeType: resolveImageMimeType(image.imageBase64, image.mimeType),
+    })))
+  } catch (error) {
+    console.error('AI認識エラー:', error)
+    // 応答を解析できなかった場合など分類済みのエラーはそのまま返す
+    if (error instanceof AIError) throw error
+    throw new Error('AI認識に失敗しました')
+  }
+}
+
+/**
+ * レート制限チェック（15 RPM制限）
+ */
+const rateLimitCache = new Map<string, number[]>()
+
+/**
+ * レート制限キャッシュをクリア
+ */
+export function clearRateLimit(userId: string): void {
+  rateLimitCache.delete(userId)
+}
+
+/**
+ * ユーザーの現在のリクエスト数を取得
+ */
+export function getCurrentRequests(userId: string): number {
+  const now = Date.now()
+  const windowStart = now - 60 * 1000 // 1分前
+  
+  const userRequests = rateLimitCache.get(userId) || []
+  const recentRequests = userRequests.filter(timestamp => timestamp > windowStart)
+  
+  return recentRequests.length
+}
+
+export function checkRateLimit(userId: string): boolean {
+  const now = Date.now()
+  const windowStart = now - 60 * 1000 // 1分前
+  
+  const userRequests = rateLimitCache.get(userId) || []
+  const recentRequests = userRequests.filter(timestamp => timestamp > windowStart)
+  
+  if (recentRequests.length >= 15) {
+    return false // レート制限に引っかかった
+  }
+  
+  recentRequests.push(now)
+  rateLimitCache.set(userId, recentRequests)
+  
+  return true
+}
+
+/**
+ * 商品の価格情報を検索する（Geminiの場合はGoogle検索グラウンディング使用）
+ * @param itemName 商品名
+ * @param manufacturer メーカー名（オプション）
+ * @returns 価格情報と販売サイト情報
+ */
+export async function searchItemPrices(itemName: string, manufacturer?: string): Promise<PriceSearchResult> {
+  try {
+    return await getAIProvider().searchPrices(itemName, manufacturer)
+  } catch (error) {
+    console.error('価格検索エラー:', error)
+
+    // 応答を解析できなかった場合など分類済みのエラーはそのまま返す
+    if (error instanceof AIError) throw error
+
+    // より具体的なエラーメッセージを提供
+    if (error instanceof Error) {
+      if (error.message.includes('quota') || error.message.includes('limit')) {
+        throw new Error('APIの利用制限に達しました。しばらく時間をおいてから再度お試しください。')
+      } else if (error.message.includes('network') || error.message.includes('timeout')) {
+        throw new Error('ネットワークエラーが発生しました。インターネット接続を確認してください。')
+      } else if (error.message.includes('auth') || error.message.includes('key')) {
+        throw new Error('API認証エラーが発生しました。設定を確認してください。')
+      }
+    }
+    
+    throw new Error('価格検索に失敗しました。しばらく時間をおいてから再度お試しください。')
+  }
+}
+
+/**
+ * 価格検索結果をデータベースに保存する
+ * @param itemId アイテムID
+ * @param searchResult 価格検索結果
+ * @param userEmail ユーザーEmail
+ */
+export async function savePriceHistory(
+  itemId: string, 
+  searchResult: PriceSearchResult,
+  userEmail: string
+) {
+  try {
+    // 価格から数値を抽出してmin/max/avgを計算
+    const priceNumbers = searchResult.prices
+      .map(p => {
+        const match = p.price.match(/[\d,]+/)
+        return match ? parseInt(match[0].replace(/,/g, '')) : null
+      })
+      .filter((price): price is number => price !== null)
+
+    const minPrice = priceNumbers.length > 0 ? Math.min(...priceNumbers) : null
+    const maxPrice = priceNumbers.length > 0 ? Math.max(...priceNumbers) : null
+    const avgPrice = priceNumbers.length > 0 
+      ? Math.round(priceNumbers.reduce((sum, price) => sum + price, 0) / priceNumbers.length)
+      : null
+
+    // メイン価格履歴レコードを作成
+    const priceHistory = await prisma.priceHistory.create({
+      data: {
+        itemId,
+        source: 'AI検索',
+        minPrice: minPrice,
+        avgPrice: avgPrice,
+        maxPrice: maxPrice,
+        listingCount: searchResult.prices.length,
+        summary: searchResult.summary,
+        priceDetails: {
+          create: searchResult.prices.map(price => ({
+            site: price.site,
+            price: price.price,
+            url: price.url,
+            condition: price.condition,
+            title: `${price.site}での出品商品`
+          }))
+        }
+      },
+      include: {
+        priceDetails: true
+      }
+    })
+
+    return priceHistory
+  } catch (error) {
+    console.error('価格履歴保存エラー:', error)
+    throw new Error('価格履歴の保存に失敗しました')
+  }
+}
+
+/**
+ * アイテムの価格推移を取得する
+ * @param itemId アイテムID
+ * @param userEmail ユーザーEmail
+ * @param limit 取得件数（デフォルト: 10）
+ */
+export async function getPriceHistory(itemId: string, userEmail: string, limit: number = 10) {
+  try {
+    const history = await prisma.priceHistory.findMany({
+      where: {
+        itemId,
+        isActive: true,  // アクティブな履歴のみ取得
+        item: {
+          user: {
+            email: userEmail
+          }
+        }
+      },
+      include: {
+        priceDetails: true
+      },
+      orderBy: {
+        searchDate: 'desc'
+      },
+      take: limit
+    })
+
+    return history
+  } catch (error) {
+    console.error('価格履歴取得エラー:', error)
+    throw new Error('価格履歴の取得に失敗しました')
+  }
+}
\ No newline at end of file
@@ -1,34 +1,10 @@
 import { prisma } from '@/lib/db'
+import { getBillingPeriod } from './quota'
 
 /**
  * AI使用履歴のタイプ
  */
-export type AIUsageType = 'image_recognition' | 'price_search'
-
-/**
- * AI使用履歴を記録する
- * @param userId ユーザーID（実際のDBのcuid）
- * @param type AI機能のタイプ
- * @param itemId 関連アイテムID（オプション）
- */
-export async function logAIUsage(
-  userId: string, 
-  type: AIUsageType, 
-  itemId?: string
-): Promise<void> {
-  try {
-    await prisma.aiUsageLog.create({
-      data: {
-        userId,
-        type,
-        itemId
-      }
-    })
-  } catch (error) {
-    console.error('AI使用履歴の記録に失敗:', error)
-    // エラーが発生してもAI機能の実行は継続する
-  }
-}
+export type AIUsageType = 'image_recognition' | 'price_search' | 'connection_test'
 
 /**
  * ユーザーのAI使用状況を取得する
@@ -44,7 +20,7 @@ export async function getAIUsageStats(userId: string, limit: 'today' | 'month' |
       startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate())
       break
     case 'month':
-      startDate = new Date(now.getFullYear(), now.getMonth(), 1)
+      startDate = getBillingPeriod(now).start
       break
     case 'all':
       startDate = new Date(0) // 全期間
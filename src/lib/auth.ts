@@ -1,5 +1,9 @@
 import NextAuth from "next-auth"
 import GoogleProvider from "next-auth/providers/google"
+import { getPlan } from "@/lib/plans"
+
+// トークンに載せたプランとAI利用状況を読み直す間隔（5分）
+const SESSION_PLAN_TTL_MS = 5 * 60 * 1000
 
 export const { handlers, auth, signIn, signOut } = NextAuth({
   basePath: "/api/auth",
@@ -33,7 +37,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
       // ユーザー情報はAPIルート側で必要に応じて処理
       return true
     },
-    async jwt({ token, user }) {
+    async jwt({ token, user, trigger }) {
       // 初回サインイン時にuser.emailからユーザーIDを決定的に生成
       if (user?.email) {
         // メールアドレスをベースにした一意IDを生成（常に同じ値になる）
@@ -43,6 +47,27 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
         if (user.name) token.name = user.name
         if (user.image) token.image = user.image
       }
+
+      // プランとAI利用状況はNode.jsランタイムでのみDBから読み込む（Edge Runtimeではトークンの値をそのまま使う）
+      if (process.env.NEXT_RUNTIME === "nodejs" && token.email) {
+        const planRefreshedAt = token.planRefreshedAt as number | undefined
+        const isStale = !planRefreshedAt || Date.now() - planRefreshedAt > SESSION_PLAN_TTL_MS
+        if (user || trigger === "update" || isStale) {
+          try {
+            const { loadSessionPlan } = await import("@/lib/session-utils")
+            const plan = await loadSessionPlan(token.email)
+            if (plan) {
+              token.subscriptionTier = plan.subscriptionTier
+              token.aiUsageCount = plan.aiUsageCount
+              token.aiUsageLimit = plan.aiUsageLimit
+              token.isAdmin = plan.isAdmin
+              token.planRefreshedAt = Date.now()
+            }
+          } catch (error) {
+            console.error("Failed to load session plan:", error)
+          }
+        }
+      }
       return token
     },
     async session({ session, token }) {
@@ -64,10 +89,11 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
           session.user.image = token.image as string
         }
         
-        // Edge Runtimeでは基本情報のみ設定（Prismaアクセスを避ける）
-        session.user.subscriptionTier = 'free'
-        session.user.aiUsageCount = 0
-        session.user.aiUsageLimit = 20
+        // プランとAI利用状況はjwtコールバックで読み込んだ値（未読み込みの場合は無料プランの値）
+        session.user.subscriptionTier = (token.subscriptionTier as string | undefined) ?? "free"
+        session.user.aiUsageCount = (token.aiUsageCount as number | undefined) ?? 0
+        session.user.aiUsageLimit = (token.aiUsageLimit as number | undefined) ?? getPlan("free").aiMonthlyQuota
+        session.user.isAdmin = (token.isAdmin as boolean | undefined) ?? false
       }
       
       // セッションが有効であることを示すフラグを追加
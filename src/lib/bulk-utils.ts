@@ -0,0 +1,266 @@
+import { prisma } from '@/lib/prisma'
+import { searchItemPrices, savePriceHistory, checkRateLimit } from '@/lib/ai/service'
+import { withAIQuota } from '@/lib/ai/quota'
+import { AIError, AIErrorCode } from '@/lib/ai/errors'
+import { recordItemRevisions, revisionFieldSelect } from '@/lib/revision-utils'
+import { resolveTagIds } from '@/lib/tag-utils'
+import type { BulkItemOperationInput } from '@/lib/validations/item'
+import { MAX_TAGS_PER_ITEM } from '@/lib/validations/tag'
+
+/**
+ * アイテムごとの一括操作の結果
+ */
+export interface BulkItemResult {
+  itemId: string
+  name: string | null
+  success: boolean
+  error?: string
+}
+
+type BulkUpdateFields = Extract<BulkItemOperationInput, { action: 'update' }>['fields']
+
+/**
+ * 対象アイテムを取得し、見つからないIDを失敗として結果に追加する
+ */
+async function findTargetItems(userId: string, itemIds: string[]) {
+  const items = await prisma.item.findMany({
+    where: { id: { in: itemIds }, userId, deletedAt: null },
+    select: { ...revisionFieldSelect, id: true },
+  })
+
+  const foundIds = new Set(items.map(item => item.id))
+  const missing: BulkItemResult[] = itemIds
+    .filter(id => !foundIds.has(id))
+    .map(id => ({ itemId: id, name: null, success: false, error: 'アイテムが見つかりません' }))
+
+  return { items, missing }
+}
+
+/**
+ * 結果をリクエストのID順に並べる
+ */
+function sortResults(itemIds: string[], results: BulkItemResult[]): BulkItemResult[] {
+  const order = new Map(itemIds.map((id, index) => [id, index]))
+  return results.sort((a, b) => (order.get(a.itemId) ?? 0) - (order.get(b.itemId) ?? 0))
+}
+
+/**
+ * アイテムを一括でフォルダへ移動する（移動先フォルダの存在確認は呼び出し側で行う）
+ */
+export async function bulkMoveItems(
+  userId: string,
+  itemIds: string[],
+  folderId: string | null
+): Promise<BulkItemResult[]> {
+  const { items, missing } = await findTargetItems(userId, itemIds)
+  const targets = items.filter(item => item.folderId !== folderId)
+
+  if (targets.length > 0) {
+    await prisma.$transaction(async (tx) => {
+      await tx.item.updateMany({
+        where: { id: { in: targets.map(item => item.id) } },
+        data: { folderId, updatedAt: new Date() },
+      })
+
+      await recordItemRevisions(tx, targets.map(item => ({
+        itemId: item.id,
+        userId,
+        action: 'move',
+        before: item,
+        after: { ...item, folderId },
+      })))
+    })
+  }
+
+  // 既に移動先にあるアイテムも成功として扱う
+  return sortResults(itemIds, [
+    ...items.map(item => ({ itemId: item.id, name: item.name, success: true })),
+    ...missing,
+  ])
+}
+
+/**
+ * アイテムを一括でゴミ箱へ移動する
+ */
+export async function bulkDeleteItems(userId: string, itemIds: string[]): Promise<BulkItemResult[]> {
+  const { items, missing } = await findTargetItems(userId, itemIds)
+
+  if (items.length > 0) {
+    await prisma.$transaction(async (tx) => {
+      await tx.item.updateMany({
+        where: { id: { in: items.map(item => item.id) } },
+        data: { deletedAt: new Date() },
+      })
+
+      await recordItemRevisions(tx, items.map(item => ({
+        itemId: item.id,
+        userId,
+        action: 'delete',
+        before: item,
+        after: item,
+      })))
+    })
+  }
+
+  return sortResults(itemIds, [
+    ...items.map(item => ({ itemId: item.id, name: item.name, success: true })),
+    ...missing,
+  ])
+}
+
+/**
+ * カテゴリー・メーカー・状態を一括で設定する（指定されたフィールドのみ更新）
+ */
+export async function bulkUpdateItems(
+  userId: string,
+  itemIds: string[],
+  fields: BulkUpdateFields
+): Promise<BulkItemResult[]> {
+  const { items, missing } = await findTargetItems(userId, itemIds)
+
+  const data = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as Partial<Record<keyof BulkUpdateFields, string | null>>
+
+  if (items.length > 0) {
+    await prisma.$transaction(async (tx) => {
+      await tx.item.updateMany({
+        where: { id: { in: items.map(item => item.id) } },
+        data: { ...data, updatedAt: new Date() },
+      })
+
+      await recordItemRevisions(tx, items.map(item => ({
+        itemId: item.id,
+        userId,
+        action: 'update',
+        before: item,
+        after: { ...item, ...data },
+      })))
+    })
+  }
+
+  return sortResults(itemIds, [
+    ...items.map(item => ({ itemId: item.id, name: item.name, success: true })),
+    ...missing,
+  ])
+}
+
+/**
+ * タグを一括で追加・削除する
+ * 操作後のタグ数が MAX_TAGS_PER_ITEM を超えるアイテムは変更せず、失敗として結果に含める
+ */
+export async function bulkTagItems(
+  userId: string,
+  itemIds: string[],
+  add: string[],
+  remove: string[]
+): Promise<BulkItemResult[]> {
+  const { items, missing } = await findTargetItems(userId, itemIds)
+  const results: BulkItemResult[] = [...missing]
+
+  if (items.length > 0) {
+    await prisma.$transaction(async (tx) => {
+      // 操作後のタグ数が上限を超えるアイテムはスキップする
+      const currentTags = await tx.item.findMany({
+        where: { id: { in: items.map(item => item.id) } },
+        select: { id: true, tags: { select: { name: true } } },
+      })
+      const tagNamesByItem = new Map(currentTags.map(item => [item.id, item.tags.map(tag => tag.name)]))
+      const removeNames = new Set(remove)
+
+      const targets = items.filter(item => {
+        const names = new Set((tagNamesByItem.get(item.id) ?? []).filter(name => !removeNames.has(name)))
+        add.forEach(name => names.add(name))
+        if (names.size <= MAX_TAGS_PER_ITEM) return true
+
+        results.push({
+          itemId: item.id,
+          name: item.name,
+          success: false,
+          error: `タグは${MAX_TAGS_PER_ITEM}個まで設定できます（操作後${names.size}個になるためスキップしました）`,
+        })
+        return false
+      })
+      if (targets.length === 0) return
+
+      const addIds = await resolveTagIds(tx, userId, add)
+      const removeTags = await tx.tag.findMany({
+        where: { userId, name: { in: remove } },
+        select: { id: true },
+      })
+
+      for (const item of targets) {
+        await tx.item.update({
+          where: { id: item.id },
+          data: {
+            tags: {
+              connect: addIds.map(id => ({ id })),
+              disconnect: removeTags,
+            },
+          },
+        })
+        results.push({ itemId: item.id, name: item.name, success: true })
+      }
+    }, {
+      timeout: 30000,
+    })
+  }
+
+  return sortResults(itemIds, results)
+}
+
+/**
+ * AI価格調査を一括で実行する（1アイテムごとに月間の利用枠を1回分消費する）
+ * レート制限に達した場合や調査に失敗した場合もほかのアイテムの処理は続行する
+ * 利用枠の上限に達した場合は残りのアイテムを調査せずに失敗とする
+ */
+export async function bulkSearchPrices(
+  userId: string,
+  userEmail: string,
+  itemIds: string[]
+): Promise<BulkItemResult[]> {
+  const { items, missing } = await findTargetItems(userId, itemIds)
+  const results: BulkItemResult[] = [...missing]
+
+  let quotaError: AIError | null = null
+
+  for (const item of items) {
+    if (quotaError) {
+      results.push({ itemId: item.id, name: item.name, success: false, error: quotaError.message })
+      continue
+    }
+
+    if (!checkRateLimit(userEmail)) {
+      results.push({
+        itemId: item.id,
+        name: item.name,
+        success: false,
+        error: 'リクエストが多すぎます。1分後に再度お試しください。',
+      })
+      continue
+    }
+
+    try {
+      const searchResult = await withAIQuota(userId, 'price_search', () =>
+        searchItemPrices(item.name, item.manufacturer || undefined),
+        item.id
+      )
+      await savePriceHistory(item.id, searchResult, userEmail)
+      results.push({ itemId: item.id, name: item.name, success: true })
+    } catch (error) {
+      if (error instanceof AIError && error.code === AIErrorCode.AI_QUOTA_EXCEEDED) {
+        quotaError = error
+      } else {
+        console.error('Bulk price search error:', { itemId: item.id, error })
+      }
+      results.push({
+        itemId: item.id,
+        name: item.name,
+        success: false,
+        error: error instanceof Error ? error.message : 'AI価格調査中にエラーが発生しました',
+      })
+    }
+  }
+
+  return sortResults(itemIds, results)
+}
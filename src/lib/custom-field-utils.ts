@@ -0,0 +1,302 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type {
+  CustomFieldDefinitionInput,
+  CustomFieldFiltersInput,
+  CustomFieldValue,
+} from '@/lib/validations/custom-field'
+
+/**
+ * カスタムフィールド定義の選択条件
+ */
+export const customFieldDefinitionSelect = {
+  id: true,
+  name: true,
+  type: true,
+  options: true,
+  category: true,
+  required: true,
+  sortOrder: true,
+} satisfies Prisma.CustomFieldDefinitionSelect
+
+/**
+ * カスタムフィールド定義の表示順
+ */
+export const customFieldDefinitionOrderBy = [
+  { sortOrder: 'asc' },
+  { createdAt: 'asc' },
+] satisfies Prisma.CustomFieldDefinitionOrderByWithRelationInput[]
+
+/**
+ * アイテムに含めるカスタムフィールド値の選択条件
+ */
+export const itemCustomFieldValuesInclude = {
+  select: {
+    fieldId: true,
+    textValue: true,
+    numberValue: true,
+    dateValue: true,
+    booleanValue: true,
+  },
+} satisfies Prisma.Item$customFieldValuesArgs
+
+type CustomFieldValueRecord = Prisma.ItemCustomFieldValueGetPayload<typeof itemCustomFieldValuesInclude>
+
+/**
+ * 絞り込み・並び替えの条件が不正な場合のエラー
+ */
+export class CustomFieldQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CustomFieldQueryError'
+  }
+}
+
+/**
+ * クエリパラメータの接頭辞（cf_フィールドID=値）
+ */
+export const CUSTOM_FIELD_FILTER_PREFIX = 'cf_'
+
+/**
+ * 保存された値をレスポンス用の値に変換する（日付はYYYY-MM-DD）
+ */
+function toResponseValue(value: CustomFieldValueRecord): string | number | boolean | null {
+  if (value.textValue !== null) return value.textValue
+  if (value.numberValue !== null) return value.numberValue
+  if (value.dateValue !== null) return value.dateValue.toISOString().split('T')[0]
+  if (value.booleanValue !== null) return value.booleanValue
+  return null
+}
+
+/**
+ * アイテムのカスタムフィールド値を「フィールドID → 値」の形式に変換する
+ */
+export function toCustomFieldValueMap(values: CustomFieldValueRecord[]): Record<string, string | number | boolean | null> {
+  return Object.fromEntries(values.map(value => [value.fieldId, toResponseValue(value)]))
+}
+
+/**
+ * アイテムのレスポンスからcustomFieldValuesを取り除き、customFieldsとして付け直す
+ */
+export function withCustomFieldMap<T extends { customFieldValues: CustomFieldValueRecord[] }>(item: T) {
+  const { customFieldValues, ...rest } = item
+  return { ...rest, customFields: toCustomFieldValueMap(customFieldValues) }
+}
+
+/**
+ * 指定カテゴリのアイテムに適用されるカスタムフィールド定義を取得する
+ * （カテゴリ未指定の定義はすべてのアイテムに適用される）
+ */
+export async function findApplicableCustomFields(
+  client: Prisma.TransactionClient,
+  userId: string,
+  category: string | null | undefined
+) {
+  return client.customFieldDefinition.findMany({
+    where: {
+      userId,
+      OR: [
+        { category: null },
+        ...(category ? [{ category }] : []),
+      ],
+    },
+    select: customFieldDefinitionSelect,
+    orderBy: customFieldDefinitionOrderBy,
+  })
+}
+
+/**
+ * 検証済みの値を型に応じたカラムへ振り分ける
+ */
+function toValueColumns(type: string, value: Exclude<CustomFieldValue, null>) {
+  return {
+    textValue: type === 'text' || type === 'select' ? String(value) : null,
+    numberValue: type === 'number' ? Number(value) : null,
+    dateValue: type === 'date' && value instanceof Date ? value : null,
+    booleanValue: type === 'boolean' ? Boolean(value) : null,
+  }
+}
+
+/**
+ * カスタムフィールドの値を保存する
+ * undefinedの項目は変更せず、nullの項目は値を削除する
+ */
+export async function saveCustomFieldValues(
+  tx: Prisma.TransactionClient,
+  itemId: string,
+  definitions: CustomFieldDefinitionInput[],
+  values: Record<string, CustomFieldValue | undefined>
+) {
+  for (const definition of definitions) {
+    const value = values[definition.id]
+    if (value === undefined) continue
+
+    if (value === null) {
+      await tx.itemCustomFieldValue.deleteMany({
+        where: { itemId, fieldId: definition.id },
+      })
+      continue
+    }
+
+    const columns = toValueColumns(definition.type, value)
+    await tx.itemCustomFieldValue.upsert({
+      where: { itemId_fieldId: { itemId, fieldId: definition.id } },
+      update: columns,
+      create: { itemId, fieldId: definition.id, ...columns },
+    })
+  }
+}
+
+/**
+ * クエリパラメータからカスタムフィールドの絞り込み条件を取り出す
+ */
+export function extractCustomFieldFilters(searchParams: URLSearchParams): Record<string, string> {
+  return Object.fromEntries(
+    Array.from(searchParams.entries())
+      .filter(([key]) => key.startsWith(CUSTOM_FIELD_FILTER_PREFIX))
+      .map(([key, value]) => [key.slice(CUSTOM_FIELD_FILTER_PREFIX.length), value])
+  )
+}
+
+// 「min..max」形式の範囲指定を分解する（区切りがない場合は完全一致）
+function parseRange<T>(raw: string, parse: (value: string) => T | null, fieldName: string) {
+  const [minRaw, maxRaw] = raw.includes('..') ? raw.split('..', 2) : [raw, raw]
+  const min = minRaw ? parse(minRaw) : undefined
+  const max = maxRaw ? parse(maxRaw) : undefined
+  if (min === null || max === null) {
+    throw new CustomFieldQueryError(`${fieldName}の絞り込み条件が正しくありません`)
+  }
+  return { ...(min !== undefined && { gte: min }), ...(max !== undefined && { lte: max }) }
+}
+
+/**
+ * カスタムフィールドの絞り込み条件をPrismaの検索条件に変換する
+ */
+export function buildCustomFieldWhere(
+  definitions: Array<{ id: string; name: string; type: string }>,
+  filters: CustomFieldFiltersInput
+): Prisma.ItemWhereInput[] {
+  const conditions: Prisma.ItemWhereInput[] = []
+
+  for (const [fieldId, raw] of Object.entries(filters)) {
+    const definition = definitions.find(field => field.id === fieldId)
+    if (!definition) {
+      throw new CustomFieldQueryError('絞り込みに指定したカスタムフィールドが見つかりません')
+    }
+    if (raw === '') continue
+
+    switch (definition.type) {
+      case 'number': {
+        const parseNumber = (value: string) => Number.isFinite(Number(value)) ? Number(value) : null
+        conditions.push({
+          customFieldValues: { some: { fieldId, numberValue: parseRange(raw, parseNumber, definition.name) } },
+        })
+        break
+      }
+      case 'date': {
+        const parseDate = (value: string) => isNaN(new Date(value).getTime()) ? null : new Date(value)
+        conditions.push({
+          customFieldValues: { some: { fieldId, dateValue: parseRange(raw, parseDate, definition.name) } },
+        })
+        break
+      }
+      case 'boolean': {
+        if (raw !== 'true' && raw !== 'false') {
+          throw new CustomFieldQueryError(`${definition.name}の絞り込み条件は true または false を指定してください`)
+        }
+        // 未入力はfalseとして扱う
+        conditions.push(raw === 'true'
+          ? { customFieldValues: { some: { fieldId, booleanValue: true } } }
+          : {
+            OR: [
+              { customFieldValues: { some: { fieldId, booleanValue: false } } },
+              { customFieldValues: { none: { fieldId } } },
+            ],
+          })
+        break
+      }
+      case 'select':
+        conditions.push({ customFieldValues: { some: { fieldId, textValue: raw } } })
+        break
+      default:
+        conditions.push({
+          customFieldValues: { some: { fieldId, textValue: { contains: raw, mode: 'insensitive' } } },
+        })
+    }
+  }
+
+  return conditions
+}
+
+// 並び替え用の比較値（未入力はnull）
+function toSortValue(value: CustomFieldValueRecord | undefined): string | number | null {
+  if (!value) return null
+  if (value.textValue !== null) return value.textValue
+  if (value.numberValue !== null) return value.numberValue
+  if (value.dateValue !== null) return value.dateValue.getTime()
+  if (value.booleanValue !== null) return value.booleanValue ? 1 : 0
+  return null
+}
+
+/**
+ * カスタムフィールドの値で並び替えたアイテムIDを取得する（未入力のアイテムは常に末尾）
+ * 値は別テーブルにあり Prisma の orderBy で扱えないため、対象アイテムの値を取得してから並び替える
+ */
+export async function findItemIdsSortedByCustomField(
+  where: Prisma.ItemWhereInput,
+  fieldId: string,
+  order: 'asc' | 'desc',
+  skip: number,
+  take: number
+): Promise<string[]> {
+  const items = await prisma.item.findMany({
+    where,
+    select: {
+      id: true,
+      createdAt: true,
+      customFieldValues: {
+        ...itemCustomFieldValuesInclude,
+        where: { fieldId },
+      },
+    },
+  })
+
+  const direction = order === 'asc' ? 1 : -1
+  const sorted = items
+    .map(item => ({ id: item.id, createdAt: item.createdAt, value: toSortValue(item.customFieldValues[0]) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        if (a.value !== b.value) return a.value === null ? 1 : -1
+        return b.createdAt.getTime() - a.createdAt.getTime()
+      }
+      const compared = typeof a.value === 'string' && typeof b.value === 'string'
+        ? a.value.localeCompare(b.value, 'ja')
+        : Number(a.value) - Number(b.value)
+      return compared !== 0 ? compared * direction : b.createdAt.getTime() - a.createdAt.getTime()
+    })
+
+  return sorted.slice(skip, skip + take).map(item => item.id)
+}
+
+/**
+ * 同名のカスタムフィールド定義を探す
+ * 適用範囲が重なる（同じカテゴリ、またはどちらかが全カテゴリ対象）定義同士は同名にできない
+ */
+export async function findConflictingCustomField(
+  userId: string,
+  name: string,
+  category: string | null,
+  excludeId?: string
+) {
+  return prisma.customFieldDefinition.findFirst({
+    where: {
+      userId,
+      name,
+      ...(excludeId && { id: { not: excludeId } }),
+      ...(category && {
+        OR: [{ category }, { category: null }],
+      }),
+    },
+    select: { id: true },
+  })
+}
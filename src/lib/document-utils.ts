@@ -0,0 +1,131 @@
+import sharp from 'sharp'
+import { Prisma } from '@prisma/client'
+import { put } from '@vercel/blob'
+import { THUMBNAIL_SIZES } from '@/lib/image-utils'
+
+/**
+ * 書類の選択条件
+ */
+export const itemDocumentSelect = {
+  id: true,
+  kind: true,
+  title: true,
+  url: true,
+  originalName: true,
+  mimeType: true,
+  size: true,
+  thumbnailUrl: true,
+  createdAt: true,
+} satisfies Prisma.ItemDocumentSelect
+
+/**
+ * 書類の表示順（新しい書類から）
+ */
+export const itemDocumentOrderBy = [
+  { createdAt: 'desc' },
+] satisfies Prisma.ItemDocumentOrderByWithRelationInput[]
+
+/**
+ * 保証期限が近いとみなす日数
+ */
+export const WARRANTY_EXPIRING_DAYS = 30
+
+/**
+ * 保証期限がdays日以内（当日を含む）に切れるアイテムの条件
+ */
+export function expiringWarrantyWhere(
+  days: number = WARRANTY_EXPIRING_DAYS,
+  now: Date = new Date()
+): Prisma.ItemWhereInput {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  const until = new Date(today.getFullYear(), today.getMonth(), today.getDate() + days + 1)
+  return {
+    warrantyExpiresAt: { gte: today, lt: until },
+  }
+}
+
+/**
+ * PDFの1ページ目をPNGにレンダリングする
+ * libvipsのPDF読み込みはnpmのsharpバイナリでは使えないため、pdfjsで描画してからsharpで縮小する
+ * @param maxSize 長辺の最大ピクセル数
+ */
+async function renderPdfFirstPage(buffer: Buffer, maxSize: number): Promise<Buffer> {
+  const [{ getDocument }, { createCanvas }] = await Promise.all([
+    import('pdfjs-dist/legacy/build/pdf.mjs'),
+    import('@napi-rs/canvas'),
+  ])
+
+  const pdf = await getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise
+
+  try {
+    const page = await pdf.getPage(1)
+    const { width, height } = page.getViewport({ scale: 1 })
+    const viewport = page.getViewport({ scale: maxSize / Math.max(width, height) })
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height))
+
+    await page.render({
+      canvas: canvas as unknown as HTMLCanvasElement,
+      viewport,
+      background: '#ffffff',
+    }).promise
+
+    return canvas.toBuffer('image/png')
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+/**
+ * 書類のプレビュー用サムネイルを生成してVercel Blobにアップロードする
+ * PDFは1ページ目、画像はそのまま縮小する
+ * @returns サムネイルURL（生成できない場合はnull）
+ */
+export async function generateDocumentThumbnail(
+  buffer: Buffer,
+  mimeType: string,
+  fileName: string,
+  itemId: string
+): Promise<string | null> {
+  try {
+    const { width, height } = THUMBNAIL_SIZES.medium
+    const source = mimeType === 'application/pdf'
+      ? await renderPdfFirstPage(buffer, Math.max(width, height))
+      : buffer
+
+    const thumbnailBuffer = await sharp(source)
+      .flatten({ background: '#ffffff' })
+      .resize(width, height, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .jpeg({
+        quality: 85,
+        progressive: true,
+      })
+      .toBuffer()
+
+    const blob = await put(`items/${itemId}/documents/thumbnails/${fileName.replace(/\.[^.]+$/, '')}.jpg`, thumbnailBuffer, {
+      access: 'public',
+      contentType: 'image/jpeg',
+    })
+
+    return blob.url
+  } catch (error) {
+    console.warn('Failed to generate document thumbnail:', error)
+    return null
+  }
+}
+
+/**
+ * 書類をBlob削除用の形式（元ファイルとサムネイル）にする
+ */
+export function toDocumentBlobSource(document: { url: string; thumbnailUrl: string | null }) {
+  return {
+    url: document.url,
+    thumbnailSmall: document.thumbnailUrl,
+  }
+}
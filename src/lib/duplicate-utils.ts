@@ -0,0 +1,449 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { readImageSource } from '@/lib/export-utils'
+import { computePerceptualHash, perceptualHashDistance } from '@/lib/image-utils'
+import { getUserPlan } from '@/lib/entitlements'
+import { MAX_TAGS_PER_ITEM } from '@/lib/validations/tag'
+import { recordItemRevisions, revisionFieldSelect, REVISION_FIELDS, RevisionField } from '@/lib/revision-utils'
+
+/**
+ * 名前（メーカー名を含む）の類似度がこの値以上なら重複候補とする（0〜1）
+ */
+export const NAME_SIMILARITY_THRESHOLD = 0.85
+
+/**
+ * 1枚目の画像の知覚ハッシュの距離がこの値以下なら重複候補とする（64ビット中）
+ */
+export const IMAGE_HASH_MAX_DISTANCE = 6
+
+/**
+ * 1回の検出で新たに知覚ハッシュを計算する画像数の上限（残りは次回以降に計算する）
+ */
+export const MAX_IMAGE_HASHES_PER_SCAN = 30
+
+// 同じメーカー内で名前を総当たりで比較するアイテム数の上限（超える場合は正規化した名前の完全一致のみ）
+const MAX_PAIRWISE_NAME_COMPARISONS = 2000
+
+/**
+ * 重複候補のアイテム
+ */
+export interface DuplicateItem {
+  id: string
+  name: string
+  category: string | null
+  manufacturer: string | null
+  purchasePrice: string | null
+  createdAt: Date
+  folder: { id: string; name: string } | null
+  thumbnail: string | null
+  imageCount: number
+  priceHistoryCount: number
+}
+
+/**
+ * 重複候補のグループ（reasons: 一致した基準）
+ */
+export interface DuplicateGroup {
+  items: DuplicateItem[]
+  reasons: Array<'name' | 'image'>
+}
+
+/**
+ * 統合できない場合のエラー
+ */
+export class MergeItemsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MergeItemsError'
+  }
+}
+
+/**
+ * 統合の結果
+ */
+export interface MergeItemsResult {
+  item: { id: string; name: string }
+  mergedCount: number
+  movedImages: number
+  skippedImages: number
+  movedPriceHistory: number
+}
+
+/**
+ * 比較用に名前を正規化する（全角・半角と大文字・小文字をそろえ、空白と記号を除く）
+ */
+export function normalizeItemText(text: string | null | undefined): string {
+  return (text ?? '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]/gu, '')
+}
+
+// 2文字ずつの組（bigram）によるダイス係数
+function bigramSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (a.length < 2 || b.length < 2) return 0
+
+  const bigrams = new Map<string, number>()
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2)
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1)
+  }
+
+  let matches = 0
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2)
+    const count = bigrams.get(bigram) ?? 0
+    if (count > 0) {
+      bigrams.set(bigram, count - 1)
+      matches++
+    }
+  }
+
+  return (2 * matches) / (a.length + b.length - 2)
+}
+
+// 1枚目の画像の知覚ハッシュが未計算のものを計算して保存する
+async function fillMissingImageHashes(
+  images: Array<{ id: string; url: string; perceptualHash: string | null }>
+): Promise<number> {
+  const missing = images.filter(image => !image.perceptualHash)
+
+  for (const image of missing.slice(0, MAX_IMAGE_HASHES_PER_SCAN)) {
+    try {
+      image.perceptualHash = await computePerceptualHash(await readImageSource(image.url))
+      await prisma.itemImage.update({
+        where: { id: image.id },
+        data: { perceptualHash: image.perceptualHash },
+      })
+    } catch (error) {
+      // 読み込めない画像は画像による比較の対象外にする
+      console.error(`Failed to compute perceptual hash for image ${image.id}:`, error)
+    }
+  }
+
+  return Math.max(0, missing.length - MAX_IMAGE_HASHES_PER_SCAN)
+}
+
+/**
+ * 重複している可能性のあるアイテムをグループにまとめる
+ * 正規化した名前とメーカーの類似度、または1枚目の画像の知覚ハッシュが近いアイテムを同じグループにする
+ * @returns グループと、知覚ハッシュが未計算で比較できなかった画像の数
+ */
+export async function findDuplicateGroups(
+  userId: string
+): Promise<{ groups: DuplicateGroup[]; pendingImageCount: number }> {
+  const items = await prisma.item.findMany({
+    where: { userId, deletedAt: null },
+    select: {
+      id: true,
+      name: true,
+      category: true,
+      manufacturer: true,
+      purchasePrice: true,
+      createdAt: true,
+      folder: { select: { id: true, name: true } },
+      images: {
+        select: { id: true, url: true, thumbnailSmall: true, perceptualHash: true },
+        orderBy: { order: 'asc' },
+        take: 1,
+      },
+      _count: { select: { images: true, priceHistory: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const pendingImageCount = await fillMissingImageHashes(items.flatMap(item => item.images))
+
+  // 一致したアイテム同士を union-find でまとめる
+  const parent = items.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+  const reasons = new Map<string, Set<'name' | 'image'>>()
+  const union = (a: number, b: number, reason: 'name' | 'image') => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) {
+      parent[rootB] = rootA
+    }
+    reasons.set(`${a}-${b}`, (reasons.get(`${a}-${b}`) ?? new Set()).add(reason))
+  }
+
+  // 名前の類似度（メーカーが同じ、またはどちらかが未入力のアイテム同士を比較）
+  const buckets = new Map<string, number[]>()
+  items.forEach((item, index) => {
+    const key = normalizeItemText(item.manufacturer)
+    const bucket = buckets.get(key) ?? []
+    bucket.push(index)
+    buckets.set(key, bucket)
+  })
+  const unknownManufacturer = buckets.get('') ?? []
+  const normalizedNames = items.map(item => normalizeItemText(item.name))
+
+  buckets.forEach((indexes, manufacturer) => {
+    const candidates = manufacturer ? [...indexes, ...unknownManufacturer] : indexes
+    if (candidates.length > MAX_PAIRWISE_NAME_COMPARISONS) {
+      const byName = new Map<string, number>()
+      candidates.forEach(index => {
+        const first = byName.get(normalizedNames[index])
+        if (first === undefined) {
+          byName.set(normalizedNames[index], index)
+        } else if (first !== index) {
+          union(first, index, 'name')
+        }
+      })
+      return
+    }
+
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = 0; j < candidates.length; j++) {
+        const a = indexes[i]
+        const b = candidates[j]
+        // 同じバケット内の組み合わせは一度だけ比較する
+        if (a === b || (indexes.includes(b) && b < a)) continue
+        if (bigramSimilarity(normalizedNames[a], normalizedNames[b]) >= NAME_SIMILARITY_THRESHOLD) {
+          union(a, b, 'name')
+        }
+      }
+    }
+  })
+
+  // 1枚目の画像の知覚ハッシュ
+  const hashed = items
+    .map((item, index) => ({ index, hash: item.images[0]?.perceptualHash }))
+    .filter((entry): entry is { index: number; hash: string } => !!entry.hash)
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (perceptualHashDistance(hashed[i].hash, hashed[j].hash) <= IMAGE_HASH_MAX_DISTANCE) {
+        union(hashed[i].index, hashed[j].index, 'image')
+      }
+    }
+  }
+
+  const groupMap = new Map<number, number[]>()
+  items.forEach((_, index) => {
+    const root = find(index)
+    const group = groupMap.get(root) ?? []
+    group.push(index)
+    groupMap.set(root, group)
+  })
+
+  const groups = Array.from(groupMap.values())
+    .filter(indexes => indexes.length > 1)
+    .map(indexes => {
+      const groupReasons = new Set<'name' | 'image'>()
+      reasons.forEach((pairReasons, pair) => {
+        const [a] = pair.split('-').map(Number)
+        if (indexes.includes(a)) {
+          pairReasons.forEach(reason => groupReasons.add(reason))
+        }
+      })
+
+      return {
+        reasons: Array.from(groupReasons),
+        items: indexes.map(index => {
+          const item = items[index]
+          return {
+            id: item.id,
+            name: item.name,
+            category: item.category,
+            manufacturer: item.manufacturer,
+            purchasePrice: item.purchasePrice?.toString() ?? null,
+            createdAt: item.createdAt,
+            folder: item.folder,
+            thumbnail: item.images[0]?.thumbnailSmall || item.images[0]?.url || null,
+            imageCount: item._count.images,
+            priceHistoryCount: item._count.priceHistory,
+          }
+        }),
+      }
+    })
+
+  return { groups, pendingImageCount }
+}
+
+// 統合先で空のフィールドを統合元の値で補う（メモは重複を除いてつなげる）
+function mergeItemFields<T extends Record<RevisionField, unknown>>(
+  target: T,
+  sources: T[]
+): Prisma.ItemUncheckedUpdateInput {
+  const isEmpty = (value: unknown) => value === null || value === undefined || value === ''
+  const merged: Record<string, unknown> = {}
+
+  REVISION_FIELDS.forEach(field => {
+    if (field === 'name') return
+
+    if (field === 'notes') {
+      const notes = [target.notes, ...sources.map(source => source.notes)]
+        .filter((note): note is string => typeof note === 'string' && note.trim() !== '')
+      const uniqueNotes = Array.from(new Set(notes))
+      if (uniqueNotes.length > 1) {
+        merged.notes = uniqueNotes.join('\n\n')
+      }
+      return
+    }
+
+    if (isEmpty(target[field])) {
+      const value = sources.find(source => !isEmpty(source[field]))?.[field]
+      if (!isEmpty(value)) {
+        merged[field] = value
+      }
+    }
+  })
+
+  return merged as Prisma.ItemUncheckedUpdateInput
+}
+
+/**
+ * 統合元のアイテムを統合先にまとめ、統合元をゴミ箱へ移動する
+ * - 統合先で空のフィールドは統合元の値で補い、タグ・カスタムフィールドの値を引き継ぐ（タグが1アイテムあたりの上限を超える場合は統合しない）
+ * - 画像はプランの1アイテムあたりの上限まで統合先の末尾に追加する（超えた分は統合元に残る）
+ * - 価格履歴・AI利用履歴・書類・貸出記録・リマインダーは統合先に移す
+ * @returns 統合先が見つからない場合はnull
+ */
+export async function mergeItems(
+  userId: string,
+  targetId: string,
+  sourceIds: string[]
+): Promise<MergeItemsResult | null> {
+  const itemSelect = {
+    ...revisionFieldSelect,
+    id: true,
+    images: { select: { id: true, order: true }, orderBy: { order: 'asc' as const } },
+    tags: { select: { id: true } },
+    customFieldValues: { select: { id: true, fieldId: true } },
+  }
+
+  const [target, sources, plan] = await Promise.all([
+    prisma.item.findFirst({
+      where: { id: targetId, userId, deletedAt: null },
+      select: itemSelect,
+    }),
+    prisma.item.findMany({
+      where: { id: { in: sourceIds }, userId, deletedAt: null },
+      select: itemSelect,
+    }),
+    getUserPlan(userId),
+  ])
+
+  if (!target) {
+    return null
+  }
+  if (sources.length !== sourceIds.length) {
+    throw new MergeItemsError('統合するアイテムが見つかりません。一覧を更新してください')
+  }
+
+  // 指定された順に統合する
+  const orderedSources = sourceIds.map(id => sources.find(source => source.id === id)!)
+  const mergedFields = mergeItemFields(target, orderedSources)
+
+  // 追加する画像（統合先の最後の表示順の後ろに並べる）
+  const availableSlots = Math.max(0, plan.maxImagesPerItem - target.images.length)
+  const sourceImages = orderedSources.flatMap(source => source.images)
+  const movingImages = sourceImages.slice(0, availableSlots)
+  const lastOrder = target.images.reduce((max, image) => Math.max(max, image.order), -1)
+
+  // 統合先にないカスタムフィールドの値のみ引き継ぐ
+  const fieldIds = new Set(target.customFieldValues.map(value => value.fieldId))
+  const movingValueIds: string[] = []
+  orderedSources.forEach(source => {
+    source.customFieldValues.forEach(value => {
+      if (!fieldIds.has(value.fieldId)) {
+        fieldIds.add(value.fieldId)
+        movingValueIds.push(value.id)
+      }
+    })
+  })
+
+  const tagIds = Array.from(new Set(orderedSources.flatMap(source => source.tags.map(tag => tag.id))))
+
+  const movedPriceHistory = await prisma.$transaction(async (tx) => {
+    // 統合後のタグ数は統合先の現在のタグと合わせて数える
+    const { tags: currentTags } = await tx.item.findUniqueOrThrow({
+      where: { id: targetId },
+      select: { tags: { select: { id: true } } },
+    })
+    const mergedTagCount = new Set([...currentTags.map(tag => tag.id), ...tagIds]).size
+    if (mergedTagCount > MAX_TAGS_PER_ITEM) {
+      throw new MergeItemsError(`タグは${MAX_TAGS_PER_ITEM}個まで設定できます（統合後${mergedTagCount}個になるため統合できません）`)
+    }
+
+    const { tags: _tags, images: _images, customFieldValues: _values, id: _id, ...before } = target
+    const updatedItem = await tx.item.update({
+      where: { id: targetId },
+      data: {
+        ...mergedFields,
+        tags: { connect: tagIds.map(id => ({ id })) },
+        updatedAt: new Date(),
+      },
+      select: revisionFieldSelect,
+    })
+
+    for (const [index, image] of movingImages.entries()) {
+      await tx.itemImage.update({
+        where: { id: image.id },
+        data: { itemId: targetId, order: lastOrder + 1 + index },
+      })
+    }
+
+    if (movingValueIds.length > 0) {
+      await tx.itemCustomFieldValue.updateMany({
+        where: { id: { in: movingValueIds } },
+        data: { itemId: targetId },
+      })
+    }
+
+    const { count } = await tx.priceHistory.updateMany({
+      where: { itemId: { in: sourceIds } },
+      data: { itemId: targetId },
+    })
+
+    await tx.aiUsageLog.updateMany({
+      where: { itemId: { in: sourceIds } },
+      data: { itemId: targetId },
+    })
+
+    await tx.itemDocument.updateMany({
+      where: { itemId: { in: sourceIds } },
+      data: { itemId: targetId },
+    })
+
+    await tx.itemLoan.updateMany({
+      where: { itemId: { in: sourceIds } },
+      data: { itemId: targetId },
+    })
+
+    await tx.itemReminder.updateMany({
+      where: { itemId: { in: sourceIds } },
+      data: { itemId: targetId },
+    })
+
+    await tx.item.updateMany({
+      where: { id: { in: sourceIds } },
+      data: { deletedAt: new Date() },
+    })
+
+    await recordItemRevisions(tx, [
+      { itemId: targetId, userId, action: 'update', before, after: updatedItem },
+      ...orderedSources.map(source => {
+        const { tags: _tags, images: _images, customFieldValues: _values, id: _id, ...fields } = source
+        return { itemId: source.id, userId, action: 'delete' as const, before: fields, after: fields }
+      }),
+    ])
+
+    return count
+  })
+
+  return {
+    item: { id: target.id, name: target.name },
+    mergedCount: orderedSources.length,
+    movedImages: movingImages.length,
+    skippedImages: sourceImages.length - movingImages.length,
+    movedPriceHistory,
+  }
+}
@@ -0,0 +1,175 @@
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { detailedErrorResponse } from '@/lib/validations'
+import {
+  getPlan,
+  PLAN_FEATURE_LABELS,
+  PlanDefinition,
+  PlanFeature
+} from '@/lib/plans'
+
+/**
+ * プランの上限に達した理由
+ */
+export type EntitlementReason = 'max_items' | 'max_images' | 'storage' | 'feature'
+
+/**
+ * プランの上限・機能制限によるエラー
+ */
+export class EntitlementError extends Error {
+  reason: EntitlementReason
+  details: Record<string, unknown>
+
+  constructor(message: string, reason: EntitlementReason, details: Record<string, unknown> = {}) {
+    super(message)
+    this.name = 'EntitlementError'
+    this.reason = reason
+    this.details = details
+  }
+}
+
+/**
+ * プラン制限エラーのレスポンス（403、code: PLAN_LIMIT_EXCEEDED）
+ */
+export function entitlementErrorResponse(error: EntitlementError): NextResponse {
+  return detailedErrorResponse('FORBIDDEN', error.message, 403, undefined, 'PLAN_LIMIT_EXCEEDED', {
+    reason: error.reason,
+    ...error.details,
+  })
+}
+
+const formatGigabytes = (bytes: number) => `${Math.round(bytes / 1024 / 1024 / 1024 * 10) / 10}GB`
+
+/**
+ * ユーザーのプランを取得する
+ */
+export async function getUserPlan(
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<PlanDefinition> {
+  const user = await client.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { subscriptionTier: true },
+  })
+  return getPlan(user.subscriptionTier)
+}
+
+/**
+ * 登録中のアイテム数（ゴミ箱内を除く）
+ */
+export async function countActiveItems(
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  return client.item.count({ where: { userId, deletedAt: null } })
+}
+
+/**
+ * 画像・書類の合計容量（ゴミ箱内のアイテムの分も、完全に削除されるまでは含める）
+ */
+export async function getStorageUsage(
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const [images, documents] = await Promise.all([
+    client.itemImage.aggregate({
+      where: { item: { userId } },
+      _sum: { size: true },
+    }),
+    client.itemDocument.aggregate({
+      where: { item: { userId } },
+      _sum: { size: true },
+    }),
+  ])
+  return (images._sum.size ?? 0) + (documents._sum.size ?? 0)
+}
+
+/**
+ * プランで機能が利用できることを確認する
+ * @throws EntitlementError 利用できない場合
+ */
+export async function assertFeature(userId: string, feature: PlanFeature): Promise<PlanDefinition> {
+  const plan = await getUserPlan(userId)
+  if (!plan.features[feature]) {
+    throw new EntitlementError(
+      `${PLAN_FEATURE_LABELS[feature]}は${plan.name}ではご利用いただけません`,
+      'feature',
+      { tier: plan.tier, feature }
+    )
+  }
+  return plan
+}
+
+/**
+ * アイテムをadditional件追加してもプランの上限を超えないことを確認する
+ * アイテムを追加するトランザクション内で呼び出す。ユーザーの行をロックするため、同時に作成・インポート・復元しても上限を超えない
+ * @throws EntitlementError 上限を超える場合
+ */
+export async function assertItemCapacity(
+  userId: string,
+  additional: number,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM users WHERE id = ${userId} FOR UPDATE`
+
+  const plan = await getUserPlan(userId, tx)
+  if (plan.maxItems === null) return
+
+  const current = await countActiveItems(userId, tx)
+  if (current + additional > plan.maxItems) {
+    throw new EntitlementError(
+      `${plan.name}で登録できるアイテムは${plan.maxItems}件までです（現在${current}件）`,
+      'max_items',
+      { tier: plan.tier, limit: plan.maxItems, current, requested: additional }
+    )
+  }
+}
+
+/**
+ * 1アイテムの画像をadditional枚追加してもプランの上限を超えないことを確認する
+ * @throws EntitlementError 上限を超える場合
+ */
+export function assertImageCapacity(plan: PlanDefinition, current: number, additional: number = 1): void {
+  if (current + additional > plan.maxImagesPerItem) {
+    throw new EntitlementError(
+      `このアイテムには既に${current}枚の画像が登録されています（${plan.name}の上限は${plan.maxImagesPerItem}枚）。新しい画像を追加する前に既存の画像を削除してください`,
+      'max_images',
+      { tier: plan.tier, limit: plan.maxImagesPerItem, current, requested: additional }
+    )
+  }
+}
+
+/**
+ * bytesバイトのファイルを追加してもプランの容量を超えないことを確認する
+ * @throws EntitlementError 容量を超える場合
+ */
+export async function assertStorageCapacity(userId: string, bytes: number): Promise<void> {
+  const [plan, used] = await Promise.all([getUserPlan(userId), getStorageUsage(userId)])
+  if (used + bytes > plan.storageBytes) {
+    throw new EntitlementError(
+      `${plan.name}の保存容量（${formatGigabytes(plan.storageBytes)}）を超えるため追加できません`,
+      'storage',
+      { tier: plan.tier, limit: plan.storageBytes, current: used, requested: bytes }
+    )
+  }
+}
+
+/**
+ * プランと現在の利用状況（設定画面・管理用）
+ */
+export async function getEntitlementSummary(userId: string) {
+  const [plan, items, storageBytes] = await Promise.all([
+    getUserPlan(userId),
+    countActiveItems(userId),
+    getStorageUsage(userId),
+  ])
+
+  return {
+    plan,
+    usage: {
+      items,
+      storageBytes,
+    },
+  }
+}
@@ -0,0 +1,332 @@
+import JSZip from 'jszip'
+import { readFile } from 'fs/promises'
+import { join, normalize } from 'path'
+import { prisma } from '@/lib/prisma'
+import { buildFolderPathMap } from '@/lib/import-utils'
+
+/**
+ * エクスポートアーカイブの形式識別子とバージョン
+ * インポート側はこの値で互換性を判定する
+ */
+export const EXPORT_FORMAT = 'plat-dot-export'
+export const EXPORT_VERSION = 1
+
+/**
+ * 画像ファイルを並列で取得する数
+ */
+const FILE_FETCH_CONCURRENCY = 5
+
+/**
+ * 画像ファイルの種類（ItemImageのカラム名に対応）
+ */
+type ImageFileKind = 'url' | 'thumbnailSmall' | 'thumbnailMedium' | 'thumbnailLarge'
+
+/**
+ * アーカイブに含めたファイルの情報
+ */
+export interface ExportedFile {
+  imageId: string
+  itemId: string
+  kind: ImageFileKind
+  path: string
+  sourceUrl: string
+  size: number
+}
+
+/**
+ * 取得できなかったファイルの情報
+ */
+export interface MissingFile {
+  imageId: string
+  itemId: string
+  kind: ImageFileKind
+  sourceUrl: string
+  reason: string
+}
+
+/**
+ * アーカイブ内のテーブル情報
+ */
+interface ExportedTable {
+  file: string
+  count: number
+}
+
+/**
+ * エクスポート対象の絞り込み（スマートフォルダに一致するアイテムのみ）
+ */
+export interface ExportScope {
+  smartFolder: {
+    id: string
+    name: string
+  }
+  itemIds: string[]
+}
+
+/**
+ * エクスポートのマニフェスト
+ */
+export interface ExportManifest {
+  format: typeof EXPORT_FORMAT
+  version: typeof EXPORT_VERSION
+  exportedAt: string
+  account: {
+    id: string
+    email: string
+  }
+  // スマートフォルダで絞り込んだ場合のみ
+  scope?: {
+    smartFolderId: string
+    smartFolderName: string
+    itemCount: number
+  }
+  tables: Record<string, ExportedTable>
+  csv: Record<string, ExportedTable>
+  files: ExportedFile[]
+  missingFiles: MissingFile[]
+}
+
+/**
+ * アイテムCSVの列（インポートの列名と同じにしてそのまま再インポートできるようにする）
+ */
+const ITEM_CSV_COLUMNS = [
+  'name',
+  'description',
+  'category',
+  'manufacturer',
+  'purchaseDate',
+  'purchasePrice',
+  'purchaseLocation',
+  'condition',
+  'notes',
+  'quantity',
+  'unit',
+  'storageRoom',
+  'storageShelf',
+  'storageBox',
+  'warrantyExpiresAt',
+  'folderPath',
+  'id',
+  'createdAt',
+  'updatedAt',
+] as const
+
+/**
+ * CSVの値をエスケープする
+ */
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = value instanceof Date ? value.toISOString() : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * オブジェクトの配列をCSVテキストに変換する（Excel向けにBOM付き）
+ */
+export function toCsv(columns: readonly string[], rows: Record<string, unknown>[]): string {
+  const lines = [
+    columns.join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(row[column])).join(',')),
+  ]
+  return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
+
+/**
+ * 画像の保存元（Vercel Blob または旧ローカルアップロード）からファイルを読み込む
+ */
+export async function readImageSource(url: string): Promise<Buffer> {
+  const localPrefix = ['/api/uploads/', '/uploads/'].find(prefix => url.startsWith(prefix))
+  if (localPrefix) {
+    const relativePath = normalize(url.slice(localPrefix.length))
+    if (relativePath.startsWith('..')) {
+      throw new Error('不正なファイルパスです')
+    }
+    return readFile(join(process.cwd(), 'uploads', relativePath))
+  }
+
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`)
+  }
+  return Buffer.from(await response.arrayBuffer())
+}
+
+/**
+ * アーカイブ内での画像ファイルのパスを決める（Blobのパス構成と同じ）
+ */
+function getArchiveFilePath(itemId: string, filename: string, kind: ImageFileKind): string {
+  switch (kind) {
+    case 'thumbnailSmall':
+      return `files/items/${itemId}/thumbnails/small/${filename}`
+    case 'thumbnailMedium':
+      return `files/items/${itemId}/thumbnails/medium/${filename}`
+    case 'thumbnailLarge':
+      return `files/items/${itemId}/thumbnails/large/${filename}`
+    default:
+      return `files/items/${itemId}/${filename}`
+  }
+}
+
+/**
+ * ユーザーの全データをZIPアーカイブにまとめる
+ * scope指定時はスマートフォルダに一致するアイテムと、その画像・価格履歴・AI使用履歴・貸出記録・書類情報・リマインダーのみを含める（フォルダは全件）
+ */
+export async function buildAccountExport(
+  userId: string,
+  scope?: ExportScope
+): Promise<{ zip: JSZip; manifest: ExportManifest }> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      image: true,
+      subscriptionTier: true,
+      aiUsageCount: true,
+      aiUsageLimit: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  })
+
+  const itemWhere = {
+    userId,
+    ...(scope && { id: { in: scope.itemIds } }),
+  }
+
+  const [folders, items, images, priceHistory, priceHistoryDetails, aiUsageLogs, itemLoans, itemDocuments, itemReminders] = await Promise.all([
+    prisma.folder.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.item.findMany({
+      where: itemWhere,
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.itemImage.findMany({
+      where: { item: itemWhere },
+      orderBy: [{ itemId: 'asc' }, { order: 'asc' }],
+    }),
+    prisma.priceHistory.findMany({
+      where: { item: itemWhere },
+      orderBy: { searchDate: 'asc' },
+    }),
+    prisma.priceHistoryDetail.findMany({
+      where: { priceHistory: { item: itemWhere } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.aiUsageLog.findMany({
+      where: {
+        userId,
+        ...(scope && { itemId: { in: scope.itemIds } }),
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.itemLoan.findMany({
+      where: { item: itemWhere },
+      orderBy: { lentAt: 'asc' },
+    }),
+    prisma.itemDocument.findMany({
+      where: { item: itemWhere },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.itemReminder.findMany({
+      where: { item: itemWhere },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ])
+
+  const zip = new JSZip()
+  const tables: Record<string, ExportedTable> = {}
+
+  const addTable = (name: string, rows: unknown[]) => {
+    const file = `data/${name}.json`
+    zip.file(file, JSON.stringify(rows, null, 2))
+    tables[name] = { file, count: rows.length }
+  }
+
+  addTable('user', [user])
+  addTable('folders', folders)
+  addTable('items', items)
+  addTable('item_images', images)
+  addTable('price_history', priceHistory)
+  addTable('price_history_details', priceHistoryDetails)
+  addTable('ai_usage_logs', aiUsageLogs)
+  addTable('item_loans', itemLoans)
+  addTable('item_documents', itemDocuments)
+  addTable('item_reminders', itemReminders)
+
+  // アイテムCSV（フォルダはパス表記）
+  const folderPaths = new Map(
+    Array.from(buildFolderPathMap(folders)).map(([path, id]) => [id, path])
+  )
+  const itemRows = items.map(item => ({
+    ...item,
+    purchaseDate: item.purchaseDate ? item.purchaseDate.toISOString().slice(0, 10) : '',
+    purchasePrice: item.purchasePrice?.toString() ?? '',
+    warrantyExpiresAt: item.warrantyExpiresAt ? item.warrantyExpiresAt.toISOString().slice(0, 10) : '',
+    folderPath: item.folderId ? folderPaths.get(item.folderId) ?? '' : '',
+  }))
+  zip.file('csv/items.csv', toCsv(ITEM_CSV_COLUMNS, itemRows))
+  const csv = { items: { file: 'csv/items.csv', count: itemRows.length } }
+
+  // 画像ファイルとサムネイル
+  const files: ExportedFile[] = []
+  const missingFiles: MissingFile[] = []
+  const kinds: ImageFileKind[] = ['url', 'thumbnailSmall', 'thumbnailMedium', 'thumbnailLarge']
+
+  const targets = images.flatMap(image =>
+    kinds
+      .map(kind => ({ image, kind, sourceUrl: image[kind] }))
+      // サムネイル生成失敗時は元画像URLが入っているため重複を除外
+      .filter((target): target is { image: typeof image; kind: ImageFileKind; sourceUrl: string } =>
+        !!target.sourceUrl && (target.kind === 'url' || target.sourceUrl !== target.image.url)
+      )
+  )
+
+  for (let i = 0; i < targets.length; i += FILE_FETCH_CONCURRENCY) {
+    const chunk = targets.slice(i, i + FILE_FETCH_CONCURRENCY)
+    await Promise.all(chunk.map(async ({ image, kind, sourceUrl }) => {
+      try {
+        const buffer = await readImageSource(sourceUrl)
+        const path = getArchiveFilePath(image.itemId, image.filename, kind)
+        zip.file(path, buffer)
+        files.push({ imageId: image.id, itemId: image.itemId, kind, path, sourceUrl, size: buffer.length })
+      } catch (error) {
+        console.warn(`Failed to export file: ${sourceUrl}`, error)
+        missingFiles.push({
+          imageId: image.id,
+          itemId: image.itemId,
+          kind,
+          sourceUrl,
+          reason: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }))
+  }
+
+  const manifest: ExportManifest = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    account: {
+      id: user.id,
+      email: user.email,
+    },
+    ...(scope && {
+      scope: {
+        smartFolderId: scope.smartFolder.id,
+        smartFolderName: scope.smartFolder.name,
+        itemCount: items.length,
+      },
+    }),
+    tables,
+    csv,
+    files,
+    missingFiles,
+  }
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2))
+
+  return { zip, manifest }
+}
@@ -0,0 +1,202 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { FolderDeleteMode } from '@/lib/validations/folder'
+
+/**
+ * 削除モードごとの影響
+ */
+export interface FolderDeleteModeEffect {
+  allowed: boolean
+  reason?: string
+  movedFolders: number
+  movedItems: number
+  deletedFolders: number
+  deletedItems: number
+  deletedImages: number
+}
+
+/**
+ * フォルダ削除のプレビュー
+ */
+export interface FolderDeletionPreview {
+  folder: {
+    id: string
+    name: string
+    parentId: string | null
+  }
+  parent: {
+    id: string
+    name: string
+  } | null
+  counts: {
+    subfolders: number
+    directSubfolders: number
+    items: number
+    totalItems: number
+    images: number
+  }
+  subtreeFolderIds: string[]
+  conflicts: string[]
+  modes: Record<FolderDeleteMode, FolderDeleteModeEffect>
+}
+
+/**
+ * 指定フォルダとその全子孫フォルダのIDを取得する（指定フォルダが先頭）
+ * @param deletedAt nullの場合は通常のフォルダ、日時の場合は同時にゴミ箱へ移動したフォルダのみを対象にする
+ */
+export async function getFolderSubtreeIds(
+  userId: string,
+  folderId: string,
+  deletedAt: Date | null = null,
+  client: Prisma.TransactionClient = prisma
+): Promise<string[]> {
+  const folders = await client.folder.findMany({
+    where: { userId, deletedAt },
+    select: { id: true, parentId: true },
+  })
+
+  const childrenMap = new Map<string, string[]>()
+  folders.forEach(folder => {
+    if (!folder.parentId) return
+    const siblings = childrenMap.get(folder.parentId) || []
+    siblings.push(folder.id)
+    childrenMap.set(folder.parentId, siblings)
+  })
+
+  const ids: string[] = []
+  const queue = [folderId]
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    if (ids.includes(id)) continue
+    ids.push(id)
+    queue.push(...(childrenMap.get(id) || []))
+  }
+
+  return ids
+}
+
+/**
+ * フォルダ削除時に影響を受けるフォルダ・アイテム・画像の数を集計する
+ * @returns フォルダが存在しない場合はnull
+ */
+export async function buildFolderDeletionPreview(
+  userId: string,
+  folderId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<FolderDeletionPreview | null> {
+  const folder = await client.folder.findFirst({
+    where: {
+      id: folderId,
+      userId,
+      deletedAt: null,
+    },
+    include: {
+      parent: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      children: {
+        where: {
+          deletedAt: null,
+        },
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  })
+
+  if (!folder) {
+    return null
+  }
+
+  const subtreeFolderIds = await getFolderSubtreeIds(userId, folder.id, null, client)
+
+  const [items, totalItems, images, siblings] = await Promise.all([
+    client.item.count({
+      where: { userId, folderId: folder.id, deletedAt: null },
+    }),
+    client.item.count({
+      where: { userId, folderId: { in: subtreeFolderIds }, deletedAt: null },
+    }),
+    client.itemImage.count({
+      where: { item: { userId, folderId: { in: subtreeFolderIds }, deletedAt: null } },
+    }),
+    client.folder.findMany({
+      where: {
+        userId,
+        parentId: folder.parentId,
+        id: { not: folder.id },
+        deletedAt: null,
+      },
+      select: { name: true },
+    }),
+  ])
+
+  // 親フォルダへ移動した際に同名になるサブフォルダ
+  const siblingNames = new Set(siblings.map(sibling => sibling.name))
+  const conflicts = folder.children
+    .map(child => child.name)
+    .filter(name => siblingNames.has(name))
+
+  const subfolders = subtreeFolderIds.length - 1
+  const none = { movedFolders: 0, movedItems: 0, deletedFolders: 0, deletedItems: 0, deletedImages: 0 }
+
+  const modes: Record<FolderDeleteMode, FolderDeleteModeEffect> = {
+    // 従来の削除: サブフォルダがある場合は削除せず、アイテムは未分類に移す
+    reject: {
+      ...none,
+      allowed: subfolders === 0,
+      reason: subfolders > 0
+        ? `このフォルダには${subfolders}個のサブフォルダが存在するため削除できません。先にサブフォルダを削除してください`
+        : undefined,
+      movedItems: items,
+      deletedFolders: 1,
+    },
+    move_to_parent: {
+      ...none,
+      allowed: conflicts.length === 0,
+      reason: conflicts.length > 0
+        ? `移動先に同名のフォルダ（${conflicts.join('、')}）が存在するため移動できません`
+        : undefined,
+      movedFolders: folder.children.length,
+      movedItems: items,
+      deletedFolders: 1,
+    },
+    move_to_uncategorized: {
+      ...none,
+      allowed: true,
+      movedItems: totalItems,
+      deletedFolders: subtreeFolderIds.length,
+    },
+    delete_all: {
+      ...none,
+      allowed: true,
+      deletedFolders: subtreeFolderIds.length,
+      deletedItems: totalItems,
+      deletedImages: images,
+    },
+  }
+
+  return {
+    folder: {
+      id: folder.id,
+      name: folder.name,
+      parentId: folder.parentId,
+    },
+    parent: folder.parent,
+    counts: {
+      subfolders,
+      directSubfolders: folder.children.length,
+      items,
+      totalItems,
+      images,
+    },
+    subtreeFolderIds,
+    conflicts,
+    modes,
+  }
+}
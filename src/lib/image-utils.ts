@@ -2,7 +2,7 @@ import sharp from 'sharp'
 import { writeFile, mkdir } from 'fs/promises'
 import { join } from 'path'
 import { existsSync } from 'fs'
-import { put } from '@vercel/blob'
+import { put, del } from '@vercel/blob'
 
 /**
  * サムネイルサイズの設定
@@ -223,4 +223,95 @@ export async function generateBlobThumbnails(
     console.error('Failed to generate blob thumbnails:', error)
     throw new Error('サムネイルの生成に失敗しました')
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 画像の知覚ハッシュ（dHash）を計算する
+ * 9x8のグレースケールに縮小し、横に隣り合う画素の明暗を64ビットにした16桁の16進数を返す
+ */
+export async function computePerceptualHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer()
+
+  let hash = ''
+  for (let row = 0; row < 8; row++) {
+    let nibble = 0
+    for (let col = 0; col < 8; col++) {
+      nibble = (nibble << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0)
+      if (col % 4 === 3) {
+        hash += nibble.toString(16)
+        nibble = 0
+      }
+    }
+  }
+  return hash
+}
+
+/**
+ * 2つの知覚ハッシュの異なるビット数（ハミング距離）
+ */
+export function perceptualHashDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i += 8) {
+    let diff = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0
+    while (diff) {
+      diff &= diff - 1
+      distance++
+    }
+  }
+  return distance
+}
+
+/**
+ * Blob削除の結果
+ */
+export interface BlobDeletionResult {
+  deleted: string[]
+  failed: Array<{ url: string; reason: string }>
+}
+
+/**
+ * 画像1件分の削除対象URL（元画像とサムネイル、重複は除外）
+ */
+export function getImageBlobUrls(image: {
+  url: string
+  thumbnailSmall?: string | null
+  thumbnailMedium?: string | null
+  thumbnailLarge?: string | null
+}): string[] {
+  const urls = [image.url, image.thumbnailSmall, image.thumbnailMedium, image.thumbnailLarge]
+  return Array.from(new Set(urls.filter((url): url is string => !!url)))
+}
+
+/**
+ * Vercel Blobから画像とサムネイルを削除する
+ * 個別の削除に失敗しても処理は続行し、失敗したURLを結果として返す
+ */
+export async function deleteImageBlobs(
+  images: Array<Parameters<typeof getImageBlobUrls>[0]>
+): Promise<BlobDeletionResult> {
+  const urlsToDelete = Array.from(new Set(images.flatMap(getImageBlobUrls)))
+  const result: BlobDeletionResult = { deleted: [], failed: [] }
+
+  // 全てのURLを並列で削除
+  const results = await Promise.allSettled(urlsToDelete.map(url => del(url)))
+
+  results.forEach((settled, index) => {
+    const url = urlsToDelete[index]
+    if (settled.status === 'fulfilled') {
+      console.log(`Deleted blob: ${url}`)
+      result.deleted.push(url)
+    } else {
+      console.warn(`Failed to delete blob: ${url}`, settled.reason)
+      result.failed.push({
+        url,
+        reason: settled.reason instanceof Error ? settled.reason.message : 'Unknown error',
+      })
+    }
+  })
+
+  return result
+}
@@ -0,0 +1,409 @@
+import { Prisma } from '@prisma/client'
+import { createItemSchema, createFolderSchema, formatZodError } from '@/lib/validations'
+import {
+  importFieldNames,
+  ImportFieldName,
+  MAX_IMPORT_ROWS,
+} from '@/lib/validations/import'
+
+/**
+ * フォルダ階層の上限（フォルダAPIと同じ3階層）
+ */
+const MAX_FOLDER_DEPTH = 3
+
+/**
+ * ヘッダー名 → フィールド名の自動判定用エイリアス
+ */
+const FIELD_ALIASES: Record<ImportFieldName, string[]> = {
+  name: ['name', '商品名', '名前', 'アイテム名'],
+  description: ['description', '説明'],
+  category: ['category', 'カテゴリ', 'カテゴリー'],
+  manufacturer: ['manufacturer', 'メーカー', 'ブランド'],
+  purchaseDate: ['purchasedate', 'purchase_date', '購入日'],
+  purchasePrice: ['purchaseprice', 'purchase_price', 'price', '購入価格', '価格'],
+  purchaseLocation: ['purchaselocation', 'purchase_location', '購入場所', '購入店'],
+  condition: ['condition', '状態'],
+  notes: ['notes', 'note', 'メモ', '備考'],
+  quantity: ['quantity', 'qty', '数量', '個数'],
+  unit: ['unit', '単位'],
+  storageRoom: ['storageroom', 'storage_room', 'room', '部屋'],
+  storageShelf: ['storageshelf', 'storage_shelf', 'shelf', '棚'],
+  storageBox: ['storagebox', 'storage_box', 'box', '箱'],
+  warrantyExpiresAt: ['warrantyexpiresat', 'warranty_expires_at', 'warranty', '保証期限'],
+  folderPath: ['folderpath', 'folder_path', 'folder', 'フォルダ', 'フォルダパス'],
+}
+
+/**
+ * 解析済みの表データ
+ */
+export interface ParsedTable {
+  columns: string[]
+  rows: Record<string, unknown>[]
+}
+
+/**
+ * 1行分の検証結果
+ */
+export interface ImportRowResult {
+  row: number
+  valid: boolean
+  errors?: Record<string, string[]>
+  data?: {
+    name: string
+    category?: string
+    manufacturer?: string
+    purchaseDate?: string
+    purchasePrice?: number
+    folderPath?: string
+  }
+}
+
+/**
+ * 検証済みの行（保存用）
+ */
+export interface ValidImportRow {
+  row: number
+  item: Omit<Prisma.ItemUncheckedCreateInput, 'userId' | 'folderId'>
+  folderSegments: string[]
+}
+
+/**
+ * インポートエラー（ファイル自体が解析できない場合）
+ */
+export class ImportParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportParseError'
+  }
+}
+
+/**
+ * CSVテキストを解析する（RFC 4180準拠、ダブルクォート・改行を含むフィールド対応）
+ */
+export function parseCsv(content: string): ParsedTable {
+  const text = content.replace(/^\uFEFF/, '')
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) {
+    throw new ImportParseError('CSVのダブルクォートが閉じられていません')
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  // 空行を除外
+  const nonEmpty = records.filter(r => r.some(value => value.trim() !== ''))
+  if (nonEmpty.length === 0) {
+    throw new ImportParseError('CSVにデータがありません')
+  }
+
+  const columns = nonEmpty[0].map(column => column.trim())
+  const rows = nonEmpty.slice(1).map(values => {
+    const row: Record<string, unknown> = {}
+    columns.forEach((column, index) => {
+      row[column] = values[index] ?? ''
+    })
+    return row
+  })
+
+  return { columns, rows }
+}
+
+// JSONのオブジェクト（配列・nullを除く）かどうか
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * JSONテキストを解析する（配列、または { items: [...] } 形式）
+ */
+export function parseJson(content: string): ParsedTable {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content.replace(/^\uFEFF/, ''))
+  } catch {
+    throw new ImportParseError('JSONの形式が正しくありません')
+  }
+
+  const list: unknown[] | null = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === 'object' && parsed !== null && 'items' in parsed && Array.isArray(parsed.items)
+      ? parsed.items
+      : null
+
+  if (!list) {
+    throw new ImportParseError('JSONは配列、または items 配列を持つオブジェクトである必要があります')
+  }
+
+  const rows = list.filter(isJsonObject)
+  if (rows.length !== list.length) {
+    throw new ImportParseError('JSONの各要素はオブジェクトである必要があります')
+  }
+
+  const columns: string[] = []
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!columns.includes(key)) columns.push(key)
+    })
+  })
+
+  return { columns, rows }
+}
+
+/**
+ * 形式に応じてインポートデータを解析する
+ */
+export function parseImportContent(format: 'csv' | 'json', content: string): ParsedTable {
+  const table = format === 'csv' ? parseCsv(content) : parseJson(content)
+
+  if (table.rows.length === 0) {
+    throw new ImportParseError('インポートする行がありません')
+  }
+
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportParseError(`一度にインポートできるのは${MAX_IMPORT_ROWS}行までです`)
+  }
+
+  return table
+}
+
+/**
+ * ヘッダー名からフィールドを自動判定し、指定されたマッピングで上書きする
+ */
+export function resolveColumnMapping(
+  columns: string[],
+  overrides: Record<string, ImportFieldName | ''> = {}
+): Record<string, ImportFieldName | ''> {
+  const mapping: Record<string, ImportFieldName | ''> = {}
+
+  columns.forEach(column => {
+    if (column in overrides) {
+      mapping[column] = overrides[column]
+      return
+    }
+
+    const normalized = column.trim().toLowerCase().replace(/\s+/g, '')
+    const field = importFieldNames.find(name => FIELD_ALIASES[name].includes(normalized))
+    mapping[column] = field || ''
+  })
+
+  return mapping
+}
+
+/**
+ * フォルダパス（例: 家電/キッチン）を階層ごとの名前に分解する
+ */
+export function splitFolderPath(path: string): string[] {
+  return path
+    .split('/')
+    .map(segment => segment.trim())
+    .filter(segment => segment !== '')
+}
+
+/**
+ * 行の値をスキーマ入力用に正規化する
+ */
+function normalizeValue(field: ImportFieldName, value: unknown): unknown {
+  if (value === null || value === undefined) return undefined
+  if ((field === 'purchasePrice' || field === 'quantity') && typeof value === 'number') return value
+  if (typeof value === 'string') {
+    // 価格の「¥1,500」「1,500円」表記を許容
+    if (field === 'purchasePrice') {
+      return value.replace(/[¥￥,円\s]/g, '')
+    }
+    return value
+  }
+  return String(value)
+}
+
+/**
+ * 全行を検証し、結果と保存可能な行を返す
+ */
+export function validateImportRows(
+  table: ParsedTable,
+  mapping: Record<string, ImportFieldName | ''>
+): { results: ImportRowResult[]; validRows: ValidImportRow[] } {
+  const results: ImportRowResult[] = []
+  const validRows: ValidImportRow[] = []
+
+  table.rows.forEach((source, index) => {
+    // データ行を1から数える（ヘッダー行は含めない）
+    const rowNumber = index + 1
+    const input: Record<string, unknown> = {}
+    let folderPath: string | undefined
+
+    Object.entries(mapping).forEach(([column, field]) => {
+      if (!field) return
+      const value = normalizeValue(field, source[column])
+      if (field === 'folderPath') {
+        folderPath = typeof value === 'string' ? value : undefined
+      } else {
+        input[field] = value
+      }
+    })
+
+    const errors: Record<string, string[]> = {}
+
+    const parsed = createItemSchema.safeParse(input)
+    if (!parsed.success) {
+      Object.assign(errors, formatZodError(parsed.error))
+    }
+
+    const folderSegments = folderPath ? splitFolderPath(folderPath) : []
+    if (folderSegments.length > MAX_FOLDER_DEPTH) {
+      errors.folderPath = [`フォルダの階層は${MAX_FOLDER_DEPTH}階層までです`]
+    } else {
+      folderSegments.forEach(segment => {
+        const result = createFolderSchema.shape.name.safeParse(segment)
+        if (!result.success) {
+          errors.folderPath = [
+            ...(errors.folderPath || []),
+            ...result.error.errors.map(err => `「${segment}」: ${err.message}`),
+          ]
+        }
+      })
+    }
+
+    if (!parsed.success || Object.keys(errors).length > 0) {
+      results.push({ row: rowNumber, valid: false, errors })
+      return
+    }
+
+    const { folderId: _folderId, tags: _tags, customFields: _customFields, ...data } = parsed.data
+    const item: ValidImportRow['item'] = { ...data }
+    if (data.purchasePrice !== undefined) {
+      item.purchasePrice = new Prisma.Decimal(data.purchasePrice)
+    }
+
+    validRows.push({ row: rowNumber, item, folderSegments })
+    results.push({
+      row: rowNumber,
+      valid: true,
+      data: {
+        name: data.name,
+        category: data.category,
+        manufacturer: data.manufacturer,
+        purchaseDate: data.purchaseDate?.toISOString(),
+        purchasePrice: data.purchasePrice,
+        folderPath: folderSegments.length > 0 ? folderSegments.join('/') : undefined,
+      },
+    })
+  })
+
+  return { results, validRows }
+}
+
+/**
+ * ユーザーの既存フォルダを「パス → ID」のマップにする
+ */
+export function buildFolderPathMap(
+  folders: Array<{ id: string; name: string; parentId: string | null }>
+): Map<string, string> {
+  const byId = new Map(folders.map(folder => [folder.id, folder]))
+  const pathMap = new Map<string, string>()
+
+  const resolvePath = (folderId: string, guard = 0): string | null => {
+    const folder = byId.get(folderId)
+    if (!folder || guard > MAX_FOLDER_DEPTH) return null
+    if (!folder.parentId) return folder.name
+    const parentPath = resolvePath(folder.parentId, guard + 1)
+    return parentPath ? `${parentPath}/${folder.name}` : null
+  }
+
+  folders.forEach(folder => {
+    const path = resolvePath(folder.id)
+    if (path) pathMap.set(path, folder.id)
+  })
+
+  return pathMap
+}
+
+/**
+ * 存在しないため新規作成が必要なフォルダパスを浅い順に列挙する
+ */
+export function findMissingFolderPaths(
+  rows: ValidImportRow[],
+  pathMap: Map<string, string>
+): string[] {
+  const missing = new Set<string>()
+
+  rows.forEach(({ folderSegments }) => {
+    folderSegments.forEach((_, index) => {
+      const path = folderSegments.slice(0, index + 1).join('/')
+      if (!pathMap.has(path)) missing.add(path)
+    })
+  })
+
+  return Array.from(missing).sort((a, b) => a.split('/').length - b.split('/').length)
+}
+
+/**
+ * フォルダパスを解決し、存在しない階層はトランザクション内で作成する
+ * @returns 「パス → フォルダID」のマップ（作成したフォルダを含む）
+ */
+export async function ensureFolderPaths(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  rows: ValidImportRow[]
+): Promise<{ pathMap: Map<string, string>; createdPaths: string[] }> {
+  const folders = await tx.folder.findMany({
+    where: { userId, deletedAt: null },
+    select: { id: true, name: true, parentId: true },
+  })
+
+  const pathMap = buildFolderPathMap(folders)
+  const createdPaths = findMissingFolderPaths(rows, pathMap)
+
+  for (const path of createdPaths) {
+    const segments = path.split('/')
+    const name = segments[segments.length - 1]
+    const parentPath = segments.slice(0, -1).join('/')
+    const parentId = parentPath ? pathMap.get(parentPath) ?? null : null
+
+    const folder = await tx.folder.create({
+      data: { name, parentId, userId },
+      select: { id: true },
+    })
+    pathMap.set(path, folder.id)
+  }
+
+  return { pathMap, createdPaths }
+}
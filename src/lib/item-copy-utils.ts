@@ -0,0 +1,172 @@
+import { put } from '@vercel/blob'
+import { randomBytes } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { readImageSource } from '@/lib/export-utils'
+import { generateBlobThumbnails } from '@/lib/image-utils'
+import { recordItemRevision } from '@/lib/revision-utils'
+import { assertItemCapacity, assertStorageCapacity } from '@/lib/entitlements'
+
+// 商品名の最大文字数（validations/item と同じ）
+const MAX_ITEM_NAME_LENGTH = 100
+
+const COPY_NAME_SUFFIX = '（コピー）'
+
+/**
+ * 複製の結果
+ */
+export interface DuplicateItemResult {
+  item: { id: string; name: string }
+  copiedImages: number
+  failedImages: number
+}
+
+// 複製したアイテムの名前（商品名の上限を超える場合は元の名前を切り詰める）
+function buildCopyName(name: string): string {
+  return name.slice(0, MAX_ITEM_NAME_LENGTH - COPY_NAME_SUFFIX.length) + COPY_NAME_SUFFIX
+}
+
+// コピー先のファイル名（タイムスタンプ + ランダム文字列、拡張子は元のまま）
+function generateCopyFileName(originalName: string): string {
+  const extension = originalName.toLowerCase().match(/\.[^.]+$/)?.[0] || '.jpg'
+  return `${Date.now()}-${randomBytes(8).toString('hex')}${extension}`
+}
+
+/**
+ * アイテムを複製する
+ * フィールド・タグ・カスタムフィールドの値をコピーし、includeImages の場合は画像を新しいBlobパスにコピーする
+ * 価格履歴・変更履歴・貸出記録はコピーしない
+ * @returns 複製元が見つからない場合はnull
+ * @throws EntitlementError プランのアイテム数・容量の上限を超える場合
+ */
+export async function duplicateItem(
+  userId: string,
+  itemId: string,
+  { includeImages }: { includeImages: boolean }
+): Promise<DuplicateItemResult | null> {
+  const source = await prisma.item.findFirst({
+    where: { id: itemId, userId, deletedAt: null },
+    include: {
+      tags: { select: { id: true } },
+      customFieldValues: {
+        select: {
+          fieldId: true,
+          textValue: true,
+          numberValue: true,
+          dateValue: true,
+          booleanValue: true,
+        },
+      },
+      images: { orderBy: { order: 'asc' } },
+    },
+  })
+
+  if (!source) {
+    return null
+  }
+
+  // 複製元のフォルダがゴミ箱にある場合は未分類に複製する
+  const folder = source.folderId
+    ? await prisma.folder.findFirst({
+      where: { id: source.folderId, userId, deletedAt: null },
+      select: { id: true },
+    })
+    : null
+
+  // 画像をコピーする場合は、コピー分の容量がプランに収まることを先に確認する
+  if (includeImages && source.images.length > 0) {
+    await assertStorageCapacity(userId, source.images.reduce((sum, image) => sum + image.size, 0))
+  }
+
+  const item = await prisma.$transaction(async (tx) => {
+    await assertItemCapacity(userId, 1, tx)
+
+    const createdItem = await tx.item.create({
+      data: {
+        name: buildCopyName(source.name),
+        description: source.description,
+        category: source.category,
+        manufacturer: source.manufacturer,
+        purchaseDate: source.purchaseDate,
+        purchasePrice: source.purchasePrice,
+        purchaseLocation: source.purchaseLocation,
+        condition: source.condition,
+        notes: source.notes,
+        quantity: source.quantity,
+        unit: source.unit,
+        storageRoom: source.storageRoom,
+        storageShelf: source.storageShelf,
+        storageBox: source.storageBox,
+        warrantyExpiresAt: source.warrantyExpiresAt,
+        folderId: folder?.id ?? null,
+        userId,
+        tags: { connect: source.tags },
+      },
+    })
+
+    if (source.customFieldValues.length > 0) {
+      await tx.itemCustomFieldValue.createMany({
+        data: source.customFieldValues.map(value => ({ ...value, itemId: createdItem.id })),
+      })
+    }
+
+    await recordItemRevision(tx, {
+      itemId: createdItem.id,
+      userId,
+      action: 'create',
+      before: null,
+      after: createdItem,
+    })
+
+    return createdItem
+  })
+
+  // 画像は複製先のパスにアップロードし直す（複製元の画像を削除しても影響しないように）
+  let copiedImages = 0
+  let failedImages = 0
+  if (includeImages) {
+    for (const image of source.images) {
+      try {
+        const buffer = await readImageSource(image.url)
+        const fileName = generateCopyFileName(image.filename)
+        const blob = await put(`items/${item.id}/${fileName}`, buffer, {
+          access: 'public',
+          contentType: image.mimeType,
+        })
+
+        let thumbnails
+        try {
+          thumbnails = await generateBlobThumbnails(buffer, fileName, item.id)
+        } catch (error) {
+          console.warn('Failed to generate thumbnails:', error)
+          thumbnails = { small: blob.url, medium: blob.url, large: blob.url }
+        }
+
+        await prisma.itemImage.create({
+          data: {
+            itemId: item.id,
+            url: blob.url,
+            filename: fileName,
+            mimeType: image.mimeType,
+            size: image.size,
+            order: copiedImages,
+            thumbnailSmall: thumbnails.small,
+            thumbnailMedium: thumbnails.medium,
+            thumbnailLarge: thumbnails.large,
+            perceptualHash: image.perceptualHash,
+          },
+        })
+        copiedImages++
+      } catch (error) {
+        // コピーできなかった画像があってもアイテムの複製は成功として扱う
+        console.error(`Failed to copy image ${image.id}:`, error)
+        failedImages++
+      }
+    }
+  }
+
+  return {
+    item: { id: item.id, name: item.name },
+    copiedImages,
+    failedImages,
+  }
+}
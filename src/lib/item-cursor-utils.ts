@@ -0,0 +1,141 @@
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+
+/**
+ * カーソルページネーションで並び替えに使う列（価格は purchasePrice）
+ */
+export type ItemKeysetSortField = 'createdAt' | 'updatedAt' | 'name' | 'purchaseDate' | 'purchasePrice'
+
+/**
+ * アイテム一覧のカーソル
+ * - keyset: 前ページ末尾の並び替え値とID（orderBy で並び替えられる項目）
+ * - offset: 取得済みの件数（関連度・カスタムフィールドのようにメモリ上で並び替える項目）
+ */
+export type ItemCursor =
+  | { sort: string; value: string | null; id: string }
+  | { sort: string; offset: number }
+
+// 復元したカーソルの形式（keyset / offset）
+const itemCursorSchema = z.union([
+  z.object({ sort: z.string(), value: z.string().nullable(), id: z.string().min(1) }),
+  z.object({ sort: z.string(), offset: z.number().int().min(0) }),
+])
+
+/**
+ * カーソルが不正、または現在の並び順と一致しない場合のエラー
+ */
+export class ItemCursorError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ItemCursorError'
+  }
+}
+
+// 未入力を許す列（未入力は並び順に関わらず末尾）
+const nullableSortFields: ItemKeysetSortField[] = ['purchaseDate', 'purchasePrice']
+const dateSortFields: ItemKeysetSortField[] = ['createdAt', 'updatedAt', 'purchaseDate']
+
+/**
+ * カーソルを不透明な文字列にする
+ */
+export function encodeItemCursor(cursor: ItemCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+/**
+ * カーソル文字列を復元する（空文字は先頭ページとしてnull）
+ * @param sortKey 現在の並び順（「並び替え項目:昇降順」）。カーソル作成時と異なる場合はエラー
+ * @param sortField 並び替えに使う列（カーソルの値の形式の確認に使う）
+ */
+export function decodeItemCursor(value: string, sortKey: string, sortField: ItemKeysetSortField): ItemCursor | null {
+  if (value === '') {
+    return null
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+  } catch {
+    throw new ItemCursorError('カーソルが無効です。一覧を再読み込みしてください')
+  }
+
+  const parsed = itemCursorSchema.safeParse(json)
+  if (!parsed.success) {
+    throw new ItemCursorError('カーソルが無効です。一覧を再読み込みしてください')
+  }
+
+  const cursor: ItemCursor = parsed.data
+  if (cursor.sort !== sortKey) {
+    throw new ItemCursorError('並び順が変更されたため、一覧を再読み込みしてください')
+  }
+
+  // 並び替え値は条件の組み立てに使うため、項目に合った形式か確認する
+  if ('id' in cursor && cursor.value !== null && !isValidCursorValue(sortField, cursor.value)) {
+    throw new ItemCursorError('カーソルが無効です。一覧を再読み込みしてください')
+  }
+
+  return cursor
+}
+
+// 並び替え項目に対してカーソルの値が有効か（日時はISO形式、価格は数値）
+function isValidCursorValue(sortField: ItemKeysetSortField, value: string): boolean {
+  if (dateSortFields.includes(sortField)) {
+    return !Number.isNaN(Date.parse(value))
+  }
+  if (sortField === 'purchasePrice') {
+    return /^-?\d+(\.\d+)?$/.test(value)
+  }
+  return true
+}
+
+/**
+ * 並び替え条件（同じ値の間はIDで順序を固定し、未入力は末尾に置く）
+ */
+export function buildItemOrderBy(
+  sortField: ItemKeysetSortField,
+  order: 'asc' | 'desc'
+): Prisma.ItemOrderByWithRelationInput[] {
+  const primary = nullableSortFields.includes(sortField)
+    ? { [sortField]: { sort: order, nulls: 'last' } }
+    : { [sortField]: order }
+
+  return [primary, { id: order }]
+}
+
+/**
+ * アイテムの並び替え値をカーソルに保存できる形にする
+ */
+export function itemCursorValue(
+  item: Record<ItemKeysetSortField, Date | Prisma.Decimal | string | null>,
+  sortField: ItemKeysetSortField
+): string | null {
+  const value = item[sortField]
+  if (value === null) return null
+  return value instanceof Date ? value.toISOString() : value.toString()
+}
+
+/**
+ * カーソルより後ろのアイテムを取得する条件（buildItemOrderBy と同じ並び順が前提）
+ */
+export function buildItemCursorWhere(
+  sortField: ItemKeysetSortField,
+  order: 'asc' | 'desc',
+  cursor: Extract<ItemCursor, { id: string }>
+): Prisma.ItemWhereInput {
+  const comparison = order === 'asc' ? 'gt' : 'lt'
+  const afterId = { id: { [comparison]: cursor.id } }
+
+  // 未入力の値は末尾にあるため、未入力同士の中でIDが後ろのものだけが続く
+  if (cursor.value === null) {
+    return { [sortField]: null, ...afterId }
+  }
+
+  const value = dateSortFields.includes(sortField) ? new Date(cursor.value) : cursor.value
+  return {
+    OR: [
+      { [sortField]: { [comparison]: value } },
+      { [sortField]: value, ...afterId },
+      ...(nullableSortFields.includes(sortField) ? [{ [sortField]: null }] : []),
+    ],
+  }
+}
@@ -0,0 +1,119 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { ItemFacetKey } from '@/lib/item-filter-utils'
+
+/**
+ * 購入価格の集計区分（円、上限を含む。上限なしはnull）
+ */
+export const PRICE_BUCKETS: Array<{ min: number; max: number | null }> = [
+  { min: 0, max: 999 },
+  { min: 1000, max: 4999 },
+  { min: 5000, max: 9999 },
+  { min: 10000, max: 49999 },
+  { min: 50000, max: 99999 },
+  { min: 100000, max: null },
+]
+
+/**
+ * ファセットごとの件数（件数が0の選択肢は含まない）
+ */
+export interface ItemFacetCounts {
+  category: Record<string, number>
+  manufacturer: Record<string, number>
+  condition: Record<string, number>
+  // フォルダIDごとの件数（サブフォルダを含む絞り込みではサブフォルダの件数も合算）
+  folder: Record<string, number>
+  price: Array<{ min: number; max: number | null; count: number }>
+}
+
+// 値ごとの件数を集計する（未入力・空文字は除く）
+async function countByField(
+  field: 'category' | 'manufacturer' | 'condition' | 'folderId',
+  where: Prisma.ItemWhereInput
+): Promise<Record<string, number>> {
+  const groups = await prisma.item.groupBy({
+    by: [field],
+    where,
+    _count: { _all: true },
+  })
+
+  const counts: Record<string, number> = {}
+  groups.forEach(group => {
+    const value = group[field]
+    if (value && value.trim() !== '') {
+      counts[value] = group._count._all
+    }
+  })
+  return counts
+}
+
+// フォルダごとの件数にサブフォルダの件数を合算する
+function sumFolderSubtreeCounts(
+  counts: Record<string, number>,
+  folders: Array<{ id: string; parentId: string | null }>
+): Record<string, number> {
+  const childrenMap = new Map<string, string[]>()
+  folders.forEach(folder => {
+    if (folder.parentId) {
+      childrenMap.set(folder.parentId, [...(childrenMap.get(folder.parentId) ?? []), folder.id])
+    }
+  })
+
+  const totals: Record<string, number> = {}
+  const sumSubtree = (folderId: string, visited: Set<string>): number => {
+    if (visited.has(folderId)) return 0
+    visited.add(folderId)
+    return (counts[folderId] ?? 0) +
+      (childrenMap.get(folderId) ?? []).reduce((sum, childId) => sum + sumSubtree(childId, visited), 0)
+  }
+
+  folders.forEach(folder => {
+    const total = sumSubtree(folder.id, new Set())
+    if (total > 0) {
+      totals[folder.id] = total
+    }
+  })
+  return totals
+}
+
+/**
+ * ファセットごとの件数を集計する
+ * @param wheres buildItemFacetWheres で組み立てた、各ファセット自身の絞り込みを除いた検索条件
+ * @param folders フォルダ一覧（サブフォルダを含む場合の合算に使用）
+ */
+export async function countItemFacets(
+  wheres: Record<ItemFacetKey, Prisma.ItemWhereInput>,
+  folders: Array<{ id: string; parentId: string | null }>,
+  includeSubfolders: boolean
+): Promise<ItemFacetCounts> {
+  const [category, manufacturer, condition, folderCounts, price] = await Promise.all([
+    countByField('category', wheres.category),
+    countByField('manufacturer', wheres.manufacturer),
+    countByField('condition', wheres.condition),
+    countByField('folderId', wheres.folder),
+    Promise.all(PRICE_BUCKETS.map(async bucket => ({
+      ...bucket,
+      count: await prisma.item.count({
+        where: {
+          AND: [
+            wheres.price,
+            {
+              purchasePrice: {
+                gte: bucket.min,
+                ...(bucket.max !== null && { lte: bucket.max }),
+              },
+            },
+          ],
+        },
+      }),
+    }))),
+  ])
+
+  return {
+    category,
+    manufacturer,
+    condition,
+    folder: includeSubfolders ? sumFolderSubtreeCounts(folderCounts, folders) : folderCounts,
+    price,
+  }
+}
@@ -0,0 +1,234 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getFolderSubtreeIds } from '@/lib/folder-utils'
+import { splitSearchTerms, findItemSearchRanks } from '@/lib/search-utils'
+import { buildCustomFieldWhere } from '@/lib/custom-field-utils'
+import { buildLoanStatusWhere } from '@/lib/item-loan-utils'
+import type { SearchItemsInput } from '@/lib/validations/item'
+import type { CustomFieldFiltersInput } from '@/lib/validations/custom-field'
+
+/**
+ * アイテム一覧の検索条件
+ */
+export interface ItemSearchWhere {
+  where: Prisma.ItemWhereInput
+  // 全文検索の検索語と関連度（検索語がない場合は空配列とnull）
+  searchTerms: string[]
+  searchRanks: Map<string, number> | null
+}
+
+/**
+ * 件数を集計する絞り込み項目（ファセット）
+ */
+export type ItemFacetKey = 'category' | 'manufacturer' | 'condition' | 'folder' | 'price'
+
+const itemFacetKeys: ItemFacetKey[] = ['category', 'manufacturer', 'condition', 'folder', 'price']
+
+// 日付範囲の条件（どちらも未指定ならundefined）
+function dateRange(from?: Date, to?: Date): Prisma.DateTimeFilter | undefined {
+  if (!from && !to) return undefined
+  return {
+    ...(from && { gte: from }),
+    ...(to && { lte: to }),
+  }
+}
+
+/**
+ * 購入価格から最新の相場価格（平均）への変動率が指定値以上のアイテムIDを取得する
+ * 購入価格が未入力・0のアイテム、相場価格のないアイテムは対象外
+ */
+export async function findItemIdsByValueChange(userId: string, minPercent: number): Promise<string[]> {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT i.id
+    FROM items i
+    JOIN LATERAL (
+      SELECT ph."avgPrice"
+      FROM price_history ph
+      WHERE ph."itemId" = i.id
+        AND ph."isActive" = true
+        AND ph."avgPrice" IS NOT NULL
+      ORDER BY ph."searchDate" DESC
+      LIMIT 1
+    ) latest ON true
+    WHERE i."userId" = ${userId}
+      AND i."deletedAt" IS NULL
+      AND i."purchasePrice" > 0
+      AND abs(latest."avgPrice" - i."purchasePrice") / i."purchasePrice" * 100 >= ${minPercent}
+  `
+
+  return rows.map(row => row.id)
+}
+
+// ファセット（カテゴリ・メーカー・状態・フォルダ・価格）の絞り込み条件を組み立てる（未指定の項目は含まない）
+async function buildItemFacetFilters(
+  userId: string,
+  params: SearchItemsInput
+): Promise<Partial<Record<ItemFacetKey, Prisma.ItemWhereInput>>> {
+  const filters: Partial<Record<ItemFacetKey, Prisma.ItemWhereInput>> = {}
+
+  if (params.category) {
+    filters.category = { category: params.category }
+  }
+
+  if (params.manufacturer) {
+    filters.manufacturer = { manufacturer: params.manufacturer }
+  }
+
+  if (params.condition) {
+    filters.condition = { condition: params.condition }
+  }
+
+  if (params.folderId) {
+    filters.folder = {
+      folderId: params.includeSubfolders
+        ? { in: await getFolderSubtreeIds(userId, params.folderId) }
+        : params.folderId,
+    }
+  }
+
+  if (params.priceMin !== undefined || params.priceMax !== undefined) {
+    filters.price = {
+      purchasePrice: {
+        ...(params.priceMin !== undefined && { gte: params.priceMin }),
+        ...(params.priceMax !== undefined && { lte: params.priceMax }),
+      },
+    }
+  }
+
+  return filters
+}
+
+// 詳細フィルター（日付の範囲、画像・価格データの有無、価値の変動率、貸出状況）の条件を組み立てる
+async function buildAdvancedItemWhere(
+  userId: string,
+  params: SearchItemsInput
+): Promise<Prisma.ItemWhereInput[]> {
+  const conditions: Prisma.ItemWhereInput[] = []
+
+  const purchaseDate = dateRange(params.purchasedFrom, params.purchasedTo)
+  if (purchaseDate) {
+    conditions.push({ purchaseDate })
+  }
+
+  const createdAt = dateRange(params.createdFrom, params.createdTo)
+  if (createdAt) {
+    conditions.push({ createdAt })
+  }
+
+  const updatedAt = dateRange(params.updatedFrom, params.updatedTo)
+  if (updatedAt) {
+    conditions.push({ updatedAt })
+  }
+
+  if (params.hasImages !== undefined) {
+    conditions.push({ images: params.hasImages ? { some: {} } : { none: {} } })
+  }
+
+  // 価格データは有効な価格調査結果があるかどうかで判定する
+  if (params.hasPriceHistory !== undefined) {
+    conditions.push({
+      priceHistory: params.hasPriceHistory
+        ? { some: { isActive: true } }
+        : { none: { isActive: true } },
+    })
+  }
+
+  if (params.valueChangeMin !== undefined) {
+    const itemIds = await findItemIdsByValueChange(userId, params.valueChangeMin)
+    conditions.push({ id: { in: itemIds } })
+  }
+
+  if (params.loanStatus) {
+    conditions.push(buildLoanStatusWhere(params.loanStatus))
+  }
+
+  return conditions
+}
+
+// ファセット以外の絞り込み条件（全文検索・タグ・詳細フィルター・カスタムフィールド）から検索条件を組み立てる
+async function buildBaseItemWhere(
+  userId: string,
+  params: SearchItemsInput,
+  customFields: Array<{ id: string; name: string; type: string }>,
+  customFieldFilters: CustomFieldFiltersInput
+): Promise<ItemSearchWhere> {
+  const where: Prisma.ItemWhereInput = {
+    userId,
+    deletedAt: null,
+  }
+  const conditions: Prisma.ItemWhereInput[] = []
+
+  // 全文検索（一致したアイテムに絞り込み、関連度は並び替えに使用）
+  const searchTerms = params.q ? splitSearchTerms(params.q) : []
+  const searchRanks = searchTerms.length > 0
+    ? await findItemSearchRanks(userId, searchTerms)
+    : null
+  if (searchRanks) {
+    where.id = { in: Array.from(searchRanks.keys()) }
+  }
+
+  // タグの絞り込み（any: いずれかのタグを含む、all: すべてのタグを含む）
+  if (params.tags && params.tags.length > 0) {
+    if (params.tagMode === 'all') {
+      conditions.push(...params.tags.map(name => ({ tags: { some: { name } } })))
+    } else {
+      where.tags = { some: { name: { in: params.tags } } }
+    }
+  }
+
+  conditions.push(...await buildAdvancedItemWhere(userId, params))
+
+  // カスタムフィールドの絞り込み（cf_フィールドID=値）
+  conditions.push(...buildCustomFieldWhere(customFields, customFieldFilters))
+
+  if (conditions.length > 0) {
+    where.AND = conditions
+  }
+
+  return { where, searchTerms, searchRanks }
+}
+
+/**
+ * 一覧の絞り込み条件（全文検索・ファセット・タグ・詳細フィルター・カスタムフィールド）から検索条件を組み立てる
+ * アイテム一覧とスマートフォルダ（件数・一括操作・エクスポート）で共通
+ */
+export async function buildItemSearchWhere(
+  userId: string,
+  params: SearchItemsInput,
+  customFields: Array<{ id: string; name: string; type: string }>,
+  customFieldFilters: CustomFieldFiltersInput
+): Promise<ItemSearchWhere> {
+  const [search, facetFilters] = await Promise.all([
+    buildBaseItemWhere(userId, params, customFields, customFieldFilters),
+    buildItemFacetFilters(userId, params),
+  ])
+
+  const filters = Object.values(facetFilters)
+  return {
+    ...search,
+    where: filters.length > 0 ? { AND: [search.where, ...filters] } : search.where,
+  }
+}
+
+/**
+ * ファセットごとの件数集計用の検索条件を組み立てる
+ * 各ファセットの条件からは、そのファセット自身の絞り込みを除く（選択中でも他の選択肢の件数が分かるように）
+ */
+export async function buildItemFacetWheres(
+  userId: string,
+  params: SearchItemsInput,
+  customFields: Array<{ id: string; name: string; type: string }>,
+  customFieldFilters: CustomFieldFiltersInput
+): Promise<Record<ItemFacetKey, Prisma.ItemWhereInput>> {
+  const [{ where }, facetFilters] = await Promise.all([
+    buildBaseItemWhere(userId, params, customFields, customFieldFilters),
+    buildItemFacetFilters(userId, params),
+  ])
+
+  return Object.fromEntries(itemFacetKeys.map(key => {
+    const otherFilters = itemFacetKeys
+      .filter(other => other !== key)
+      .flatMap(other => facetFilters[other] ?? [])
+    return [key, otherFilters.length > 0 ? { AND: [where, ...otherFilters] } : where]
+  })) as Record<ItemFacetKey, Prisma.ItemWhereInput>
+}
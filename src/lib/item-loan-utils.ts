@@ -0,0 +1,50 @@
+import { Prisma } from '@prisma/client'
+import type { ItemLoanStatus } from '@/lib/validations/item'
+
+/**
+ * 貸出記録の選択条件
+ */
+export const itemLoanSelect = {
+  id: true,
+  itemId: true,
+  borrower: true,
+  lentAt: true,
+  dueDate: true,
+  returnedAt: true,
+  notes: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ItemLoanSelect
+
+/**
+ * 貸出記録の表示順（新しい貸出から）
+ */
+export const itemLoanOrderBy = [
+  { lentAt: 'desc' },
+  { createdAt: 'desc' },
+] satisfies Prisma.ItemLoanOrderByWithRelationInput[]
+
+/**
+ * 返却予定日を過ぎた貸出中の記録の条件（返却予定日の当日中は期限内）
+ */
+export function overdueLoanWhere(now: Date = new Date()): Prisma.ItemLoanWhereInput {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  return {
+    returnedAt: null,
+    dueDate: { lt: today },
+  }
+}
+
+/**
+ * 貸出状況による絞り込み条件
+ */
+export function buildLoanStatusWhere(status: ItemLoanStatus, now: Date = new Date()): Prisma.ItemWhereInput {
+  switch (status) {
+    case 'on_loan':
+      return { loans: { some: { returnedAt: null } } }
+    case 'overdue':
+      return { loans: { some: overdueLoanWhere(now) } }
+    case 'available':
+      return { loans: { none: { returnedAt: null } } }
+  }
+}
@@ -0,0 +1,68 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+/**
+ * テンプレートの選択条件
+ */
+export const itemTemplateSelect = {
+  id: true,
+  name: true,
+  category: true,
+  manufacturer: true,
+  condition: true,
+  purchaseLocation: true,
+  notes: true,
+  folderId: true,
+  sortOrder: true,
+  createdAt: true,
+  updatedAt: true,
+  folder: {
+    select: {
+      id: true,
+      name: true,
+      deletedAt: true,
+    },
+  },
+} satisfies Prisma.ItemTemplateSelect
+
+/**
+ * テンプレートの表示順
+ */
+export const itemTemplateOrderBy = [
+  { sortOrder: 'asc' },
+  { createdAt: 'asc' },
+] satisfies Prisma.ItemTemplateOrderByWithRelationInput[]
+
+type ItemTemplateRecord = Prisma.ItemTemplateGetPayload<{ select: typeof itemTemplateSelect }>
+
+/**
+ * レスポンス用にテンプレートを整形する（ゴミ箱内のフォルダは未指定として扱う）
+ */
+export function formatItemTemplate(template: ItemTemplateRecord) {
+  const folder = template.folder && !template.folder.deletedAt
+    ? { id: template.folder.id, name: template.folder.name }
+    : null
+
+  return {
+    ...template,
+    folderId: folder?.id ?? null,
+    folder,
+  }
+}
+
+/**
+ * テンプレートに指定されたフォルダが使用できるか確認する
+ */
+export async function isTemplateFolderAvailable(userId: string, folderId: string | undefined): Promise<boolean> {
+  if (!folderId) return true
+
+  const folder = await prisma.folder.findFirst({
+    where: {
+      id: folderId,
+      userId,
+      deletedAt: null,
+    },
+    select: { id: true },
+  })
+  return !!folder
+}
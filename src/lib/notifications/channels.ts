@@ -0,0 +1,134 @@
+import { Prisma } from '@prisma/client'
+import { getPlan } from '@/lib/plans'
+import { getSmtpConfig, sendMail } from './smtp'
+import { postWebhook, signWebhookBody } from './webhook'
+
+/**
+ * 配信チャネル名
+ */
+export type NotificationChannelName = 'in_app' | 'email' | 'webhook'
+
+/**
+ * 配信する通知
+ */
+export interface NotificationPayload {
+  id: string
+  title: string
+  body: string | null
+  link: string | null
+  createdAt: Date
+}
+
+/**
+ * 通知の受信者（配信設定を含むユーザー）
+ */
+export const notificationRecipientSelect = {
+  id: true,
+  email: true,
+  name: true,
+  notifyByEmail: true,
+  notificationWebhookUrl: true,
+  notificationWebhookSecret: true,
+  subscriptionTier: true,
+} satisfies Prisma.UserSelect
+
+export type NotificationRecipient = Prisma.UserGetPayload<{ select: typeof notificationRecipientSelect }>
+
+/**
+ * 配信チャネル。チャネルを追加する場合はこのインターフェースを実装して registerNotificationChannel で登録する
+ */
+export interface NotificationChannel {
+  name: NotificationChannelName
+  // 受信者の設定・サーバーの設定からこのチャネルで配信するか判定する
+  isEnabled: (recipient: NotificationRecipient) => boolean
+  // 配信に失敗した場合は例外を投げる
+  deliver: (notification: NotificationPayload, recipient: NotificationRecipient) => Promise<void>
+}
+
+// 通知のリンク（アプリ内のパス）を絶対URLにする
+function toAbsoluteUrl(link: string | null): string | null {
+  if (!link) return null
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  return new URL(link, baseUrl).toString()
+}
+
+/**
+ * アプリ内通知（通知レコードの作成自体が配信のため常に成功する）
+ */
+const inAppChannel: NotificationChannel = {
+  name: 'in_app',
+  isEnabled: () => true,
+  deliver: async () => undefined,
+}
+
+/**
+ * メール通知（SMTP_HOSTが設定され、ユーザーがメール通知を有効にしている場合）
+ */
+const emailChannel: NotificationChannel = {
+  name: 'email',
+  isEnabled: recipient => recipient.notifyByEmail && getSmtpConfig() !== null,
+  deliver: async (notification, recipient) => {
+    const config = getSmtpConfig()
+    if (!config) return
+
+    const url = toAbsoluteUrl(notification.link)
+    await sendMail(config, {
+      to: recipient.email,
+      subject: `[plat-dot] ${notification.title}`,
+      text: [notification.body, url].filter(Boolean).join('\n\n'),
+    })
+  },
+}
+
+/**
+ * Webhook通知（ユーザーが設定したURLにJSONをPOSTする）
+ * 本文のHMAC-SHA256署名をユーザーごとのシークレットで作り、X-Plat-Dot-Signature ヘッダーに付ける
+ */
+const webhookChannel: NotificationChannel = {
+  name: 'webhook',
+  // プランでWebhook通知が使えない場合は、URLが設定されていても送信しない
+  isEnabled: recipient =>
+    !!recipient.notificationWebhookUrl && getPlan(recipient.subscriptionTier).features.webhookNotifications,
+  deliver: async (notification, recipient) => {
+    if (!recipient.notificationWebhookUrl) return
+    if (!recipient.notificationWebhookSecret) {
+      throw new Error('Webhookの署名用シークレットが発行されていません。通知設定を開いて確認してください')
+    }
+
+    const body = JSON.stringify({
+      event: 'notification',
+      notification: {
+        id: notification.id,
+        title: notification.title,
+        body: notification.body,
+        url: toAbsoluteUrl(notification.link),
+        createdAt: notification.createdAt.toISOString(),
+      },
+    })
+
+    await postWebhook(recipient.notificationWebhookUrl, body, {
+      'X-Plat-Dot-Signature': signWebhookBody(recipient.notificationWebhookSecret, body),
+    })
+  },
+}
+
+const channels: NotificationChannel[] = [inAppChannel, emailChannel, webhookChannel]
+
+/**
+ * 配信チャネルを登録する（同じ名前のチャネルは置き換える）
+ */
+export function registerNotificationChannel(channel: NotificationChannel) {
+  const index = channels.findIndex(existing => existing.name === channel.name)
+  if (index >= 0) {
+    channels[index] = channel
+  } else {
+    channels.push(channel)
+  }
+}
+
+/**
+ * 登録されている配信チャネル
+ */
+export function getNotificationChannels(): readonly NotificationChannel[] {
+  return channels
+}
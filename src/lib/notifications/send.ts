@@ -0,0 +1,66 @@
+import { prisma } from '@/lib/prisma'
+import {
+  getNotificationChannels,
+  NotificationChannelName,
+  NotificationRecipient
+} from './channels'
+
+/**
+ * 作成する通知
+ */
+export interface NotificationInput {
+  title: string
+  body?: string | null
+  link?: string | null
+  reminderId?: string | null
+}
+
+/**
+ * チャネルごとの配信結果
+ */
+export interface NotificationDeliveryResult {
+  channel: NotificationChannelName
+  status: 'sent' | 'failed'
+  error: string | null
+}
+
+/**
+ * 通知を作成し、受信者が有効にしている全チャネルに配信する
+ * 個別のチャネルで失敗しても他のチャネルへの配信は続行し、結果を配信記録として保存する
+ */
+export async function sendNotification(
+  recipient: NotificationRecipient,
+  input: NotificationInput
+) {
+  const notification = await prisma.notification.create({
+    data: {
+      userId: recipient.id,
+      reminderId: input.reminderId ?? null,
+      title: input.title,
+      body: input.body ?? null,
+      link: input.link ?? null,
+    },
+  })
+
+  const channels = getNotificationChannels().filter(channel => channel.isEnabled(recipient))
+  const results = await Promise.allSettled(channels.map(channel => channel.deliver(notification, recipient)))
+
+  const deliveries: NotificationDeliveryResult[] = results.map((result, index) => {
+    if (result.status === 'rejected') {
+      console.warn(`Failed to deliver notification via ${channels[index].name}:`, result.reason)
+    }
+    return {
+      channel: channels[index].name,
+      status: result.status === 'fulfilled' ? 'sent' : 'failed',
+      error: result.status === 'rejected'
+        ? (result.reason instanceof Error ? result.reason.message : 'Unknown error').slice(0, 500)
+        : null,
+    }
+  })
+
+  await prisma.notificationDelivery.createMany({
+    data: deliveries.map(delivery => ({ ...delivery, notificationId: notification.id })),
+  })
+
+  return { notification, deliveries }
+}
@@ -0,0 +1,69 @@
+import nodemailer from 'nodemailer'
+
+/**
+ * SMTPサーバーの接続設定
+ */
+export interface SmtpConfig {
+  host: string
+  port: number
+  // true: 接続時からTLS（465番ポートなど）。false: サーバーが対応していればSTARTTLSで暗号化
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+}
+
+/**
+ * 送信するメール（本文はプレーンテキスト）
+ */
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+const SMTP_TIMEOUT_MS = 15000
+
+/**
+ * 環境変数からSMTPの設定を取得する（SMTP_HOST未設定の場合はnull）
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST
+  if (!host) return null
+
+  const secure = process.env.SMTP_SECURE === 'true'
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.SMTP_FROM || `plat-dot <noreply@${host}>`,
+  }
+}
+
+/**
+ * SMTPサーバーに接続し、メールを1通送信する
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass ?? '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  })
+
+  try {
+    await transporter.sendMail({
+      from: config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    })
+  } finally {
+    transporter.close()
+  }
+}
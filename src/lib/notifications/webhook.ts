@@ -0,0 +1,109 @@
+import http from 'http'
+import https from 'https'
+import dns from 'dns'
+import net from 'net'
+import { createHmac, randomBytes } from 'crypto'
+
+const WEBHOOK_TIMEOUT_MS = 10000
+
+/**
+ * 送信先にできないアドレス（ループバック・プライベート・リンクローカル・CGNAT・マルチキャストなど）
+ */
+const blockedAddresses = new net.BlockList()
+blockedAddresses.addSubnet('0.0.0.0', 8, 'ipv4')
+blockedAddresses.addSubnet('10.0.0.0', 8, 'ipv4')
+blockedAddresses.addSubnet('100.64.0.0', 10, 'ipv4')
+blockedAddresses.addSubnet('127.0.0.0', 8, 'ipv4')
+blockedAddresses.addSubnet('169.254.0.0', 16, 'ipv4')
+blockedAddresses.addSubnet('172.16.0.0', 12, 'ipv4')
+blockedAddresses.addSubnet('192.0.0.0', 24, 'ipv4')
+blockedAddresses.addSubnet('192.168.0.0', 16, 'ipv4')
+blockedAddresses.addSubnet('198.18.0.0', 15, 'ipv4')
+blockedAddresses.addSubnet('224.0.0.0', 3, 'ipv4')
+blockedAddresses.addAddress('::', 'ipv6')
+blockedAddresses.addAddress('::1', 'ipv6')
+blockedAddresses.addSubnet('fc00::', 7, 'ipv6')
+blockedAddresses.addSubnet('fe80::', 10, 'ipv6')
+blockedAddresses.addSubnet('ff00::', 8, 'ipv6')
+
+/**
+ * Webhookの送信先にできないアドレスか（IPv4射影アドレスはBlockListがIPv4として判定する）
+ */
+function isBlockedWebhookAddress(address: string): boolean {
+  return blockedAddresses.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * 名前解決した全アドレスを確認してから接続先を返す
+ * 接続時に使うアドレスそのものを確認するため、確認後に名前解決の結果が変わっても内部ネットワークには接続しない
+ */
+const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '')
+      return
+    }
+    if (addresses.length === 0 || addresses.some(entry => isBlockedWebhookAddress(entry.address))) {
+      callback(new Error('Webhookの送信先に内部ネットワークのアドレスは指定できません'), '')
+      return
+    }
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+/**
+ * Webhook署名用のシークレットを生成する
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`
+}
+
+/**
+ * 本文のHMAC-SHA256署名（X-Plat-Dot-Signature ヘッダーの値）
+ */
+export function signWebhookBody(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+/**
+ * WebhookのURLにJSONをPOSTする
+ * 内部ネットワークのアドレスには送信せず、リダイレクトにも従わない（2xx以外は失敗として例外を投げる）
+ */
+export async function postWebhook(url: string, body: string, headers: Record<string, string>): Promise<void> {
+  const target = new URL(url)
+  const hostname = target.hostname.replace(/^\[|\]$/g, '')
+  // IPアドレス指定の場合は名前解決が行われないため、ここで確認する
+  if (net.isIP(hostname) && isBlockedWebhookAddress(hostname)) {
+    throw new Error('Webhookの送信先に内部ネットワークのアドレスは指定できません')
+  }
+
+  const status = await new Promise<number>((resolve, reject) => {
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+      },
+      lookup: lookupPublicAddress,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, response => {
+      // 応答の本文は使わない
+      response.resume()
+      resolve(response.statusCode ?? 0)
+    })
+    request.on('error', reject)
+    request.end(body)
+  })
+
+  if (status >= 300 && status < 400) {
+    throw new Error(`Webhookの送信先がリダイレクトを返しました（HTTP ${status}）。リダイレクトには対応していません`)
+  }
+  if (status < 200 || status >= 300) {
+    throw new Error(`Webhookの送信先がエラーを返しました（HTTP ${status}）`)
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * 料金プラン（subscriptionTier）の定義
+ */
+export const subscriptionTiers = ['free', 'pro', 'team'] as const
+
+export type SubscriptionTier = typeof subscriptionTiers[number]
+
+/**
+ * プランで有効・無効が切り替わる機能
+ */
+export type PlanFeature =
+  | 'aiRecognition'
+  | 'priceSearch'
+  | 'bulkPriceSearch'
+  | 'webhookNotifications'
+
+/**
+ * プランごとの上限と機能
+ */
+export interface PlanDefinition {
+  tier: SubscriptionTier
+  name: string
+  // 月間のAI利用回数（画像認識・価格検索など）
+  aiMonthlyQuota: number
+  // 登録できるアイテム数（ゴミ箱内を除く。nullは無制限）
+  maxItems: number | null
+  maxImagesPerItem: number
+  // 画像・書類の合計容量（バイト）
+  storageBytes: number
+  features: Record<PlanFeature, boolean>
+}
+
+const GB = 1024 * 1024 * 1024
+
+export const PLANS: Record<SubscriptionTier, PlanDefinition> = {
+  free: {
+    tier: 'free',
+    name: '無料プラン',
+    aiMonthlyQuota: 20,
+    maxItems: 500,
+    maxImagesPerItem: 10,
+    storageBytes: 1 * GB,
+    features: {
+      aiRecognition: true,
+      priceSearch: true,
+      bulkPriceSearch: false,
+      webhookNotifications: false,
+    },
+  },
+  pro: {
+    tier: 'pro',
+    name: 'Proプラン',
+    aiMonthlyQuota: 300,
+    maxItems: 10000,
+    maxImagesPerItem: 30,
+    storageBytes: 20 * GB,
+    features: {
+      aiRecognition: true,
+      priceSearch: true,
+      bulkPriceSearch: true,
+      webhookNotifications: true,
+    },
+  },
+  team: {
+    tier: 'team',
+    name: 'Teamプラン',
+    aiMonthlyQuota: 1000,
+    maxItems: null,
+    maxImagesPerItem: 50,
+    storageBytes: 100 * GB,
+    features: {
+      aiRecognition: true,
+      priceSearch: true,
+      bulkPriceSearch: true,
+      webhookNotifications: true,
+    },
+  },
+}
+
+/**
+ * 機能の表示名（制限エラーのメッセージ用）
+ */
+export const PLAN_FEATURE_LABELS: Record<PlanFeature, string> = {
+  aiRecognition: 'AI画像認識',
+  priceSearch: 'AI価格調査',
+  bulkPriceSearch: 'AI価格調査の一括実行',
+  webhookNotifications: 'Webhook通知',
+}
+
+// 以前のプラン名からの読み替え
+const LEGACY_TIERS: Record<string, SubscriptionTier> = {
+  premium: 'pro',
+}
+
+/**
+ * DBに保存されたプラン名を正規化する（不明な値は無料プランとして扱う）
+ */
+export function normalizeTier(tier: string | null | undefined): SubscriptionTier {
+  if (!tier) return 'free'
+  if ((subscriptionTiers as readonly string[]).includes(tier)) return tier as SubscriptionTier
+  return LEGACY_TIERS[tier] ?? 'free'
+}
+
+/**
+ * プラン名からプランの定義を取得する
+ */
+export function getPlan(tier: string | null | undefined): PlanDefinition {
+  return PLANS[normalizeTier(tier)]
+}
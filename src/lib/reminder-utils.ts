@@ -0,0 +1,184 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { ItemReminderType, ReminderRecurrence } from '@/lib/validations/item-reminder'
+import { notificationRecipientSelect } from '@/lib/notifications/channels'
+import { sendNotification } from '@/lib/notifications/send'
+
+/**
+ * リマインダーの種類の表示名
+ */
+export const REMINDER_TYPE_LABELS: Record<ItemReminderType, string> = {
+  warranty: '保証期限',
+  battery: '電池交換',
+  maintenance: '定期メンテナンス',
+  loan: '返却予定日',
+  custom: 'リマインダー',
+}
+
+/**
+ * 1回の定期実行で処理するリマインダーの上限（残りは次回の実行で処理する）
+ */
+export const REMINDER_BATCH_SIZE = 100
+
+/**
+ * リマインダーの選択条件
+ */
+export const itemReminderSelect = {
+  id: true,
+  itemId: true,
+  type: true,
+  title: true,
+  notes: true,
+  recurrence: true,
+  interval: true,
+  nextDueAt: true,
+  lastNotifiedAt: true,
+  enabled: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ItemReminderSelect
+
+/**
+ * リマインダーの表示順（有効なものを次回の通知日が近い順）
+ */
+export const itemReminderOrderBy = [
+  { enabled: 'desc' },
+  { nextDueAt: 'asc' },
+] satisfies Prisma.ItemReminderOrderByWithRelationInput[]
+
+/**
+ * 繰り返しの1回分だけ日時を進める（月末日は翌月の末日に丸める）
+ */
+export function addRecurrence(date: Date, recurrence: ReminderRecurrence, interval: number): Date {
+  const next = new Date(date)
+  switch (recurrence) {
+    case 'daily':
+      next.setUTCDate(next.getUTCDate() + interval)
+      break
+    case 'weekly':
+      next.setUTCDate(next.getUTCDate() + interval * 7)
+      break
+    case 'monthly':
+    case 'yearly': {
+      const months = recurrence === 'monthly' ? interval : interval * 12
+      const day = next.getUTCDate()
+      next.setUTCDate(1)
+      next.setUTCMonth(next.getUTCMonth() + months)
+      const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate()
+      next.setUTCDate(Math.min(day, lastDay))
+      break
+    }
+    case 'none':
+      break
+  }
+  return next
+}
+
+/**
+ * 通知後の次回の通知日時を求める（停止中に過ぎた回はまとめて飛ばす）
+ * @returns 繰り返しなしの場合はnull
+ */
+export function computeNextDueAt(
+  dueAt: Date,
+  recurrence: ReminderRecurrence,
+  interval: number,
+  now: Date = new Date()
+): Date | null {
+  if (recurrence === 'none') return null
+
+  let next = addRecurrence(dueAt, recurrence, interval)
+  while (next <= now) {
+    next = addRecurrence(next, recurrence, interval)
+  }
+  return next
+}
+
+/**
+ * 定期実行の結果
+ */
+export interface ReminderRunResult {
+  processed: number
+  notified: number
+  skipped: number
+  failedDeliveries: number
+}
+
+/**
+ * 通知日時を過ぎた有効なリマインダーの通知を送り、次回の通知日時に進める
+ * - ゴミ箱内のアイテムのリマインダーは対象外
+ * - 返却予定日のリマインダーは、貸出中の記録がなければ通知せずに停止する
+ */
+export async function processDueReminders(now: Date = new Date()): Promise<ReminderRunResult> {
+  const reminders = await prisma.itemReminder.findMany({
+    where: {
+      enabled: true,
+      nextDueAt: { lte: now },
+      item: { deletedAt: null },
+    },
+    select: {
+      id: true,
+      type: true,
+      title: true,
+      notes: true,
+      recurrence: true,
+      interval: true,
+      nextDueAt: true,
+      item: {
+        select: {
+          id: true,
+          name: true,
+          loans: {
+            where: { returnedAt: null },
+            select: { borrower: true },
+            take: 1,
+          },
+        },
+      },
+      user: { select: notificationRecipientSelect },
+    },
+    orderBy: { nextDueAt: 'asc' },
+    take: REMINDER_BATCH_SIZE,
+  })
+
+  const result: ReminderRunResult = { processed: 0, notified: 0, skipped: 0, failedDeliveries: 0 }
+
+  for (const reminder of reminders) {
+    const recurrence = reminder.recurrence as ReminderRecurrence
+    const isReturnedLoan = reminder.type === 'loan' && reminder.item.loans.length === 0
+    const nextDueAt = isReturnedLoan ? null : computeNextDueAt(reminder.nextDueAt, recurrence, reminder.interval, now)
+
+    // 通知より先に次回の通知日時を進め、並行して実行された場合も重複して送らないようにする
+    const { count } = await prisma.itemReminder.updateMany({
+      where: { id: reminder.id, enabled: true, nextDueAt: reminder.nextDueAt },
+      data: nextDueAt
+        ? { nextDueAt, lastNotifiedAt: now }
+        : { enabled: false, ...(!isReturnedLoan && { lastNotifiedAt: now }) },
+    })
+    if (count === 0) continue
+    result.processed++
+
+    if (isReturnedLoan) {
+      result.skipped++
+      continue
+    }
+
+    const typeLabel = REMINDER_TYPE_LABELS[reminder.type as ItemReminderType] ?? REMINDER_TYPE_LABELS.custom
+    const borrower = reminder.item.loans[0]?.borrower
+    const { deliveries } = await sendNotification(reminder.user, {
+      reminderId: reminder.id,
+      title: `${reminder.title}（${reminder.item.name}）`,
+      body: [
+        `${typeLabel}: ${reminder.item.name}`,
+        `期日: ${reminder.nextDueAt.toLocaleDateString('ja-JP', { timeZone: 'Asia/Tokyo' })}`,
+        reminder.type === 'loan' && borrower ? `貸出先: ${borrower}` : null,
+        reminder.notes,
+      ].filter(Boolean).join('\n'),
+      link: `/items/${reminder.item.id}`,
+    })
+
+    result.notified++
+    result.failedDeliveries += deliveries.filter(delivery => delivery.status === 'failed').length
+  }
+
+  return result
+}
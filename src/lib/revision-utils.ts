@@ -0,0 +1,272 @@
+import { Prisma } from '@prisma/client'
+import { Decimal } from 'decimal.js'
+import { prisma } from '@/lib/prisma'
+
+/**
+ * 履歴に記録するアイテムのフィールド
+ */
+export const REVISION_FIELDS = [
+  'name',
+  'description',
+  'category',
+  'manufacturer',
+  'purchaseDate',
+  'purchasePrice',
+  'purchaseLocation',
+  'condition',
+  'notes',
+  'quantity',
+  'unit',
+  'storageRoom',
+  'storageShelf',
+  'storageBox',
+  'warrantyExpiresAt',
+  'folderId',
+] as const
+
+export type RevisionField = typeof REVISION_FIELDS[number]
+
+/**
+ * 履歴の種類
+ */
+export type RevisionAction = 'create' | 'update' | 'move' | 'delete' | 'restore' | 'revert'
+
+/**
+ * 履歴に保存するフィールド値（日付はISO文字列、価格は文字列で保存）
+ */
+export type ItemSnapshot = Record<RevisionField, string | null>
+
+/**
+ * 変更されたフィールドの変更前・変更後の値
+ */
+export type ItemChanges = Partial<Record<RevisionField, { from: string | null; to: string | null }>>
+
+/**
+ * スナップショットの元になるアイテム
+ */
+type RevisionSource = {
+  [K in RevisionField]?: string | Date | Prisma.Decimal | number | null
+}
+
+/**
+ * 記録する履歴
+ */
+export interface ItemRevisionEntry {
+  itemId: string
+  userId: string
+  action: RevisionAction
+  before: RevisionSource | null
+  after: RevisionSource
+  revertedFromId?: string
+}
+
+/**
+ * Prismaの選択条件（履歴の記録に必要なフィールド）
+ */
+export const revisionFieldSelect = Object.fromEntries(
+  REVISION_FIELDS.map(field => [field, true])
+) as Record<RevisionField, true>
+
+/**
+ * リバートできない場合のエラー
+ */
+export class ItemRevertError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ItemRevertError'
+  }
+}
+
+/**
+ * アイテムのフィールド値を履歴用に正規化する
+ */
+export function toItemSnapshot(item: RevisionSource): ItemSnapshot {
+  return Object.fromEntries(
+    REVISION_FIELDS.map(field => {
+      const value = item[field]
+      if (value === null || value === undefined) return [field, null]
+      if (value instanceof Date) return [field, value.toISOString()]
+      return [field, value.toString()]
+    })
+  ) as ItemSnapshot
+}
+
+/**
+ * 変更前後のスナップショットから変更されたフィールドを抽出する
+ */
+export function diffItemSnapshots(before: ItemSnapshot | null, after: ItemSnapshot): ItemChanges {
+  const changes: ItemChanges = {}
+
+  REVISION_FIELDS.forEach(field => {
+    const from = before ? before[field] : null
+    const to = after[field]
+    if (from !== to) {
+      changes[field] = { from, to }
+    }
+  })
+
+  return changes
+}
+
+/**
+ * 履歴のデータを組み立てる
+ * 編集でフォルダのみが変わった場合は移動として扱い、値が変わっていない場合はnull
+ */
+function buildRevisionData(entry: ItemRevisionEntry): Prisma.ItemRevisionCreateManyInput | null {
+  const before = entry.before ? toItemSnapshot(entry.before) : null
+  const snapshot = toItemSnapshot(entry.after)
+  const changes = diffItemSnapshots(before, snapshot)
+  const fields = Object.keys(changes)
+
+  if ((entry.action === 'update' || entry.action === 'move') && fields.length === 0) {
+    return null
+  }
+
+  const action = entry.action === 'update' && fields.length === 1 && fields[0] === 'folderId'
+    ? 'move'
+    : entry.action
+
+  return {
+    itemId: entry.itemId,
+    userId: entry.userId,
+    action,
+    changes,
+    snapshot,
+    revertedFromId: entry.revertedFromId,
+  }
+}
+
+/**
+ * アイテムの変更履歴を記録する
+ */
+export async function recordItemRevision(
+  tx: Prisma.TransactionClient,
+  entry: ItemRevisionEntry
+): Promise<void> {
+  const data = buildRevisionData(entry)
+  if (!data) return
+
+  await tx.itemRevision.create({ data })
+}
+
+/**
+ * 複数アイテムの変更履歴をまとめて記録する
+ */
+export async function recordItemRevisions(
+  tx: Prisma.TransactionClient,
+  entries: ItemRevisionEntry[]
+): Promise<void> {
+  const data = entries
+    .map(buildRevisionData)
+    .filter((revision): revision is Prisma.ItemRevisionCreateManyInput => revision !== null)
+
+  if (data.length === 0) return
+
+  await tx.itemRevision.createMany({ data })
+}
+
+/**
+ * スナップショットをアイテムの更新データに変換する
+ */
+function snapshotToItemData(snapshot: ItemSnapshot): Prisma.ItemUncheckedUpdateInput {
+  return {
+    name: snapshot.name ?? undefined,
+    description: snapshot.description,
+    category: snapshot.category,
+    manufacturer: snapshot.manufacturer,
+    purchaseDate: snapshot.purchaseDate ? new Date(snapshot.purchaseDate) : null,
+    purchasePrice: snapshot.purchasePrice ? new Decimal(snapshot.purchasePrice) : null,
+    purchaseLocation: snapshot.purchaseLocation,
+    condition: snapshot.condition,
+    notes: snapshot.notes,
+    // 数量・保管場所を追加する前の履歴には値がないため変更しない
+    quantity: snapshot.quantity ? Number(snapshot.quantity) : undefined,
+    unit: snapshot.unit,
+    storageRoom: snapshot.storageRoom,
+    storageShelf: snapshot.storageShelf,
+    storageBox: snapshot.storageBox,
+    // 保証期限を追加する前の履歴には値がないため変更しない
+    warrantyExpiresAt: snapshot.warrantyExpiresAt === undefined
+      ? undefined
+      : snapshot.warrantyExpiresAt ? new Date(snapshot.warrantyExpiresAt) : null,
+    folderId: snapshot.folderId,
+  }
+}
+
+/**
+ * アイテムを指定した履歴の状態に戻し、リバートの履歴を記録する
+ * 履歴のフォルダが削除済み・ゴミ箱内の場合は未分類に戻す
+ * @returns アイテムまたは履歴が見つからない場合はnull
+ */
+export async function revertItemToRevision(userId: string, itemId: string, revisionId: string) {
+  const [item, revision] = await Promise.all([
+    prisma.item.findFirst({
+      where: { id: itemId, userId, deletedAt: null },
+      select: revisionFieldSelect,
+    }),
+    prisma.itemRevision.findFirst({
+      where: { id: revisionId, itemId, userId },
+    }),
+  ])
+
+  if (!item || !revision) {
+    return null
+  }
+
+  const snapshot = revision.snapshot as ItemSnapshot
+  if (!snapshot || !snapshot.name) {
+    throw new ItemRevertError('この履歴には復元できるデータがありません')
+  }
+
+  const data = snapshotToItemData(snapshot)
+
+  if (snapshot.folderId) {
+    const folder = await prisma.folder.findFirst({
+      where: { id: snapshot.folderId, userId, deletedAt: null },
+      select: { id: true },
+    })
+    if (!folder) {
+      data.folderId = null
+    }
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const updatedItem = await tx.item.update({
+      where: { id: itemId },
+      data: { ...data, updatedAt: new Date() },
+      include: {
+        folder: {
+          select: {
+            id: true,
+            name: true,
+            parentId: true,
+          },
+        },
+        images: {
+          select: {
+            id: true,
+            url: true,
+            order: true,
+            thumbnailSmall: true,
+            thumbnailMedium: true,
+            thumbnailLarge: true,
+          },
+          orderBy: {
+            order: 'asc',
+          },
+        },
+      },
+    })
+
+    await recordItemRevision(tx, {
+      itemId,
+      userId,
+      action: 'revert',
+      before: item,
+      after: updatedItem,
+      revertedFromId: revision.id,
+    })
+
+    return updatedItem
+  })
+}
@@ -0,0 +1,204 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+/**
+ * 全文検索の対象フィールド
+ */
+export const ITEM_SEARCH_FIELDS = [
+  'name',
+  'description',
+  'manufacturer',
+  'category',
+  'notes',
+  'purchaseLocation',
+] as const
+
+export type ItemSearchField = typeof ITEM_SEARCH_FIELDS[number]
+
+/**
+ * 検索語の最大数
+ */
+export const MAX_SEARCH_TERMS = 10
+
+/**
+ * 一致箇所のハイライト（rangesはtext内の[開始, 終了)位置）
+ */
+export interface ItemSearchHighlight {
+  field: ItemSearchField
+  text: string
+  ranges: Array<[number, number]>
+}
+
+// 長いフィールドのハイライトで一致箇所の前後に表示する文字数
+const SNIPPET_BEFORE = 20
+const SNIPPET_LENGTH = 80
+
+/**
+ * 検索対象の文書（prisma/sql/item-search-index.sql のインデックス式と一致させる）
+ */
+const itemSearchDocument = Prisma.sql`to_tsvector(
+  'simple'::regconfig,
+  coalesce(i.name, '') || ' ' ||
+  coalesce(i.description, '') || ' ' ||
+  coalesce(i.manufacturer, '') || ' ' ||
+  coalesce(i.category, '') || ' ' ||
+  coalesce(i.notes, '') || ' ' ||
+  coalesce(i."purchaseLocation", '')
+)`
+
+// 関連度計算用にフィールドごとの重みを付けた文書（商品名 > カテゴリ・メーカー > 説明 > その他）
+const weightedSearchDocument = Prisma.sql`(
+  setweight(to_tsvector('simple'::regconfig, coalesce(i.name, '')), 'A') ||
+  setweight(to_tsvector('simple'::regconfig, coalesce(i.category, '') || ' ' || coalesce(i.manufacturer, '')), 'B') ||
+  setweight(to_tsvector('simple'::regconfig, coalesce(i.description, '')), 'C') ||
+  setweight(to_tsvector('simple'::regconfig, coalesce(i.notes, '') || ' ' || coalesce(i."purchaseLocation", '')), 'D')
+)`
+
+/**
+ * 検索キーワードを空白（全角空白を含む）で検索語に分割する
+ */
+export function splitSearchTerms(query: string): string[] {
+  return Array.from(new Set(query.split(/[\s　]+/).filter(Boolean))).slice(0, MAX_SEARCH_TERMS)
+}
+
+// LIKE のワイルドカードをエスケープする
+function toLikePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, char => `\\${char}`)}%`
+}
+
+/**
+ * 検索語に一致するアイテムのIDと関連度を取得する
+ *
+ * 単語単位の一致は tsvector（simple辞書）で判定するが、日本語は空白で区切られず
+ * 単語に分かれないため、各検索語がいずれかのフィールドに部分一致する場合も対象にする。
+ * 部分一致はトライグラムのGINインデックスで高速化される（2文字以下の語は全件走査になる）。
+ */
+export async function findItemSearchRanks(userId: string, terms: string[]): Promise<Map<string, number>> {
+  if (terms.length === 0) {
+    return new Map()
+  }
+
+  const query = terms.join(' ')
+  const termMatches = terms.map(term => {
+    const pattern = toLikePattern(term)
+    return Prisma.sql`(${Prisma.join(
+      ITEM_SEARCH_FIELDS.map(field => Prisma.sql`i.${Prisma.raw(`"${field}"`)} ILIKE ${pattern}`),
+      ' OR '
+    )})`
+  })
+  const nameMatchesAll = Prisma.join(
+    terms.map(term => Prisma.sql`i.name ILIKE ${toLikePattern(term)}`),
+    ' AND '
+  )
+
+  const rows = await prisma.$queryRaw<Array<{ id: string; rank: number }>>`
+    SELECT
+      i.id,
+      (
+        ts_rank(${weightedSearchDocument}, plainto_tsquery('simple'::regconfig, ${query}))
+        + word_similarity(${query}, coalesce(i.name, ''))
+        + CASE WHEN ${nameMatchesAll} THEN 1 ELSE 0 END
+      )::float8 AS rank
+    FROM items i
+    WHERE i."userId" = ${userId}
+      AND i."deletedAt" IS NULL
+      AND (
+        ${itemSearchDocument} @@ plainto_tsquery('simple'::regconfig, ${query})
+        OR (${Prisma.join(termMatches, ' AND ')})
+      )
+  `
+
+  return new Map(rows.map(row => [row.id, Number(row.rank)]))
+}
+
+/**
+ * 関連度の高い順に並べたアイテムIDを取得する（同じ関連度の場合は新しい順）
+ */
+export async function findItemIdsSortedByRelevance(
+  where: Prisma.ItemWhereInput,
+  ranks: Map<string, number>,
+  skip: number,
+  take: number
+): Promise<string[]> {
+  const items = await prisma.item.findMany({
+    where,
+    select: { id: true, createdAt: true },
+  })
+
+  return items
+    .sort((a, b) =>
+      (ranks.get(b.id) ?? 0) - (ranks.get(a.id) ?? 0) ||
+      b.createdAt.getTime() - a.createdAt.getTime()
+    )
+    .slice(skip, skip + take)
+    .map(item => item.id)
+}
+
+// 検索語の一致位置を求め、重なる範囲をまとめる
+function findMatchRanges(text: string, terms: string[]): Array<[number, number]> {
+  const lowerText = text.toLowerCase()
+  const ranges: Array<[number, number]> = []
+
+  for (const term of terms) {
+    const lowerTerm = term.toLowerCase()
+    let index = lowerText.indexOf(lowerTerm)
+    while (index !== -1) {
+      ranges.push([index, index + lowerTerm.length])
+      index = lowerText.indexOf(lowerTerm, index + lowerTerm.length)
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0])
+  return ranges.reduce<Array<[number, number]>>((merged, range) => {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([range[0], range[1]])
+    }
+    return merged
+  }, [])
+}
+
+/**
+ * アイテムの各フィールドで検索語に一致した箇所を求める
+ * 長いフィールドは最初の一致箇所の前後だけを切り出す
+ */
+export function buildItemHighlights(
+  item: Partial<Record<ItemSearchField, string | null>>,
+  terms: string[]
+): ItemSearchHighlight[] {
+  const highlights: ItemSearchHighlight[] = []
+
+  for (const field of ITEM_SEARCH_FIELDS) {
+    const value = item[field]
+    if (!value) continue
+
+    const ranges = findMatchRanges(value, terms)
+    if (ranges.length === 0) continue
+
+    if (value.length <= SNIPPET_LENGTH) {
+      highlights.push({ field, text: value, ranges })
+      continue
+    }
+
+    const start = Math.max(0, ranges[0][0] - SNIPPET_BEFORE)
+    const end = Math.min(value.length, start + SNIPPET_LENGTH)
+    const prefix = start > 0 ? '…' : ''
+    const suffix = end < value.length ? '…' : ''
+    const offset = prefix.length - start
+
+    highlights.push({
+      field,
+      text: `${prefix}${value.slice(start, end)}${suffix}`,
+      ranges: ranges
+        .filter(([rangeStart]) => rangeStart < end)
+        .map(([rangeStart, rangeEnd]) => [
+          Math.max(rangeStart, start) + offset,
+          Math.min(rangeEnd, end) + offset,
+        ] as [number, number]),
+    })
+  }
+
+  return highlights
+}
@@ -0,0 +1,33 @@
+import { prisma } from '@/lib/prisma'
+import { getAIQuotaStatus } from '@/lib/ai/quota'
+import { isAdminEmail } from '@/lib/admin-utils'
+
+/**
+ * セッションに載せるプランとAI利用状況
+ */
+export interface SessionPlan {
+  subscriptionTier: string
+  aiUsageCount: number
+  aiUsageLimit: number
+  isAdmin: boolean
+}
+
+/**
+ * セッション用にプランとAI利用状況を読み込む（Node.jsランタイム専用）
+ * @returns ユーザーがまだ作成されていない場合はnull
+ */
+export async function loadSessionPlan(email: string): Promise<SessionPlan | null> {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  })
+  if (!user) return null
+
+  const quota = await getAIQuotaStatus(user.id)
+  return {
+    subscriptionTier: quota.subscriptionTier,
+    aiUsageCount: quota.used,
+    aiUsageLimit: quota.limit,
+    isAdmin: isAdminEmail(email),
+  }
+}
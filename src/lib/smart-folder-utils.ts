@@ -0,0 +1,106 @@
+import { Prisma } from '@prisma/client'
+import { ZodError } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { buildItemSearchWhere } from '@/lib/item-filter-utils'
+import { CustomFieldQueryError, extractCustomFieldFilters } from '@/lib/custom-field-utils'
+import { searchItemsSchema } from '@/lib/validations/item'
+import { customFieldFiltersSchema } from '@/lib/validations/custom-field'
+
+/**
+ * スマートフォルダの選択条件
+ */
+export const smartFolderSelect = {
+  id: true,
+  name: true,
+  query: true,
+  sortOrder: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.SmartFolderSelect
+
+/**
+ * スマートフォルダの表示順
+ */
+export const smartFolderOrderBy = [
+  { sortOrder: 'asc' },
+  { createdAt: 'asc' },
+] satisfies Prisma.SmartFolderOrderByWithRelationInput[]
+
+/**
+ * 保存した絞り込み条件が現在は使えない場合のエラー（条件に使ったカスタムフィールドの削除など）
+ */
+export class SmartFolderQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SmartFolderQueryError'
+  }
+}
+
+/**
+ * スマートフォルダの絞り込み条件からアイテムの検索条件を組み立てる
+ */
+export async function buildSmartFolderWhere(userId: string, query: string): Promise<Prisma.ItemWhereInput> {
+  const searchParams = new URLSearchParams(query)
+
+  try {
+    const params = searchItemsSchema.parse(Object.fromEntries(searchParams))
+    const customFieldFilters = customFieldFiltersSchema.parse(extractCustomFieldFilters(searchParams))
+    const customFields = await prisma.customFieldDefinition.findMany({
+      where: { userId },
+      select: { id: true, name: true, type: true },
+    })
+
+    const { where } = await buildItemSearchWhere(userId, params, customFields, customFieldFilters)
+    return where
+  } catch (error) {
+    if (error instanceof ZodError || error instanceof CustomFieldQueryError) {
+      throw new SmartFolderQueryError('スマートフォルダの絞り込み条件が無効です。条件を保存し直してください')
+    }
+    throw error
+  }
+}
+
+/**
+ * スマートフォルダに一致するアイテム数を数える（条件が無効な場合はnull）
+ */
+export async function countSmartFolderItems(userId: string, query: string): Promise<number | null> {
+  try {
+    const where = await buildSmartFolderWhere(userId, query)
+    return await prisma.item.count({ where })
+  } catch (error) {
+    if (error instanceof SmartFolderQueryError) {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * スマートフォルダに一致するアイテムのIDを取得する（一括操作・エクスポートの対象）
+ * @returns スマートフォルダが存在しない場合はnull
+ */
+export async function findSmartFolderItemIds(
+  userId: string,
+  smartFolderId: string
+): Promise<{ smartFolder: { id: string; name: string }; itemIds: string[] } | null> {
+  const smartFolder = await prisma.smartFolder.findFirst({
+    where: { id: smartFolderId, userId },
+    select: { id: true, name: true, query: true },
+  })
+
+  if (!smartFolder) {
+    return null
+  }
+
+  const where = await buildSmartFolderWhere(userId, smartFolder.query)
+  const items = await prisma.item.findMany({
+    where,
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  return {
+    smartFolder: { id: smartFolder.id, name: smartFolder.name },
+    itemIds: items.map(item => item.id),
+  }
+}
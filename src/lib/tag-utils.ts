@@ -0,0 +1,49 @@
+import { Prisma } from '@prisma/client'
+
+/**
+ * アイテムに含めるタグの選択条件
+ */
+export const itemTagsInclude = {
+  select: {
+    id: true,
+    name: true,
+    color: true,
+  },
+  orderBy: {
+    name: 'asc',
+  },
+} satisfies Prisma.Item$tagsArgs
+
+/**
+ * タグ名からタグIDを取得する（存在しないタグは作成する）
+ */
+export async function resolveTagIds(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  names: string[]
+): Promise<string[]> {
+  if (names.length === 0) {
+    return []
+  }
+
+  const existingTags = await tx.tag.findMany({
+    where: { userId, name: { in: names } },
+    select: { id: true, name: true },
+  })
+
+  const tagIdMap = new Map(existingTags.map(tag => [tag.name, tag.id]))
+
+  for (const name of names) {
+    if (tagIdMap.has(name)) continue
+
+    const tag = await tx.tag.upsert({
+      where: { userId_name: { userId, name } },
+      update: {},
+      create: { userId, name },
+      select: { id: true },
+    })
+    tagIdMap.set(name, tag.id)
+  }
+
+  return names.map(name => tagIdMap.get(name)!)
+}
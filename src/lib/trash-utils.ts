@@ -0,0 +1,455 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { deleteImageBlobs, BlobDeletionResult } from '@/lib/image-utils'
+import { getFolderSubtreeIds } from '@/lib/folder-utils'
+import { toDocumentBlobSource } from '@/lib/document-utils'
+import { recordItemRevision, recordItemRevisions, revisionFieldSelect } from '@/lib/revision-utils'
+import { assertItemCapacity } from '@/lib/entitlements'
+
+/**
+ * ゴミ箱の保持期間（日）。経過したものは定期処理で完全に削除する
+ */
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30
+
+/**
+ * ゴミ箱内のフォルダ（同時に削除したサブフォルダ・アイテムをまとめて1件とする）
+ */
+export interface TrashedFolderEntry {
+  id: string
+  name: string
+  parentId: string | null
+  deletedAt: Date
+  expiresAt: Date
+  folderCount: number
+  itemCount: number
+}
+
+/**
+ * ゴミ箱内のアイテム
+ */
+export interface TrashedItemEntry {
+  id: string
+  name: string
+  category: string | null
+  manufacturer: string | null
+  deletedAt: Date
+  expiresAt: Date
+  folder: {
+    id: string
+    name: string
+  } | null
+  thumbnail: string | null
+}
+
+/**
+ * ゴミ箱の処理結果
+ */
+export interface TrashOperationResult {
+  folders: number
+  items: number
+  failedBlobs: BlobDeletionResult['failed']
+}
+
+/**
+ * 復元できない場合のエラー（同名フォルダの存在など）
+ */
+export class TrashRestoreError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TrashRestoreError'
+  }
+}
+
+/**
+ * 完全削除の期限を計算する
+ */
+export function getTrashExpiresAt(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * 同時にゴミ箱へ移動したかどうか
+ */
+function isSameDeletion(a: Date | null | undefined, b: Date | null | undefined): boolean {
+  return !!a && !!b && a.getTime() === b.getTime()
+}
+
+/**
+ * ゴミ箱の一覧を取得する
+ * 親フォルダと一緒に削除されたものは親フォルダの件数に含め、一覧には表示しない
+ */
+export async function getTrashEntries(userId: string): Promise<{
+  folders: TrashedFolderEntry[]
+  items: TrashedItemEntry[]
+}> {
+  const [folders, items] = await Promise.all([
+    prisma.folder.findMany({
+      where: { userId, deletedAt: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        parentId: true,
+        deletedAt: true,
+        parent: {
+          select: { deletedAt: true },
+        },
+      },
+      orderBy: { deletedAt: 'desc' },
+    }),
+    prisma.item.findMany({
+      where: { userId, deletedAt: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        category: true,
+        manufacturer: true,
+        deletedAt: true,
+        folderId: true,
+        folder: {
+          select: { id: true, name: true, deletedAt: true },
+        },
+        images: {
+          select: { url: true, thumbnailSmall: true },
+          orderBy: { order: 'asc' },
+          take: 1,
+        },
+      },
+      orderBy: { deletedAt: 'desc' },
+    }),
+  ])
+
+  const folderEntries = folders
+    .filter(folder => !isSameDeletion(folder.parent?.deletedAt, folder.deletedAt))
+    .map(folder => {
+      const deletedAt = folder.deletedAt!
+
+      // 同時に削除された子孫フォルダを集める
+      const groupIds = new Set([folder.id])
+      let added = true
+      while (added) {
+        added = false
+        folders.forEach(candidate => {
+          if (
+            !groupIds.has(candidate.id) &&
+            candidate.parentId &&
+            groupIds.has(candidate.parentId) &&
+            isSameDeletion(candidate.deletedAt, deletedAt)
+          ) {
+            groupIds.add(candidate.id)
+            added = true
+          }
+        })
+      }
+
+      return {
+        id: folder.id,
+        name: folder.name,
+        parentId: folder.parentId,
+        deletedAt,
+        expiresAt: getTrashExpiresAt(deletedAt),
+        folderCount: groupIds.size - 1,
+        itemCount: items.filter(item =>
+          item.folderId && groupIds.has(item.folderId) && isSameDeletion(item.deletedAt, deletedAt)
+        ).length,
+      }
+    })
+
+  const itemEntries = items
+    .filter(item => !isSameDeletion(item.folder?.deletedAt, item.deletedAt))
+    .map(item => ({
+      id: item.id,
+      name: item.name,
+      category: item.category,
+      manufacturer: item.manufacturer,
+      deletedAt: item.deletedAt!,
+      expiresAt: getTrashExpiresAt(item.deletedAt!),
+      folder: item.folder ? { id: item.folder.id, name: item.folder.name } : null,
+      thumbnail: item.images[0]?.thumbnailSmall || item.images[0]?.url || null,
+    }))
+
+  return { folders: folderEntries, items: itemEntries }
+}
+
+/**
+ * ゴミ箱のアイテムを復元する
+ * 元のフォルダがゴミ箱にある場合は未分類に戻す
+ * @returns アイテムが見つからない場合はnull
+ * @throws EntitlementError プランのアイテム数上限を超える場合
+ */
+export async function restoreItem(userId: string, itemId: string) {
+  const item = await prisma.item.findFirst({
+    where: { id: itemId, userId, deletedAt: { not: null } },
+    include: {
+      folder: {
+        select: { deletedAt: true },
+      },
+    },
+  })
+
+  if (!item) {
+    return null
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await assertItemCapacity(userId, 1, tx)
+
+    const restoredItem = await tx.item.update({
+      where: { id: item.id },
+      data: {
+        deletedAt: null,
+        folderId: item.folder && !item.folder.deletedAt ? item.folderId : null,
+        updatedAt: new Date(),
+      },
+      select: { id: true, name: true, folderId: true },
+    })
+
+    await recordItemRevision(tx, {
+      itemId: item.id,
+      userId,
+      action: 'restore',
+      before: item,
+      after: { ...item, folderId: restoredItem.folderId },
+    })
+
+    return restoredItem
+  })
+}
+
+/**
+ * ゴミ箱のフォルダを、同時に削除したサブフォルダ・アイテムとともに復元する
+ * 親フォルダがゴミ箱にある場合は最上位に戻す
+ * @returns フォルダが見つからない場合はnull
+ * @throws EntitlementError 復元するアイテムでプランのアイテム数上限を超える場合
+ */
+export async function restoreFolder(userId: string, folderId: string): Promise<TrashOperationResult | null> {
+  const folder = await prisma.folder.findFirst({
+    where: { id: folderId, userId, deletedAt: { not: null } },
+    include: {
+      parent: {
+        select: { deletedAt: true },
+      },
+    },
+  })
+
+  if (!folder) {
+    return null
+  }
+
+  const parentId = folder.parent && !folder.parent.deletedAt ? folder.parentId : null
+
+  // 復元先に同名のフォルダがある場合は復元しない
+  const duplicateFolder = await prisma.folder.findFirst({
+    where: {
+      userId,
+      name: folder.name,
+      parentId,
+      deletedAt: null,
+    },
+  })
+
+  if (duplicateFolder) {
+    throw new TrashRestoreError('復元先に同名のフォルダが既に存在します。フォルダ名を変更してから復元してください')
+  }
+
+  const groupIds = await getFolderSubtreeIds(userId, folder.id, folder.deletedAt)
+
+  return prisma.$transaction(async (tx) => {
+    const now = new Date()
+
+    const restoredItems = await tx.item.findMany({
+      where: { userId, folderId: { in: groupIds }, deletedAt: folder.deletedAt },
+      select: { ...revisionFieldSelect, id: true },
+    })
+
+    if (restoredItems.length > 0) {
+      await assertItemCapacity(userId, restoredItems.length, tx)
+    }
+
+    const { count: items } = await tx.item.updateMany({
+      where: { id: { in: restoredItems.map(item => item.id) } },
+      data: { deletedAt: null, updatedAt: now },
+    })
+
+    await recordItemRevisions(tx, restoredItems.map(item => ({
+      itemId: item.id,
+      userId,
+      action: 'restore',
+      before: item,
+      after: item,
+    })))
+
+    await tx.folder.update({
+      where: { id: folder.id },
+      data: { parentId, deletedAt: null, updatedAt: now },
+    })
+
+    const { count: subfolders } = await tx.folder.updateMany({
+      where: { userId, id: { in: groupIds.slice(1) } },
+      data: { deletedAt: null, updatedAt: now },
+    })
+
+    return { folders: subfolders + 1, items, failedBlobs: [] }
+  })
+}
+
+/**
+ * アイテムを完全に削除する（Vercel Blobの画像・書類とそのサムネイルを含む）
+ * 先にアイテムを削除し、削除できたアイテムのBlobだけを消す（途中で復元されたアイテムのBlobは残す）
+ * 個別のBlob削除に失敗しても処理は続行し、失敗したURLを返す
+ */
+export async function purgeItems(where: Prisma.ItemWhereInput): Promise<TrashOperationResult> {
+  const { count, blobSources } = await prisma.$transaction(async (tx) => {
+    const items = await tx.item.findMany({
+      where,
+      select: {
+        id: true,
+        images: {
+          select: {
+            url: true,
+            thumbnailSmall: true,
+            thumbnailMedium: true,
+            thumbnailLarge: true,
+          },
+        },
+        documents: {
+          select: { url: true, thumbnailUrl: true },
+        },
+      },
+    })
+    const itemIds = items.map(item => item.id)
+
+    // アイテムと関連データの削除（カスケード削除）。条件は削除時点で再評価される
+    const { count } = await tx.item.deleteMany({
+      where: { AND: [where, { id: { in: itemIds } }] },
+    })
+
+    // 取得後に復元されるなどして削除されなかったアイテムのBlobは消さない
+    const remaining = count < itemIds.length
+      ? new Set((await tx.item.findMany({
+          where: { id: { in: itemIds } },
+          select: { id: true },
+        })).map(item => item.id))
+      : new Set<string>()
+
+    return {
+      count,
+      blobSources: items
+        .filter(item => !remaining.has(item.id))
+        .flatMap(item => [...item.images, ...item.documents.map(toDocumentBlobSource)]),
+    }
+  })
+
+  const blobResult = await deleteImageBlobs(blobSources)
+
+  return { folders: 0, items: count, failedBlobs: blobResult.failed }
+}
+
+/**
+ * フォルダを完全に削除する（ゴミ箱内のアイテムのうちitemDeletedAtに当てはまるものも完全に削除する）
+ * 当てはまらないゴミ箱内のアイテム（別に削除したものなど）は未分類に移し、ゴミ箱から復元できるようにする
+ * @param itemDeletedAt 一緒に完全に削除するアイテムの削除日時の条件
+ */
+export async function purgeFolders(
+  userId: string,
+  folderIds: string[],
+  itemDeletedAt: Date | Prisma.DateTimeNullableFilter = { not: null }
+): Promise<TrashOperationResult> {
+  if (folderIds.length === 0) {
+    return { folders: 0, items: 0, failedBlobs: [] }
+  }
+
+  const itemResult = await purgeItems({
+    userId,
+    folderId: { in: folderIds },
+    deletedAt: itemDeletedAt,
+  })
+
+  const { count } = await prisma.$transaction(async (tx) => {
+    // 残ったアイテム（ゴミ箱外のもの・別に削除したもの）は未分類に移動
+    await tx.item.updateMany({
+      where: { userId, folderId: { in: folderIds } },
+      data: { folderId: null },
+    })
+
+    // 削除対象外のサブフォルダは最上位に移動
+    await tx.folder.updateMany({
+      where: { userId, parentId: { in: folderIds }, id: { notIn: folderIds } },
+      data: { parentId: null },
+    })
+
+    return tx.folder.deleteMany({
+      where: { userId, id: { in: folderIds } },
+    })
+  })
+
+  return { ...itemResult, folders: count }
+}
+
+/**
+ * ゴミ箱のフォルダを、同時に削除したサブフォルダ・アイテムとともに完全に削除する
+ * @returns フォルダが見つからない場合はnull
+ */
+export async function purgeTrashedFolder(userId: string, folderId: string): Promise<TrashOperationResult | null> {
+  const folder = await prisma.folder.findFirst({
+    where: { id: folderId, userId, deletedAt: { not: null } },
+    select: { id: true, deletedAt: true },
+  })
+
+  if (!folder) {
+    return null
+  }
+
+  // 同時に削除したアイテムのみ完全に削除する（別に削除したアイテムはゴミ箱に残す）
+  const groupIds = await getFolderSubtreeIds(userId, folder.id, folder.deletedAt)
+  return purgeFolders(userId, groupIds, folder.deletedAt!)
+}
+
+/**
+ * ゴミ箱を空にする
+ */
+export async function emptyTrash(userId: string): Promise<TrashOperationResult> {
+  const itemResult = await purgeItems({ userId, deletedAt: { not: null } })
+
+  const folders = await prisma.folder.findMany({
+    where: { userId, deletedAt: { not: null } },
+    select: { id: true },
+  })
+  const folderResult = await purgeFolders(userId, folders.map(folder => folder.id))
+
+  return {
+    folders: folderResult.folders,
+    items: itemResult.items + folderResult.items,
+    failedBlobs: [...itemResult.failedBlobs, ...folderResult.failedBlobs],
+  }
+}
+
+/**
+ * 保持期間を過ぎたゴミ箱のアイテム・フォルダを全ユーザー分完全に削除する
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<TrashOperationResult> {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+
+  const itemResult = await purgeItems({ deletedAt: { lt: cutoff } })
+
+  const expiredFolders = await prisma.folder.findMany({
+    where: { deletedAt: { lt: cutoff } },
+    select: { id: true, userId: true },
+  })
+
+  // ユーザーごとにフォルダを削除
+  const folderIdsByUser = new Map<string, string[]>()
+  expiredFolders.forEach(folder => {
+    folderIdsByUser.set(folder.userId, [...(folderIdsByUser.get(folder.userId) || []), folder.id])
+  })
+
+  const result: TrashOperationResult = { ...itemResult }
+  for (const [userId, folderIds] of Array.from(folderIdsByUser)) {
+    // 保持期間内のアイテムは未分類に移してゴミ箱に残す
+    const folderResult = await purgeFolders(userId, folderIds, { lt: cutoff })
+    result.folders += folderResult.folders
+    result.items += folderResult.items
+    result.failedBlobs.push(...folderResult.failedBlobs)
+  }
+
+  return result
+}
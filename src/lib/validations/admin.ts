@@ -0,0 +1,35 @@
+import { z } from 'zod'
+import { subscriptionTiers } from '@/lib/plans'
+
+/**
+ * 管理者によるユーザー検索のバリデーションスキーマ
+ */
+export const adminUserLookupSchema = z.object({
+  email: z.string()
+    .trim()
+    .email('有効なメールアドレスを入力してください')
+    .max(200, 'メールアドレスは200文字以内で入力してください'),
+})
+
+/**
+ * 管理者によるプラン変更のバリデーションスキーマ
+ */
+export const updateUserPlanSchema = z.object({
+  subscriptionTier: z.enum(subscriptionTiers, {
+    errorMap: () => ({ message: `プランは ${subscriptionTiers.join(' / ')} のいずれかを指定してください` })
+  }),
+
+  // 月間のAI利用回数の個別上限（プランの上限の代わりに使う。nullで解除）
+  aiUsageLimit: z.number()
+    .int('AI利用回数の上限は整数で指定してください')
+    .min(0, 'AI利用回数の上限は0以上で指定してください')
+    .max(100000, 'AI利用回数の上限は100000以下で指定してください')
+    .nullable()
+    .optional(),
+})
+
+/**
+ * 型エクスポート
+ */
+export type AdminUserLookupInput = z.infer<typeof adminUserLookupSchema>
+export type UpdateUserPlanInput = z.infer<typeof updateUserPlanSchema>
@@ -1,7 +1,10 @@
 import { z } from 'zod'
 
-// AI画像認識リクエストのバリデーション
-export const aiRecognizeRequestSchema = z.object({
+// 1回の画像認識で送信できる画像の最大数
+export const MAX_RECOGNITION_IMAGES = 4
+
+// 認識する画像1枚のバリデーション
+const recognitionImageSchema = z.object({
   imageBase64: z.string()
     .min(1, '画像データが必要です')
     .refine(
@@ -21,13 +24,75 @@ export const aiRecognizeRequestSchema = z.object({
     .optional()
 })
 
+// AI画像認識リクエストのバリデーション
+// 同じ商品を写した複数の画像（images）、または従来の1枚の画像（imageBase64・mimeType）を受け付け、画像の配列に揃える
+export const aiRecognizeRequestSchema = z.union([
+  z.object({
+    images: z.array(recognitionImageSchema)
+      .min(1, '画像データが必要です')
+      .max(MAX_RECOGNITION_IMAGES, `画像は${MAX_RECOGNITION_IMAGES}枚まで送信できます`)
+  }),
+  recognitionImageSchema
+]).transform(data => 'images' in data ? data.images : [data])
+
+// 確信度（0〜1）
+const confidenceValue = z.number().min(0).max(1)
+
+// AIが値を返さなかった項目（null・空文字・"null"）を undefined に揃える
+const optionalAIText = z.string()
+  .nullish()
+  .transform(val => {
+    const text = val?.trim()
+    return text && text !== 'null' ? text : undefined
+  })
+
+// 画像認識のAI出力（モデルの応答）のバリデーション
+export const aiRecognitionOutputSchema = z.object({
+  suggestions: z.array(z.string().trim())
+    .transform(suggestions => suggestions.filter(Boolean))
+    .pipe(z.array(z.string()).min(1, '商品名候補が必要です')),
+  category: optionalAIText,
+  manufacturer: optionalAIText,
+  description: optionalAIText,
+  confidence: z.object({
+    name: confidenceValue,
+    category: confidenceValue.nullish(),
+    manufacturer: confidenceValue.nullish(),
+    description: confidenceValue.nullish()
+  })
+})
+
+// 販売サイトごとの価格情報のバリデーション
+export const aiPriceListingSchema = z.object({
+  price: z.string().trim().min(1, '価格が必要です'),
+  site: z.string().trim().min(1, 'サイト名が必要です'),
+  url: z.string().trim().default(''),
+  condition: z.string().trim().min(1).default('状態不明')
+})
+
+// 価格検索のAI出力（モデルの応答）のバリデーション
+export const aiPriceSearchOutputSchema = z.object({
+  prices: z.array(aiPriceListingSchema),
+  // 空の場合は呼び出し側で件数から要約を作る
+  summary: z.string().trim().default('')
+})
+
 // AI画像認識レスポンスの型
 export const aiRecognizeResponseSchema = z.object({
   success: z.boolean(),
   data: z.object({
     suggestions: z.array(z.string()).min(1, '商品名候補が必要です'),
     category: z.string().optional(),
-    manufacturer: z.string().optional()
+    manufacturer: z.string().optional(),
+    description: z.string().optional(),
+    // 項目ごとの確信度（0〜1）
+    confidence: z.object({
+      name: confidenceValue,
+      category: confidenceValue.optional(),
+      manufacturer: confidenceValue.optional(),
+      description: confidenceValue.optional()
+    }),
+    imageCount: z.number().int().positive()
   }).optional(),
   error: z.string().optional(),
   code: z.string().optional()
@@ -69,7 +134,10 @@ export const aiErrorResponseSchema = z.object({
     'MISSING_IMAGE_DATA',
     'UNSUPPORTED_FORMAT',
     'AI_EMPTY_RESPONSE',
+    'AI_INVALID_RESPONSE',
     'AI_RECOGNITION_FAILED',
+    'AI_QUOTA_EXCEEDED',
+    'PLAN_LIMIT_EXCEEDED',
     'INTERNAL_ERROR'
   ]).optional()
 })
@@ -79,4 +147,6 @@ export type AiRecognizeRequest = z.infer<typeof aiRecognizeRequestSchema>
 export type AiRecognizeResponse = z.infer<typeof aiRecognizeResponseSchema>
 export type AiPriceSearchRequest = z.infer<typeof aiPriceSearchRequestSchema>
 export type AiPriceSearchResponse = z.infer<typeof aiPriceSearchResponseSchema>
-export type AiErrorResponse = z.infer<typeof aiErrorResponseSchema>
\ No newline at end of file
+export type AiErrorResponse = z.infer<typeof aiErrorResponseSchema>
+export type AiRecognitionOutput = z.infer<typeof aiRecognitionOutputSchema>
+export type AiPriceSearchOutput = z.infer<typeof aiPriceSearchOutputSchema>
\ No newline at end of file
@@ -0,0 +1,226 @@
+import { z } from 'zod'
+
+/**
+ * カスタムフィールドの型
+ * - text: 自由入力の文字列
+ * - number: 数値
+ * - date: 日付
+ * - select: 選択肢から1つ
+ * - boolean: はい/いいえ
+ */
+export const customFieldTypes = ['text', 'number', 'date', 'select', 'boolean'] as const
+
+/**
+ * selectの選択肢数の上限
+ */
+export const MAX_CUSTOM_FIELD_OPTIONS = 50
+
+/**
+ * テキスト型の値の最大文字数
+ */
+export const MAX_CUSTOM_FIELD_TEXT_LENGTH = 500
+
+// cuid形式のID
+const cuidRegex = /^c[a-z0-9]{24,}$/i
+
+// フィールド名（前後空白除去）
+const customFieldNameValidation = z.string()
+  .transform(val => val?.trim())
+  .refine(val => val && val.length >= 1, 'フィールド名は必須です')
+  .refine(val => val && val.length <= 50, 'フィールド名は50文字以内で入力してください')
+
+// selectの選択肢（前後空白除去、空欄と重複は除去）
+const customFieldOptionsValidation = z.array(
+  z.string()
+    .transform(val => val?.trim())
+    .refine(val => !val || val.length <= 100, '選択肢は100文字以内で入力してください')
+)
+  .max(MAX_CUSTOM_FIELD_OPTIONS, `選択肢は${MAX_CUSTOM_FIELD_OPTIONS}個まで設定できます`)
+  .transform(options => Array.from(new Set(options.filter(Boolean))))
+
+// 対象カテゴリ（空文字はnull = すべてのカテゴリ）
+const customFieldCategoryValidation = z.string()
+  .nullable()
+  .transform(val => val?.trim() || null)
+  .refine(val => !val || val.length <= 50, 'カテゴリーは50文字以内で入力してください')
+
+const sortOrderValidation = z.number()
+  .int('表示順は整数で指定してください')
+  .min(0, '表示順は0以上で指定してください')
+  .max(9999, '表示順は9999以下で指定してください')
+
+/**
+ * カスタムフィールド定義作成時のバリデーションスキーマ
+ */
+export const createCustomFieldSchema = z.object({
+  name: customFieldNameValidation,
+  type: z.enum(customFieldTypes, {
+    errorMap: () => ({ message: `フィールドの型は ${customFieldTypes.join(', ')} のいずれかを指定してください` })
+  }),
+  options: customFieldOptionsValidation.optional().default([]),
+  category: customFieldCategoryValidation.optional().default(null),
+  required: z.boolean().optional().default(false),
+  sortOrder: sortOrderValidation.optional().default(0),
+})
+.refine(data => data.type !== 'select' || data.options.length > 0, {
+  message: '選択式のフィールドには選択肢を1つ以上設定してください',
+  path: ['options']
+})
+
+/**
+ * カスタムフィールド定義更新時のバリデーションスキーマ（型は変更不可）
+ */
+export const updateCustomFieldSchema = z.object({
+  name: customFieldNameValidation.optional(),
+  options: customFieldOptionsValidation.optional(),
+  category: customFieldCategoryValidation.optional(),
+  required: z.boolean().optional(),
+  sortOrder: sortOrderValidation.optional(),
+})
+.refine(data => {
+  // 少なくとも1つのフィールドが更新されていることを確認
+  const hasUpdate = Object.values(data).some(value => value !== undefined)
+  return hasUpdate
+}, {
+  message: '更新する項目を少なくとも1つ指定してください',
+  path: ['_root']
+})
+
+/**
+ * カスタムフィールドID パラメータのバリデーション
+ */
+export const customFieldIdSchema = z.object({
+  id: z.string()
+    .min(1, 'カスタムフィールドIDは必須です')
+    .refine(val => cuidRegex.test(val), '有効なカスタムフィールドIDを指定してください'),
+})
+
+/**
+ * カスタムフィールド一覧取得時のバリデーションスキーマ
+ * categoryを指定した場合は、そのカテゴリのアイテムに適用される定義のみ返す
+ */
+export const getCustomFieldsSchema = z.object({
+  category: z.string()
+    .transform(val => val?.trim())
+    .refine(val => !val || val.length <= 50, 'カテゴリーは50文字以内で入力してください')
+    .optional(),
+})
+
+/**
+ * アイテムに入力されたカスタムフィールドの値（キーはフィールドID）
+ * 定義に沿った検証は buildCustomFieldValuesSchema で行う
+ */
+export const customFieldValuesInput = z.record(
+  z.string(),
+  z.union([z.string(), z.number(), z.boolean(), z.null()])
+)
+
+/**
+ * アイテム一覧のカスタムフィールド絞り込み条件（キーはフィールドID）
+ * number・dateは「min..max」形式で範囲指定できる（どちらか一方は省略可）
+ */
+export const customFieldFiltersSchema = z.record(
+  z.string().refine(val => cuidRegex.test(val), '有効なカスタムフィールドIDを指定してください'),
+  z.string()
+    .transform(val => val.trim())
+    .refine(val => val.length <= 100, '絞り込み条件は100文字以内で入力してください')
+)
+
+/**
+ * 値の検証に必要なカスタムフィールド定義
+ */
+export interface CustomFieldDefinitionInput {
+  id: string
+  name: string
+  type: string
+  options: string[]
+  required: boolean
+}
+
+/**
+ * 検証後のカスタムフィールドの値（nullは値をクリア）
+ */
+export type CustomFieldValue = string | number | boolean | Date | null
+
+// 日付文字列（YYYY-MM-DD または ISO形式）をDateに変換
+function parseCustomFieldDate(value: string): Date | null {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * カスタムフィールド定義から値のバリデーションスキーマを生成する
+ * requireAll が true の場合、未指定の必須フィールドもエラーにする（作成時）
+ */
+export function buildCustomFieldValuesSchema(
+  definitions: CustomFieldDefinitionInput[],
+  options: { requireAll: boolean }
+) {
+  const shape = Object.fromEntries(definitions.map(definition => {
+    const validator = z.unknown().transform((raw, ctx): CustomFieldValue | undefined => {
+      const addIssue = (message: string) => {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+        return z.NEVER
+      }
+
+      if (raw === undefined && !options.requireAll) {
+        return undefined
+      }
+
+      const value = typeof raw === 'string' ? raw.trim() : raw
+      if (value === undefined || value === null || value === '') {
+        return definition.required ? addIssue(`${definition.name}は必須です`) : null
+      }
+
+      switch (definition.type) {
+        case 'number': {
+          const num = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN
+          if (!Number.isFinite(num)) {
+            return addIssue(`${definition.name}は数値で入力してください`)
+          }
+          return num
+        }
+        case 'date': {
+          const date = typeof value === 'string' ? parseCustomFieldDate(value) : null
+          if (!date) {
+            return addIssue(`${definition.name}は有効な日付形式で入力してください`)
+          }
+          return date
+        }
+        case 'boolean': {
+          if (typeof value === 'boolean') return value
+          if (value === 'true' || value === 'false') return value === 'true'
+          return addIssue(`${definition.name}は true または false を指定してください`)
+        }
+        case 'select': {
+          if (typeof value !== 'string' || !definition.options.includes(value)) {
+            return addIssue(`${definition.name}は選択肢の中から選んでください`)
+          }
+          return value
+        }
+        default: {
+          const text = String(value)
+          if (text.length > MAX_CUSTOM_FIELD_TEXT_LENGTH) {
+            return addIssue(`${definition.name}は${MAX_CUSTOM_FIELD_TEXT_LENGTH}文字以内で入力してください`)
+          }
+          return text
+        }
+      }
+    })
+
+    return [definition.id, validator]
+  }))
+
+  return z.object(shape)
+}
+
+/**
+ * 型エクスポート
+ */
+export type CustomFieldType = typeof customFieldTypes[number]
+export type CreateCustomFieldInput = z.infer<typeof createCustomFieldSchema>
+export type UpdateCustomFieldInput = z.infer<typeof updateCustomFieldSchema>
+export type CustomFieldIdInput = z.infer<typeof customFieldIdSchema>
+export type GetCustomFieldsInput = z.infer<typeof getCustomFieldsSchema>
+export type CustomFieldValuesInput = z.infer<typeof customFieldValuesInput>
+export type CustomFieldFiltersInput = z.infer<typeof customFieldFiltersSchema>
@@ -132,6 +132,26 @@ export const moveItemsSchema = z.object({
     .nullable(),
 })
 
+/**
+ * フォルダ削除時の中身の扱い
+ * - reject: サブフォルダがある場合は削除しない（アイテムは未分類へ移動。従来の削除と同じ）
+ * - move_to_parent: サブフォルダとアイテムを親フォルダへ移動
+ * - move_to_uncategorized: サブフォルダごと削除し、アイテムは未分類へ移動
+ * - delete_all: サブフォルダ・アイテム・画像をすべて削除
+ */
+export const folderDeleteModes = ['reject', 'move_to_parent', 'move_to_uncategorized', 'delete_all'] as const
+
+/**
+ * フォルダ削除時のバリデーションスキーマ（クエリパラメータ）
+ */
+export const deleteFolderSchema = z.object({
+  mode: z.enum(folderDeleteModes, {
+    errorMap: () => ({ message: '有効な削除モードを指定してください' }),
+  })
+  .optional()
+  .default('reject'),
+})
+
 /**
  * 型エクスポート
  */
@@ -139,4 +159,6 @@ export type CreateFolderInput = z.infer<typeof createFolderSchema>
 export type UpdateFolderInput = z.infer<typeof updateFolderSchema>
 export type FolderIdInput = z.infer<typeof folderIdSchema>
 export type GetFoldersInput = z.infer<typeof getFoldersSchema>
-export type MoveItemsInput = z.infer<typeof moveItemsSchema>
\ No newline at end of file
+export type MoveItemsInput = z.infer<typeof moveItemsSchema>
+export type FolderDeleteMode = typeof folderDeleteModes[number]
+export type DeleteFolderInput = z.infer<typeof deleteFolderSchema>
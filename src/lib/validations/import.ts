@@ -0,0 +1,57 @@
+import { z } from 'zod'
+
+/**
+ * インポート対象のフィールド（createItemSchemaのフィールド + フォルダパス）
+ */
+export const importFieldNames = [
+  'name',
+  'description',
+  'category',
+  'manufacturer',
+  'purchaseDate',
+  'purchasePrice',
+  'purchaseLocation',
+  'condition',
+  'notes',
+  'quantity',
+  'unit',
+  'storageRoom',
+  'storageShelf',
+  'storageBox',
+  'warrantyExpiresAt',
+  'folderPath',
+] as const
+
+export type ImportFieldName = typeof importFieldNames[number]
+
+/**
+ * 一度にインポートできる最大行数
+ */
+export const MAX_IMPORT_ROWS = 1000
+
+/**
+ * アイテム一括インポートリクエストのバリデーションスキーマ
+ */
+export const importItemsSchema = z.object({
+  format: z.enum(['csv', 'json'], {
+    errorMap: () => ({ message: 'ファイル形式は csv または json を指定してください' })
+  }),
+
+  content: z.string()
+    .min(1, 'インポートするデータが空です')
+    .max(5 * 1024 * 1024, 'インポートできるデータは5MBまでです'),
+
+  // 列名 → フィールド名の対応（未指定の列はヘッダー名から自動判定）
+  mapping: z.record(z.string(), z.union([z.enum(importFieldNames), z.literal('')]))
+    .optional(),
+
+  // trueの場合は検証結果のみを返し、データは保存しない
+  dryRun: z.boolean()
+    .optional()
+    .default(true),
+})
+
+/**
+ * 型エクスポート
+ */
+export type ImportItemsInput = z.infer<typeof importItemsSchema>
@@ -6,6 +6,16 @@ export * from './item'
 export * from './folder'
 export * from './user'
 export * from './upload'
+export * from './import'
+export * from './tag'
+export * from './custom-field'
+export * from './smart-folder'
+export * from './item-template'
+export * from './item-loan'
+export * from './item-document'
+export * from './item-reminder'
+export * from './notification'
+export * from './admin'
 
 import { ZodError } from 'zod'
 import { NextResponse } from 'next/server'
@@ -0,0 +1,59 @@
+import { z } from 'zod'
+import { itemIdSchema } from './item'
+
+/**
+ * 1アイテムに添付できる書類数の上限
+ */
+export const MAX_DOCUMENTS_PER_ITEM = 20
+
+/**
+ * 書類の種類（レシート・説明書・保証書・その他）
+ */
+export const itemDocumentKinds = ['receipt', 'manual', 'warranty', 'other'] as const
+
+export type ItemDocumentKind = typeof itemDocumentKinds[number]
+
+const documentKindValidation = z.enum(itemDocumentKinds, {
+  errorMap: () => ({ message: '書類の種類は receipt, manual, warranty, other のいずれかを指定してください' })
+})
+
+const documentTitleValidation = z.string()
+  .transform(val => val?.trim() || null)
+  .refine(val => !val || val.length <= 100, '書類名は100文字以内で入力してください')
+  .nullable()
+
+/**
+ * 書類アップロード時のバリデーションスキーマ（ファイル以外のフォーム項目）
+ */
+export const uploadItemDocumentSchema = z.object({
+  kind: documentKindValidation.optional().default('other'),
+  title: documentTitleValidation.optional(),
+})
+
+/**
+ * 書類情報更新時のバリデーションスキーマ
+ */
+export const updateItemDocumentSchema = z.object({
+  kind: documentKindValidation.optional(),
+  title: documentTitleValidation.optional(),
+})
+.refine(data => data.kind !== undefined || data.title !== undefined, {
+  message: '更新する項目を少なくとも1つ指定してください',
+  path: ['_root']
+})
+
+/**
+ * 書類のパラメータのバリデーション
+ */
+export const itemDocumentParamsSchema = itemIdSchema.extend({
+  documentId: z.string()
+    .min(1, '書類IDは必須です')
+    .refine(val => /^c[a-z0-9]{24,}$/i.test(val), '有効な書類IDを指定してください'),
+})
+
+/**
+ * 型エクスポート
+ */
+export type UploadItemDocumentInput = z.infer<typeof uploadItemDocumentSchema>
+export type UpdateItemDocumentInput = z.infer<typeof updateItemDocumentSchema>
+export type ItemDocumentParamsInput = z.infer<typeof itemDocumentParamsSchema>
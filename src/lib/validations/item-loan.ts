@@ -0,0 +1,96 @@
+import { z } from 'zod'
+import { itemIdSchema } from './item'
+
+// 日付（YYYY-MM-DD またはISO形式の文字列）
+const loanDateValidation = (fieldName: string) => z.string()
+  .transform(val => val?.trim())
+  .refine(val => !isNaN(new Date(val).getTime()), `${fieldName}は有効な日付形式で入力してください`)
+  .transform(val => new Date(val))
+
+// 未入力（空文字・null）を許す日付
+const optionalLoanDateValidation = (fieldName: string) => z.union([
+  z.literal('').transform(() => null),
+  z.null(),
+  loanDateValidation(fieldName),
+])
+
+const borrowerValidation = z.string()
+  .transform(val => val?.trim())
+  .refine(val => val && val.length >= 1, '貸出先は必須です')
+  .refine(val => val && val.length <= 100, '貸出先は100文字以内で入力してください')
+
+const loanNotesValidation = z.string()
+  .transform(val => val?.trim() || null)
+  .refine(val => !val || val.length <= 500, 'メモは500文字以内で入力してください')
+  .nullable()
+
+// 返却予定日・返却日が貸出日より前でないことを確認する
+const isNotBefore = (date: Date | null | undefined, lentAt: Date | undefined) =>
+  !date || !lentAt || date >= new Date(lentAt.getFullYear(), lentAt.getMonth(), lentAt.getDate())
+
+/**
+ * 貸出記録作成時のバリデーションスキーマ（貸出日の省略時は当日）
+ */
+export const createItemLoanSchema = z.object({
+  borrower: borrowerValidation,
+  lentAt: loanDateValidation('貸出日').optional(),
+  dueDate: optionalLoanDateValidation('返却予定日').optional(),
+  notes: loanNotesValidation.optional(),
+})
+.refine(data => isNotBefore(data.dueDate, data.lentAt ?? new Date()), {
+  message: '返却予定日は貸出日以降の日付を指定してください',
+  path: ['dueDate']
+})
+
+/**
+ * 貸出記録更新時のバリデーションスキーマ（returnedAtに日付を指定すると返却済み、nullで貸出中に戻す）
+ */
+export const updateItemLoanSchema = z.object({
+  borrower: borrowerValidation.optional(),
+  lentAt: loanDateValidation('貸出日').optional(),
+  dueDate: optionalLoanDateValidation('返却予定日').optional(),
+  returnedAt: optionalLoanDateValidation('返却日').optional(),
+  notes: loanNotesValidation.optional(),
+})
+.refine(data => {
+  // 少なくとも1つのフィールドが更新されていることを確認
+  const hasUpdate = Object.values(data).some(value => value !== undefined)
+  return hasUpdate
+}, {
+  message: '更新する項目を少なくとも1つ指定してください',
+  path: ['_root']
+})
+
+/**
+ * 貸出記録のパラメータのバリデーション
+ */
+export const itemLoanParamsSchema = itemIdSchema.extend({
+  loanId: z.string()
+    .min(1, '貸出記録IDは必須です')
+    .refine(val => /^c[a-z0-9]{24,}$/i.test(val), '有効な貸出記録IDを指定してください'),
+})
+
+/**
+ * 貸出記録の日付の前後関係を確認する（更新時は既存の値と合わせて確認）
+ * @returns エラーメッセージ（問題がなければnull）
+ */
+export function validateItemLoanDates(loan: {
+  lentAt: Date
+  dueDate: Date | null
+  returnedAt: Date | null
+}): string | null {
+  if (!isNotBefore(loan.dueDate, loan.lentAt)) {
+    return '返却予定日は貸出日以降の日付を指定してください'
+  }
+  if (!isNotBefore(loan.returnedAt, loan.lentAt)) {
+    return '返却日は貸出日以降の日付を指定してください'
+  }
+  return null
+}
+
+/**
+ * 型エクスポート
+ */
+export type CreateItemLoanInput = z.infer<typeof createItemLoanSchema>
+export type UpdateItemLoanInput = z.infer<typeof updateItemLoanSchema>
+export type ItemLoanParamsInput = z.infer<typeof itemLoanParamsSchema>
@@ -0,0 +1,95 @@
+import { z } from 'zod'
+import { itemIdSchema } from './item'
+
+/**
+ * 1アイテムに設定できるリマインダー数の上限
+ */
+export const MAX_REMINDERS_PER_ITEM = 10
+
+/**
+ * リマインダーの種類（保証期限・電池交換・定期メンテナンス・返却予定日・その他）
+ */
+export const itemReminderTypes = ['warranty', 'battery', 'maintenance', 'loan', 'custom'] as const
+
+export type ItemReminderType = typeof itemReminderTypes[number]
+
+/**
+ * 繰り返しの単位（none は1回のみ）
+ */
+export const reminderRecurrences = ['none', 'daily', 'weekly', 'monthly', 'yearly'] as const
+
+export type ReminderRecurrence = typeof reminderRecurrences[number]
+
+const reminderTypeValidation = z.enum(itemReminderTypes, {
+  errorMap: () => ({ message: 'リマインダーの種類は warranty, battery, maintenance, loan, custom のいずれかを指定してください' })
+})
+
+const recurrenceValidation = z.enum(reminderRecurrences, {
+  errorMap: () => ({ message: '繰り返しは none, daily, weekly, monthly, yearly のいずれかを指定してください' })
+})
+
+const reminderTitleValidation = z.string()
+  .transform(val => val?.trim())
+  .refine(val => val && val.length >= 1, 'タイトルは必須です')
+  .refine(val => val && val.length <= 100, 'タイトルは100文字以内で入力してください')
+
+const reminderNotesValidation = z.string()
+  .transform(val => val?.trim() || null)
+  .refine(val => !val || val.length <= 500, 'メモは500文字以内で入力してください')
+  .nullable()
+
+const intervalValidation = z.number()
+  .int('繰り返しの間隔は整数で指定してください')
+  .min(1, '繰り返しの間隔は1以上で指定してください')
+  .max(365, '繰り返しの間隔は365以下で指定してください')
+
+// 通知日（YYYY-MM-DD またはISO形式の文字列）
+const dueAtValidation = z.string()
+  .transform(val => val?.trim())
+  .refine(val => !!val && !isNaN(new Date(val).getTime()), '通知日は有効な日付形式で入力してください')
+  .transform(val => new Date(val))
+
+/**
+ * リマインダー作成時のバリデーションスキーマ
+ */
+export const createItemReminderSchema = z.object({
+  type: reminderTypeValidation,
+  title: reminderTitleValidation,
+  notes: reminderNotesValidation.optional(),
+  recurrence: recurrenceValidation.optional().default('none'),
+  interval: intervalValidation.optional().default(1),
+  dueAt: dueAtValidation,
+})
+
+/**
+ * リマインダー更新時のバリデーションスキーマ（dueAtを指定すると次回の通知日を変更する）
+ */
+export const updateItemReminderSchema = z.object({
+  type: reminderTypeValidation.optional(),
+  title: reminderTitleValidation.optional(),
+  notes: reminderNotesValidation.optional(),
+  recurrence: recurrenceValidation.optional(),
+  interval: intervalValidation.optional(),
+  dueAt: dueAtValidation.optional(),
+  enabled: z.boolean().optional(),
+})
+.refine(data => Object.values(data).some(value => value !== undefined), {
+  message: '更新する項目を少なくとも1つ指定してください',
+  path: ['_root']
+})
+
+/**
+ * リマインダーのパラメータのバリデーション
+ */
+export const itemReminderParamsSchema = itemIdSchema.extend({
+  reminderId: z.string()
+    .min(1, 'リマインダーIDは必須です')
+    .refine(val => /^c[a-z0-9]{24,}$/i.test(val), '有効なリマインダーIDを指定してください'),
+})
+
+/**
+ * 型エクスポート
+ */
+export type CreateItemReminderInput = z.infer<typeof createItemReminderSchema>
+export type UpdateItemReminderInput = z.infer<typeof updateItemReminderSchema>
+export type ItemReminderParamsInput = z.infer<typeof itemReminderParamsSchema>
@@ -0,0 +1,49 @@
+import { z } from 'zod'
+import { itemTemplateFieldsSchema } from './item'
+
+/**
+ * 1ユーザーが作成できるテンプレート数の上限
+ */
+export const MAX_ITEM_TEMPLATES = 50
+
+// テンプレート名のバリデーション
+const itemTemplateNameValidation = z.string()
+  .transform(val => val?.trim())
+  .refine(val => val && val.length >= 1, 'テンプレート名は必須です')
+  .refine(val => val && val.length <= 50, 'テンプレート名は50文字以内で入力してください')
+
+/**
+ * テンプレート作成時のバリデーションスキーマ
+ */
+export const createItemTemplateSchema = itemTemplateFieldsSchema.extend({
+  name: itemTemplateNameValidation,
+})
+.refine(data => Object.entries(data).some(([key, value]) => key !== 'name' && value !== undefined), {
+  message: 'テンプレートに保存する項目を少なくとも1つ入力してください',
+  path: ['_root']
+})
+
+/**
+ * テンプレート更新時のバリデーションスキーマ
+ * 保存する項目はまとめて置き換える（指定しなかった項目は空になる）。表示順のみの更新も可能
+ */
+export const updateItemTemplateSchema = itemTemplateFieldsSchema.extend({
+  name: itemTemplateNameValidation.optional(),
+  sortOrder: z.number().int('表示順は整数で指定してください').min(0).max(1000).optional(),
+})
+
+/**
+ * テンプレートID パラメータのバリデーション
+ */
+export const itemTemplateIdSchema = z.object({
+  id: z.string()
+    .min(1, 'テンプレートIDは必須です')
+    .refine(val => /^c[a-z0-9]{24,}$/i.test(val), '有効なテンプレートIDを指定してください'),
+})
+
+/**
+ * 型エクスポート
+ */
+export type CreateItemTemplateInput = z.infer<typeof createItemTemplateSchema>
+export type UpdateItemTemplateInput = z.infer<typeof updateItemTemplateSchema>
+export type ItemTemplateIdInput = z.infer<typeof itemTemplateIdSchema>
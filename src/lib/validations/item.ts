@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { itemTagsValidation, tagNameValidation, MAX_TAGS_PER_ITEM } from './tag'
+import { customFieldValuesInput } from './custom-field'
 
 /**
  * カスタムバリデーション関数
@@ -82,6 +84,19 @@ const priceValidation = z.union([
   return decimalPlaces <= 2
 }, '価格は小数点以下2桁までで入力してください')
 
+// 数量のバリデーション（0以上の整数、未入力は1）
+const quantityValidation = z.union([
+  z.number(),
+  z.string()
+    .transform(val => val?.trim()) // 前後空白除去
+    .refine(val => val === '' || /^\d+$/.test(val), '数量は0以上の整数で入力してください')
+    .transform(val => val === '' ? undefined : Number(val))
+])
+.optional()
+.refine(val => val === undefined || Number.isInteger(val), '数量は整数で入力してください')
+.refine(val => val === undefined || val >= 0, '数量は0以上で入力してください')
+.refine(val => val === undefined || val <= 999999, '数量は999,999以下で入力してください')
+
 /**
  * 基本アイテムスキーマ（refineなし）
  */
@@ -103,6 +118,18 @@ const baseItemSchema = z.object({
   condition: trimmedOptionalString(50, '状態'),
   
   notes: trimmedOptionalString(2000, 'メモ'),
+
+  quantity: quantityValidation,
+
+  unit: trimmedOptionalString(20, '単位'),
+
+  storageRoom: trimmedOptionalString(50, '保管場所（部屋）'),
+
+  storageShelf: trimmedOptionalString(50, '保管場所（棚）'),
+
+  storageBox: trimmedOptionalString(50, '保管場所（箱）'),
+
+  warrantyExpiresAt: dateValidation,
   
   folderId: z.string()
     .transform(val => val?.trim())
@@ -115,6 +142,10 @@ const baseItemSchema = z.object({
     }, '有効なフォルダIDを指定してください')
     .transform(val => val === '' ? undefined : val)
     .optional(),
+
+  tags: itemTagsValidation.optional(),
+
+  customFields: customFieldValuesInput.optional(),
 })
 
 /**
@@ -169,6 +200,62 @@ export const itemIdSchema = z.object({
     }, '有効なアイテムIDを指定してください'),
 })
 
+/**
+ * アイテム履歴のパラメータのバリデーション
+ */
+export const itemRevisionParamsSchema = itemIdSchema.extend({
+  revisionId: z.string()
+    .min(1, '履歴IDは必須です')
+    .refine(val => /^c[a-z0-9]{24,}$/i.test(val), '有効な履歴IDを指定してください'),
+})
+
+/**
+ * 貸出状況による絞り込みの種類
+ */
+export const itemLoanStatuses = ['on_loan', 'overdue', 'available'] as const
+
+/**
+ * アイテム一覧の並び替え項目（relevanceは検索キーワードとの関連度順）
+ */
+export const itemSortFields = ['createdAt', 'updatedAt', 'name', 'purchaseDate', 'price', 'relevance'] as const
+
+// 絞り込み条件の数値（空文字は未指定）
+const numberFilterParam = (fieldName: string) => z.string()
+  .transform(val => val.trim())
+  .refine(val => val === '' || !isNaN(Number(val)), `${fieldName}には数値を指定してください`)
+  .transform(val => val === '' ? undefined : Number(val))
+  .refine(val => val === undefined || val >= 0, `${fieldName}は0以上で指定してください`)
+  .optional()
+
+// 絞り込み条件の日付（空文字は未指定、endOfDayの場合は日付のみの指定をその日の終わりとして扱う）
+const dateFilterParam = (fieldName: string, endOfDay = false) => z.string()
+  .transform(val => val.trim())
+  .refine(val => val === '' || !isNaN(new Date(val).getTime()), `${fieldName}には有効な日付を指定してください`)
+  .transform(val => {
+    if (val === '') return undefined
+    const date = new Date(val)
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(val)) {
+      date.setUTCHours(23, 59, 59, 999)
+    }
+    return date
+  })
+  .optional()
+
+// 絞り込み条件の真偽値（true/false）
+const booleanFilterParam = (fieldName: string) => z.enum(['true', 'false'], {
+  errorMap: () => ({ message: `${fieldName}は true または false を指定してください` })
+})
+  .transform(val => val === 'true')
+  .optional()
+
+// 範囲指定の下限・上限の組（下限が上限を超えていないかを検証する）
+const filterRanges = [
+  ['priceMin', 'priceMax', '購入価格'],
+  ['purchasedFrom', 'purchasedTo', '購入日'],
+  ['createdFrom', 'createdTo', '作成日'],
+  ['updatedFrom', 'updatedTo', '更新日'],
+] as const
+
 /**
  * アイテム検索時のバリデーションスキーマ
  */
@@ -200,7 +287,53 @@ export const searchItemsSchema = z.object({
     }, '有効なフォルダIDを指定してください')
     .transform(val => val === '' ? undefined : val)
     .optional(),
+
+  // folderId指定時にサブフォルダ内のアイテムも含める
+  includeSubfolders: booleanFilterParam('サブフォルダを含めるかどうか'),
+
+  condition: z.string()
+    .transform(val => val?.trim())
+    .refine(val => !val || val.length <= 50, '状態は50文字以内で入力してください')
+    .optional(),
+
+  priceMin: numberFilterParam('購入価格の下限'),
+  priceMax: numberFilterParam('購入価格の上限'),
+
+  purchasedFrom: dateFilterParam('購入日の開始日'),
+  purchasedTo: dateFilterParam('購入日の終了日', true),
+
+  createdFrom: dateFilterParam('作成日の開始日'),
+  createdTo: dateFilterParam('作成日の終了日', true),
+
+  updatedFrom: dateFilterParam('更新日の開始日'),
+  updatedTo: dateFilterParam('更新日の終了日', true),
+
+  hasImages: booleanFilterParam('画像の有無'),
+
+  hasPriceHistory: booleanFilterParam('価格データの有無'),
+
+  // 貸出状況（on_loan: 貸出中、overdue: 返却予定日を過ぎた貸出中、available: 手元にある）
+  loanStatus: z.enum(itemLoanStatuses, {
+    errorMap: () => ({ message: `貸出状況は ${itemLoanStatuses.join(', ')} のいずれかを指定してください` })
+  })
+  .optional(),
+
+  // 購入価格から最新の相場価格（平均）への変動率（%、増減を問わない）
+  valueChangeMin: numberFilterParam('価値の変動率')
+    .refine(val => val === undefined || val <= 10000, '価値の変動率は10000%以下で指定してください'),
   
+  // カンマ区切りのタグ名
+  tags: z.string()
+    .transform(val => val.split(',').map(tag => tag.trim()).filter(Boolean))
+    .refine(val => val.length <= MAX_TAGS_PER_ITEM, `絞り込みに指定できるタグは${MAX_TAGS_PER_ITEM}個までです`)
+    .optional(),
+
+  tagMode: z.enum(['any', 'all'], {
+    errorMap: () => ({ message: 'タグの絞り込み条件は any または all を指定してください' })
+  })
+  .optional()
+  .default('any'),
+
   page: z.union([
     z.string().regex(/^\d+$/, '有効なページ番号を指定してください').transform(Number),
     z.number().int('ページ番号は整数で指定してください')
@@ -218,12 +351,21 @@ export const searchItemsSchema = z.object({
   .refine(val => val <= 100, '表示件数は100件以下で指定してください')
   .optional()
   .default(20),
+
+  // カーソルページネーション（前ページの nextCursor を指定、空文字は先頭ページ）
+  cursor: z.string()
+    .max(500, '有効なカーソルを指定してください')
+    .optional(),
   
-  sort: z.enum(['createdAt', 'updatedAt', 'name', 'purchaseDate', 'price'], {
-    errorMap: () => ({ message: 'ソート項目は createdAt, updatedAt, name, purchaseDate, price のいずれかを指定してください' })
-  })
-  .optional()
-  .default('createdAt'),
+  // 「cf:フィールドID」でカスタムフィールドの値による並び替え
+  sort: z.string()
+    .refine(
+      val => (itemSortFields as readonly string[]).includes(val) || /^cf:c[a-z0-9]{24,}$/i.test(val),
+      'ソート項目は createdAt, updatedAt, name, purchaseDate, price, relevance, cf:フィールドID のいずれかを指定してください'
+    )
+    .transform(val => val as ItemSortField | `cf:${string}`)
+    .optional()
+    .default('createdAt'),
   
   order: z.enum(['asc', 'desc'], {
     errorMap: () => ({ message: 'ソート順は asc または desc を指定してください' })
@@ -231,6 +373,151 @@ export const searchItemsSchema = z.object({
   .optional()
   .default('desc'),
 })
+.superRefine((data, ctx) => {
+  filterRanges.forEach(([minKey, maxKey, fieldName]) => {
+    const min = data[minKey]
+    const max = data[maxKey]
+    if (min !== undefined && max !== undefined && min > max) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${fieldName}の範囲指定が正しくありません（下限が上限を超えています）`,
+        path: [maxKey],
+      })
+    }
+  })
+})
+
+/**
+ * 一括操作の種類
+ * - move: フォルダへ移動
+ * - delete: ゴミ箱へ移動
+ * - update: カテゴリー・メーカー・状態を一括設定
+ * - tag: タグを一括で追加・削除
+ * - price_search: AI価格調査を一括実行
+ */
+export const bulkItemActions = ['move', 'delete', 'update', 'tag', 'price_search'] as const
+
+/**
+ * 一度に操作できるアイテム数の上限
+ */
+export const MAX_BULK_ITEMS = 100
+
+/**
+ * 一度に価格調査できるアイテム数の上限（AIのレート制限に合わせる）
+ */
+export const MAX_BULK_PRICE_SEARCH_ITEMS = 10
+
+// 一括操作の対象アイテムID（重複は除去）
+const bulkItemIdsValidation = (max: number, message: string) => z.array(
+  z.string().refine(val => {
+    // UUIDまたはcuid形式のIDを許可
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+    const cuidRegex = /^c[a-z0-9]{24,}$/i
+    return uuidRegex.test(val) || cuidRegex.test(val)
+  }, '有効なアイテムIDを指定してください')
+)
+  .min(1, '対象のアイテムを選択してください')
+  .max(max, message)
+  .transform(ids => Array.from(new Set(ids)))
+
+// 一括設定するフィールド（空文字・nullは値をクリア）
+const bulkFieldValidation = (maxLength: number, fieldName: string) => z.string()
+  .nullable()
+  .transform(val => val?.trim() || null)
+  .refine(val => !val || val.length <= maxLength, `${fieldName}は${maxLength}文字以内で入力してください`)
+  .optional()
+
+/**
+ * アイテム一括操作のバリデーションスキーマ
+ */
+export const bulkItemOperationSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('move'),
+    itemIds: bulkItemIdsValidation(MAX_BULK_ITEMS, `一度に操作できるアイテムは${MAX_BULK_ITEMS}個までです`),
+    folderId: z.string()
+      .refine(val => {
+        const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+        const cuidRegex = /^c[a-z0-9]{24,}$/i
+        return uuidRegex.test(val) || cuidRegex.test(val)
+      }, '有効なフォルダIDを指定してください')
+      .nullable(),
+  }),
+  z.object({
+    action: z.literal('delete'),
+    itemIds: bulkItemIdsValidation(MAX_BULK_ITEMS, `一度に操作できるアイテムは${MAX_BULK_ITEMS}個までです`),
+  }),
+  z.object({
+    action: z.literal('update'),
+    itemIds: bulkItemIdsValidation(MAX_BULK_ITEMS, `一度に操作できるアイテムは${MAX_BULK_ITEMS}個までです`),
+    fields: z.object({
+      category: bulkFieldValidation(50, 'カテゴリー'),
+      manufacturer: bulkFieldValidation(100, 'メーカー'),
+      condition: bulkFieldValidation(50, '状態'),
+    })
+    .refine(fields => Object.values(fields).some(value => value !== undefined), {
+      message: '設定する項目を少なくとも1つ指定してください',
+      path: ['_root']
+    }),
+  }),
+  z.object({
+    action: z.literal('tag'),
+    itemIds: bulkItemIdsValidation(MAX_BULK_ITEMS, `一度に操作できるアイテムは${MAX_BULK_ITEMS}個までです`),
+    add: z.array(tagNameValidation).max(MAX_TAGS_PER_ITEM).optional().default([]),
+    remove: z.array(tagNameValidation).max(MAX_TAGS_PER_ITEM).optional().default([]),
+  }),
+  z.object({
+    action: z.literal('price_search'),
+    itemIds: bulkItemIdsValidation(
+      MAX_BULK_PRICE_SEARCH_ITEMS,
+      `一度に価格調査できるアイテムは${MAX_BULK_PRICE_SEARCH_ITEMS}個までです`
+    ),
+  }),
+], {
+  errorMap: (issue, ctx) => ({
+    message: issue.code === 'invalid_union_discriminator'
+      ? `操作の種類は ${bulkItemActions.join(', ')} のいずれかを指定してください`
+      : ctx.defaultError,
+  }),
+})
+
+/**
+ * 一度に統合できるアイテム数の上限（統合先を除く）
+ */
+export const MAX_MERGE_SOURCE_ITEMS = 20
+
+/**
+ * アイテム統合のバリデーションスキーマ（統合元のアイテムは統合先にまとめた後ゴミ箱へ移動する）
+ */
+export const mergeItemsSchema = z.object({
+  targetId: itemIdSchema.shape.id,
+  sourceIds: bulkItemIdsValidation(
+    MAX_MERGE_SOURCE_ITEMS,
+    `一度に統合できるアイテムは${MAX_MERGE_SOURCE_ITEMS}個までです`
+  ),
+})
+.refine(data => !data.sourceIds.includes(data.targetId), {
+  message: '統合先のアイテムは統合元に指定できません',
+  path: ['sourceIds']
+})
+
+/**
+ * アイテム複製のバリデーションスキーマ（画像は新しいパスにコピーする）
+ */
+export const duplicateItemSchema = z.object({
+  includeImages: z.boolean().optional().default(false),
+})
+
+/**
+ * テンプレートに保存できるフィールド（アイテムと同じ規則で検証する）
+ */
+export const itemTemplateFieldsSchema = baseItemSchema.pick({
+  category: true,
+  manufacturer: true,
+  condition: true,
+  purchaseLocation: true,
+  notes: true,
+  folderId: true,
+})
 
 /**
  * 型エクスポート
@@ -238,4 +525,11 @@ export const searchItemsSchema = z.object({
 export type CreateItemInput = z.infer<typeof createItemSchema>
 export type UpdateItemInput = z.infer<typeof updateItemSchema>
 export type ItemIdInput = z.infer<typeof itemIdSchema>
-export type SearchItemsInput = z.infer<typeof searchItemsSchema>
\ No newline at end of file
+export type ItemRevisionParamsInput = z.infer<typeof itemRevisionParamsSchema>
+export type SearchItemsInput = z.infer<typeof searchItemsSchema>
+export type ItemSortField = typeof itemSortFields[number]
+export type BulkItemAction = typeof bulkItemActions[number]
+export type ItemLoanStatus = typeof itemLoanStatuses[number]
+export type BulkItemOperationInput = z.infer<typeof bulkItemOperationSchema>
+export type MergeItemsInput = z.infer<typeof mergeItemsSchema>
+export type DuplicateItemInput = z.infer<typeof duplicateItemSchema>
\ No newline at end of file
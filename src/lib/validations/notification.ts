@@ -0,0 +1,72 @@
+import { z } from 'zod'
+
+/**
+ * 通知一覧取得時のクエリのバリデーションスキーマ
+ */
+export const notificationListSchema = z.object({
+  unreadOnly: z.enum(['true', 'false'])
+    .optional()
+    .transform(val => val === 'true'),
+
+  limit: z.string()
+    .optional()
+    .transform(val => val ? parseInt(val, 10) : 20)
+    .refine(val => !isNaN(val) && val >= 1 && val <= 50, '取得件数は1〜50で指定してください'),
+})
+
+/**
+ * 通知の既読化のバリデーションスキーマ（idsで指定した通知、またはallで全件）
+ */
+export const markNotificationsReadSchema = z.union([
+  z.object({
+    ids: z.array(z.string().min(1))
+      .min(1, '既読にする通知を指定してください')
+      .max(100, '一度に既読にできる通知は100件までです'),
+  }),
+  z.object({
+    all: z.literal(true),
+  }),
+], {
+  errorMap: () => ({ message: '既読にする通知（ids）または all: true を指定してください' })
+})
+
+/**
+ * Webhook URLのバリデーション（本番環境ではhttpsのみ）
+ */
+const webhookUrlValidation = z.string()
+  .transform(val => val?.trim() || null)
+  .refine(val => !val || val.length <= 500, 'Webhook URLは500文字以内で入力してください')
+  .refine(val => {
+    if (!val) return true
+    try {
+      const url = new URL(val)
+      if (url.protocol === 'https:') return true
+      return url.protocol === 'http:' && process.env.NODE_ENV !== 'production'
+    } catch {
+      return false
+    }
+  }, '有効なWebhook URL（https://〜）を入力してください')
+  .nullable()
+
+/**
+ * 通知の配信設定更新時のバリデーションスキーマ（regenerateWebhookSecret: Webhookの署名用シークレットを再発行する）
+ */
+export const updateNotificationSettingsSchema = z.object({
+  notifyByEmail: z.boolean().optional(),
+  notificationWebhookUrl: webhookUrlValidation.optional(),
+  regenerateWebhookSecret: z.literal(true).optional(),
+})
+.refine(data =>
+  data.notifyByEmail !== undefined ||
+  data.notificationWebhookUrl !== undefined ||
+  data.regenerateWebhookSecret !== undefined, {
+  message: '更新する項目を少なくとも1つ指定してください',
+  path: ['_root']
+})
+
+/**
+ * 型エクスポート
+ */
+export type NotificationListInput = z.infer<typeof notificationListSchema>
+export type MarkNotificationsReadInput = z.infer<typeof markNotificationsReadSchema>
+export type UpdateNotificationSettingsInput = z.infer<typeof updateNotificationSettingsSchema>
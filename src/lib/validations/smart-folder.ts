@@ -0,0 +1,103 @@
+import { z } from 'zod'
+import { searchItemsSchema } from './item'
+import { customFieldFiltersSchema } from './custom-field'
+
+/**
+ * スマートフォルダに保存しないパラメータ（表示中のページ・表示件数・カーソル）
+ */
+const EXCLUDED_QUERY_PARAMS = ['page', 'limit', 'cursor']
+
+/**
+ * 1ユーザーが作成できるスマートフォルダ数の上限
+ */
+export const MAX_SMART_FOLDERS = 50
+
+// スマートフォルダ名のバリデーション
+const smartFolderNameValidation = z.string()
+  .transform(val => val?.trim())
+  .refine(val => val && val.length >= 1, 'スマートフォルダ名は必須です')
+  .refine(val => val && val.length <= 50, 'スマートフォルダ名は50文字以内で入力してください')
+
+/**
+ * 保存する絞り込み条件のバリデーション（/api/items と同じ形式のクエリ文字列）
+ * ページ・表示件数は取り除き、アイテム一覧と同じ規則で検証する
+ */
+export const smartFolderQueryValidation = z.string()
+  .max(2000, '絞り込み条件が長すぎます')
+  .transform(val => {
+    const params = new URLSearchParams(val.trim().replace(/^\?/, ''))
+    EXCLUDED_QUERY_PARAMS.forEach(key => params.delete(key))
+    return params.toString()
+  })
+  .refine(val => val.length > 0, '絞り込み条件を1つ以上指定してください')
+  .superRefine((val, ctx) => {
+    const params = new URLSearchParams(val)
+    const customFieldFilters = Object.fromEntries(
+      Array.from(params.entries())
+        .filter(([key]) => key.startsWith('cf_'))
+        .map(([key, value]) => [key.slice(3), value])
+    )
+
+    const results = [
+      searchItemsSchema.safeParse(Object.fromEntries(params)),
+      customFieldFiltersSchema.safeParse(customFieldFilters),
+    ]
+    results.forEach(result => {
+      if (!result.success) {
+        result.error.issues.forEach(issue => {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message })
+        })
+      }
+    })
+  })
+
+/**
+ * スマートフォルダ作成時のバリデーションスキーマ
+ */
+export const createSmartFolderSchema = z.object({
+  name: smartFolderNameValidation,
+  query: smartFolderQueryValidation,
+})
+
+/**
+ * スマートフォルダ更新時のバリデーションスキーマ
+ */
+export const updateSmartFolderSchema = z.object({
+  name: smartFolderNameValidation.optional(),
+  query: smartFolderQueryValidation.optional(),
+  sortOrder: z.number().int('表示順は整数で指定してください').min(0).max(1000).optional(),
+})
+.refine(data => {
+  // 少なくとも1つのフィールドが更新されていることを確認
+  const hasUpdate = Object.values(data).some(value => value !== undefined)
+  return hasUpdate
+}, {
+  message: '更新する項目を少なくとも1つ指定してください',
+  path: ['_root']
+})
+
+/**
+ * スマートフォルダID パラメータのバリデーション
+ */
+export const smartFolderIdSchema = z.object({
+  id: z.string()
+    .min(1, 'スマートフォルダIDは必須です')
+    .refine(val => /^c[a-z0-9]{24,}$/i.test(val), '有効なスマートフォルダIDを指定してください'),
+})
+
+/**
+ * 一括操作・エクスポートの対象にスマートフォルダを指定する場合のバリデーションスキーマ
+ */
+export const smartFolderScopeSchema = z.object({
+  smartFolderId: z.string()
+    .refine(val => /^c[a-z0-9]{24,}$/i.test(val), '有効なスマートフォルダIDを指定してください')
+    .optional(),
+})
+
+/**
+ * 型エクスポート
+ */
+export type CreateSmartFolderInput = z.infer<typeof createSmartFolderSchema>
+export type UpdateSmartFolderInput = z.infer<typeof updateSmartFolderSchema>
+export type SmartFolderIdInput = z.infer<typeof smartFolderIdSchema>
+export type SmartFolderScopeInput = z.infer<typeof smartFolderScopeSchema>
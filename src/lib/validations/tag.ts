@@ -0,0 +1,80 @@
+import { z } from 'zod'
+
+/**
+ * 1アイテムに付けられるタグ数の上限
+ */
+export const MAX_TAGS_PER_ITEM = 20
+
+/**
+ * タグ名のバリデーション（前後空白除去、カンマは絞り込みの区切り文字のため使用不可）
+ */
+export const tagNameValidation = z.string()
+  .transform(val => val?.trim())
+  .refine(val => val && val.length >= 1, 'タグ名は必須です')
+  .refine(val => val && val.length <= 30, 'タグ名は30文字以内で入力してください')
+  .refine(val => val && !val.includes(','), 'タグ名にカンマは使用できません')
+
+/**
+ * アイテムに付けるタグ名の一覧（重複は除去）
+ */
+export const itemTagsValidation = z.array(tagNameValidation)
+  .max(MAX_TAGS_PER_ITEM, `タグは${MAX_TAGS_PER_ITEM}個まで設定できます`)
+  .transform(tags => Array.from(new Set(tags)))
+
+// 表示色のバリデーション（#RRGGBB形式、空文字はnull）
+const tagColorValidation = z.string()
+  .transform(val => val?.trim() || null)
+  .refine(val => !val || /^#[0-9a-f]{6}$/i.test(val), '色は#RRGGBB形式で指定してください')
+  .nullable()
+  .optional()
+
+/**
+ * タグ作成時のバリデーションスキーマ
+ */
+export const createTagSchema = z.object({
+  name: tagNameValidation,
+  color: tagColorValidation,
+})
+
+/**
+ * タグ更新時のバリデーションスキーマ
+ */
+export const updateTagSchema = z.object({
+  name: tagNameValidation.optional(),
+  color: tagColorValidation,
+})
+.refine(data => {
+  // 少なくとも1つのフィールドが更新されていることを確認
+  const hasUpdate = Object.values(data).some(value => value !== undefined)
+  return hasUpdate
+}, {
+  message: '更新する項目を少なくとも1つ指定してください',
+  path: ['_root']
+})
+
+/**
+ * タグID パラメータのバリデーション
+ */
+export const tagIdSchema = z.object({
+  id: z.string()
+    .min(1, 'タグIDは必須です')
+    .refine(val => /^c[a-z0-9]{24,}$/i.test(val), '有効なタグIDを指定してください'),
+})
+
+/**
+ * タグ一覧取得時のバリデーションスキーマ
+ */
+export const getTagsSchema = z.object({
+  query: z.string()
+    .transform(val => val?.trim())
+    .refine(val => !val || val.length <= 30, '検索キーワードは30文字以内で入力してください')
+    .optional(),
+})
+
+/**
+ * 型エクスポート
+ */
+export type CreateTagInput = z.infer<typeof createTagSchema>
+export type UpdateTagInput = z.infer<typeof updateTagSchema>
+export type TagIdInput = z.infer<typeof tagIdSchema>
+export type GetTagsInput = z.infer<typeof getTagsSchema>
@@ -46,6 +46,63 @@ export function validateImageFile(file: File): string | null {
   return null
 }
 
+/**
+ * 書類（レシート・説明書・保証書）ファイルのバリデーション設定
+ */
+export const documentFileValidationConfig = {
+  maxSize: 20 * 1024 * 1024, // 20MB
+  acceptedFormats: ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'],
+  acceptedExtensions: ['.pdf', '.jpg', '.jpeg', '.png', '.webp'],
+}
+
+/**
+ * 書類ファイルのバリデーション関数
+ */
+export function validateDocumentFile(file: File): string | null {
+  // ファイルサイズチェック
+  if (file.size > documentFileValidationConfig.maxSize) {
+    return 'ファイルサイズは20MB以下にしてください'
+  }
+
+  // ファイル形式チェック
+  if (!documentFileValidationConfig.acceptedFormats.includes(file.type)) {
+    return 'PDF、JPG、PNG、WEBPファイルのみアップロード可能です'
+  }
+
+  // ファイル名拡張子チェック
+  const extension = file.name.toLowerCase().match(/\.[^.]+$/)?.[0]
+  if (!extension || !documentFileValidationConfig.acceptedExtensions.includes(extension)) {
+    return '有効なファイル拡張子を持つファイルを選択してください'
+  }
+
+  return null
+}
+
+// ファイル形式ごとの先頭バイト（offsetの位置から一致するもの）
+const fileSignatures: Record<string, Array<{ bytes: number[]; offset?: number }>> = {
+  'application/pdf': [{ bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }], // %PDF-
+  'image/jpeg': [{ bytes: [0xff, 0xd8, 0xff] }],
+  'image/png': [{ bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }],
+  'image/webp': [{ bytes: [0x52, 0x49, 0x46, 0x46] }, { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 }], // RIFF....WEBP
+}
+
+/**
+ * 書類ファイルの内容（先頭バイト）が申告されたファイル形式と一致するか検証する
+ * @returns エラーメッセージ（問題なければnull）
+ */
+export function validateDocumentContent(content: Uint8Array, mimeType: string): string | null {
+  const signatures = fileSignatures[mimeType]
+  const matches = signatures?.every(({ bytes, offset = 0 }) =>
+    bytes.every((byte, index) => content[offset + index] === byte)
+  )
+
+  if (!matches) {
+    return 'ファイルの内容が形式（PDF、JPG、PNG、WEBP）と一致しません'
+  }
+
+  return null
+}
+
 /**
  * 画像削除時のバリデーションスキーマ
  */
@@ -47,13 +47,15 @@ export const passwordResetSchema = z.object({
 
 /**
  * アカウント削除のバリデーション
+ * Googleログインのためパスワードの代わりにメールアドレスの再入力で本人確認する
  */
 export const deleteAccountSchema = z.object({
   confirmation: z.string()
     .refine(val => val === 'DELETE', 'DELETE と入力してください'),
   
-  password: z.string()
-    .min(1, 'パスワードは必須です'),
+  email: z.string()
+    .email('有効なメールアドレスを入力してください')
+    .max(200, 'メールアドレスは200文字以内で入力してください'),
 })
 
 /**
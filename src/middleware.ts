@@ -28,8 +28,11 @@ export default auth((req) => {
     }
   }
 
-  // APIルート（認証関連を除く）は認証必須
-  if (nextUrl.pathname.startsWith('/api/') && !nextUrl.pathname.startsWith('/api/auth/')) {
+  // APIルート（認証関連と定期実行を除く）は認証必須
+  // 定期実行（/api/cron/）はルート側でCRON_SECRETを検証する
+  if (nextUrl.pathname.startsWith('/api/') &&
+      !nextUrl.pathname.startsWith('/api/auth/') &&
+      !nextUrl.pathname.startsWith('/api/cron/')) {
     if (!isLoggedIn) {
       return NextResponse.redirect(new URL('/auth/signin', nextUrl))
     }
@@ -10,6 +10,7 @@ declare module 'next-auth' {
       subscriptionTier?: string
       aiUsageCount?: number
       aiUsageLimit?: number
+      isAdmin?: boolean
     }
     hasSession: boolean
   }